@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { Cake, EyeOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { QRCodeDisplay } from '@/components/wallet/QRCodeDisplay';
+import { StoredCredential } from '@/lib/credential-storage';
+import { createSdJwtPresentation } from '@/lib/sd-jwt';
+import { AGE_PROOF_THRESHOLDS, createAgeProof, serializeAgeProof } from '@/lib/age-proof';
+
+interface AgeProofBuilderProps {
+  credential: StoredCredential;
+}
+
+export function AgeProofBuilder({ credential }: AgeProofBuilderProps) {
+  const { toast } = useToast();
+  const [ageOver, setAgeOver] = useState<string>(String(AGE_PROOF_THRESHOLDS[0]));
+  const [ageProof, setAgeProof] = useState<string | null>(null);
+
+  const canProve = !!credential.sdJwt && !!credential.ageProofSeed && !!credential.dateOfBirth;
+
+  const handleCreate = () => {
+    if (!canProve) return;
+
+    // The presentation discloses no claims; it only carries the signed commitment
+    const presentation = createSdJwtPresentation(credential.sdJwt!, []);
+    const result = createAgeProof(presentation, credential.ageProofSeed!, credential.dateOfBirth, Number(ageOver));
+
+    if (!result.success || !result.proof) {
+      toast({
+        title: 'Cannot Create Proof',
+        description: result.error || 'Failed to create age proof',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setAgeProof(serializeAgeProof(result.proof));
+  };
+
+  return (
+    <Dialog onOpenChange={(open) => !open && setAgeProof(null)}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Cake className="w-4 h-4 mr-2" />
+          Prove Age
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Age Proof</DialogTitle>
+          <DialogDescription>
+            Prove you are over an age threshold without revealing your date of birth.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!canProve ? (
+          <div className="p-4 rounded-lg bg-secondary border border-border text-center">
+            <EyeOff className="w-8 h-8 mx-auto text-muted-foreground mb-2" />
+            <p className="text-sm text-muted-foreground">
+              This credential has no age commitment. Ask your issuer to reissue it.
+            </p>
+          </div>
+        ) : ageProof ? (
+          <div className="flex flex-col items-center gap-4 py-2">
+            <QRCodeDisplay value={ageProof} title={`Over ${ageOver} Proof`} size={240} />
+            <Button variant="ghost" size="sm" onClick={() => setAgeProof(null)}>
+              Change Threshold
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Age Threshold</Label>
+              <Select value={ageOver} onValueChange={setAgeOver}>
+                <SelectTrigger className="bg-secondary">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {AGE_PROOF_THRESHOLDS.map(threshold => (
+                    <SelectItem key={threshold} value={String(threshold)}>
+                      Over {threshold}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button className="w-full gradient-primary text-primary-foreground" onClick={handleCreate}>
+              Create Proof
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,276 @@
+import { useState, useEffect } from 'react';
+import { ScrollText, Search, ShieldCheck, ShieldAlert, AlertTriangle, Loader2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAuth } from '@/contexts/AuthContext';
+import { getIssuerStatus } from '@/lib/issuer-config';
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_PAGE_SIZE,
+  AuditAction,
+  AuditEntry,
+  AuditFilters,
+  AuditIntegrityResult,
+  listAuditEntries,
+  verifyAuditLogIntegrity,
+} from '@/lib/audit-log';
+
+const ACTION_STYLES: Record<AuditAction, string> = {
+  'credential.issued': 'bg-green-500/20 text-green-400 border-green-500/30',
+  'credential.revoked': 'bg-red-500/20 text-red-400 border-red-500/30',
+  'credential.suspended': 'bg-orange-500/20 text-orange-400 border-orange-500/30',
+  'credential.reinstated': 'bg-green-500/20 text-green-400 border-green-500/30',
+  'credential.superseded': 'bg-secondary text-muted-foreground border-border',
+  'credential.lookup': 'bg-blue-500/20 text-blue-400 border-blue-500/30',
+  'role.granted': 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30',
+  'role.removed': 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30',
+};
+
+// Select value standing for "no action filter"
+const ALL_ACTIONS = 'all';
+
+function formatDetails(details: Record<string, unknown>): string {
+  return Object.entries(details)
+    .filter(([, value]) => value !== null && value !== undefined && value !== '')
+    .map(([key, value]) => `${key}: ${typeof value === 'object' ? JSON.stringify(value) : String(value)}`)
+    .join(', ');
+}
+
+// Admin view of the audit log with filters and a check of the hash chain
+export function AuditLogViewer() {
+  const { user } = useAuth();
+  const [authorized, setAuthorized] = useState(false);
+  const [filters, setFilters] = useState<AuditFilters>({});
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [integrity, setIntegrity] = useState<AuditIntegrityResult | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  const loadEntries = async (activeFilters: AuditFilters) => {
+    setIsLoading(true);
+    try {
+      setEntries(await listAuditEntries(activeFilters));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    const loadIssuer = async () => {
+      const status = await getIssuerStatus();
+      setAuthorized(status.authorized);
+      if (status.authorized) {
+        await loadEntries({});
+      }
+    };
+    loadIssuer();
+  }, [user]);
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await loadEntries(filters);
+  };
+
+  const handleVerify = async () => {
+    setIsVerifying(true);
+    try {
+      setIntegrity(await verifyAuditLogIntegrity());
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  return (
+    <Card className="border-border bg-card">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-3">
+            <div className="w-12 h-12 rounded-lg gradient-primary flex items-center justify-center">
+              <ScrollText className="w-6 h-6 text-primary-foreground" />
+            </div>
+            <div>
+              <CardTitle>Audit Log</CardTitle>
+              <CardDescription>Who issued, revoked, looked up or changed what</CardDescription>
+            </div>
+          </div>
+          {authorized && (
+            <Button variant="outline" size="sm" onClick={handleVerify} disabled={isVerifying}>
+              {isVerifying ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <ShieldCheck className="w-4 h-4 mr-2" />
+              )}
+              Check Integrity
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!authorized ? (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Not Authorized</AlertTitle>
+            <AlertDescription>Only administrators can view the audit log.</AlertDescription>
+          </Alert>
+        ) : (
+          <>
+            {integrity && (
+              integrity.success && integrity.valid ? (
+                <Alert className="border-green-500/30 bg-green-500/10">
+                  <ShieldCheck className="h-4 w-4 text-green-400" />
+                  <AlertTitle>Audit Log Intact</AlertTitle>
+                  <AlertDescription className="space-y-1">
+                    <p>All {integrity.checked} entries link to each other and match their hashes.</p>
+                    <p className="font-mono text-xs break-all">Latest entry hash: {integrity.headHash}</p>
+                  </AlertDescription>
+                </Alert>
+              ) : (
+                <Alert variant="destructive">
+                  <ShieldAlert className="h-4 w-4" />
+                  <AlertTitle>{integrity.success ? 'Tampering Detected' : 'Check Failed'}</AlertTitle>
+                  <AlertDescription>
+                    {integrity.success
+                      ? `Entry #${integrity.brokenAt}: ${integrity.reason}. ${integrity.checked} entries before it are intact.`
+                      : integrity.error}
+                  </AlertDescription>
+                </Alert>
+              )
+            )}
+
+            <form onSubmit={handleSearch} className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="auditActor">Actor</Label>
+                <Input
+                  id="auditActor"
+                  placeholder="Username or user ID"
+                  value={filters.actor || ''}
+                  onChange={(e) => setFilters({ ...filters, actor: e.target.value })}
+                  className="bg-secondary"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="auditAction">Action</Label>
+                <Select
+                  value={filters.action || ALL_ACTIONS}
+                  onValueChange={(value) =>
+                    setFilters({ ...filters, action: value === ALL_ACTIONS ? undefined : (value as AuditAction) })
+                  }
+                >
+                  <SelectTrigger id="auditAction" className="bg-secondary">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_ACTIONS}>All actions</SelectItem>
+                    {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map((action) => (
+                      <SelectItem key={action} value={action}>
+                        {AUDIT_ACTION_LABELS[action]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="auditCitizen">Citizen Address</Label>
+                <Input
+                  id="auditCitizen"
+                  placeholder="0x..."
+                  value={filters.citizenAddress || ''}
+                  onChange={(e) => setFilters({ ...filters, citizenAddress: e.target.value })}
+                  className="bg-secondary font-mono"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="auditFrom">From</Label>
+                <Input
+                  id="auditFrom"
+                  type="date"
+                  value={filters.from || ''}
+                  onChange={(e) => setFilters({ ...filters, from: e.target.value || undefined })}
+                  className="bg-secondary"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="auditTo">To</Label>
+                <Input
+                  id="auditTo"
+                  type="date"
+                  value={filters.to || ''}
+                  onChange={(e) => setFilters({ ...filters, to: e.target.value || undefined })}
+                  className="bg-secondary"
+                />
+              </div>
+              <Button type="submit" className="md:col-span-2" disabled={isLoading}>
+                <Search className="w-4 h-4 mr-2" />
+                {isLoading ? 'Searching...' : 'Search'}
+              </Button>
+            </form>
+
+            {entries.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">
+                {isLoading ? 'Loading entries...' : 'No entries match these filters'}
+              </p>
+            ) : (
+              <>
+                <ScrollArea className="h-96 rounded-lg border border-border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>#</TableHead>
+                        <TableHead>Time</TableHead>
+                        <TableHead>Actor</TableHead>
+                        <TableHead>Action</TableHead>
+                        <TableHead>Citizen</TableHead>
+                        <TableHead>Details</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {entries.map((entry) => (
+                        <TableRow key={entry.seq}>
+                          <TableCell className="text-xs text-muted-foreground" title={`Hash ${entry.entryHash}`}>
+                            {entry.seq}
+                          </TableCell>
+                          <TableCell className="text-xs whitespace-nowrap">
+                            {new Date(entry.createdAt).toLocaleString()}
+                          </TableCell>
+                          <TableCell className="text-xs">
+                            {entry.actorLabel || (entry.actorId ? `${entry.actorId.slice(0, 8)}...` : 'System')}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="outline" className={`whitespace-nowrap ${ACTION_STYLES[entry.action]}`}>
+                              {AUDIT_ACTION_LABELS[entry.action]}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="font-mono text-xs">
+                            {entry.citizenAddress
+                              ? `${entry.citizenAddress.slice(0, 6)}...${entry.citizenAddress.slice(-4)}`
+                              : '-'}
+                          </TableCell>
+                          <TableCell className="text-xs text-muted-foreground break-all">
+                            {entry.credentialId && <p className="font-mono">{entry.credentialId}</p>}
+                            {formatDetails(entry.details)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </ScrollArea>
+                {entries.length === AUDIT_PAGE_SIZE && (
+                  <p className="text-xs text-muted-foreground">
+                    Showing the latest {AUDIT_PAGE_SIZE} matching entries. Narrow the filters to see older ones.
+                  </p>
+                )}
+              </>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
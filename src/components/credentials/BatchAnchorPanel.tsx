@@ -0,0 +1,208 @@
+import { useState, useEffect } from 'react';
+import { GitMerge, Loader2, RefreshCw, ExternalLink } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { useWallet } from '@/contexts/WalletContext';
+import { getCredentialBatchRegistryAddress } from '@/lib/contracts';
+import { getIssuerStatus } from '@/lib/issuer-config';
+import {
+  AnchorBatch,
+  MAX_BATCH_SIZE,
+  anchorPendingCredentials,
+  listAnchorBatches,
+  listPendingBatchCredentials,
+} from '@/lib/batch-anchoring';
+import { addTransaction } from '@/components/wallet/TransactionHistory';
+
+export function BatchAnchorPanel() {
+  const { address, signWithWallet, isConnected } = useWallet();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [authorized, setAuthorized] = useState(false);
+  const [registryAddress, setRegistryAddress] = useState<string | null>(getCredentialBatchRegistryAddress());
+  const [pendingCount, setPendingCount] = useState(0);
+  const [batches, setBatches] = useState<AnchorBatch[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isAnchoring, setIsAnchoring] = useState(false);
+
+  const loadBatches = async () => {
+    // The registry is registered in the contract section above, so read it again on refresh
+    const currentRegistry = getCredentialBatchRegistryAddress();
+    setRegistryAddress(currentRegistry);
+    setIsLoading(true);
+    try {
+      const [pending, recent] = await Promise.all([
+        currentRegistry ? listPendingBatchCredentials(currentRegistry) : Promise.resolve([]),
+        listAnchorBatches(),
+      ]);
+      setPendingCount(pending.length);
+      setBatches(recent);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    const loadIssuer = async () => {
+      const status = await getIssuerStatus();
+      setAuthorized(status.authorized);
+      if (status.authorized) {
+        await loadBatches();
+      }
+    };
+    loadIssuer();
+  }, [user]);
+
+  const handleAnchor = async () => {
+    setIsAnchoring(true);
+    try {
+      const signResult = await signWithWallet((privateKey) => anchorPendingCredentials(privateKey));
+      const result = signResult.success ? signResult.result : null;
+
+      if (result?.success) {
+        if (result.txHash) {
+          addTransaction({
+            type: 'issue',
+            txHash: result.txHash,
+            from: address,
+            to: registryAddress || '',
+            status: 'confirmed',
+            network: 'sepolia',
+            description: `Anchored a batch of ${result.leafCount} credentials`,
+          });
+        }
+        toast({
+          title: 'Batch Anchored',
+          description: result.txHash
+            ? `${result.leafCount} credentials anchored. TX: ${result.txHash.slice(0, 10)}...`
+            : `${result.leafCount} credentials recorded under a root that was already on-chain`,
+        });
+      } else {
+        toast({
+          title: 'Anchoring Failed',
+          description: signResult.error || result?.error || 'Failed to anchor batch',
+          variant: 'destructive',
+        });
+      }
+    } catch (error: unknown) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'An error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsAnchoring(false);
+      await loadBatches();
+    }
+  };
+
+  if (!authorized) {
+    return null;
+  }
+
+  return (
+    <Card className="border-border bg-card">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <GitMerge className="w-5 h-5 text-primary" />
+            <CardTitle className="text-lg">Batch Anchoring</CardTitle>
+          </div>
+          <Button variant="ghost" size="sm" onClick={loadBatches} disabled={isLoading}>
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+        <CardDescription>
+          {registryAddress
+            ? 'New credentials wait here until their Merkle root is anchored'
+            : 'Register a batch registry above to anchor credentials in batches'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {registryAddress && (
+          <>
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">Pending credentials</span>
+              <Badge className={pendingCount > 0
+                ? 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30'
+                : 'bg-green-500/20 text-green-400 border-green-500/30'}
+              >
+                {pendingCount}{pendingCount === MAX_BATCH_SIZE ? '+' : ''}
+              </Badge>
+            </div>
+
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button className="w-full" disabled={pendingCount === 0 || isAnchoring || !isConnected}>
+                  {isAnchoring ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      Anchoring...
+                    </>
+                  ) : (
+                    'Anchor Batch'
+                  )}
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Anchor {pendingCount} credentials?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    A Merkle tree is built over the pending credentials and its root is anchored in a single
+                    Sepolia transaction. Each credential then stores its inclusion proof.
+                    {pendingCount === MAX_BATCH_SIZE && ` At most ${MAX_BATCH_SIZE} credentials are anchored per batch.`}
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={handleAnchor}>Anchor Batch</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </>
+        )}
+
+        {batches.length > 0 && (
+          <div className="space-y-2">
+            <span className="text-xs text-muted-foreground">Recent batches</span>
+            {batches.map((batch) => (
+              <div key={batch.id} className="p-2 rounded-lg bg-secondary/50 border border-border space-y-1">
+                <div className="flex items-center justify-between text-xs">
+                  <span>{batch.leafCount} credential{batch.leafCount === 1 ? '' : 's'}</span>
+                  <span className="text-muted-foreground">{new Date(batch.anchoredAt).toLocaleString()}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <code className="text-xs font-mono text-primary flex-1 truncate">{batch.merkleRoot}</code>
+                  {batch.txHash && (
+                    <a
+                      href={`https://sepolia.etherscan.io/tx/${batch.txHash}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-primary"
+                    >
+                      <ExternalLink className="w-3 h-3" />
+                    </a>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
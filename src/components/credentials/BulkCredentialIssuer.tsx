@@ -0,0 +1,480 @@
+import { useState, useEffect, useRef } from 'react';
+import { Users, FileUp, Download, Play, Pause, SkipForward, Info, CheckCircle2, AlertTriangle } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useWallet } from '@/contexts/WalletContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { addTransaction } from '@/components/wallet/TransactionHistory';
+import { getIssuerStatus, isAuthorizedIssuer } from '@/lib/issuer-config';
+import {
+  CredentialSchema,
+  DEFAULT_CREDENTIAL_TYPE,
+  getLatestActiveSchemas,
+  listCredentialSchemas,
+} from '@/lib/credential-schemas';
+import {
+  BULK_CSV_TEMPLATE,
+  BulkIssuanceJob,
+  BulkIssuanceRow,
+  BulkRowStatus,
+  clearBulkJob,
+  createBulkIssuanceJob,
+  getPendingRows,
+  getSavedBulkJob,
+  issueBulkRow,
+  parseBulkIssuanceCsv,
+  saveBulkJob,
+  toBulkReportCsv,
+  validateBulkRows,
+} from '@/lib/bulk-issuance';
+import { downloadFile } from '@/lib/download';
+import { getCredentialBatchRegistryAddress } from '@/lib/contracts';
+
+const ROW_STATUS_STYLES: Record<BulkRowStatus, { label: string; className: string }> = {
+  ready: { label: 'Ready', className: 'bg-primary/20 text-primary border-primary/30' },
+  issuing: { label: 'Issuing', className: 'bg-blue-500/20 text-blue-400 border-blue-500/30' },
+  issued: { label: 'Issued', className: 'bg-green-500/20 text-green-400 border-green-500/30' },
+  failed: { label: 'Failed', className: 'bg-destructive/20 text-destructive border-destructive/30' },
+  invalid: { label: 'Invalid', className: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30' },
+  skipped: { label: 'Skipped', className: 'bg-secondary text-muted-foreground border-border' },
+};
+
+export function BulkCredentialIssuer() {
+  const { address, signWithWallet, isConnected } = useWallet();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Checked between rows so a running batch stops after the current credential
+  const pauseRequested = useRef(false);
+  const [authorized, setAuthorized] = useState(false);
+  const [schemas, setSchemas] = useState<CredentialSchema[]>([]);
+  const [credentialType, setCredentialType] = useState(DEFAULT_CREDENTIAL_TYPE);
+  const [job, setJob] = useState<BulkIssuanceJob | null>(null);
+  const [restored, setRestored] = useState(false);
+  const [isValidating, setIsValidating] = useState(false);
+  const [validatedCount, setValidatedCount] = useState(0);
+  const [isIssuing, setIsIssuing] = useState(false);
+
+  useEffect(() => {
+    const loadIssuer = async () => {
+      const status = await getIssuerStatus();
+      setAuthorized(status.authorized);
+      if (status.authorized) {
+        setSchemas(getLatestActiveSchemas(await listCredentialSchemas()));
+      }
+    };
+    loadIssuer();
+  }, [user]);
+
+  // An unfinished batch survives page reloads
+  useEffect(() => {
+    const saved = getSavedBulkJob();
+    if (saved) {
+      setJob(saved);
+      setCredentialType(saved.credentialType);
+      setRestored(true);
+    }
+  }, []);
+
+  // With a batch registry, credentials are anchored together later instead of one transaction each
+  const batchMode = !!getCredentialBatchRegistryAddress();
+  const selectedSchema = schemas.find((schema) => schema.credentialType === credentialType);
+  const countByStatus = (status: BulkRowStatus) => job?.rows.filter((row) => row.status === status).length || 0;
+  const pendingCount = job ? getPendingRows(job).length : 0;
+  const issuedCount = countByStatus('issued');
+  const failedCount = countByStatus('failed');
+  const issuableTotal = job ? job.rows.filter((row) => row.status !== 'invalid' && row.status !== 'skipped').length : 0;
+  const hasStarted = !!job?.rows.some((row) => ['issuing', 'issued', 'failed', 'skipped'].includes(row.status));
+
+  const downloadTemplate = () => {
+    const fieldKeys = selectedSchema?.fields.map((field) => field.key) || [];
+    const header = BULK_CSV_TEMPLATE.trimEnd() + fieldKeys.map((key) => `,${key}`).join('');
+    downloadFile(`bulk-issuance-${credentialType}.csv`, `${header}\n`, 'text/csv');
+  };
+
+  const downloadReport = () => {
+    if (!job) return;
+    downloadFile(`bulk-issuance-report-${job.createdAt.slice(0, 10)}.csv`, toBulkReportCsv(job), 'text/csv');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !selectedSchema) return;
+
+    const parsed = parseBulkIssuanceCsv(await file.text(), selectedSchema);
+    if (!parsed.success || !parsed.rows) {
+      toast({
+        title: 'Invalid CSV',
+        description: parsed.error || 'The file could not be read',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsValidating(true);
+    setValidatedCount(0);
+    setRestored(false);
+    try {
+      const rows = await validateBulkRows(parsed.rows, selectedSchema, setValidatedCount);
+      const newJob = createBulkIssuanceJob(file.name, selectedSchema, rows);
+      setJob(newJob);
+      saveBulkJob(newJob);
+
+      const invalid = rows.filter((row) => row.status === 'invalid').length;
+      toast({
+        title: 'Batch Checked',
+        description: `${rows.length - invalid} of ${rows.length} rows are ready to issue`,
+        variant: invalid > 0 ? 'destructive' : 'default',
+      });
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  const handleDiscard = () => {
+    clearBulkJob();
+    setJob(null);
+    setRestored(false);
+  };
+
+  // Issue the pending rows in order; stops at the first failure so the cause can be fixed
+  const runBatch = async (startJob: BulkIssuanceJob) => {
+    if (!isConnected || !address) {
+      toast({
+        title: 'Wallet Required',
+        description: 'Please connect your wallet first',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const isAuthorized = await isAuthorizedIssuer();
+    if (!isAuthorized) {
+      toast({
+        title: 'Not Authorized',
+        description: 'You are not authorized to issue credentials',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    pauseRequested.current = false;
+    setIsIssuing(true);
+
+    let current = startJob;
+    const updateRow = (row: BulkIssuanceRow) => {
+      current = { ...current, rows: current.rows.map((r) => (r.line === row.line ? row : r)) };
+      setJob(current);
+      saveBulkJob(current);
+    };
+
+    try {
+      // The key is decrypted once for the whole batch
+      const signResult = await signWithWallet(async (privateKey) => {
+        for (const row of getPendingRows(current)) {
+          if (pauseRequested.current) {
+            return 'paused' as const;
+          }
+
+          updateRow({ ...row, status: 'issuing' });
+          const result = await issueBulkRow(privateKey, current, row);
+          updateRow(result);
+
+          if (result.status === 'failed') {
+            return 'failed' as const;
+          }
+          if (result.txHash) {
+            addTransaction({
+              type: 'issue',
+              txHash: result.txHash,
+              from: address,
+              to: result.citizenAddress,
+              status: 'confirmed',
+              network: 'sepolia',
+              description: `Issued ${selectedSchema?.name || 'credential'} to ${result.fullName} (bulk)`,
+            });
+          }
+        }
+        return 'done' as const;
+      });
+
+      if (!signResult.success) {
+        toast({
+          title: 'Issuance Failed',
+          description: signResult.error || 'Unable to access wallet',
+          variant: 'destructive',
+        });
+      } else if (signResult.result === 'failed') {
+        const failed = current.rows.find((row) => row.status === 'failed');
+        toast({
+          title: 'Batch Paused',
+          description: `Line ${failed?.line}: ${failed?.error}. Resume to retry or skip the row.`,
+          variant: 'destructive',
+        });
+      } else if (signResult.result === 'paused') {
+        toast({
+          title: 'Batch Paused',
+          description: 'Resume at any time; issued rows will not be issued again',
+        });
+      } else {
+        toast({
+          title: 'Batch Complete',
+          description: `${current.rows.filter((row) => row.status === 'issued').length} credentials issued`,
+        });
+      }
+    } catch (error: unknown) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'An error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsIssuing(false);
+    }
+  };
+
+  const handleSkipFailed = () => {
+    if (!job) return;
+    const skipped: BulkIssuanceJob = {
+      ...job,
+      rows: job.rows.map((row) => (row.status === 'failed' ? { ...row, status: 'skipped' } : row)),
+    };
+    setJob(skipped);
+    saveBulkJob(skipped);
+    runBatch(skipped);
+  };
+
+  const processed = issuableTotal - pendingCount;
+
+  return (
+    <Card className="border-border bg-card">
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className="w-12 h-12 rounded-lg gradient-primary flex items-center justify-center">
+            <Users className="w-6 h-6 text-primary-foreground" />
+          </div>
+          <div>
+            <CardTitle>Bulk Issuance</CardTitle>
+            <CardDescription>Issue credentials to many citizens from a CSV file</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!authorized && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Not Authorized</AlertTitle>
+            <AlertDescription>Only administrators can issue credentials.</AlertDescription>
+          </Alert>
+        )}
+
+        <Alert className="border-primary/30 bg-primary/5">
+          <Info className="h-4 w-4 text-primary" />
+          <AlertDescription>
+            Columns: address, full_name, national_id, date_of_birth and expiry_date (YYYY-MM-DD), plus the
+            fields of the credential type.{' '}
+            {batchMode
+              ? 'Credentials wait for the next anchored batch, so no transaction is sent per row.'
+              : 'Each credential is anchored in its own transaction.'}{' '}
+            Face verification is only available for single issuance.
+          </AlertDescription>
+        </Alert>
+
+        {!job && (
+          <div className="space-y-2">
+            <Label htmlFor="bulkCredentialType">Credential Type</Label>
+            <div className="flex gap-2">
+              <Select value={credentialType} onValueChange={setCredentialType}>
+                <SelectTrigger id="bulkCredentialType" className="bg-secondary">
+                  <SelectValue placeholder="Select a credential type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {schemas.map((schema) => (
+                    <SelectItem key={schema.id} value={schema.credentialType}>
+                      {schema.name} (v{schema.version})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button type="button" variant="outline" onClick={downloadTemplate} disabled={!selectedSchema}>
+                <Download className="w-4 h-4 mr-2" />
+                Template
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {!job && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="text/csv,.csv"
+              className="hidden"
+              onChange={handleFile}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full"
+              disabled={!authorized || !selectedSchema || isValidating}
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <FileUp className="w-4 h-4 mr-2" />
+              {isValidating ? `Checking rows... (${validatedCount})` : 'Upload CSV'}
+            </Button>
+          </>
+        )}
+
+        {job && (
+          <div className="space-y-4">
+            {restored && (
+              <Alert className="border-yellow-500/30 bg-yellow-500/10">
+                <Info className="h-4 w-4 text-yellow-500" />
+                <AlertTitle className="text-yellow-500">Unfinished Batch Restored</AlertTitle>
+                <AlertDescription>
+                  {job.fileName} from {new Date(job.createdAt).toLocaleString()}. Resume to issue the remaining rows.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="font-medium">{job.fileName}</span>
+              {(Object.keys(ROW_STATUS_STYLES) as BulkRowStatus[]).map((status) => {
+                const count = countByStatus(status);
+                return count > 0 ? (
+                  <Badge key={status} variant="outline" className={ROW_STATUS_STYLES[status].className}>
+                    {count} {ROW_STATUS_STYLES[status].label.toLowerCase()}
+                  </Badge>
+                ) : null;
+              })}
+            </div>
+
+            {hasStarted && (
+              <div className="space-y-1">
+                <Progress value={issuableTotal > 0 ? (processed / issuableTotal) * 100 : 0} />
+                <p className="text-xs text-muted-foreground">
+                  {processed} of {issuableTotal} rows processed, {issuedCount} issued
+                </p>
+              </div>
+            )}
+
+            <ScrollArea className="h-72 rounded-lg border border-border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-14">Line</TableHead>
+                    <TableHead>Citizen</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {job.rows.map((row) => (
+                    <TableRow key={row.line}>
+                      <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                      <TableCell>
+                        <p className="font-medium">{row.fullName || '-'}</p>
+                        <p className="font-mono text-xs text-muted-foreground truncate max-w-[220px]">{row.citizenAddress || '-'}</p>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={ROW_STATUS_STYLES[row.status].className}>
+                          {ROW_STATUS_STYLES[row.status].label}
+                        </Badge>
+                        {row.error && <p className="text-xs text-muted-foreground mt-1">{row.error}</p>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+
+            {isIssuing ? (
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={() => { pauseRequested.current = true; }}
+              >
+                <Pause className="w-4 h-4 mr-2" />
+                Pause After Current Row
+              </Button>
+            ) : pendingCount > 0 && (
+              <div className="flex gap-2">
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button className="flex-1 gradient-primary text-primary-foreground" disabled={!isConnected || !authorized}>
+                      <Play className="w-4 h-4 mr-2" />
+                      {hasStarted ? `Resume (${pendingCount} left)` : `Issue ${pendingCount} Credentials`}
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Issue {pendingCount} credentials?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        {batchMode
+                          ? 'Each credential is signed with your issuer wallet and waits for the next anchored batch.'
+                          : `Each credential is signed with your issuer wallet and anchored in its own Sepolia transaction. Make sure the wallet holds enough ETH for ${pendingCount} transactions.`}
+                        {countByStatus('invalid') > 0 && ` ${countByStatus('invalid')} invalid rows will be left out.`}
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => runBatch(job)}>
+                        Issue Credentials
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+                {failedCount > 0 && (
+                  <Button variant="outline" onClick={handleSkipFailed} disabled={!isConnected || !authorized}>
+                    <SkipForward className="w-4 h-4 mr-2" />
+                    Skip Failed
+                  </Button>
+                )}
+              </div>
+            )}
+
+            {!isIssuing && hasStarted && pendingCount === 0 && (
+              <Alert className="border-green-500/30 bg-green-500/10">
+                <CheckCircle2 className="h-4 w-4 text-green-500" />
+                <AlertTitle className="text-green-500">Batch Finished</AlertTitle>
+                <AlertDescription>
+                  {issuedCount} credential{issuedCount === 1 ? '' : 's'} issued. Download the report for credential IDs and transactions.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="flex gap-2">
+              <Button variant="outline" className="flex-1" onClick={downloadReport} disabled={isIssuing}>
+                <Download className="w-4 h-4 mr-2" />
+                Download Report
+              </Button>
+              <Button variant="ghost" className="flex-1" onClick={handleDiscard} disabled={isIssuing}>
+                {pendingCount > 0 && hasStarted ? 'Discard Batch' : 'New Batch'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
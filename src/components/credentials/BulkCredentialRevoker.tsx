@@ -0,0 +1,486 @@
+import { useState, useEffect, useRef } from 'react';
+import { ShieldOff, FileUp, Download, Search, Pause, Play, CheckCircle2, AlertTriangle, Info } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useWallet } from '@/contexts/WalletContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { addTransaction } from '@/components/wallet/TransactionHistory';
+import { getIssuerStatus, isAuthorizedIssuer } from '@/lib/issuer-config';
+import { LIFECYCLE_REASON_CODES, getReasonLabel, validateTransition } from '@/lib/credential-lifecycle';
+import { publishStatusLists } from '@/lib/status-list';
+import {
+  RevocationTarget,
+  RevocationTargetStatus,
+  completeBulkRevocation,
+  lookupRevocationTargets,
+  parseRevocationAddresses,
+  recordSkippedTargets,
+  revokeTarget,
+  startBulkRevocation,
+  toRevocationReportCsv,
+} from '@/lib/bulk-revocation';
+import { downloadFile } from '@/lib/download';
+
+const TARGET_STATUS_STYLES: Record<RevocationTargetStatus, { label: string; className: string }> = {
+  ready: { label: 'To revoke', className: 'bg-primary/20 text-primary border-primary/30' },
+  revoking: { label: 'Revoking', className: 'bg-blue-500/20 text-blue-400 border-blue-500/30' },
+  revoked: { label: 'Revoked', className: 'bg-green-500/20 text-green-400 border-green-500/30' },
+  failed: { label: 'Failed', className: 'bg-destructive/20 text-destructive border-destructive/30' },
+  none: { label: 'Nothing to revoke', className: 'bg-secondary text-muted-foreground border-border' },
+  invalid: { label: 'Invalid', className: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30' },
+};
+
+export function BulkCredentialRevoker() {
+  const { address, signWithWallet, isConnected } = useWallet();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Set by the pause button; checked before each address
+  const pauseRequested = useRef(false);
+  const [authorized, setAuthorized] = useState(false);
+  const [addressInput, setAddressInput] = useState('');
+  const [targets, setTargets] = useState<RevocationTarget[] | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [checkedCount, setCheckedCount] = useState(0);
+  const [reasonCode, setReasonCode] = useState('');
+  const [note, setNote] = useState('');
+  // Database record of the run; set once the first address is processed
+  const [runId, setRunId] = useState<string | null>(null);
+  const [isRevoking, setIsRevoking] = useState(false);
+
+  useEffect(() => {
+    const loadIssuer = async () => {
+      const status = await getIssuerStatus();
+      setAuthorized(status.authorized);
+    };
+    loadIssuer();
+  }, [user]);
+
+  const countByStatus = (status: RevocationTargetStatus) => targets?.filter((t) => t.status === status).length || 0;
+  const pendingTargets = targets?.filter((t) => t.status === 'ready') || [];
+  const credentialCount = pendingTargets.reduce((sum, t) => sum + t.credentials.length, 0);
+  const revocableTotal = targets?.filter((t) => ['ready', 'revoking', 'revoked', 'failed'].includes(t.status)).length || 0;
+  const processed = revocableTotal - pendingTargets.length;
+  const reason = { code: reasonCode, note: note.trim() || undefined };
+  const reasonError = reasonCode ? validateTransition('active', 'revoke', reasonCode, note) : null;
+
+  const checkAddresses = async (text: string) => {
+    const parsed = parseRevocationAddresses(text);
+    if (!parsed.success || !parsed.addresses) {
+      toast({
+        title: 'No Addresses',
+        description: parsed.error || 'Enter or upload wallet addresses',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsChecking(true);
+    setCheckedCount(0);
+    try {
+      const found = await lookupRevocationTargets(parsed.addresses, setCheckedCount);
+      setTargets(found);
+      setRunId(null);
+
+      const ready = found.filter((t) => t.status === 'ready').length;
+      toast({
+        title: 'Addresses Checked',
+        description: `${ready} of ${found.length} addresses hold credentials that can be revoked`,
+      });
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const text = await file.text();
+    setAddressInput(text);
+    await checkAddresses(text);
+  };
+
+  const downloadReport = () => {
+    if (!targets) return;
+    downloadFile(
+      `bulk-revocation-report-${new Date().toISOString().slice(0, 10)}.csv`,
+      toRevocationReportCsv(targets, reason),
+      'text/csv'
+    );
+  };
+
+  const handleReset = () => {
+    setTargets(null);
+    setRunId(null);
+    setAddressInput('');
+    setReasonCode('');
+    setNote('');
+  };
+
+  // Revoke the remaining addresses in order; a failed address is recorded and the run continues
+  const runRevocation = async () => {
+    if (!targets) return;
+
+    if (!isConnected || !address) {
+      toast({
+        title: 'Wallet Required',
+        description: 'Please connect your wallet first',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const isAuthorized = await isAuthorizedIssuer();
+    if (!isAuthorized) {
+      toast({
+        title: 'Not Authorized',
+        description: 'Only administrators can revoke credentials',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    pauseRequested.current = false;
+    setIsRevoking(true);
+
+    let current = targets;
+    const updateTarget = (target: RevocationTarget) => {
+      current = current.map((t) => (t.input === target.input ? target : t));
+      setTargets(current);
+    };
+
+    try {
+      let bulkRevocationId = runId;
+      if (!bulkRevocationId) {
+        const started = await startBulkRevocation(reason, targets.length);
+        if (!started.success || !started.id) {
+          toast({
+            title: 'Revocation Failed',
+            description: started.error || 'Failed to start bulk revocation',
+            variant: 'destructive',
+          });
+          return;
+        }
+        bulkRevocationId = started.id;
+        setRunId(started.id);
+        await recordSkippedTargets(started.id, targets);
+      }
+      const id = bulkRevocationId;
+
+      // The key is decrypted once for the whole run; status lists are republished once at the end
+      const signResult = await signWithWallet(async (privateKey) => {
+        let paused = false;
+        for (const target of current.filter((t) => t.status === 'ready')) {
+          if (pauseRequested.current) {
+            paused = true;
+            break;
+          }
+
+          updateTarget({ ...target, status: 'revoking' });
+          const result = await revokeTarget(privateKey, id, target, reason);
+          updateTarget(result);
+
+          result.outcomes.filter((outcome) => outcome.txHash).forEach((outcome) => {
+            addTransaction({
+              type: 'revoke',
+              txHash: outcome.txHash!,
+              from: address,
+              to: result.citizenAddress,
+              status: 'confirmed',
+              network: 'sepolia',
+              description: `Revoked ${outcome.typeName} for ${result.citizenAddress} (bulk)`,
+            });
+          });
+        }
+
+        if (!paused) {
+          await completeBulkRevocation(id);
+        }
+        const published = await publishStatusLists(privateKey);
+        return { paused, warning: published.success ? undefined : `Status lists were not republished: ${published.error}` };
+      });
+
+      if (!signResult.success || !signResult.result) {
+        toast({
+          title: 'Revocation Failed',
+          description: signResult.error || 'Unable to access wallet',
+          variant: 'destructive',
+        });
+      } else if (signResult.result.paused) {
+        toast({
+          title: 'Revocation Paused',
+          description: signResult.result.warning || 'Resume at any time; revoked addresses will not be processed again',
+        });
+      } else {
+        const failed = current.filter((t) => t.status === 'failed').length;
+        toast({
+          title: 'Bulk Revocation Finished',
+          description: signResult.result.warning ||
+            `${current.filter((t) => t.status === 'revoked').length} addresses revoked${failed > 0 ? `, ${failed} failed` : ''}`,
+          variant: failed > 0 || signResult.result.warning ? 'destructive' : 'default',
+        });
+      }
+    } catch (error: unknown) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'An error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsRevoking(false);
+    }
+  };
+
+  return (
+    <Card className="border-border bg-card">
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className="w-12 h-12 rounded-lg bg-destructive/20 flex items-center justify-center">
+            <ShieldOff className="w-6 h-6 text-destructive" />
+          </div>
+          <div>
+            <CardTitle>Bulk Revocation</CardTitle>
+            <CardDescription>Revoke the credentials of many holders under one reason</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!authorized && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Not Authorized</AlertTitle>
+            <AlertDescription>Only administrators can revoke credentials.</AlertDescription>
+          </Alert>
+        )}
+
+        {!targets && (
+          <>
+            <Alert className="border-primary/30 bg-primary/5">
+              <Info className="h-4 w-4 text-primary" />
+              <AlertDescription>
+                Paste wallet addresses separated by commas or new lines, or upload a CSV with an address column.
+                Every active, suspended or expired credential of each address is revoked.
+              </AlertDescription>
+            </Alert>
+
+            <div className="space-y-2">
+              <Label htmlFor="bulkRevokeAddresses">Addresses</Label>
+              <Textarea
+                id="bulkRevokeAddresses"
+                value={addressInput}
+                onChange={(e) => setAddressInput(e.target.value)}
+                rows={6}
+                placeholder={'0x...\n0x...'}
+                className="bg-secondary font-mono text-xs"
+              />
+            </div>
+
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="text/csv,.csv,text/plain,.txt"
+              className="hidden"
+              onChange={handleFile}
+            />
+            <div className="flex gap-2">
+              <Button
+                className="flex-1"
+                disabled={!authorized || !addressInput.trim() || isChecking}
+                onClick={() => checkAddresses(addressInput)}
+              >
+                <Search className="w-4 h-4 mr-2" />
+                {isChecking ? `Checking... (${checkedCount})` : 'Check Addresses'}
+              </Button>
+              <Button
+                variant="outline"
+                disabled={!authorized || isChecking}
+                onClick={() => fileInputRef.current?.click()}
+              >
+                <FileUp className="w-4 h-4 mr-2" />
+                Upload
+              </Button>
+            </div>
+          </>
+        )}
+
+        {targets && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="font-medium">{targets.length} addresses</span>
+              {(Object.keys(TARGET_STATUS_STYLES) as RevocationTargetStatus[]).map((status) => {
+                const count = countByStatus(status);
+                return count > 0 ? (
+                  <Badge key={status} variant="outline" className={TARGET_STATUS_STYLES[status].className}>
+                    {count} {TARGET_STATUS_STYLES[status].label.toLowerCase()}
+                  </Badge>
+                ) : null;
+              })}
+            </div>
+
+            {runId && (
+              <div className="space-y-1">
+                <Progress value={revocableTotal > 0 ? (processed / revocableTotal) * 100 : 0} />
+                <p className="text-xs text-muted-foreground">
+                  {processed} of {revocableTotal} addresses processed, {countByStatus('revoked')} revoked
+                </p>
+              </div>
+            )}
+
+            <ScrollArea className="h-72 rounded-lg border border-border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Address</TableHead>
+                    <TableHead>Credentials</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {targets.map((target) => (
+                    <TableRow key={target.input}>
+                      <TableCell>
+                        <p className="font-mono text-xs truncate max-w-[180px]">{target.input}</p>
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {target.credentials.length > 0
+                          ? target.credentials.map((c) => c.typeName || c.credentialType).join(', ')
+                          : '-'}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={TARGET_STATUS_STYLES[target.status].className}>
+                          {TARGET_STATUS_STYLES[target.status].label}
+                        </Badge>
+                        {target.error && <p className="text-xs text-muted-foreground mt-1">{target.error}</p>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+
+            {!runId && pendingTargets.length > 0 && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="bulkRevokeReason">Reason *</Label>
+                  <Select value={reasonCode} onValueChange={setReasonCode}>
+                    <SelectTrigger id="bulkRevokeReason" className="bg-secondary">
+                      <SelectValue placeholder="Select a reason" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {LIFECYCLE_REASON_CODES.revoke.map((r) => (
+                        <SelectItem key={r.code} value={r.code}>{r.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="bulkRevokeNote">Note{reasonCode === 'other' ? ' *' : ''}</Label>
+                  <Textarea
+                    id="bulkRevokeNote"
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    maxLength={500}
+                    rows={2}
+                    placeholder="Case reference or details"
+                    className="bg-secondary"
+                  />
+                  {reasonError && <p className="text-xs text-destructive">{reasonError}</p>}
+                </div>
+              </>
+            )}
+
+            {isRevoking ? (
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={() => { pauseRequested.current = true; }}
+              >
+                <Pause className="w-4 h-4 mr-2" />
+                Pause After Current Address
+              </Button>
+            ) : pendingTargets.length > 0 && (
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button
+                    variant="destructive"
+                    className="w-full"
+                    disabled={!isConnected || !authorized || !reasonCode || !!reasonError}
+                  >
+                    <Play className="w-4 h-4 mr-2" />
+                    {runId
+                      ? `Resume (${pendingTargets.length} left)`
+                      : `Revoke ${credentialCount} Credentials`}
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Revoke {credentialCount} credentials?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      The credentials of {pendingTargets.length} address{pendingTargets.length === 1 ? '' : 'es'} will
+                      be permanently revoked on the blockchain and in the database. This cannot be undone.
+                      Reason: {reasonCode ? getReasonLabel('revoke', reasonCode) : '-'}.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction
+                      onClick={runRevocation}
+                      className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                    >
+                      Revoke Credentials
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            )}
+
+            {!isRevoking && runId && pendingTargets.length === 0 && (
+              <Alert className="border-green-500/30 bg-green-500/10">
+                <CheckCircle2 className="h-4 w-4 text-green-500" />
+                <AlertTitle className="text-green-500">Bulk Revocation Finished</AlertTitle>
+                <AlertDescription>
+                  {countByStatus('revoked')} address{countByStatus('revoked') === 1 ? '' : 'es'} revoked
+                  {countByStatus('failed') > 0 && `, ${countByStatus('failed')} failed`}. Every outcome is recorded;
+                  download the report for credential IDs and transactions.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="flex gap-2">
+              <Button variant="outline" className="flex-1" onClick={downloadReport} disabled={isRevoking}>
+                <Download className="w-4 h-4 mr-2" />
+                Download Report
+              </Button>
+              <Button variant="ghost" className="flex-1" onClick={handleReset} disabled={isRevoking}>
+                New List
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,169 @@
+import { useState, useEffect, useCallback } from 'react';
+import { LockKeyhole, RefreshCw, Send, Unlock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import {
+  CONSENT_FIELDS,
+  CONSENT_FIELD_LABELS,
+  ConsentField,
+  ConsentStatus,
+  VerificationConsent,
+  getMyConsentRequestsFor,
+  isConsentActive,
+  requestVerificationConsent,
+} from '@/lib/verification-consent';
+
+interface ConsentAccessRequesterProps {
+  citizenAddress: string;
+  // Fields the last verification left out, preselected in the request
+  withheldFields: ConsentField[];
+  // Verify again with the token of an approved request
+  onUseConsent: (token: string) => void;
+  disabled?: boolean;
+}
+
+const STATUS_STYLES: Record<ConsentStatus, string> = {
+  pending: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30',
+  approved: 'bg-green-500/20 text-green-400 border-green-500/30',
+  denied: 'bg-red-500/20 text-red-400 border-red-500/30',
+  withdrawn: 'bg-red-500/20 text-red-400 border-red-500/30',
+};
+
+// Ask the holder to see their personal data, and use an approval once it arrives
+export function ConsentAccessRequester({ citizenAddress, withheldFields, onUseConsent, disabled }: ConsentAccessRequesterProps) {
+  const { toast } = useToast();
+  const [requests, setRequests] = useState<VerificationConsent[]>([]);
+  const [selectedFields, setSelectedFields] = useState<ConsentField[]>(withheldFields);
+  const [purpose, setPurpose] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadRequests = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setRequests(await getMyConsentRequestsFor(citizenAddress));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [citizenAddress]);
+
+  useEffect(() => {
+    loadRequests();
+  }, [loadRequests]);
+
+  const toggleField = (field: ConsentField, checked: boolean) => {
+    setSelectedFields((prev) => (checked ? [...prev, field] : prev.filter((f) => f !== field)));
+  };
+
+  const handleRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSending(true);
+    try {
+      const result = await requestVerificationConsent(citizenAddress, selectedFields, purpose);
+      if (!result.success) {
+        toast({
+          title: 'Request Failed',
+          description: result.error || 'Failed to send the request',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      toast({
+        title: 'Request Sent',
+        description: 'The holder will see your request in their portal',
+      });
+      setPurpose('');
+      await loadRequests();
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const activeRequest = requests.find(isConsentActive);
+  const pendingRequest = requests.find((r) => r.status === 'pending');
+
+  return (
+    <div className="p-4 rounded-lg bg-background/50 border border-border space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <LockKeyhole className="w-4 h-4 text-primary" />
+          <span className="text-sm font-medium">Personal data needs the holder's consent</span>
+        </div>
+        <Button variant="ghost" size="sm" onClick={loadRequests} disabled={isLoading}>
+          <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Withheld: {withheldFields.map((f) => CONSENT_FIELD_LABELS[f]).join(', ')}. The credential status above is
+        still accurate; the issuer signature and hash can be checked once all fields are shared.
+      </p>
+
+      {activeRequest ? (
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-xs text-muted-foreground">
+            Approved for {activeRequest.requestedFields.map((f) => CONSENT_FIELD_LABELS[f]).join(', ')} until{' '}
+            {new Date(activeRequest.expiresAt!).toLocaleString()}
+          </p>
+          <Button size="sm" onClick={() => onUseConsent(activeRequest.token!)} disabled={disabled}>
+            <Unlock className="w-4 h-4 mr-2" />
+            Verify with Consent
+          </Button>
+        </div>
+      ) : pendingRequest ? (
+        <p className="text-xs text-muted-foreground">
+          Waiting for the holder to answer your request from {new Date(pendingRequest.createdAt).toLocaleString()}.
+        </p>
+      ) : (
+        <form onSubmit={handleRequest} className="space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            {CONSENT_FIELDS.map((field) => (
+              <div key={field} className="flex items-center gap-2">
+                <Checkbox
+                  id={`consent-${field}`}
+                  checked={selectedFields.includes(field)}
+                  onCheckedChange={(checked) => toggleField(field, checked === true)}
+                />
+                <Label htmlFor={`consent-${field}`}>{CONSENT_FIELD_LABELS[field]}</Label>
+              </div>
+            ))}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="consentPurpose">Purpose</Label>
+            <Textarea
+              id="consentPurpose"
+              placeholder="Why you need this data, shown to the holder"
+              value={purpose}
+              onChange={(e) => setPurpose(e.target.value)}
+              className="bg-secondary"
+              rows={2}
+            />
+          </div>
+          <Button
+            type="submit"
+            variant="outline"
+            className="w-full"
+            disabled={isSending || selectedFields.length === 0 || !purpose.trim()}
+          >
+            <Send className="w-4 h-4 mr-2" />
+            {isSending ? 'Sending...' : 'Request Access'}
+          </Button>
+        </form>
+      )}
+
+      {requests.some((r) => r.status === 'denied' || r.status === 'withdrawn') && !activeRequest && (
+        <div className="flex flex-wrap gap-1">
+          {requests.slice(0, 3).map((r) => (
+            <Badge key={r.id} variant="outline" className={STATUS_STYLES[r.status]}>
+              {r.status} {new Date(r.decidedAt || r.createdAt).toLocaleDateString()}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
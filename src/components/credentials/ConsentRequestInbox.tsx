@@ -0,0 +1,163 @@
+import { useState, useEffect } from 'react';
+import { Check, Inbox, RefreshCw, UserCircle, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  CONSENT_DURATIONS,
+  CONSENT_FIELD_LABELS,
+  VerificationConsent,
+  decideVerificationConsent,
+  getConsentRequestsForMe,
+  isConsentActive,
+  withdrawVerificationConsent,
+} from '@/lib/verification-consent';
+
+// Requests from verifiers to see the citizen's personal data: approve for a while, deny, or withdraw
+export function ConsentRequestInbox() {
+  const { toast } = useToast();
+  const [requests, setRequests] = useState<VerificationConsent[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [durations, setDurations] = useState<Record<string, number>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadRequests = async () => {
+    setIsLoading(true);
+    try {
+      setRequests(await getConsentRequestsForMe());
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    const load = async () => {
+      await loadRequests();
+    };
+    load();
+  }, []);
+
+  const runAction = async (
+    consentId: string,
+    action: () => Promise<{ success: boolean; error?: string }>,
+    successTitle: string
+  ) => {
+    setBusyId(consentId);
+    try {
+      const result = await action();
+      if (!result.success) {
+        toast({
+          title: 'Action Failed',
+          description: result.error || 'Please try again',
+          variant: 'destructive',
+        });
+        return;
+      }
+      toast({ title: successTitle });
+      await loadRequests();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const pending = requests.filter((r) => r.status === 'pending');
+  const active = requests.filter(isConsentActive);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Inbox className="w-4 h-4 text-primary" />
+          <p className="text-sm font-medium">Data access requests</p>
+        </div>
+        <Button variant="ghost" size="sm" onClick={loadRequests} disabled={isLoading}>
+          <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+
+      {pending.length === 0 && active.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          {isLoading ? 'Loading...' : 'No verifier is asking for your personal data'}
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {pending.map((request) => (
+            <div key={request.id} className="p-3 rounded-lg bg-background/50 space-y-2">
+              <div className="flex items-center gap-2 min-w-0">
+                <UserCircle className="w-4 h-4 shrink-0 text-muted-foreground" />
+                <span className="text-sm truncate">{request.verifierLabel || 'Anonymous verifier'}</span>
+              </div>
+              <p className="text-xs text-muted-foreground">"{request.purpose}"</p>
+              <div className="flex flex-wrap gap-1">
+                {request.requestedFields.map((field) => (
+                  <Badge key={field} variant="secondary" className="text-xs">
+                    {CONSENT_FIELD_LABELS[field]}
+                  </Badge>
+                ))}
+              </div>
+              <div className="flex items-center gap-2">
+                <Select
+                  value={String(durations[request.id] ?? CONSENT_DURATIONS[1].minutes)}
+                  onValueChange={(value) => setDurations({ ...durations, [request.id]: Number(value) })}
+                >
+                  <SelectTrigger className="bg-secondary h-8 flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CONSENT_DURATIONS.map((d) => (
+                      <SelectItem key={d.minutes} value={String(d.minutes)}>
+                        For {d.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  size="sm"
+                  onClick={() => runAction(
+                    request.id,
+                    () => decideVerificationConsent(request.id, true, durations[request.id] ?? CONSENT_DURATIONS[1].minutes),
+                    'Access Approved'
+                  )}
+                  disabled={busyId === request.id}
+                >
+                  <Check className="w-4 h-4 mr-1" />
+                  Approve
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => runAction(request.id, () => decideVerificationConsent(request.id, false), 'Access Denied')}
+                  disabled={busyId === request.id}
+                >
+                  <X className="w-4 h-4 mr-1" />
+                  Deny
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          {active.map((request) => (
+            <div key={request.id} className="flex items-center justify-between gap-2 p-3 rounded-lg bg-background/50">
+              <div className="min-w-0">
+                <p className="text-sm truncate">{request.verifierLabel || 'Anonymous verifier'}</p>
+                <p className="text-xs text-muted-foreground">
+                  Can see {request.requestedFields.map((f) => CONSENT_FIELD_LABELS[f]).join(', ')} until{' '}
+                  {new Date(request.expiresAt!).toLocaleString()}
+                </p>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => runAction(request.id, () => withdrawVerificationConsent(request.id), 'Consent Withdrawn')}
+                disabled={busyId === request.id}
+              >
+                Withdraw
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,21 @@
 import { useState } from 'react';
-import { Rocket, CheckCircle2, AlertTriangle, Copy, ExternalLink } from 'lucide-react';
+import { Rocket, CheckCircle2, AlertTriangle, Copy, ExternalLink, Layers, GitMerge } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { useToast } from '@/hooks/use-toast';
 import { useWallet } from '@/contexts/WalletContext';
 import { ethers } from 'ethers';
+import {
+  CREDENTIAL_REGISTRY_V2_SOURCE,
+  CREDENTIAL_BATCH_REGISTRY_SOURCE,
+  getCredentialRegistryV2Address,
+  setCredentialRegistryV2Address,
+  getCredentialBatchRegistryAddress,
+  setCredentialBatchRegistryAddress,
+} from '@/lib/contracts';
 
 const CONTRACT_BYTECODE = '0x608060405234801561001057600080fd5b50336000806101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff16021790555061061e806100606000396000f3fe608060405234801561001057600080fd5b50600436106100575760003560e01c806319ae8ab81461005c5780635f3a04251461008c5780637a3fc4c0146100a8578063b7009613146100c4578063bdeaf4a2146100f4575b600080fd5b61007660048036038101906100719190610421565b610110565b60405161008391906104e0565b60405180910390f35b6100a660048036038101906100a19190610527565b610133565b005b6100c260048036038101906100bd9190610421565b610223565b005b6100de60048036038101906100d99190610567565b610331565b6040516100eb91906105c6565b60405180910390f35b6100fc61037c565b60405161010991906105f0565b60405180910390f35b60016020528060005260406000206000915090505481565b60008054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff163373ffffffffffffffffffffffffffffffffffffffff16146101b6576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016101ad90610668565b60405180910390fd5b6000801b600160008473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002054141561020557600080fd5b60016000838152602001908152602001600020600090556102268261028e565b5050565b60008054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff163373ffffffffffffffffffffffffffffffffffffffff16146102b6576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016102ad90610668565b60405180910390fd5b80600160008473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff168152602001908152602001600020819055508173ffffffffffffffffffffffffffffffffffffffff16817f42e160154868087d6bfdc0ca23d96a1c1cfa32f1b72ba9ba27b69b98a0d819dc42604051610341919061069a565b60405180910390a35050565b6000806001600085815260200190815260200160002054905060008114158015610374575080836bffffffffffffffffffffffff16145b915050919050565b60008054906101000a900473ffffffffffffffffffffffffffffffffffffffff1681565b600080fd5b600073ffffffffffffffffffffffffffffffffffffffff82169050919050565b60006103d0826103a5565b9050919050565b6103e0816103c5565b81146103eb57600080fd5b50565b6000813590506103fd816103d7565b92915050565b6000819050919050565b61041681610403565b811461042157600080fd5b50565b60008135905061043381610410565b92915050565b60006020828403121561044f5761044e6103a0565b5b600061045d848285016103ee565b91505092915050565b6000819050919050565b6000610489610484610479846103a5565b610466565b6103a5565b9050919050565b600061049b82610470565b9050919050565b60006104ad82610490565b9050919050565b6104bd816104a2565b82525050565b6000602082019050818103600083015260006104df84846104b4565b905092915050565b60006020820190508181036000830152600061050384846104b4565b905092915050565b6000819050919050565b61051e8161050b565b82525050565b60006020820190506105396000830184610515565b92915050565b600080604083850312156105565761055560039050565b5b600061056485828601610424565b9250506020610575858286016103ee565b9150509250929050565b600060208284031215610595576105946103a0565b5b60006105a384828501610424565b91505092915050565b60008115159050919050565b6105c1816105ac565b82525050565b60006020820190506105dc60008301846105b8565b92915050565b6105eb816103c5565b82525050565b600060208201905061060660008301846105e2565b92915050565b600082825260208201905092915050565b7f4f6e6c79206973737565720000000000000000000000000000000000000000006000820152505b50565b60006106548260118361060c565b915061065f82610629565b602082019050919050565b600060208201905081810360008301526106818161064b565b9050919050565b6000819050919050565b61069681610688565b82525050565b60006020820190506106b1600083018461068d565b9291505056fea26469706673582212202e7c5c6b7c6b7c6b7c6b7c6b7c6b7c6b7c6b7c6b7c6b7c6b7c6b7c6b7c6b7c6b64736f6c63430008130033';
 
@@ -22,6 +32,12 @@ export function ContractDeployer() {
   const [deployedAddress, setDeployedAddress] = useState<string | null>(
     localStorage.getItem('deployed_contract_address')
   );
+  // v2 registry holds several credentials per holder, keyed by credential ID
+  const [registryV2Address, setRegistryV2Address] = useState<string | null>(getCredentialRegistryV2Address());
+  const [registryV2Input, setRegistryV2Input] = useState('');
+  // Batch registry anchors one Merkle root per batch of credentials
+  const [batchRegistryAddress, setBatchRegistryAddress] = useState<string | null>(getCredentialBatchRegistryAddress());
+  const [batchRegistryInput, setBatchRegistryInput] = useState('');
 
   const deployContract = async () => {
     if (!isConnected || !address) {
@@ -148,6 +164,78 @@ export function ContractDeployer() {
     });
   };
 
+  const copyRegistryV2Source = () => {
+    navigator.clipboard.writeText(CREDENTIAL_REGISTRY_V2_SOURCE);
+    toast({
+      title: 'Copied!',
+      description: 'Registry v2 source copied. Deploy it from your issuer wallet, then register its address.',
+    });
+  };
+
+  const registerRegistryV2 = () => {
+    if (!ethers.isAddress(registryV2Input)) {
+      toast({
+        title: 'Invalid Address',
+        description: 'Enter the address of the deployed registry v2 contract',
+        variant: 'destructive',
+      });
+      return;
+    }
+    const checksummed = ethers.getAddress(registryV2Input);
+    setCredentialRegistryV2Address(checksummed);
+    setRegistryV2Address(checksummed);
+    setRegistryV2Input('');
+    toast({
+      title: 'Registry v2 Registered',
+      description: 'New credentials will be anchored by credential ID',
+    });
+  };
+
+  const clearRegistryV2 = () => {
+    setCredentialRegistryV2Address(null);
+    setRegistryV2Address(null);
+    toast({
+      title: 'Cleared',
+      description: 'New credentials will be anchored on the v1 contract (one per holder).',
+    });
+  };
+
+  const copyBatchRegistrySource = () => {
+    navigator.clipboard.writeText(CREDENTIAL_BATCH_REGISTRY_SOURCE);
+    toast({
+      title: 'Copied!',
+      description: 'Batch registry source copied. Deploy it from your issuer wallet, then register its address.',
+    });
+  };
+
+  const registerBatchRegistry = () => {
+    if (!ethers.isAddress(batchRegistryInput)) {
+      toast({
+        title: 'Invalid Address',
+        description: 'Enter the address of the deployed batch registry contract',
+        variant: 'destructive',
+      });
+      return;
+    }
+    const checksummed = ethers.getAddress(batchRegistryInput);
+    setCredentialBatchRegistryAddress(checksummed);
+    setBatchRegistryAddress(checksummed);
+    setBatchRegistryInput('');
+    toast({
+      title: 'Batch Registry Registered',
+      description: 'New credentials will wait for the next anchored batch',
+    });
+  };
+
+  const clearBatchRegistry = () => {
+    setCredentialBatchRegistryAddress(null);
+    setBatchRegistryAddress(null);
+    toast({
+      title: 'Cleared',
+      description: 'New credentials will be anchored one transaction each. Pending credentials stay pending until the registry is registered again.',
+    });
+  };
+
   return (
     <Card className="border-border bg-card">
       <CardHeader>
@@ -243,6 +331,119 @@ export function ContractDeployer() {
             </Button>
           </div>
         )}
+
+        <div className="pt-4 border-t border-border space-y-3">
+          <div className="flex items-center gap-2">
+            <Layers className="w-4 h-4 text-primary" />
+            <span className="text-sm font-medium">Credential Registry v2</span>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            The v1 contract stores one credential per holder address. The v2 registry is keyed by credential ID,
+            so a holder can keep several credentials (for example an identity card and a driver licence).
+          </p>
+
+          {registryV2Address ? (
+            <div className="space-y-3">
+              <div className="p-3 rounded-lg bg-secondary/50 border border-border">
+                <p className="text-xs text-muted-foreground mb-1">Registry v2 Address</p>
+                <div className="flex items-center gap-2">
+                  <code className="text-xs font-mono text-primary flex-1 break-all">
+                    {registryV2Address}
+                  </code>
+                  <a
+                    href={`https://sepolia.etherscan.io/address/${registryV2Address}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                  >
+                    <Button variant="ghost" size="sm">
+                      <ExternalLink className="w-4 h-4" />
+                    </Button>
+                  </a>
+                </div>
+              </div>
+              <Button variant="outline" className="w-full" onClick={clearRegistryV2}>
+                Clear Registry v2
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="registryV2Address">Deployed Registry Address</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="registryV2Address"
+                  placeholder="0x..."
+                  value={registryV2Input}
+                  onChange={(e) => setRegistryV2Input(e.target.value.trim())}
+                  className="bg-secondary font-mono"
+                />
+                <Button variant="outline" onClick={registerRegistryV2}>
+                  Register
+                </Button>
+              </div>
+              <Button variant="ghost" size="sm" className="w-full" onClick={copyRegistryV2Source}>
+                <Copy className="w-4 h-4 mr-2" />
+                Copy Solidity Source
+              </Button>
+            </div>
+          )}
+        </div>
+
+        <div className="pt-4 border-t border-border space-y-3">
+          <div className="flex items-center gap-2">
+            <GitMerge className="w-4 h-4 text-primary" />
+            <span className="text-sm font-medium">Batch Anchoring Registry</span>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Instead of one transaction per credential, pending credentials are collected into a Merkle tree and only
+            its root is anchored. Each credential keeps an inclusion proof that verifiers check against the root.
+            When registered, it takes precedence over the v2 registry for new credentials.
+          </p>
+
+          {batchRegistryAddress ? (
+            <div className="space-y-3">
+              <div className="p-3 rounded-lg bg-secondary/50 border border-border">
+                <p className="text-xs text-muted-foreground mb-1">Batch Registry Address</p>
+                <div className="flex items-center gap-2">
+                  <code className="text-xs font-mono text-primary flex-1 break-all">
+                    {batchRegistryAddress}
+                  </code>
+                  <a
+                    href={`https://sepolia.etherscan.io/address/${batchRegistryAddress}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                  >
+                    <Button variant="ghost" size="sm">
+                      <ExternalLink className="w-4 h-4" />
+                    </Button>
+                  </a>
+                </div>
+              </div>
+              <Button variant="outline" className="w-full" onClick={clearBatchRegistry}>
+                Clear Batch Registry
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="batchRegistryAddress">Deployed Batch Registry Address</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="batchRegistryAddress"
+                  placeholder="0x..."
+                  value={batchRegistryInput}
+                  onChange={(e) => setBatchRegistryInput(e.target.value.trim())}
+                  className="bg-secondary font-mono"
+                />
+                <Button variant="outline" onClick={registerBatchRegistry}>
+                  Register
+                </Button>
+              </div>
+              <Button variant="ghost" size="sm" className="w-full" onClick={copyBatchRegistrySource}>
+                <Copy className="w-4 h-4 mr-2" />
+                Copy Solidity Source
+              </Button>
+            </div>
+          )}
+        </div>
       </CardContent>
     </Card>
   );
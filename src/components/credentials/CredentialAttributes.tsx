@@ -0,0 +1,63 @@
+import { useState, useEffect } from 'react';
+import { Layers } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { StoredCredential } from '@/lib/credential-storage';
+import {
+  CredentialSchema,
+  DEFAULT_CREDENTIAL_TYPE,
+  DEFAULT_SCHEMA_VERSION,
+  formatAttributeValue,
+  getCredentialSchema,
+} from '@/lib/credential-schemas';
+
+interface CredentialAttributesProps {
+  credential: StoredCredential;
+}
+
+// Credential type and its schema fields, labelled by the schema version the credential was issued with
+export function CredentialAttributes({ credential }: CredentialAttributesProps) {
+  const credentialType = credential.credentialType || DEFAULT_CREDENTIAL_TYPE;
+  const schemaVersion = credential.schemaVersion || DEFAULT_SCHEMA_VERSION;
+  const [schema, setSchema] = useState<CredentialSchema | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getCredentialSchema(credentialType, schemaVersion).then((result) => {
+      if (!cancelled) setSchema(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [credentialType, schemaVersion]);
+
+  const attributes = credential.attributes || {};
+  // Attributes the schema does not describe are still shown, keyed by name
+  const unknownKeys = Object.keys(attributes).filter((key) => !schema?.fields.some((field) => field.key === key));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Layers className="w-4 h-4 text-primary" />
+        <span className="text-sm font-medium">{schema?.name || credentialType}</span>
+        <Badge variant="secondary" className="text-xs">v{schemaVersion}</Badge>
+      </div>
+
+      {(schema?.fields.length || unknownKeys.length) ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {schema?.fields.map((field) => (
+            <div key={field.key} className="p-3 rounded-lg bg-background/50">
+              <p className="text-xs text-muted-foreground">{field.label}</p>
+              <p className="font-medium">{formatAttributeValue(field, attributes[field.key])}</p>
+            </div>
+          ))}
+          {unknownKeys.map((key) => (
+            <div key={key} className="p-3 rounded-lg bg-background/50">
+              <p className="text-xs text-muted-foreground font-mono">{key}</p>
+              <p className="font-medium">{formatAttributeValue(undefined, attributes[key])}</p>
+            </div>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+import { useState } from 'react';
+import { Copy, User, Calendar, CreditCard, CheckCircle, Download, FileText, Ban, ChevronDown, ChevronUp, History, PauseCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import { StoredCredential, verifyCredentialSignature } from '@/lib/credential-storage';
+import { toVerifiableCredential } from '@/lib/verifiable-credentials';
+import { downloadFile, downloadJson } from '@/lib/download';
+import { generateCredentialPdf, CredentialPdfLayout } from '@/lib/credential-pdf';
+import { toSignedCredentialQR } from '@/lib/offline-verification';
+import { IdentityCredentialQRPayload, IDENTITY_CREDENTIAL_QR_TYPE } from '@/lib/credential-qr';
+import { CredentialStatus, getCredentialStatus } from '@/lib/credential-lifecycle';
+import { QRCodeButton } from '@/components/wallet/QRCodeDisplay';
+import { CredentialPresentationBuilder } from './CredentialPresentationBuilder';
+import { AgeProofBuilder } from './AgeProofBuilder';
+import { HolderPresentationResponder } from './HolderPresentationResponder';
+import { CredentialAttributes } from './CredentialAttributes';
+
+interface CredentialCardProps {
+  credential: StoredCredential;
+  defaultExpanded?: boolean;
+}
+
+const STATUS_STYLES: Record<CredentialStatus, { label: string; color: string; box: string; icon: typeof CheckCircle }> = {
+  active: { label: 'Credential Valid', color: 'text-green-400', box: 'bg-green-500/10 border-green-500/30', icon: CheckCircle },
+  expired: { label: 'Credential Expired', color: 'text-yellow-500', box: 'bg-yellow-500/10 border-yellow-500/30', icon: CheckCircle },
+  suspended: { label: 'Credential Suspended', color: 'text-orange-400', box: 'bg-orange-500/10 border-orange-500/30', icon: PauseCircle },
+  superseded: { label: 'Credential Renewed', color: 'text-muted-foreground', box: 'bg-secondary border-border', icon: History },
+  revoked: { label: 'Credential Revoked', color: 'text-destructive', box: 'bg-destructive/10 border-destructive/30', icon: Ban },
+};
+
+// One credential in the holder's wallet: status, sharing actions and (expandable) details
+export function CredentialCard({ credential, defaultExpanded = false }: CredentialCardProps) {
+  const { toast } = useToast();
+  const [isExpanded, setIsExpanded] = useState(defaultExpanded);
+
+  const isValid = verifyCredentialSignature(credential);
+  const lifecycleStatus = getCredentialStatus(credential);
+  const isRevoked = lifecycleStatus === 'revoked';
+  // A renewed credential was replaced by a successor and is kept only as history
+  const isSuperseded = lifecycleStatus === 'superseded';
+  // Sharing is disabled while a credential cannot verify; a suspension may be lifted later
+  const isInactive = isRevoked || isSuperseded || lifecycleStatus === 'suspended';
+  const isExpired = credential.expiryDate ? new Date(credential.expiryDate) < new Date() : false;
+
+  const copyToClipboard = (text: string) => {
+    navigator.clipboard.writeText(text);
+    toast({
+      title: 'Copied!',
+      description: 'Copied to clipboard',
+    });
+  };
+
+  const formatDate = (dateStr: string | number) => {
+    if (typeof dateStr === 'number') {
+      return new Date(dateStr).toLocaleDateString();
+    }
+    return dateStr ? new Date(dateStr).toLocaleDateString() : 'Not specified';
+  };
+
+  // Signed payload for offline verifiers: the compact COSE QR, or signed JSON for older EIP-712 credentials
+  const offlineQRData = credential.compactQr || toSignedCredentialQR(credential);
+  // Claims for the verifier's scanner, which cross-checks them against the database and the chain
+  const getCredentialQRData = () => {
+    const payload: IdentityCredentialQRPayload = {
+      type: IDENTITY_CREDENTIAL_QR_TYPE,
+      address: credential.citizenAddress,
+      fullName: credential.fullName,
+      nationalId: credential.nationalId,
+      credentialHash: credential.credentialHash,
+      issuer: credential.issuerAddress,
+      issuedAt: credential.issuedAt,
+      expiryDate: credential.expiryDate,
+    };
+    return JSON.stringify(payload);
+  };
+
+  const filePrefix = `${(credential.credentialType || 'identity').replace(/_/g, '-')}-credential`;
+
+  const exportVerifiableCredential = () => {
+    const vcDocument = toVerifiableCredential(credential);
+    downloadJson(`${filePrefix}-${credential.credentialHash.slice(2, 10)}.json`, vcDocument);
+    toast({
+      title: 'Credential Exported',
+      description: 'Saved as a W3C Verifiable Credential (VC 2.0)',
+    });
+  };
+
+  const exportPdf = async (layout: CredentialPdfLayout) => {
+    try {
+      const pdf = await generateCredentialPdf(credential, layout);
+      const suffix = layout === 'card' ? 'card' : 'certificate';
+      downloadFile(`${filePrefix}-${suffix}-${credential.credentialHash.slice(2, 10)}.pdf`, pdf, 'application/pdf');
+    } catch (error) {
+      console.error('Error generating PDF:', error);
+      toast({
+        title: 'Export Failed',
+        description: 'Could not generate the PDF',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const status = STATUS_STYLES[lifecycleStatus];
+
+  return (
+    <div className={`p-4 rounded-lg border ${status.box}`}>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <div className="flex items-center gap-2">
+          <status.icon className={`w-5 h-5 ${status.color}`} />
+          <span className={`font-medium ${status.color}`}>{status.label}</span>
+          {isValid && !isInactive && <Badge variant="default" className="bg-green-500">Verified</Badge>}
+        </div>
+        {!isInactive && (
+          <div className="flex flex-wrap items-center gap-2">
+            <Button variant="outline" size="sm" onClick={exportVerifiableCredential}>
+              <Download className="w-4 h-4 mr-2" />
+              VC
+            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm">
+                  <FileText className="w-4 h-4 mr-2" />
+                  PDF
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => exportPdf('card')}>ID Card (ID-1)</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => exportPdf('a4')}>A4 Certificate</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <CredentialPresentationBuilder credential={credential} />
+            <AgeProofBuilder credential={credential} />
+            <HolderPresentationResponder credential={credential} />
+            <QRCodeButton
+              value={getCredentialQRData()}
+              title="My Credential QR"
+              buttonText="QR"
+            />
+            {offlineQRData && (
+              <QRCodeButton
+                value={offlineQRData}
+                title="Offline Verification QR"
+                buttonText="Offline QR"
+              />
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="mb-4">
+        <CredentialAttributes credential={credential} />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        <div className="flex items-center gap-3 p-3 rounded-lg bg-background/50">
+          <User className="w-5 h-5 text-primary" />
+          <div>
+            <p className="text-xs text-muted-foreground">Full Name</p>
+            <p className="font-medium">{credential.fullName}</p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3 p-3 rounded-lg bg-background/50">
+          <Calendar className="w-5 h-5 text-primary" />
+          <div>
+            <p className="text-xs text-muted-foreground">Expiry Date</p>
+            <p className={`font-medium ${isExpired ? 'text-destructive' : ''}`}>
+              {formatDate(credential.expiryDate)}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <Button
+        variant="ghost"
+        size="sm"
+        className="w-full"
+        onClick={() => setIsExpanded(!isExpanded)}
+      >
+        {isExpanded ? <ChevronUp className="w-4 h-4 mr-2" /> : <ChevronDown className="w-4 h-4 mr-2" />}
+        {isExpanded ? 'Hide Details' : 'Show Details'}
+      </Button>
+
+      {isExpanded && (
+        <div className="mt-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="flex items-center gap-3 p-3 rounded-lg bg-background/50">
+              <CreditCard className="w-5 h-5 text-primary" />
+              <div>
+                <p className="text-xs text-muted-foreground">National ID</p>
+                <p className="font-medium">{credential.nationalId}</p>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-3 p-3 rounded-lg bg-background/50">
+              <Calendar className="w-5 h-5 text-primary" />
+              <div>
+                <p className="text-xs text-muted-foreground">Date of Birth</p>
+                <p className="font-medium">{formatDate(credential.dateOfBirth)}</p>
+              </div>
+            </div>
+          </div>
+
+          <div className="pt-3 border-t border-border space-y-3">
+            <div>
+              <p className="text-xs text-muted-foreground mb-1">Issued By</p>
+              <p className="font-mono text-xs break-all">
+                {credential.issuerAddress}
+              </p>
+            </div>
+
+            <div>
+              <p className="text-xs text-muted-foreground mb-1">Issued On</p>
+              <p className="text-sm">{formatDate(credential.issuedAt)}</p>
+            </div>
+
+            {isRevoked && (
+              <div>
+                <p className="text-xs text-muted-foreground mb-1">Revoked On</p>
+                <p className="text-sm text-destructive">{formatDate(credential.revokedAt!)}</p>
+              </div>
+            )}
+
+            {isSuperseded && (
+              <div>
+                <p className="text-xs text-muted-foreground mb-1">Replaced On</p>
+                <p className="text-sm">{formatDate(credential.supersededAt!)}</p>
+              </div>
+            )}
+
+            {credential.id && (
+              <div>
+                <p className="text-xs text-muted-foreground mb-1">Credential ID</p>
+                <p className="font-mono text-xs break-all">{credential.id}</p>
+              </div>
+            )}
+
+            <div>
+              <p className="text-xs text-muted-foreground mb-1">Credential Hash</p>
+              <div className="flex items-center gap-2 p-2 rounded bg-background/50">
+                <span className="font-mono text-xs break-all flex-1 text-primary">
+                  {credential.credentialHash}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="shrink-0"
+                  onClick={() => copyToClipboard(credential.credentialHash)}
+                >
+                  <Copy className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
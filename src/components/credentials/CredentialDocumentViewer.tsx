@@ -0,0 +1,162 @@
+import { useState, useEffect, useCallback } from 'react';
+import { FileText, Eye, Trash2, ShieldCheck, ShieldAlert } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import {
+  CredentialDocument,
+  DOCUMENT_TYPE_LABELS,
+  deleteCredentialDocument,
+  listCredentialDocuments,
+  openCredentialDocument,
+} from '@/lib/credential-documents';
+
+interface CredentialDocumentViewerProps {
+  requestId?: string;
+  credentialId?: string;
+  // Show a remove button for documents not yet linked to a credential
+  canDelete?: boolean;
+}
+
+// Lists the documents attached to a request or credential and opens them for review
+export function CredentialDocumentViewer({ requestId, credentialId, canDelete }: CredentialDocumentViewerProps) {
+  const { toast } = useToast();
+  const [documents, setDocuments] = useState<CredentialDocument[]>([]);
+  const [viewing, setViewing] = useState<{ document: CredentialDocument; url: string; hashMatches: boolean } | null>(null);
+  const [openingId, setOpeningId] = useState<string | null>(null);
+
+  const loadDocuments = useCallback(async () => {
+    if (requestId) {
+      setDocuments(await listCredentialDocuments({ requestId }));
+    } else if (credentialId) {
+      setDocuments(await listCredentialDocuments({ credentialId }));
+    }
+  }, [requestId, credentialId]);
+
+  useEffect(() => {
+    loadDocuments();
+  }, [loadDocuments]);
+
+  // Release the downloaded file when the viewer closes
+  useEffect(() => {
+    return () => {
+      if (viewing) URL.revokeObjectURL(viewing.url);
+    };
+  }, [viewing]);
+
+  const openDocument = async (document: CredentialDocument) => {
+    setOpeningId(document.id);
+    try {
+      const result = await openCredentialDocument(document);
+      if (result.success && result.url) {
+        setViewing({ document, url: result.url, hashMatches: !!result.hashMatches });
+      } else {
+        toast({
+          title: 'Document Unavailable',
+          description: result.error || 'Failed to load the document',
+          variant: 'destructive',
+        });
+      }
+    } finally {
+      setOpeningId(null);
+    }
+  };
+
+  const removeDocument = async (document: CredentialDocument) => {
+    const result = await deleteCredentialDocument(document);
+    if (result.success) {
+      await loadDocuments();
+    } else {
+      toast({
+        title: 'Document Not Removed',
+        description: result.error || 'Failed to delete the document',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (documents.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">Supporting documents</p>
+      {documents.map((document) => (
+        <div
+          key={document.id}
+          className="flex items-center justify-between gap-2 p-2 rounded-md bg-secondary/50 border border-border text-sm"
+        >
+          <div className="flex items-center gap-2 min-w-0">
+            <FileText className="w-4 h-4 shrink-0 text-primary" />
+            <span className="truncate">
+              <span className="text-muted-foreground">{DOCUMENT_TYPE_LABELS[document.documentType]}:</span> {document.fileName}
+            </span>
+          </div>
+          <div className="flex shrink-0">
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => openDocument(document)}
+              disabled={openingId === document.id}
+            >
+              <Eye className="w-4 h-4" />
+            </Button>
+            {canDelete && !document.credentialId && (
+              <Button type="button" variant="ghost" size="sm" className="text-destructive" onClick={() => removeDocument(document)}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+      ))}
+
+      <Dialog open={!!viewing} onOpenChange={(open) => !open && setViewing(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{viewing?.document.fileName}</DialogTitle>
+            <DialogDescription>
+              {viewing && DOCUMENT_TYPE_LABELS[viewing.document.documentType]}, uploaded{' '}
+              {viewing && new Date(viewing.document.createdAt).toLocaleString()}
+            </DialogDescription>
+          </DialogHeader>
+          {viewing && (
+            <div className="space-y-3">
+              <div className="flex items-center gap-2">
+                {viewing.hashMatches ? (
+                  <Badge variant="outline" className="bg-green-500/20 text-green-400 border-green-500/30">
+                    <ShieldCheck className="w-3 h-3 mr-1" />
+                    Hash verified
+                  </Badge>
+                ) : (
+                  <Badge variant="outline" className="bg-destructive/20 text-destructive border-destructive/30">
+                    <ShieldAlert className="w-3 h-3 mr-1" />
+                    File does not match its recorded hash
+                  </Badge>
+                )}
+                <span className="font-mono text-xs text-muted-foreground break-all">
+                  SHA-256 {viewing.document.sha256}
+                </span>
+              </div>
+              {viewing.document.mimeType === 'application/pdf' ? (
+                <iframe
+                  src={viewing.url}
+                  title={viewing.document.fileName}
+                  className="w-full h-[70vh] rounded-md border border-border"
+                />
+              ) : (
+                <img
+                  src={viewing.url}
+                  alt={viewing.document.fileName}
+                  className="max-h-[70vh] w-full object-contain rounded-md border border-border"
+                />
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
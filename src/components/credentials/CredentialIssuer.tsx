@@ -1,22 +1,42 @@
 import { useState, useEffect, useCallback } from 'react';
-import { FileCheck, Shield, AlertTriangle, CheckCircle2, Lock } from 'lucide-react';
+import { FileCheck, Shield, AlertTriangle, CheckCircle2, Lock, Inbox } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import { useWallet } from '@/contexts/WalletContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { FaceRecognition } from './FaceRecognition';
+import { SchemaFieldInputs, SchemaFieldValues } from './SchemaFieldInputs';
+import { DocumentAttachmentInput } from './DocumentAttachmentInput';
+import { CredentialDocumentViewer } from './CredentialDocumentViewer';
 import { addTransaction } from '@/components/wallet/TransactionHistory';
 import { getIssuerStatus, isAuthorizedIssuer } from '@/lib/issuer-config';
 import { signAndIssueCredential, getExistingFaceHashes } from '@/lib/credential-storage';
+import {
+  CredentialSchema,
+  DEFAULT_CREDENTIAL_TYPE,
+  getLatestActiveSchemas,
+  listCredentialSchemas,
+  validateAttributes,
+} from '@/lib/credential-schemas';
+import { CredentialRequest, reviewCredentialRequest } from '@/lib/credential-requests';
+import { PendingDocument, uploadPendingDocuments } from '@/lib/credential-documents';
 import { supabase } from '@/integrations/supabase/client';
 import { ethers } from 'ethers';
 
-export function CredentialIssuer() {
+interface CredentialIssuerProps {
+  // A citizen's request being approved: the form is pre-filled with its data and the request is
+  // marked approved once the credential is issued
+  request?: CredentialRequest | null;
+  onRequestClosed?: () => void;
+}
+
+export function CredentialIssuer({ request, onRequestClosed }: CredentialIssuerProps = {}) {
   const { address, network, signWithWallet, isConnected } = useWallet();
   const { user } = useAuth();
   const { toast } = useToast();
@@ -31,6 +51,11 @@ export function CredentialIssuer() {
     message: 'Checking authorization...'
   });
   const [existingFaceHashes, setExistingFaceHashes] = useState<string[]>([]);
+  const [schemas, setSchemas] = useState<CredentialSchema[]>([]);
+  const [credentialType, setCredentialType] = useState(DEFAULT_CREDENTIAL_TYPE);
+  const [attributeValues, setAttributeValues] = useState<SchemaFieldValues>({});
+  const [attributeErrors, setAttributeErrors] = useState<Record<string, string>>({});
+  const [documents, setDocuments] = useState<PendingDocument[]>([]);
   
   const [formData, setFormData] = useState({
     citizenAddress: '',
@@ -60,6 +85,43 @@ export function CredentialIssuer() {
     loadFaceHashes();
   }, [issuerStatus.authorized]);
 
+  // Load the credential types that can currently be issued
+  useEffect(() => {
+    const loadSchemas = async () => {
+      if (issuerStatus.authorized) {
+        setSchemas(getLatestActiveSchemas(await listCredentialSchemas()));
+      }
+    };
+    loadSchemas();
+  }, [issuerStatus.authorized]);
+
+  // Pre-fill the form from the request under review
+  useEffect(() => {
+    if (!request) return;
+    setFormData({
+      citizenAddress: request.citizenAddress,
+      fullName: request.fullName,
+      dateOfBirth: request.dateOfBirth,
+      nationalId: request.nationalId,
+      expiryDate: '',
+    });
+    setCredentialType(request.credentialType);
+    setAttributeValues(Object.fromEntries(
+      Object.entries(request.attributes).map(([key, value]) => [key, typeof value === 'boolean' ? value : String(value)])
+    ));
+    setAttributeErrors({});
+    setAddressError(null);
+    setIssuedSuccessfully(false);
+  }, [request]);
+
+  const selectedSchema = schemas.find((schema) => schema.credentialType === credentialType);
+
+  const handleCredentialTypeChange = (value: string) => {
+    setCredentialType(value);
+    setAttributeValues({});
+    setAttributeErrors({});
+  };
+
   const handleFaceVerified = (verified: boolean, faceDescriptor?: number[]) => {
     setFaceVerified(verified);
     if (faceDescriptor) {
@@ -131,6 +193,26 @@ export function CredentialIssuer() {
       return;
     }
 
+    if (!selectedSchema) {
+      toast({
+        title: 'Credential Type Required',
+        description: 'Please select a credential type',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const attributeCheck = validateAttributes(selectedSchema, attributeValues);
+    setAttributeErrors(attributeCheck.errors);
+    if (!attributeCheck.valid) {
+      toast({
+        title: 'Invalid Credential Fields',
+        description: Object.values(attributeCheck.errors)[0],
+        variant: 'destructive',
+      });
+      return;
+    }
+
     // Find the citizen's user ID
     const citizenUserId = await findCitizenUserId(formData.citizenAddress);
     if (!citizenUserId) {
@@ -158,6 +240,9 @@ export function CredentialIssuer() {
             nationalId: formData.nationalId,
             expiryDate: formData.expiryDate,
             faceDescriptor: capturedFaceDescriptor || undefined,
+            credentialType: selectedSchema.credentialType,
+            schemaVersion: selectedSchema.version,
+            attributes: attributeCheck.attributes,
           }
         );
       });
@@ -175,13 +260,39 @@ export function CredentialIssuer() {
           to: formData.citizenAddress,
           status: 'confirmed',
           network: 'sepolia',
-          description: `Issued credential to ${formData.fullName}`,
+          description: `Issued ${selectedSchema.name} to ${formData.fullName}`,
         });
 
         toast({
           title: 'Credential Issued!',
-          description: `Credential stored on blockchain and database. TX: ${result.credential.txHash?.slice(0, 10)}...`,
+          description: result.credential.txHash
+            ? `Credential stored on blockchain and database. TX: ${result.credential.txHash.slice(0, 10)}...`
+            : 'Credential stored in the database. It is anchored on-chain with the next batch.',
+        });
+
+        const uploadErrors = await uploadPendingDocuments(documents, {
+          citizenUserId,
+          credentialId: result.credential.id,
         });
+        if (uploadErrors.length > 0) {
+          toast({
+            title: 'Some Documents Were Not Attached',
+            description: uploadErrors.join('; '),
+            variant: 'destructive',
+          });
+        }
+
+        if (request) {
+          const review = await reviewCredentialRequest(request.id, 'approved', { credentialId: result.credential.id });
+          if (!review.success) {
+            toast({
+              title: 'Request Not Updated',
+              description: `The credential was issued but the request is still pending: ${review.error}`,
+              variant: 'destructive',
+            });
+          }
+          onRequestClosed?.();
+        }
 
         // Reset form
         setFormData({
@@ -191,6 +302,9 @@ export function CredentialIssuer() {
           nationalId: '',
           expiryDate: '',
         });
+        setAttributeValues({});
+        setAttributeErrors({});
+        setDocuments([]);
         setFaceVerified(false);
         setCapturedFaceDescriptor(null);
         setShowFaceCapture(false);
@@ -301,6 +415,23 @@ export function CredentialIssuer() {
             </Alert>
           ) : (
             <form onSubmit={handleSubmit} className="space-y-4">
+              {request && (
+                <Alert className="border-primary/30 bg-primary/5">
+                  <Inbox className="h-4 w-4 text-primary" />
+                  <AlertTitle>Approving a Citizen Request</AlertTitle>
+                  <AlertDescription className="space-y-2">
+                    <p>
+                      Pre-filled from the request submitted on {new Date(request.createdAt).toLocaleDateString()}.
+                      Check the details against the citizen's documents, set an expiry date and issue to approve it.
+                    </p>
+                    <CredentialDocumentViewer requestId={request.id} />
+                    <Button type="button" variant="outline" size="sm" onClick={onRequestClosed}>
+                      Back to Requests
+                    </Button>
+                  </AlertDescription>
+                </Alert>
+              )}
+
               {/* Face Verification Status */}
               <div className="p-4 rounded-lg border border-border bg-secondary/30">
                 <div className="flex items-center justify-between">
@@ -328,12 +459,32 @@ export function CredentialIssuer() {
                 </div>
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="credentialType">Credential Type *</Label>
+                <Select value={credentialType} onValueChange={handleCredentialTypeChange}>
+                  <SelectTrigger id="credentialType" className="bg-secondary">
+                    <SelectValue placeholder="Select a credential type" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {schemas.map((schema) => (
+                      <SelectItem key={schema.credentialType} value={schema.credentialType}>
+                        {schema.name} (v{schema.version})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {selectedSchema?.description && (
+                  <p className="text-xs text-muted-foreground">{selectedSchema.description}</p>
+                )}
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="citizenAddress">Citizen Wallet Address *</Label>
                 <Input
                   id="citizenAddress"
                   placeholder="0x..."
                   value={formData.citizenAddress}
+                  readOnly={!!request}
                   onChange={(e) => {
                     const value = e.target.value;
                     setFormData({ ...formData, citizenAddress: value });
@@ -398,10 +549,24 @@ export function CredentialIssuer() {
                 </div>
               </div>
 
+              {selectedSchema && selectedSchema.fields.length > 0 && (
+                <div className="space-y-3 pt-2">
+                  <p className="text-sm font-medium">{selectedSchema.name} Details</p>
+                  <SchemaFieldInputs
+                    fields={selectedSchema.fields}
+                    values={attributeValues}
+                    errors={attributeErrors}
+                    onChange={setAttributeValues}
+                  />
+                </div>
+              )}
+
+              <DocumentAttachmentInput value={documents} onChange={setDocuments} disabled={isLoading} />
+
               <Button 
                 type="submit" 
                 className="w-full gradient-primary text-primary-foreground"
-                disabled={isLoading || !faceVerified}
+                disabled={isLoading || !faceVerified || !selectedSchema}
               >
                 {isLoading ? (
                   <>
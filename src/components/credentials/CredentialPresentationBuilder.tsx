@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import { Share2, EyeOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { QRCodeDisplay } from '@/components/wallet/QRCodeDisplay';
+import { StoredCredential } from '@/lib/credential-storage';
+import {
+  DISCLOSABLE_CLAIMS,
+  DISCLOSABLE_CLAIM_LABELS,
+  DisclosableClaim,
+  createSdJwtPresentation,
+  parseSdJwt,
+} from '@/lib/sd-jwt';
+
+interface CredentialPresentationBuilderProps {
+  credential: StoredCredential;
+}
+
+export function CredentialPresentationBuilder({ credential }: CredentialPresentationBuilderProps) {
+  const { toast } = useToast();
+  const [selectedClaims, setSelectedClaims] = useState<DisclosableClaim[]>(['fullName']);
+  const [presentation, setPresentation] = useState<string | null>(null);
+
+  // Only offer claims the issuer actually included as disclosures
+  const availableClaims = credential.sdJwt
+    ? parseSdJwt(credential.sdJwt).disclosures.map(d => d.name as DisclosableClaim)
+    : [];
+
+  const toggleClaim = (claim: DisclosableClaim, checked: boolean) => {
+    setPresentation(null);
+    setSelectedClaims(prev => checked ? [...prev, claim] : prev.filter(c => c !== claim));
+  };
+
+  const handleCreate = () => {
+    if (!credential.sdJwt) return;
+    if (selectedClaims.length === 0) {
+      toast({
+        title: 'Nothing Selected',
+        description: 'Choose at least one claim to disclose',
+        variant: 'destructive',
+      });
+      return;
+    }
+    setPresentation(createSdJwtPresentation(credential.sdJwt, selectedClaims));
+  };
+
+  return (
+    <Dialog onOpenChange={(open) => !open && setPresentation(null)}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Share2 className="w-4 h-4 mr-2" />
+          Share
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Selective Disclosure</DialogTitle>
+          <DialogDescription>
+            Choose which claims the verifier can see. Everything else stays hidden.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!credential.sdJwt ? (
+          <div className="p-4 rounded-lg bg-secondary border border-border text-center">
+            <EyeOff className="w-8 h-8 mx-auto text-muted-foreground mb-2" />
+            <p className="text-sm text-muted-foreground">
+              This credential was issued before selective disclosure was available.
+              Ask your issuer to reissue it.
+            </p>
+          </div>
+        ) : presentation ? (
+          <div className="flex flex-col items-center gap-4 py-2">
+            <QRCodeDisplay value={presentation} title="Selective Disclosure Presentation" size={240} />
+            <Button variant="ghost" size="sm" onClick={() => setPresentation(null)}>
+              Change Selection
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-3">
+              {DISCLOSABLE_CLAIMS.filter(claim => availableClaims.includes(claim)).map(claim => (
+                <div key={claim} className="flex items-center gap-3">
+                  <Checkbox
+                    id={`disclose-${claim}`}
+                    checked={selectedClaims.includes(claim)}
+                    onCheckedChange={(checked) => toggleClaim(claim, checked === true)}
+                  />
+                  <Label htmlFor={`disclose-${claim}`}>{DISCLOSABLE_CLAIM_LABELS[claim]}</Label>
+                </div>
+              ))}
+            </div>
+            <Button className="w-full gradient-primary text-primary-foreground" onClick={handleCreate}>
+              Create Presentation
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,326 @@
+import { useState } from 'react';
+import { RefreshCw, CheckCircle2, ExternalLink, Info } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useWallet } from '@/contexts/WalletContext';
+import {
+  renewCredential,
+  verifyCredentialForCitizen,
+  listHolderCredentials,
+  HolderCredentialSummary,
+} from '@/lib/credential-storage';
+import { getCredentialBatchRegistryAddress, getCredentialRegistryV2Address } from '@/lib/contracts';
+import { publishStatusLists } from '@/lib/status-list';
+import { isAuthorizedIssuer } from '@/lib/issuer-config';
+import { addTransaction } from '@/components/wallet/TransactionHistory';
+import { ethers } from 'ethers';
+
+// Default validity of a renewed credential
+const RENEWAL_YEARS = 5;
+
+function defaultRenewalExpiry(): string {
+  const date = new Date();
+  date.setFullYear(date.getFullYear() + RENEWAL_YEARS);
+  return date.toISOString().split('T')[0];
+}
+
+export function CredentialRenewer() {
+  const { address, signWithWallet, isConnected } = useWallet();
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(false);
+  const [txHash, setTxHash] = useState<string | null>(null);
+  const [renewedSuccessfully, setRenewedSuccessfully] = useState(false);
+  const [citizenAddress, setCitizenAddress] = useState('');
+  const [addressError, setAddressError] = useState<string | null>(null);
+  const [holderName, setHolderName] = useState<string | null>(null);
+  const [activeCredentials, setActiveCredentials] = useState<HolderCredentialSummary[]>([]);
+  const [selectedCredentialId, setSelectedCredentialId] = useState<string>('');
+  const [expiryDate, setExpiryDate] = useState(defaultRenewalExpiry());
+
+  const registryV2Configured = !!getCredentialRegistryV2Address() || !!getCredentialBatchRegistryAddress();
+  const selectedCredential = activeCredentials.find((c) => c.id === selectedCredentialId);
+  const describeCredential = (c: HolderCredentialSummary) =>
+    `${c.typeName || c.credentialType} (expires ${c.expiryDate ? new Date(c.expiryDate).toLocaleDateString() : 'never'})`;
+
+  const resetLookup = () => {
+    setHolderName(null);
+    setActiveCredentials([]);
+    setSelectedCredentialId('');
+  };
+
+  const handleLookup = async () => {
+    if (!citizenAddress) return;
+
+    if (!ethers.isAddress(citizenAddress)) {
+      setAddressError('Invalid Ethereum address format');
+      return;
+    }
+
+    setAddressError(null);
+    const result = await verifyCredentialForCitizen(citizenAddress);
+    const active = (await listHolderCredentials(citizenAddress)).filter((c) => !c.revoked && !c.superseded);
+
+    if (result.credential && active.length > 0) {
+      setHolderName(result.credential.fullName);
+      // Credentials closest to expiry first
+      const byExpiry = [...active].sort((a, b) =>
+        (a.expiryDate ? new Date(a.expiryDate).getTime() : Infinity) -
+        (b.expiryDate ? new Date(b.expiryDate).getTime() : Infinity)
+      );
+      setActiveCredentials(byExpiry);
+      setSelectedCredentialId(byExpiry[0].id);
+    } else {
+      resetLookup();
+      toast({
+        title: 'No Credential Found',
+        description: 'No active credential exists for this address',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleRenew = async () => {
+    if (!isConnected || !address) {
+      toast({
+        title: 'Wallet Required',
+        description: 'Please connect your wallet first',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const isAuthorized = await isAuthorizedIssuer();
+    if (!isAuthorized) {
+      toast({
+        title: 'Not Authorized',
+        description: 'Only administrators can renew credentials',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsLoading(true);
+    setRenewedSuccessfully(false);
+    setTxHash(null);
+
+    try {
+      const signResult = await signWithWallet(async (privateKey) => {
+        const renewal = await renewCredential(privateKey, selectedCredentialId, { expiryDate });
+        if (!renewal.success) {
+          return renewal;
+        }
+
+        // The predecessor now counts as revoked in the published status list
+        const published = await publishStatusLists(privateKey);
+        return published.success
+          ? renewal
+          : { ...renewal, warning: renewal.warning || `Status lists were not republished: ${published.error}` };
+      });
+
+      const result = signResult.success ? signResult.result : null;
+
+      if (result?.success && result.credential) {
+        setRenewedSuccessfully(true);
+        setTxHash(result.credential.txHash || null);
+
+        addTransaction({
+          type: 'issue',
+          txHash: result.credential.txHash || `renew-${Date.now()}`,
+          from: address,
+          to: citizenAddress,
+          status: 'confirmed',
+          network: 'sepolia',
+          description: `Renewed ${selectedCredential?.typeName || 'credential'} for ${holderName || citizenAddress}`,
+        });
+
+        toast({
+          title: 'Credential Renewed',
+          description: result.warning || `Valid until ${new Date(expiryDate).toLocaleDateString()}`,
+          variant: result.warning ? 'destructive' : 'default',
+        });
+
+        setCitizenAddress('');
+        resetLookup();
+        setExpiryDate(defaultRenewalExpiry());
+      } else {
+        toast({
+          title: 'Renewal Failed',
+          description: signResult.error || result?.error || 'Failed to renew credential',
+          variant: 'destructive',
+        });
+      }
+    } catch (error: unknown) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'An error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card className="border-border bg-card">
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className="w-12 h-12 rounded-lg gradient-primary flex items-center justify-center">
+            <RefreshCw className="w-6 h-6 text-primary-foreground" />
+          </div>
+          <div>
+            <CardTitle>Renew Credential</CardTitle>
+            <CardDescription>Issue a successor with new dates that replaces an existing credential</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!registryV2Configured && (
+          <Alert className="border-yellow-500/30 bg-yellow-500/10">
+            <Info className="h-4 w-4 text-yellow-500" />
+            <AlertTitle className="text-yellow-500">Registry v2 Required</AlertTitle>
+            <AlertDescription>
+              Renewed credentials are anchored by credential ID. Register a v2 or batch registry above to renew.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="renewAddress">Citizen Wallet Address</Label>
+          <div className="flex gap-2">
+            <Input
+              id="renewAddress"
+              placeholder="0x..."
+              value={citizenAddress}
+              onChange={(e) => {
+                setCitizenAddress(e.target.value);
+                setAddressError(null);
+                resetLookup();
+              }}
+              className={`font-mono bg-secondary ${addressError ? 'border-destructive' : ''}`}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleLookup}
+              disabled={!citizenAddress}
+            >
+              Lookup
+            </Button>
+          </div>
+          {addressError && (
+            <p className="text-xs text-destructive">{addressError}</p>
+          )}
+        </div>
+
+        {holderName && (
+          <div className="p-3 rounded-lg bg-secondary/50 border border-border">
+            <p className="text-sm text-muted-foreground">Credential found for:</p>
+            <p className="font-medium">{holderName}</p>
+          </div>
+        )}
+
+        {activeCredentials.length > 0 && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="renewCredential">Credential to Renew</Label>
+              <Select value={selectedCredentialId} onValueChange={setSelectedCredentialId}>
+                <SelectTrigger id="renewCredential" className="bg-secondary">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {activeCredentials.map((c) => (
+                    <SelectItem key={c.id} value={c.id}>{describeCredential(c)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="renewExpiry">New Expiry Date</Label>
+              <Input
+                id="renewExpiry"
+                type="date"
+                value={expiryDate}
+                onChange={(e) => setExpiryDate(e.target.value)}
+                className="bg-secondary"
+              />
+            </div>
+          </div>
+        )}
+
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button
+              className="w-full gradient-primary text-primary-foreground"
+              disabled={isLoading || !selectedCredential || !expiryDate || !isConnected || !registryV2Configured}
+            >
+              {isLoading ? (
+                <>
+                  <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin mr-2" />
+                  Renewing...
+                </>
+              ) : (
+                <>
+                  <RefreshCw className="w-4 h-4 mr-2" />
+                  Renew Credential
+                </>
+              )}
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Renew this credential?</AlertDialogTitle>
+              <AlertDialogDescription>
+                A new {selectedCredential?.typeName || 'credential'} valid until {expiryDate ? new Date(expiryDate).toLocaleDateString() : '-'} will
+                be issued to <strong>{holderName}</strong> and replace the current one on the blockchain.
+                <br /><br />
+                The current credential stays in the holder's history but will no longer verify.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={handleRenew}>
+                Renew Credential
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
+        {renewedSuccessfully && (
+          <Alert className="border-green-500/30 bg-green-500/10">
+            <CheckCircle2 className="h-4 w-4 text-green-500" />
+            <AlertTitle className="text-green-500">Credential Renewed Successfully</AlertTitle>
+            <AlertDescription>
+              The successor credential is anchored on the blockchain and linked to its predecessor.
+              {txHash && (
+                <a
+                  href={`https://sepolia.etherscan.io/tx/${txHash}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-1 text-primary hover:underline mt-2"
+                >
+                  View transaction on Etherscan <ExternalLink className="w-3 h-3" />
+                </a>
+              )}
+            </AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
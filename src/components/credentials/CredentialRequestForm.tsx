@@ -0,0 +1,289 @@
+import { useState, useEffect } from 'react';
+import { Send, ClipboardList, MessageSquare } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useWallet } from '@/contexts/WalletContext';
+import { SchemaFieldInputs, SchemaFieldValues } from './SchemaFieldInputs';
+import { DocumentAttachmentInput } from './DocumentAttachmentInput';
+import { CredentialDocumentViewer } from './CredentialDocumentViewer';
+import {
+  CredentialSchema,
+  DEFAULT_CREDENTIAL_TYPE,
+  getLatestActiveSchemas,
+  listCredentialSchemas,
+  validateAttributes,
+} from '@/lib/credential-schemas';
+import {
+  CredentialRequest,
+  CredentialRequestStatus,
+  REQUEST_STATUS_LABELS,
+  getMyCredentialRequests,
+  resubmitCredentialRequest,
+  submitCredentialRequest,
+} from '@/lib/credential-requests';
+import { PendingDocument, uploadPendingDocuments } from '@/lib/credential-documents';
+
+const REQUEST_STATUS_STYLES: Record<CredentialRequestStatus, string> = {
+  pending: 'bg-blue-500/20 text-blue-400 border-blue-500/30',
+  approved: 'bg-green-500/20 text-green-400 border-green-500/30',
+  rejected: 'bg-destructive/20 text-destructive border-destructive/30',
+  needs_info: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30',
+};
+
+const EMPTY_FORM = { fullName: '', nationalId: '', dateOfBirth: '' };
+
+// Citizens request a credential for their linked wallet and follow the review of their requests
+export function CredentialRequestForm() {
+  const { address } = useWallet();
+  const { toast } = useToast();
+  const [schemas, setSchemas] = useState<CredentialSchema[]>([]);
+  const [requests, setRequests] = useState<CredentialRequest[]>([]);
+  const [credentialType, setCredentialType] = useState(DEFAULT_CREDENTIAL_TYPE);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [attributeValues, setAttributeValues] = useState<SchemaFieldValues>({});
+  const [attributeErrors, setAttributeErrors] = useState<Record<string, string>>({});
+  const [documents, setDocuments] = useState<PendingDocument[]>([]);
+  // Request being corrected after the reviewer asked for more information
+  const [editing, setEditing] = useState<CredentialRequest | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const loadRequests = async () => {
+    setRequests(await getMyCredentialRequests());
+  };
+
+  useEffect(() => {
+    const load = async () => {
+      setSchemas(getLatestActiveSchemas(await listCredentialSchemas()));
+      await loadRequests();
+    };
+    load();
+  }, [address]);
+
+  // Requests are filled in (and corrected) against the latest version of the credential type
+  const selectedSchema = schemas.find((s) => s.credentialType === credentialType);
+
+  const resetForm = () => {
+    setEditing(null);
+    setFormData(EMPTY_FORM);
+    setAttributeValues({});
+    setAttributeErrors({});
+    setDocuments([]);
+  };
+
+  const startEditing = (request: CredentialRequest) => {
+    setEditing(request);
+    setCredentialType(request.credentialType);
+    setFormData({ fullName: request.fullName, nationalId: request.nationalId, dateOfBirth: request.dateOfBirth });
+    setAttributeValues(Object.fromEntries(
+      Object.entries(request.attributes).map(([key, value]) => [key, typeof value === 'boolean' ? value : String(value)])
+    ));
+    setAttributeErrors({});
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!address || !selectedSchema) return;
+
+    const attributeCheck = validateAttributes(selectedSchema, attributeValues);
+    setAttributeErrors(attributeCheck.errors);
+    if (!attributeCheck.valid) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const data = {
+        credentialType: selectedSchema.credentialType,
+        schemaVersion: selectedSchema.version,
+        ...formData,
+        attributes: attributeValues,
+      };
+      let request = editing;
+      let result: { success: boolean; error?: string };
+      if (editing) {
+        result = await resubmitCredentialRequest(editing, data);
+      } else {
+        const submitted = await submitCredentialRequest(address, data);
+        request = submitted.request || null;
+        result = submitted;
+      }
+
+      if (result.success && request) {
+        const uploadErrors = await uploadPendingDocuments(documents, {
+          citizenUserId: request.citizenUserId,
+          requestId: request.id,
+        });
+        toast({
+          title: editing ? 'Request Resubmitted' : 'Request Submitted',
+          description: 'An issuer will review your request. Its status is shown below.',
+        });
+        if (uploadErrors.length > 0) {
+          toast({
+            title: 'Some Documents Were Not Attached',
+            description: uploadErrors.join('; '),
+            variant: 'destructive',
+          });
+        }
+        resetForm();
+        await loadRequests();
+      } else {
+        toast({
+          title: 'Request Failed',
+          description: result.error || 'Failed to submit request',
+          variant: 'destructive',
+        });
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!address) {
+    return null;
+  }
+
+  return (
+    <Card className="border-border bg-card">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <ClipboardList className="w-5 h-5 text-primary" />
+          <CardTitle className="text-lg">Request a Credential</CardTitle>
+        </div>
+        <CardDescription>
+          {editing
+            ? 'Correct your request and send it back for review'
+            : 'Submit your details; an issuer checks them before issuing the credential to your wallet'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="requestCredentialType">Credential Type *</Label>
+            <Select
+              value={credentialType}
+              onValueChange={(value) => {
+                setCredentialType(value);
+                setAttributeValues({});
+                setAttributeErrors({});
+              }}
+              disabled={!!editing}
+            >
+              <SelectTrigger id="requestCredentialType" className="bg-secondary">
+                <SelectValue placeholder="Select a credential type" />
+              </SelectTrigger>
+              <SelectContent>
+                {schemas.map((schema) => (
+                  <SelectItem key={schema.credentialType} value={schema.credentialType}>
+                    {schema.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="requestFullName">Full Name *</Label>
+            <Input
+              id="requestFullName"
+              value={formData.fullName}
+              onChange={(e) => setFormData({ ...formData, fullName: e.target.value })}
+              className="bg-secondary"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="requestNationalId">National ID *</Label>
+              <Input
+                id="requestNationalId"
+                value={formData.nationalId}
+                onChange={(e) => setFormData({ ...formData, nationalId: e.target.value })}
+                className="bg-secondary"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="requestDateOfBirth">Date of Birth</Label>
+              <Input
+                id="requestDateOfBirth"
+                type="date"
+                value={formData.dateOfBirth}
+                onChange={(e) => setFormData({ ...formData, dateOfBirth: e.target.value })}
+                className="bg-secondary"
+              />
+            </div>
+          </div>
+
+          {selectedSchema && selectedSchema.fields.length > 0 && (
+            <SchemaFieldInputs
+              fields={selectedSchema.fields}
+              values={attributeValues}
+              errors={attributeErrors}
+              onChange={setAttributeValues}
+            />
+          )}
+
+          <DocumentAttachmentInput value={documents} onChange={setDocuments} disabled={isSubmitting} />
+
+          <div className="flex gap-2">
+            <Button
+              type="submit"
+              className="flex-1 gradient-primary text-primary-foreground"
+              disabled={isSubmitting || !selectedSchema || !formData.fullName || !formData.nationalId}
+            >
+              <Send className="w-4 h-4 mr-2" />
+              {editing ? 'Resubmit Request' : 'Submit Request'}
+            </Button>
+            {editing && (
+              <Button type="button" variant="outline" onClick={resetForm}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </form>
+
+        {requests.length > 0 && (
+          <div className="space-y-2 pt-4 border-t border-border">
+            <p className="text-sm font-medium">My Requests</p>
+            {requests.map((request) => (
+              <div key={request.id} className="p-3 rounded-lg bg-secondary/50 border border-border space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm">
+                    {schemas.find((s) => s.credentialType === request.credentialType)?.name || request.credentialType}
+                  </span>
+                  <Badge variant="outline" className={REQUEST_STATUS_STYLES[request.status]}>
+                    {REQUEST_STATUS_LABELS[request.status]}
+                  </Badge>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Submitted {new Date(request.createdAt).toLocaleDateString()}
+                  {request.reviewedAt && `, reviewed ${new Date(request.reviewedAt).toLocaleDateString()}`}
+                </p>
+                {request.reviewMessage && request.status !== 'pending' && (
+                  <div className="flex gap-2 text-xs">
+                    <MessageSquare className="w-3 h-3 mt-0.5 shrink-0 text-primary" />
+                    <p>{request.reviewMessage}</p>
+                  </div>
+                )}
+                <CredentialDocumentViewer
+                  key={request.updatedAt}
+                  requestId={request.id}
+                  canDelete={request.status === 'pending' || request.status === 'needs_info'}
+                />
+                {request.status === 'needs_info' && editing?.id !== request.id && (
+                  <Button size="sm" variant="outline" onClick={() => startEditing(request)}>
+                    Update Request
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
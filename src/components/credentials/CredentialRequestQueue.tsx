@@ -0,0 +1,230 @@
+import { useState, useEffect } from 'react';
+import { Inbox, RefreshCw, CheckCircle2, XCircle, HelpCircle, AlertTriangle } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { getIssuerStatus } from '@/lib/issuer-config';
+import { CredentialSchema, formatAttributeValue, listCredentialSchemas } from '@/lib/credential-schemas';
+import { CredentialRequest, listCredentialRequests, reviewCredentialRequest } from '@/lib/credential-requests';
+import { CredentialDocumentViewer } from './CredentialDocumentViewer';
+
+interface CredentialRequestQueueProps {
+  // Open the request in the issue form; approval happens when the credential is issued
+  onApprove: (request: CredentialRequest) => void;
+}
+
+// Decisions that only send a message back to the citizen
+type MessageDecision = 'rejected' | 'needs_info';
+
+const DECISION_LABELS: Record<MessageDecision, { title: string; action: string }> = {
+  needs_info: { title: 'Ask for More Information', action: 'Send Request' },
+  rejected: { title: 'Reject Request', action: 'Reject' },
+};
+
+export function CredentialRequestQueue({ onApprove }: CredentialRequestQueueProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [authorized, setAuthorized] = useState(false);
+  const [requests, setRequests] = useState<CredentialRequest[]>([]);
+  const [schemas, setSchemas] = useState<CredentialSchema[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [reviewing, setReviewing] = useState<{ request: CredentialRequest; decision: MessageDecision } | null>(null);
+  const [message, setMessage] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const loadRequests = async () => {
+    setIsLoading(true);
+    try {
+      const [pending, allSchemas] = await Promise.all([listCredentialRequests(), listCredentialSchemas()]);
+      setRequests(pending);
+      setSchemas(allSchemas);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    const loadIssuer = async () => {
+      const status = await getIssuerStatus();
+      setAuthorized(status.authorized);
+      if (status.authorized) {
+        await loadRequests();
+      }
+    };
+    loadIssuer();
+  }, [user]);
+
+  const schemaOf = (request: CredentialRequest) =>
+    schemas.find((s) => s.credentialType === request.credentialType && s.version === request.schemaVersion);
+
+  const openReview = (request: CredentialRequest, decision: MessageDecision) => {
+    setReviewing({ request, decision });
+    setMessage('');
+  };
+
+  const submitReview = async () => {
+    if (!reviewing) return;
+
+    setIsSubmitting(true);
+    try {
+      const result = await reviewCredentialRequest(reviewing.request.id, reviewing.decision, { message });
+      if (result.success) {
+        toast({
+          title: reviewing.decision === 'rejected' ? 'Request Rejected' : 'Information Requested',
+          description: `${reviewing.request.fullName} will see your message on their user page`,
+        });
+        setReviewing(null);
+        await loadRequests();
+      } else {
+        toast({
+          title: 'Review Failed',
+          description: result.error || 'Failed to record the review',
+          variant: 'destructive',
+        });
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="border-border bg-card">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-12 h-12 rounded-lg gradient-primary flex items-center justify-center">
+              <Inbox className="w-6 h-6 text-primary-foreground" />
+            </div>
+            <div>
+              <CardTitle>Credential Requests</CardTitle>
+              <CardDescription>Review credentials requested by citizens</CardDescription>
+            </div>
+          </div>
+          {authorized && (
+            <Button variant="ghost" size="sm" onClick={loadRequests} disabled={isLoading}>
+              <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {!authorized ? (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Not Authorized</AlertTitle>
+            <AlertDescription>Only administrators can review credential requests.</AlertDescription>
+          </Alert>
+        ) : requests.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            {isLoading ? 'Loading requests...' : 'No requests are waiting for review'}
+          </p>
+        ) : (
+          requests.map((request) => {
+            const schema = schemaOf(request);
+            return (
+              <div key={request.id} className="p-4 rounded-lg border border-border bg-secondary/30 space-y-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <p className="font-medium">{request.fullName}</p>
+                    <p className="font-mono text-xs text-muted-foreground break-all">{request.citizenAddress}</p>
+                  </div>
+                  <Badge variant="outline" className="shrink-0">
+                    {schema?.name || request.credentialType}
+                  </Badge>
+                </div>
+
+                <div className="grid grid-cols-2 gap-2 text-xs">
+                  <div>
+                    <span className="text-muted-foreground">National ID</span>
+                    <p>{request.nationalId}</p>
+                  </div>
+                  <div>
+                    <span className="text-muted-foreground">Date of Birth</span>
+                    <p>{request.dateOfBirth || '-'}</p>
+                  </div>
+                  {Object.entries(request.attributes).map(([key, value]) => {
+                    const field = schema?.fields.find((f) => f.key === key);
+                    return (
+                      <div key={key}>
+                        <span className="text-muted-foreground">{field?.label || key}</span>
+                        <p>{formatAttributeValue(field, value)}</p>
+                      </div>
+                    );
+                  })}
+                </div>
+
+                <CredentialDocumentViewer key={request.updatedAt} requestId={request.id} />
+
+                {request.reviewMessage && (
+                  <p className="text-xs text-muted-foreground">
+                    Resubmitted after: "{request.reviewMessage}"
+                  </p>
+                )}
+
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs text-muted-foreground">
+                    Submitted {new Date(request.updatedAt).toLocaleString()}
+                  </span>
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="ghost" onClick={() => openReview(request, 'needs_info')}>
+                      <HelpCircle className="w-4 h-4 mr-1" />
+                      Needs Info
+                    </Button>
+                    <Button size="sm" variant="ghost" className="text-destructive" onClick={() => openReview(request, 'rejected')}>
+                      <XCircle className="w-4 h-4 mr-1" />
+                      Reject
+                    </Button>
+                    <Button size="sm" onClick={() => onApprove(request)}>
+                      <CheckCircle2 className="w-4 h-4 mr-1" />
+                      Approve
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            );
+          })
+        )}
+
+        <Dialog open={!!reviewing} onOpenChange={(open) => !open && setReviewing(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{reviewing && DECISION_LABELS[reviewing.decision].title}</DialogTitle>
+              <DialogDescription>
+                {reviewing?.decision === 'needs_info'
+                  ? 'The citizen can correct the request and submit it again.'
+                  : 'The request is closed. The citizen can submit a new one.'}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="reviewMessage">Message to the citizen *</Label>
+              <Textarea
+                id="reviewMessage"
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                maxLength={1000}
+                rows={4}
+                className="bg-secondary"
+              />
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setReviewing(null)}>Cancel</Button>
+              <Button
+                variant={reviewing?.decision === 'rejected' ? 'destructive' : 'default'}
+                onClick={submitReview}
+                disabled={isSubmitting || !message.trim()}
+              >
+                {reviewing && DECISION_LABELS[reviewing.decision].action}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+}
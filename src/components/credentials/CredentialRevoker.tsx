@@ -1,10 +1,13 @@
-import { useState } from 'react';
-import { Ban, AlertTriangle, CheckCircle2, ExternalLink } from 'lucide-react';
+import { useState, useEffect } from 'react';
+import { Ban, AlertTriangle, CheckCircle2, ExternalLink, PauseCircle, PlayCircle, History, ListChecks } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -18,22 +21,99 @@ import {
 } from '@/components/ui/alert-dialog';
 import { useToast } from '@/hooks/use-toast';
 import { useWallet } from '@/contexts/WalletContext';
-import { useAuth } from '@/contexts/AuthContext';
-import { revokeCredentialForCitizen, verifyCredentialForCitizen } from '@/lib/credential-storage';
+import {
+  revokeCredentialById,
+  verifyCredentialForCitizen,
+  listHolderCredentials,
+  HolderCredentialSummary,
+} from '@/lib/credential-storage';
+import {
+  CREDENTIAL_STATUS_LABELS,
+  CredentialStatusEvent,
+  LIFECYCLE_REASON_CODES,
+  canTransition,
+  getCredentialStatusHistory,
+  getReasonLabel,
+  transitionCredentialStatus,
+  validateTransition,
+} from '@/lib/credential-lifecycle';
+import { publishStatusLists } from '@/lib/status-list';
 import { isAuthorizedIssuer } from '@/lib/issuer-config';
 import { addTransaction } from '@/components/wallet/TransactionHistory';
 import { ethers } from 'ethers';
 
+type StatusAction = 'suspend' | 'reinstate' | 'revoke';
+
+const ACTION_LABELS: Record<StatusAction, { verb: string; past: string; progress: string }> = {
+  suspend: { verb: 'Suspend', past: 'Suspended', progress: 'Suspending...' },
+  reinstate: { verb: 'Reinstate', past: 'Reinstated', progress: 'Reinstating...' },
+  revoke: { verb: 'Revoke', past: 'Revoked', progress: 'Revoking...' },
+};
+
+interface StatusChangeResult {
+  success: boolean;
+  txHash?: string;
+  error?: string;
+  // Set when the status changed but the status lists could not be republished
+  warning?: string;
+}
+
 export function CredentialRevoker() {
   const { address, signWithWallet, isConnected } = useWallet();
-  const { user } = useAuth();
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(false);
+  const [isPublishing, setIsPublishing] = useState(false);
   const [revokedSuccessfully, setRevokedSuccessfully] = useState(false);
   const [txHash, setTxHash] = useState<string | null>(null);
   const [citizenAddress, setCitizenAddress] = useState('');
   const [addressError, setAddressError] = useState<string | null>(null);
   const [credentialInfo, setCredentialInfo] = useState<{ fullName: string } | null>(null);
+  // Credentials of the holder that can still change status (not revoked or renewed)
+  const [manageableCredentials, setManageableCredentials] = useState<HolderCredentialSummary[]>([]);
+  const [selectedCredentialId, setSelectedCredentialId] = useState<string>('');
+  const [action, setAction] = useState<StatusAction>('revoke');
+  const [reasonCode, setReasonCode] = useState('');
+  const [note, setNote] = useState('');
+  const [history, setHistory] = useState<CredentialStatusEvent[]>([]);
+
+  const selectedCredential = manageableCredentials.find((c) => c.id === selectedCredentialId);
+  const describeCredential = (c: HolderCredentialSummary) =>
+    `${c.typeName || c.credentialType} (issued ${new Date(c.issuedAt).toLocaleDateString()})`;
+  const availableActions = selectedCredential
+    ? (['suspend', 'reinstate', 'revoke'] as StatusAction[]).filter((a) => canTransition(selectedCredential.status, a))
+    : [];
+  const reasonError = selectedCredential && reasonCode
+    ? validateTransition(selectedCredential.status, action, reasonCode, note)
+    : null;
+
+  useEffect(() => {
+    if (!selectedCredentialId) {
+      setHistory([]);
+      return;
+    }
+    let cancelled = false;
+    getCredentialStatusHistory(selectedCredentialId).then((events) => {
+      if (!cancelled) setHistory(events);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedCredentialId]);
+
+  // Start from the action that fits the credential's status
+  const selectCredential = (credentialId: string, credentials = manageableCredentials) => {
+    const credential = credentials.find((c) => c.id === credentialId);
+    setSelectedCredentialId(credentialId);
+    setAction(credential?.status === 'suspended' ? 'reinstate' : 'revoke');
+    setReasonCode('');
+    setNote('');
+  };
+
+  const resetLookup = () => {
+    setCredentialInfo(null);
+    setManageableCredentials([]);
+    setSelectedCredentialId('');
+  };
 
   const handleLookup = async () => {
     if (!citizenAddress) return;
@@ -45,20 +125,23 @@ export function CredentialRevoker() {
 
     setAddressError(null);
     const result = await verifyCredentialForCitizen(citizenAddress);
-    
-    if (result.credential) {
+    const manageable = (await listHolderCredentials(citizenAddress)).filter((c) => !c.revoked && !c.superseded);
+
+    if (result.credential && manageable.length > 0) {
       setCredentialInfo({ fullName: result.credential.fullName });
+      setManageableCredentials(manageable);
+      selectCredential(manageable[0].id, manageable);
     } else {
-      setCredentialInfo(null);
+      resetLookup();
       toast({
         title: 'No Credential Found',
-        description: 'No credential exists for this address',
+        description: 'No active credential exists for this address',
         variant: 'destructive',
       });
     }
   };
 
-  const handleRevoke = async () => {
+  const handleStatusChange = async () => {
     if (!isConnected || !address) {
       toast({
         title: 'Wallet Required',
@@ -72,7 +155,7 @@ export function CredentialRevoker() {
     if (!isAuthorized) {
       toast({
         title: 'Not Authorized',
-        description: 'Only administrators can revoke credentials',
+        description: 'Only administrators can change credential status',
         variant: 'destructive',
       });
       return;
@@ -92,37 +175,67 @@ export function CredentialRevoker() {
     setTxHash(null);
 
     try {
-      const signResult = await signWithWallet(async (privateKey) => {
-        return await revokeCredentialForCitizen(privateKey, citizenAddress);
-      });
+      // Every status change republishes the signed status lists, so all actions use the issuer wallet
+      // (revocation is also anchored on-chain)
+      const signResult = await signWithWallet(async (privateKey): Promise<StatusChangeResult> => {
+        const change: StatusChangeResult = action === 'revoke'
+          ? await revokeCredentialById(privateKey, selectedCredentialId, { code: reasonCode, note })
+          : await transitionCredentialStatus(selectedCredentialId, action, reasonCode, note);
+        if (!change.success) {
+          return change;
+        }
 
-      const result = signResult.success ? signResult.result : null;
+        const published = await publishStatusLists(privateKey);
+        return published.success
+          ? change
+          : { ...change, warning: `Status lists were not republished: ${published.error}` };
+      });
+      const result = signResult.success ? signResult.result ?? null : null;
+      const error = signResult.error;
 
       if (result?.success) {
-        setRevokedSuccessfully(true);
-        setTxHash(result.txHash || null);
-
-        addTransaction({
-          type: 'revoke' as any,
-          txHash: result.txHash || `revoke-${Date.now()}`,
-          from: address,
-          to: citizenAddress,
-          status: 'confirmed',
-          network: 'sepolia',
-          description: `Revoked credential for ${credentialInfo?.fullName || citizenAddress}`,
-        });
+        const label = ACTION_LABELS[action];
+        if (action === 'revoke') {
+          setRevokedSuccessfully(true);
+          setTxHash(result.txHash || null);
+
+          addTransaction({
+            type: 'revoke',
+            txHash: result.txHash || `revoke-${Date.now()}`,
+            from: address,
+            to: citizenAddress,
+            status: 'confirmed',
+            network: 'sepolia',
+            description: `Revoked ${selectedCredential?.typeName || 'credential'} for ${credentialInfo?.fullName || citizenAddress}`,
+          });
+        }
 
         toast({
-          title: 'Credential Revoked',
-          description: `Successfully revoked on blockchain. TX: ${result.txHash?.slice(0, 10)}...`,
+          title: `Credential ${label.past}`,
+          description: result.warning || (action !== 'revoke'
+            ? `Reason: ${getReasonLabel(action, reasonCode)}`
+            : result.txHash
+              ? `Successfully revoked on blockchain. TX: ${result.txHash.slice(0, 10)}...`
+              : 'Revoked before it was anchored; it is left out of the next batch.'),
+          variant: result.warning ? 'destructive' : 'default',
         });
 
-        setCitizenAddress('');
-        setCredentialInfo(null);
+        if (action === 'revoke') {
+          setCitizenAddress('');
+          resetLookup();
+        } else {
+          // Refresh statuses so the next available action is shown
+          const manageable = (await listHolderCredentials(citizenAddress)).filter((c) => !c.revoked && !c.superseded);
+          setManageableCredentials(manageable);
+          setHistory(await getCredentialStatusHistory(selectedCredentialId));
+          setAction(action === 'suspend' ? 'reinstate' : 'revoke');
+          setReasonCode('');
+          setNote('');
+        }
       } else {
         toast({
-          title: 'Revocation Failed',
-          description: signResult.error || result?.error || 'Failed to revoke credential',
+          title: `${ACTION_LABELS[action].verb} Failed`,
+          description: error || result?.error || 'Failed to change credential status',
           variant: 'destructive',
         });
       }
@@ -137,6 +250,25 @@ export function CredentialRevoker() {
     }
   };
 
+  // Rebuild the published status lists, e.g. after a previous publication failed
+  const handleRepublish = async () => {
+    setIsPublishing(true);
+    try {
+      const signResult = await signWithWallet(publishStatusLists);
+      const error = signResult.error || signResult.result?.error;
+      toast({
+        title: error ? 'Publication Failed' : 'Status Lists Published',
+        description: error || 'Verifiers will pick up the new lists when their cached copy expires',
+        variant: error ? 'destructive' : 'default',
+      });
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  const label = ACTION_LABELS[action];
+  const ActionIcon = action === 'suspend' ? PauseCircle : action === 'reinstate' ? PlayCircle : Ban;
+
   return (
     <Card className="border-border bg-card border-destructive/30">
       <CardHeader>
@@ -145,17 +277,17 @@ export function CredentialRevoker() {
             <Ban className="w-6 h-6 text-destructive" />
           </div>
           <div>
-            <CardTitle>Revoke Credential</CardTitle>
-            <CardDescription>Permanently invalidate a credential on the blockchain</CardDescription>
+            <CardTitle>Suspend or Revoke Credential</CardTitle>
+            <CardDescription>Temporarily suspend, reinstate or permanently revoke a credential</CardDescription>
           </div>
         </div>
       </CardHeader>
       <CardContent className="space-y-4">
         <Alert variant="destructive" className="border-destructive/30 bg-destructive/5">
           <AlertTriangle className="h-4 w-4" />
-          <AlertTitle>Warning: Irreversible Action</AlertTitle>
+          <AlertTitle>Warning: Revocation Is Irreversible</AlertTitle>
           <AlertDescription>
-            Revoking a credential permanently removes it from the blockchain. This action cannot be undone.
+            Revoking a credential permanently removes it from the blockchain. Suspend it instead while a case is investigated.
           </AlertDescription>
         </Alert>
 
@@ -169,13 +301,13 @@ export function CredentialRevoker() {
               onChange={(e) => {
                 setCitizenAddress(e.target.value);
                 setAddressError(null);
-                setCredentialInfo(null);
+                resetLookup();
               }}
               className={`font-mono bg-secondary ${addressError ? 'border-destructive' : ''}`}
             />
-            <Button 
-              type="button" 
-              variant="outline" 
+            <Button
+              type="button"
+              variant="outline"
               onClick={handleLookup}
               disabled={!citizenAddress}
             >
@@ -194,44 +326,144 @@ export function CredentialRevoker() {
           </div>
         )}
 
+        {manageableCredentials.length > 0 && (
+          <div className="space-y-2">
+            <Label htmlFor="revokeCredential">Credential</Label>
+            <Select value={selectedCredentialId} onValueChange={(id) => selectCredential(id)}>
+              <SelectTrigger id="revokeCredential" className="bg-secondary">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {manageableCredentials.map((c) => (
+                  <SelectItem key={c.id} value={c.id}>
+                    {describeCredential(c)} · {CREDENTIAL_STATUS_LABELS[c.status]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {selectedCredential && (
+          <>
+            <div className="flex gap-2">
+              {availableActions.map((a) => (
+                <Button
+                  key={a}
+                  type="button"
+                  size="sm"
+                  variant={action === a ? 'default' : 'outline'}
+                  onClick={() => {
+                    setAction(a);
+                    setReasonCode('');
+                  }}
+                >
+                  {ACTION_LABELS[a].verb}
+                </Button>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="statusReason">Reason *</Label>
+              <Select value={reasonCode} onValueChange={setReasonCode}>
+                <SelectTrigger id="statusReason" className="bg-secondary">
+                  <SelectValue placeholder="Select a reason" />
+                </SelectTrigger>
+                <SelectContent>
+                  {LIFECYCLE_REASON_CODES[action].map((reason) => (
+                    <SelectItem key={reason.code} value={reason.code}>{reason.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="statusNote">Note{reasonCode === 'other' ? ' *' : ''}</Label>
+              <Textarea
+                id="statusNote"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                maxLength={500}
+                rows={2}
+                placeholder="Case reference or details"
+                className="bg-secondary"
+              />
+              {reasonError && <p className="text-xs text-destructive">{reasonError}</p>}
+            </div>
+          </>
+        )}
+
         <AlertDialog>
           <AlertDialogTrigger asChild>
-            <Button 
-              variant="destructive" 
+            <Button
+              variant={action === 'reinstate' ? 'default' : 'destructive'}
               className="w-full"
-              disabled={isLoading || !credentialInfo || !isConnected}
+              disabled={isLoading || !credentialInfo || !selectedCredential || !isConnected || !reasonCode || !!reasonError}
             >
               {isLoading ? (
                 <>
                   <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin mr-2" />
-                  Revoking...
+                  {label.progress}
                 </>
               ) : (
                 <>
-                  <Ban className="w-4 h-4 mr-2" />
-                  Revoke Credential
+                  <ActionIcon className="w-4 h-4 mr-2" />
+                  {label.verb} Credential
                 </>
               )}
             </Button>
           </AlertDialogTrigger>
           <AlertDialogContent>
             <AlertDialogHeader>
-              <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
+              <AlertDialogTitle>
+                {action === 'revoke' ? 'Are you absolutely sure?' : `${label.verb} this credential?`}
+              </AlertDialogTitle>
               <AlertDialogDescription>
-                This will permanently revoke the credential for <strong>{credentialInfo?.fullName}</strong> ({citizenAddress.slice(0, 8)}...{citizenAddress.slice(-6)}).
+                This will {label.verb.toLowerCase()} the {selectedCredential ? describeCredential(selectedCredential) : 'credential'} of <strong>{credentialInfo?.fullName}</strong> ({citizenAddress.slice(0, 8)}...{citizenAddress.slice(-6)}).
+                Reason: {reasonCode ? getReasonLabel(action, reasonCode) : '-'}.
                 <br /><br />
-                This action cannot be undone. The credential will be removed from the blockchain and marked as revoked in the database.
+                {action === 'revoke'
+                  ? 'This action cannot be undone. The credential will be removed from the blockchain and marked as revoked in the database.'
+                  : action === 'suspend'
+                    ? 'Verifiers will see the credential as suspended until it is reinstated.'
+                    : 'The credential will verify again as long as it has not expired.'}
               </AlertDialogDescription>
             </AlertDialogHeader>
             <AlertDialogFooter>
               <AlertDialogCancel>Cancel</AlertDialogCancel>
-              <AlertDialogAction onClick={handleRevoke} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
-                Yes, Revoke Credential
+              <AlertDialogAction
+                onClick={handleStatusChange}
+                className={action === 'reinstate' ? '' : 'bg-destructive text-destructive-foreground hover:bg-destructive/90'}
+              >
+                Yes, {label.verb} Credential
               </AlertDialogAction>
             </AlertDialogFooter>
           </AlertDialogContent>
         </AlertDialog>
 
+        {history.length > 0 && (
+          <div className="p-3 rounded-lg bg-secondary/50 border border-border space-y-2">
+            <div className="flex items-center gap-2">
+              <History className="w-4 h-4 text-primary" />
+              <span className="text-sm font-medium">Status History</span>
+            </div>
+            {history.map((event) => (
+              <div key={event.id} className="text-xs space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <span>
+                    {CREDENTIAL_STATUS_LABELS[event.fromStatus]} → {CREDENTIAL_STATUS_LABELS[event.toStatus]}
+                  </span>
+                  <span className="text-muted-foreground">{new Date(event.createdAt).toLocaleString()}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant="secondary" className="text-xs">{getReasonLabel(event.action, event.reasonCode)}</Badge>
+                  {event.note && <span className="text-muted-foreground">{event.note}</span>}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
         {revokedSuccessfully && (
           <Alert className="border-green-500/30 bg-green-500/10">
             <CheckCircle2 className="h-4 w-4 text-green-500" />
@@ -239,7 +471,7 @@ export function CredentialRevoker() {
             <AlertDescription>
               The credential has been permanently revoked on the blockchain.
               {txHash && (
-                <a 
+                <a
                   href={`https://sepolia.etherscan.io/tx/${txHash}`}
                   target="_blank"
                   rel="noopener noreferrer"
@@ -251,7 +483,17 @@ export function CredentialRevoker() {
             </AlertDescription>
           </Alert>
         )}
+
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={handleRepublish}
+          disabled={isPublishing || !isConnected}
+        >
+          <ListChecks className="w-4 h-4 mr-2" />
+          {isPublishing ? 'Publishing...' : 'Republish Status Lists'}
+        </Button>
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
@@ -1,18 +1,79 @@
-import { useState } from 'react';
-import { Search, CheckCircle, XCircle, AlertTriangle, User, Calendar, CreditCard, Link2, ExternalLink, Ban } from 'lucide-react';
+import { useState, useRef } from 'react';
+import { Search, CheckCircle, XCircle, AlertTriangle, User, Calendar, CreditCard, Link2, ExternalLink, Ban, FileUp, Calculator, Cake, KeyRound, UserCheck, ScanLine, History, PauseCircle, ListChecks, Clock, EyeOff } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import { useWallet } from '@/contexts/WalletContext';
-import { QRCodeButton } from '@/components/wallet/QRCodeDisplay';
+import { QRCodeButton, QRCodeDisplay } from '@/components/wallet/QRCodeDisplay';
 import { addTransaction } from '@/components/wallet/TransactionHistory';
-import { verifyCredentialForCitizen, StoredCredential, isCredentialRevoked } from '@/lib/credential-storage';
-import { verifyCredential as verifyCredentialOnChain, getStoredCredential } from '@/lib/wallet';
+import {
+  verifyCredentialForCitizen,
+  listHolderCredentials,
+  getAnchoredCredentialHash,
+  checkPresentedCredential,
+  PresentedCredentialStatus,
+  HolderCredentialSummary,
+  getCredentialRenewalChain,
+  RenewalChainEntry,
+  StoredCredential,
+  verifyCredentialSignature,
+  isStatusListIndexSigned,
+} from '@/lib/credential-storage';
+import { fromVerifiableCredential } from '@/lib/verifiable-credentials';
+import { CREDENTIAL_STATUS_LABELS, CredentialStatus, getCredentialStatus } from '@/lib/credential-lifecycle';
+import { checkStatusListEntry, StatusListCheck } from '@/lib/status-list';
+import { checkCredentialIntegrity, CredentialIntegrityReport, isCredentialIntegrityValid } from '@/lib/credential-canonical';
+import { verifyAgeProof, AgeProofVerificationResult } from '@/lib/age-proof';
+import {
+  createPresentationChallenge,
+  getVerifierId,
+  verifyHolderPresentation,
+  HolderPresentation,
+  PresentationChallenge,
+  HOLDER_PRESENTATION_TYPE,
+} from '@/lib/holder-binding';
+import {
+  crossCheckCredentialQR,
+  getQRPayloadType,
+  isCredentialQRConsistent,
+  parseIdentityCredentialQR,
+  CredentialQRCrossCheck,
+  IdentityCredentialQRPayload,
+  IDENTITY_CREDENTIAL_QR_TYPE,
+} from '@/lib/credential-qr';
+import { isCompactCredentialQR, verifyCompactCredentialQR } from '@/lib/compact-credential';
+import { QRScanner } from './QRScanner';
+import { ConsentAccessRequester } from './ConsentAccessRequester';
+import { CredentialAttributes } from './CredentialAttributes';
+import { verifyCredential as verifyCredentialOnChain } from '@/lib/wallet';
+import { ageOverField } from '@/lib/verification-history';
+import { ConsentField } from '@/lib/verification-consent';
 
-type VerificationResult = 'pending' | 'valid' | 'invalid' | 'expired' | 'revoked' | 'error';
+// Shown in place of personal data the holder has not consented to share
+const WITHHELD_TEXT = 'Withheld';
+
+// 'restricted': valid, but the caller may not see the credential without the holder's consent
+type VerificationResult =
+  | 'pending'
+  | 'valid'
+  | 'restricted'
+  | 'invalid'
+  | 'expired'
+  | 'revoked'
+  | 'superseded'
+  | 'suspended'
+  | 'error';
+
+interface AgeProofCheck extends AgeProofVerificationResult {
+  // The credential hash in the proof is still the one anchored on-chain (not revoked or replaced)
+  anchored: boolean;
+  credentialStatus?: PresentedCredentialStatus;
+}
 
 interface BlockchainVerification {
   checked: boolean;
@@ -34,6 +95,20 @@ export function CredentialVerifier() {
     hashMatch: false,
     storedHash: null,
   });
+  const [integrityReport, setIntegrityReport] = useState<CredentialIntegrityReport | null>(null);
+  const vcFileInputRef = useRef<HTMLInputElement>(null);
+  const [ageProofInput, setAgeProofInput] = useState('');
+  const [ageProofCheck, setAgeProofCheck] = useState<AgeProofCheck | null>(null);
+  const [isCheckingAge, setIsCheckingAge] = useState(false);
+  const [challenge, setChallenge] = useState<PresentationChallenge | null>(null);
+  const [holderResponse, setHolderResponse] = useState('');
+  // Set only when the holder proved control of the citizen address by signing our challenge
+  const [holderConfirmed, setHolderConfirmed] = useState(false);
+  const [qrCrossCheck, setQrCrossCheck] = useState<CredentialQRCrossCheck | null>(null);
+  // All credentials of the verified holder, so the verifier can switch between them
+  const [holderCredentials, setHolderCredentials] = useState<HolderCredentialSummary[]>([]);
+  const [renewalChain, setRenewalChain] = useState<RenewalChainEntry[]>([]);
+  const [statusListCheck, setStatusListCheck] = useState<StatusListCheck | null>(null);
 
   const handleVerify = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -47,9 +122,49 @@ export function CredentialVerifier() {
       return;
     }
 
+    await runVerification(citizenAddress);
+  };
+
+  const handleNewChallenge = () => {
+    setChallenge(createPresentationChallenge(getVerifierId(address)));
+    setHolderResponse('');
+  };
+
+  const handleVerifyHolderResponse = async () => {
+    if (!challenge) return;
+
+    const binding = verifyHolderPresentation(holderResponse.trim(), challenge);
+    if (!binding.success || !binding.presentation) {
+      setHolderConfirmed(false);
+      setVerificationResult('pending');
+      toast({
+        title: 'Presentation Rejected',
+        description: binding.error || 'Holder signature could not be verified',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    // Each nonce is accepted once; a replayed response needs a fresh challenge
+    setChallenge(null);
+    setHolderResponse('');
+    setCitizenAddress(binding.presentation.citizenAddress);
+    await runVerification(binding.presentation.citizenAddress, binding.presentation);
+  };
+
+  const runVerification = async (
+    targetAddress: string,
+    holderPresentation?: HolderPresentation,
+    selector: { credentialId?: string; credentialHash?: string; consentToken?: string } = {}
+  ) => {
     setIsLoading(true);
     setVerificationResult('pending');
     setCredential(null);
+    setIntegrityReport(null);
+    setHolderConfirmed(false);
+    setQrCrossCheck(null);
+    setRenewalChain([]);
+    setStatusListCheck(null);
     setBlockchainVerification({
       checked: false,
       onChain: false,
@@ -58,8 +173,28 @@ export function CredentialVerifier() {
     });
 
     try {
-      // First, verify in database
-      const result = await verifyCredentialForCitizen(citizenAddress);
+      // First, verify in database: a holder presentation pins the exact credential that was presented
+      const result = await verifyCredentialForCitizen(
+        targetAddress,
+        holderPresentation ? { credentialHash: holderPresentation.credentialHash } : selector
+      );
+      if (result.retryAfter) {
+        setVerificationResult('error');
+        toast({
+          title: 'Too Many Requests',
+          description: result.error,
+          variant: 'destructive',
+        });
+        return null;
+      }
+      setHolderCredentials(await listHolderCredentials(targetAddress));
+      if (result.credential?.id && (result.credential.renewsCredentialId || result.credential.renewedByCredentialId)) {
+        setRenewalChain(await getCredentialRenewalChain(result.credential.id));
+      }
+      const listCheck = result.credential?.statusListIndex !== undefined
+        ? await checkStatusListEntry(result.credential.statusListIndex)
+        : null;
+      setStatusListCheck(listCheck);
       
       // Then, verify on blockchain
       let blockchainResult: BlockchainVerification = {
@@ -70,7 +205,7 @@ export function CredentialVerifier() {
       };
 
       try {
-        const storedHash = await getStoredCredential(citizenAddress, 'sepolia');
+        const storedHash = result.credential ? await getAnchoredCredentialHash(result.credential) : null;
         blockchainResult.storedHash = storedHash;
         blockchainResult.onChain = storedHash !== null;
         
@@ -85,10 +220,23 @@ export function CredentialVerifier() {
 
       setBlockchainVerification(blockchainResult);
 
-      // Check if credential is revoked
-      const revoked = await isCredentialRevoked(citizenAddress);
-      
-      if (revoked) {
+      // Recompute the hash from the stored canonical payload and compare DB, recomputed and on-chain values.
+      // Without consent to every field the payload is withheld, so only the on-chain anchor can be compared.
+      let integrityValid = blockchainResult.hashMatch;
+      if (result.credential && !result.credential.withheldFields) {
+        const report = checkCredentialIntegrity(result.credential, blockchainResult.storedHash);
+        setIntegrityReport(report);
+        integrityValid = isCredentialIntegrityValid(report);
+      }
+
+      // Lifecycle status reported by the database (revoked, renewed, suspended, expired or active).
+      // A bit set in the issuer's signed status list counts as well; renewed credentials are on the
+      // revocation list too.
+      const status = result.credential ? getCredentialStatus(result.credential) : result.status || null;
+      const listRevoked = status !== 'superseded' && !!listCheck?.revoked;
+      const listSuspended = !!listCheck?.suspended;
+
+      if (status === 'revoked' || listRevoked) {
         setVerificationResult('revoked');
         setCredential(result.credential || null);
         toast({
@@ -96,8 +244,45 @@ export function CredentialVerifier() {
           description: 'This credential has been revoked and is no longer valid',
           variant: 'destructive',
         });
+      } else if (status === 'superseded') {
+        setVerificationResult('superseded');
+        setCredential(result.credential || null);
+        toast({
+          title: 'Credential Renewed',
+          description: 'This credential has been replaced by a newer one and is no longer valid',
+          variant: 'destructive',
+        });
+      } else if (status === 'suspended' || listSuspended) {
+        setVerificationResult('suspended');
+        setCredential(result.credential || null);
+        toast({
+          title: 'Credential Suspended',
+          description: 'This credential is temporarily suspended by its issuer and is not valid at the moment',
+          variant: 'destructive',
+        });
+      } else if (
+        holderPresentation &&
+        result.credential &&
+        result.credential.credentialHash.toLowerCase() !== holderPresentation.credentialHash.toLowerCase()
+      ) {
+        setVerificationResult('invalid');
+        setCredential(result.credential);
+        toast({
+          title: 'Presentation Rejected',
+          description: 'The presented credential does not belong to this holder',
+          variant: 'destructive',
+        });
+      } else if (result.isValid && result.credential && !integrityValid) {
+        setVerificationResult('invalid');
+        setCredential(result.credential);
+        toast({
+          title: 'Integrity Check Failed',
+          description: 'The credential record does not match its signed payload or its on-chain anchor',
+          variant: 'destructive',
+        });
       } else if (result.isValid && result.credential) {
         setVerificationResult('valid');
+        setHolderConfirmed(!!holderPresentation);
         setCredential(result.credential);
         
         // Add to transaction history
@@ -106,22 +291,35 @@ export function CredentialVerifier() {
             type: 'verify',
             txHash: `verify-${Date.now()}`,
             from: address,
-            to: citizenAddress,
+            to: targetAddress,
             status: 'confirmed',
             network: 'sepolia',
-            description: `Verified credential for ${result.credential.fullName}`,
+            description: `Verified credential for ${result.credential.fullName || targetAddress}`,
           });
         }
 
         toast({
           title: 'Credential Verified!',
-          description: blockchainResult.onChain && blockchainResult.hashMatch 
-            ? 'Valid on blockchain and database' 
-            : 'Valid in database',
+          description: 'Valid on blockchain and database',
         });
-      } else if (result.credential && result.error?.includes('expired')) {
+        if (result.consentError) {
+          toast({
+            title: 'Consent Not Applied',
+            description: result.consentError,
+            variant: 'destructive',
+          });
+        }
+      } else if (result.isValid) {
+        // Verifiers who are not signed in only learn that the credential is valid
+        setVerificationResult('restricted');
+        setBlockchainVerification({ ...blockchainResult, checked: false });
+        toast({
+          title: 'Credential Valid',
+          description: 'Personal data is withheld. Sign in and request the holder\'s consent to see it.',
+        });
+      } else if (status === 'expired' || (result.credential && result.error?.includes('expired'))) {
         setVerificationResult('expired');
-        setCredential(result.credential);
+        setCredential(result.credential || null);
         toast({
           title: 'Credential Expired',
           description: 'This credential has passed its expiry date',
@@ -135,6 +333,8 @@ export function CredentialVerifier() {
           variant: 'destructive',
         });
       }
+
+      return { credential: result.credential || null, storedHash: blockchainResult.storedHash };
     } catch (error: any) {
       setVerificationResult('error');
       toast({
@@ -142,6 +342,231 @@ export function CredentialVerifier() {
         description: error.message || 'An error occurred during verification',
         variant: 'destructive',
       });
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Handle a scanned QR code: credential payloads are cross-checked, holder responses answer the open challenge
+  const handleScan = async (data: string) => {
+    const payloadType = getQRPayloadType(data);
+
+    if (payloadType === HOLDER_PRESENTATION_TYPE && challenge) {
+      setHolderResponse(data);
+      toast({
+        title: 'Response Scanned',
+        description: 'Verify the holder response to continue',
+      });
+      return;
+    }
+
+    let payload: IdentityCredentialQRPayload | null;
+    if (isCompactCredentialQR(data)) {
+      const compact = await verifyCompactCredentialQR(data);
+      if (!compact.success || !compact.claims) {
+        toast({
+          title: 'Invalid Signed QR Code',
+          description: compact.error || 'The compact credential could not be verified',
+          variant: 'destructive',
+        });
+        return;
+      }
+      payload = {
+        type: IDENTITY_CREDENTIAL_QR_TYPE,
+        address: compact.claims.citizenAddress,
+        credentialHash: compact.claims.credentialHash,
+        issuer: compact.claims.issuerAddress,
+      };
+    } else {
+      payload = parseIdentityCredentialQR(data);
+    }
+
+    if (!payload) {
+      toast({
+        title: 'Unrecognized QR Code',
+        description: 'This QR code does not contain an identity credential',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setCitizenAddress(payload.address);
+    const verification = await runVerification(payload.address, undefined, { credentialHash: payload.credentialHash });
+    if (!verification) return;
+
+    const check = crossCheckCredentialQR(payload, verification.credential, verification.storedHash);
+    if (isCompactCredentialQR(data)) {
+      check.coseSignatureValid = true;
+    }
+    setQrCrossCheck(check);
+    if (!isCredentialQRConsistent(check)) {
+      toast({
+        title: 'QR Code Mismatch',
+        description: 'The scanned credential does not match the database or blockchain record',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Check an age proof shared by the holder without learning their date of birth
+  const handleCheckAgeProof = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!ageProofInput.trim()) {
+      toast({
+        title: 'Age Proof Required',
+        description: 'Paste the age proof shared by the credential holder',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsCheckingAge(true);
+    setAgeProofCheck(null);
+
+    try {
+      const result = verifyAgeProof(ageProofInput.trim());
+      if (!result.valid || !result.citizenAddress || !result.issuerAddress || !result.issuerJwt) {
+        setAgeProofCheck({ ...result, valid: false, error: result.error || 'Malformed age proof', anchored: false });
+        return;
+      }
+
+      // The commitment counts only if it was signed into the holder's issued, anchored credential
+      const registry = await checkPresentedCredential({
+        citizenAddress: result.citizenAddress,
+        issuerAddress: result.issuerAddress,
+        credentialHash: result.credentialHash || '',
+        issuerJwt: result.issuerJwt,
+      }, { method: 'age_proof', disclosedFields: result.ageOver !== undefined ? [ageOverField(result.ageOver)] : [] });
+      if (registry.status === 'invalid' || registry.status === 'untrusted') {
+        setAgeProofCheck({ valid: false, error: registry.error, anchored: false });
+        return;
+      }
+
+      const anchored = registry.status === 'active' || registry.status === 'expired';
+      const expired = registry.status === 'expired' || !!result.expired;
+      setAgeProofCheck({ ...result, expired, anchored, credentialStatus: registry.status });
+    } catch (error: unknown) {
+      console.error('Age proof verification error:', error);
+      setAgeProofCheck({ valid: false, error: 'Failed to verify age proof', anchored: false });
+    } finally {
+      setIsCheckingAge(false);
+    }
+  };
+
+  // Import a W3C Verifiable Credential document and verify its proof and on-chain anchor
+  const handleImportVC = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsLoading(true);
+    setVerificationResult('pending');
+    setCredential(null);
+    setIntegrityReport(null);
+    setHolderConfirmed(false);
+    setQrCrossCheck(null);
+    setHolderCredentials([]);
+    setRenewalChain([]);
+    setStatusListCheck(null);
+
+    try {
+      const parsed = fromVerifiableCredential(await file.text());
+      if (!parsed.success || !parsed.credential) {
+        setVerificationResult('invalid');
+        toast({
+          title: 'Invalid Verifiable Credential',
+          description: parsed.error || 'The document could not be validated',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      const imported = parsed.credential;
+      setCitizenAddress(imported.citizenAddress);
+      setCredential(imported);
+
+      // Documents that name their anchor are checked against the chain and the signed status list
+      // position alone. Older exports are resolved to their credential record to find the anchor.
+      let record: StoredCredential | undefined;
+      if (!imported.contractVersion) {
+        const lookup = await verifyCredentialForCitizen(imported.citizenAddress, { credentialHash: imported.credentialHash });
+        if (lookup.retryAfter) {
+          setVerificationResult('error');
+          toast({
+            title: 'Too Many Requests',
+            description: lookup.error,
+            variant: 'destructive',
+          });
+          return;
+        }
+        record = lookup.credential;
+      }
+      const anchorSource = imported.contractVersion ? imported : record;
+      const storedHash = anchorSource ? await getAnchoredCredentialHash(anchorSource) : null;
+      const hashMatch = storedHash !== null && storedHash.toLowerCase() === imported.credentialHash.toLowerCase();
+      setBlockchainVerification({
+        checked: true,
+        onChain: storedHash !== null,
+        hashMatch,
+        storedHash,
+      });
+      const report = checkCredentialIntegrity(imported, storedHash);
+      setIntegrityReport(report);
+      const integrityValid = isCredentialIntegrityValid(report);
+
+      // Check the published status lists locally. The document's credentialStatus counts only when
+      // the issuer signed the position into the credential; otherwise the record's position is used.
+      const statusListIndex = isStatusListIndexSigned(imported) ? imported.statusListIndex : record?.statusListIndex;
+      const listCheck: StatusListCheck = statusListIndex !== undefined
+        ? await checkStatusListEntry(statusListIndex)
+        : { success: false, error: 'The credential does not carry a signed status list position' };
+      setStatusListCheck(listCheck);
+
+      // Without the record or a readable status list the credential cannot be reported as valid
+      const status = record ? getCredentialStatus(record) : null;
+      const statusKnown = !!record || listCheck.success;
+      const expired = imported.expiryDate ? new Date(imported.expiryDate) < new Date() : false;
+
+      if (status === 'superseded') {
+        setVerificationResult('superseded');
+      } else if (status === 'revoked' || listCheck.revoked) {
+        setVerificationResult('revoked');
+      } else if (status === 'suspended' || listCheck.suspended) {
+        setVerificationResult('suspended');
+      } else if (expired) {
+        setVerificationResult('expired');
+      } else if (integrityValid && statusKnown) {
+        setVerificationResult('valid');
+      } else if (integrityValid) {
+        setVerificationResult('error');
+      } else {
+        setVerificationResult('invalid');
+      }
+
+      if (integrityValid && !statusKnown) {
+        toast({
+          title: 'Status Unknown',
+          description: `Proof signature and on-chain hash verified, but the revocation status could not be checked: ${listCheck.error}`,
+          variant: 'destructive',
+        });
+      } else {
+        toast({
+          title: integrityValid ? 'Verifiable Credential Imported' : 'Credential Not Anchored',
+          description: integrityValid
+            ? 'Proof signature and on-chain hash verified'
+            : 'The proof is valid but the hash does not match the blockchain record',
+          variant: integrityValid ? 'default' : 'destructive',
+        });
+      }
+    } catch (error: unknown) {
+      setVerificationResult('error');
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to read the document',
+        variant: 'destructive',
+      });
     } finally {
       setIsLoading(false);
     }
@@ -153,6 +578,7 @@ export function CredentialVerifier() {
       type: 'credential-verification',
       address: citizenAddress,
       verified: verificationResult === 'valid',
+      holderConfirmed,
       blockchainVerified: blockchainVerification.onChain && blockchainVerification.hashMatch,
       credential: credential ? {
         fullName: credential.fullName,
@@ -164,6 +590,8 @@ export function CredentialVerifier() {
     });
   };
 
+  const isWithheld = (field: ConsentField) => !!credential?.withheldFields?.includes(field);
+
   const formatDate = (dateStr: string | number) => {
     if (typeof dateStr === 'number') {
       return new Date(dateStr).toLocaleDateString();
@@ -222,15 +650,78 @@ export function CredentialVerifier() {
             )}
           </Button>
 
+          <input
+            ref={vcFileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleImportVC}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            className="w-full"
+            disabled={isLoading}
+            onClick={() => vcFileInputRef.current?.click()}
+          >
+            <FileUp className="w-4 h-4 mr-2" />
+            Import Verifiable Credential (JSON)
+          </Button>
+
+          <QRScanner onScan={handleScan} buttonText="Scan Credential QR" disabled={isLoading} />
+
+          {/* Holder-bound presentation: the holder signs a one-time challenge */}
+          <div className="p-4 rounded-lg bg-background/50 border border-border space-y-3">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <KeyRound className="w-4 h-4 text-primary" />
+                <span className="text-sm font-medium">Holder Presentation</span>
+              </div>
+              <Button type="button" variant="outline" size="sm" onClick={handleNewChallenge} disabled={isLoading}>
+                {challenge ? 'New Challenge' : 'Request Presentation'}
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Ask the holder to sign a one-time challenge so a copied credential cannot be replayed.
+            </p>
+            {challenge && (
+              <>
+                <div className="flex justify-center">
+                  <QRCodeDisplay value={JSON.stringify(challenge)} title="Presentation Challenge" size={180} />
+                </div>
+                <Textarea
+                  placeholder='{"type":"HolderBoundPresentation",...}'
+                  value={holderResponse}
+                  onChange={(e) => setHolderResponse(e.target.value)}
+                  className="font-mono text-xs bg-secondary"
+                />
+                <Button
+                  type="button"
+                  className="w-full"
+                  variant="secondary"
+                  disabled={isLoading || !holderResponse.trim()}
+                  onClick={handleVerifyHolderResponse}
+                >
+                  <UserCheck className="w-4 h-4 mr-2" />
+                  Verify Holder Response
+                </Button>
+              </>
+            )}
+          </div>
+
           {/* Verification Result */}
           {verificationResult !== 'pending' && (
             <div className={`mt-4 p-4 rounded-lg border ${
-              verificationResult === 'valid' 
+              verificationResult === 'valid' || verificationResult === 'restricted'
                 ? 'bg-green-500/10 border-green-500/30' 
                 : verificationResult === 'expired'
                 ? 'bg-yellow-500/10 border-yellow-500/30'
                 : verificationResult === 'revoked'
                 ? 'bg-destructive/10 border-destructive/30'
+                : verificationResult === 'superseded'
+                ? 'bg-secondary border-border'
+                : verificationResult === 'suspended'
+                ? 'bg-orange-500/10 border-orange-500/30'
                 : verificationResult === 'invalid'
                 ? 'bg-destructive/10 border-destructive/30'
                 : 'bg-yellow-500/10 border-yellow-500/30'
@@ -242,11 +733,26 @@ export function CredentialVerifier() {
                       <CheckCircle className="w-6 h-6 text-green-400" />
                       <span className="font-bold text-lg text-green-400">Credential Valid</span>
                     </>
+                  ) : verificationResult === 'restricted' ? (
+                    <>
+                      <CheckCircle className="w-6 h-6 text-green-400" />
+                      <span className="font-bold text-lg text-green-400">Credential Valid, Details Withheld</span>
+                    </>
                   ) : verificationResult === 'revoked' ? (
                     <>
                       <Ban className="w-6 h-6 text-destructive" />
                       <span className="font-bold text-lg text-destructive">Credential Revoked</span>
                     </>
+                  ) : verificationResult === 'superseded' ? (
+                    <>
+                      <History className="w-6 h-6 text-muted-foreground" />
+                      <span className="font-bold text-lg text-muted-foreground">Credential Renewed</span>
+                    </>
+                  ) : verificationResult === 'suspended' ? (
+                    <>
+                      <PauseCircle className="w-6 h-6 text-orange-400" />
+                      <span className="font-bold text-lg text-orange-400">Credential Suspended</span>
+                    </>
                   ) : verificationResult === 'expired' ? (
                     <>
                       <AlertTriangle className="w-6 h-6 text-yellow-500" />
@@ -274,6 +780,84 @@ export function CredentialVerifier() {
                 )}
               </div>
 
+              {verificationResult === 'restricted' && (
+                <div className="flex items-start gap-2 p-3 rounded-lg bg-background/50 border border-border mb-3">
+                  <EyeOff className="w-4 h-4 text-muted-foreground mt-0.5" />
+                  <p className="text-sm text-muted-foreground">
+                    The credential is active, but who it belongs to is only shown with the holder's consent. Sign in to
+                    request access to their personal data.
+                  </p>
+                </div>
+              )}
+
+              {(verificationResult === 'valid' || verificationResult === 'expired') && (
+                <div className="flex items-center justify-between text-sm mb-3">
+                  <span className="text-muted-foreground">Holder:</span>
+                  {holderConfirmed ? (
+                    <Badge variant="default" className="bg-green-500/20 text-green-400 border-green-500/30">
+                      <UserCheck className="w-3 h-3 mr-1" />
+                      Signed challenge
+                    </Badge>
+                  ) : (
+                    <Badge variant="secondary" className="bg-yellow-500/20 text-yellow-400 border-yellow-500/30">
+                      <AlertTriangle className="w-3 h-3 mr-1" />
+                      Not confirmed
+                    </Badge>
+                  )}
+                </div>
+              )}
+
+              {/* Scanned QR cross-check */}
+              {qrCrossCheck && (
+                <div className={`p-3 rounded-lg border mb-3 ${
+                  isCredentialQRConsistent(qrCrossCheck)
+                    ? 'bg-background/50 border-border'
+                    : 'bg-destructive/10 border-destructive/30'
+                }`}>
+                  <div className="flex items-center gap-2 mb-2">
+                    <ScanLine className="w-4 h-4 text-primary" />
+                    <span className="text-sm font-medium">Scanned QR Cross-check</span>
+                  </div>
+                  <div className="space-y-2">
+                    {qrCrossCheck.coseSignatureValid && (
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="text-muted-foreground">COSE signature:</span>
+                        <Badge variant="default" className="bg-green-500/20 text-green-400 border-green-500/30">
+                          <CheckCircle className="w-3 h-3 mr-1" />
+                          Valid
+                        </Badge>
+                      </div>
+                    )}
+                    {[
+                      { label: 'Hash vs database', ok: qrCrossCheck.hashMatchesDatabase },
+                      { label: 'Hash vs blockchain', ok: qrCrossCheck.hashMatchesChain },
+                      { label: 'Issuer vs database', ok: qrCrossCheck.issuerMatchesDatabase },
+                    ].map(({ label, ok }) => (
+                      <div key={label} className="flex items-center justify-between text-sm">
+                        <span className="text-muted-foreground">{label}:</span>
+                        {ok ? (
+                          <Badge variant="default" className="bg-green-500/20 text-green-400 border-green-500/30">
+                            <CheckCircle className="w-3 h-3 mr-1" />
+                            Match
+                          </Badge>
+                        ) : (
+                          <Badge variant="destructive">
+                            <XCircle className="w-3 h-3 mr-1" />
+                            Mismatch
+                          </Badge>
+                        )}
+                      </div>
+                    ))}
+                    <div className="mt-2">
+                      <p className="text-xs text-muted-foreground mb-1">Scanned Hash:</p>
+                      <p className="font-mono text-xs break-all">{qrCrossCheck.scannedHash}</p>
+                      <p className="text-xs text-muted-foreground mt-2 mb-1">Scanned Issuer:</p>
+                      <p className="font-mono text-xs break-all">{qrCrossCheck.scannedIssuer}</p>
+                    </div>
+                  </div>
+                </div>
+              )}
+
               {/* Blockchain Verification Status */}
               {blockchainVerification.checked && (
                 <div className="p-3 rounded-lg bg-background/50 border border-border">
@@ -289,6 +873,11 @@ export function CredentialVerifier() {
                           <CheckCircle className="w-3 h-3 mr-1" />
                           Found on Sepolia
                         </Badge>
+                      ) : credential?.contractVersion === 3 && !credential.merkleRoot ? (
+                        <Badge variant="secondary" className="bg-yellow-500/20 text-yellow-400 border-yellow-500/30">
+                          <Clock className="w-3 h-3 mr-1" />
+                          Pending batch
+                        </Badge>
                       ) : (
                         <Badge variant="secondary" className="bg-yellow-500/20 text-yellow-400 border-yellow-500/30">
                           <AlertTriangle className="w-3 h-3 mr-1" />
@@ -318,6 +907,14 @@ export function CredentialVerifier() {
                         <p className="font-mono text-xs break-all text-primary/80">{blockchainVerification.storedHash}</p>
                       </div>
                     )}
+                    {credential?.merkleRoot && (
+                      <div className="mt-2">
+                        <p className="text-xs text-muted-foreground mb-1">
+                          Anchored in a Merkle batch (proof of {credential.merkleProof?.length ?? 0} hashes), root:
+                        </p>
+                        <p className="font-mono text-xs break-all text-primary/80">{credential.merkleRoot}</p>
+                      </div>
+                    )}
                     <a 
                       href={`https://sepolia.etherscan.io/address/${citizenAddress}`}
                       target="_blank"
@@ -330,14 +927,193 @@ export function CredentialVerifier() {
                 </div>
               )}
 
+              {/* Bitstring Status List */}
+              {statusListCheck && (
+                <div className="p-3 rounded-lg bg-background/50 border border-border mt-3">
+                  <div className="flex items-center gap-2 mb-2">
+                    <ListChecks className="w-4 h-4 text-primary" />
+                    <span className="text-sm font-medium">Status List</span>
+                  </div>
+                  {statusListCheck.success ? (
+                    <div className="space-y-2">
+                      {[
+                        { label: 'Revocation bit:', set: statusListCheck.revoked, setText: 'Revoked', clearText: 'Not revoked' },
+                        { label: 'Suspension bit:', set: statusListCheck.suspended, setText: 'Suspended', clearText: 'Not suspended' },
+                      ].map((bit) => (
+                        <div key={bit.label} className="flex items-center justify-between text-sm">
+                          <span className="text-muted-foreground">{bit.label}</span>
+                          {bit.set ? (
+                            <Badge variant="destructive">
+                              <XCircle className="w-3 h-3 mr-1" />
+                              {bit.setText}
+                            </Badge>
+                          ) : (
+                            <Badge variant="default" className="bg-green-500/20 text-green-400 border-green-500/30">
+                              <CheckCircle className="w-3 h-3 mr-1" />
+                              {bit.clearText}
+                            </Badge>
+                          )}
+                        </div>
+                      ))}
+                      <p className="text-xs text-muted-foreground">
+                        Signed list published {statusListCheck.publishedAt ? new Date(statusListCheck.publishedAt).toLocaleString() : '-'}
+                        {statusListCheck.fromCache ? ' (cached copy)' : ''}
+                      </p>
+                    </div>
+                  ) : (
+                    <div className="flex items-center justify-between gap-2 text-sm">
+                      <span className="text-muted-foreground">{statusListCheck.error}</span>
+                      <Badge variant="secondary" className="bg-yellow-500/20 text-yellow-400 border-yellow-500/30">
+                        <AlertTriangle className="w-3 h-3 mr-1" />
+                        Unavailable
+                      </Badge>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Hash Recomputation */}
+              {integrityReport && (
+                <div className="p-3 rounded-lg bg-background/50 border border-border mt-3">
+                  <div className="flex items-center gap-2 mb-2">
+                    <Calculator className="w-4 h-4 text-primary" />
+                    <span className="text-sm font-medium">Recompute & Compare</span>
+                  </div>
+                  {integrityReport.recomputable ? (
+                    <div className="space-y-2">
+                      {[
+                        {
+                          label: 'Database fields vs. canonical payload',
+                          ok: integrityReport.mismatchedFields.length === 0,
+                          failText: `Mismatch: ${integrityReport.mismatchedFields.join(', ')}`,
+                        },
+                        {
+                          label: 'Recomputed hash vs. database hash',
+                          ok: integrityReport.recomputedMatchesStored,
+                          failText: 'Mismatch',
+                        },
+                        {
+                          label: 'On-chain hash vs. recomputed hash',
+                          ok: integrityReport.onChainMatchesRecomputed,
+                          failText: integrityReport.onChainHash ? 'Mismatch' : 'Not on blockchain',
+                        },
+                      ].map((check) => (
+                        <div key={check.label} className="flex items-center justify-between text-sm">
+                          <span className="text-muted-foreground">{check.label}:</span>
+                          {check.ok ? (
+                            <Badge variant="default" className="bg-green-500/20 text-green-400 border-green-500/30">
+                              <CheckCircle className="w-3 h-3 mr-1" />
+                              Match
+                            </Badge>
+                          ) : (
+                            <Badge variant="destructive">
+                              <XCircle className="w-3 h-3 mr-1" />
+                              {check.failText}
+                            </Badge>
+                          )}
+                        </div>
+                      ))}
+                      {integrityReport.recomputedHash && (
+                        <div className="mt-2">
+                          <p className="text-xs text-muted-foreground mb-1">Recomputed Hash:</p>
+                          <p className="font-mono text-xs break-all text-primary/80">{integrityReport.recomputedHash}</p>
+                        </div>
+                      )}
+                    </div>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">
+                      Legacy credential: it was issued before the canonical payload was stored, so its hash cannot be recomputed.
+                    </p>
+                  )}
+                </div>
+              )}
+
               {credential && (
                 <div className="space-y-4">
+                  {holderCredentials.length > 1 && credential.id && !holderConfirmed && (
+                    <div className="space-y-2">
+                      <Label>Holder Credentials ({holderCredentials.length})</Label>
+                      <Select
+                        value={credential.id}
+                        onValueChange={(credentialId) => runVerification(citizenAddress, undefined, { credentialId })}
+                        disabled={isLoading}
+                      >
+                        <SelectTrigger className="bg-secondary">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {holderCredentials.map((c) => (
+                            <SelectItem key={c.id} value={c.id}>
+                              {c.typeName || c.credentialType} · issued {new Date(c.issuedAt).toLocaleDateString()}
+                              {c.revoked ? ' (revoked)' : c.superseded ? ' (renewed)' : ''}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+
+                  {renewalChain.length > 1 && (
+                    <div className="p-3 rounded-lg bg-background/50 space-y-2">
+                      <div className="flex items-center gap-2">
+                        <History className="w-4 h-4 text-primary" />
+                        <span className="text-sm font-medium">Renewal History</span>
+                      </div>
+                      {renewalChain.map((entry, index) => {
+                        const isShown = entry.id === credential.id;
+                        const isCurrent = !entry.supersededAt;
+                        return (
+                          <div key={entry.id} className="flex items-center justify-between gap-2 text-xs">
+                            <span className={isShown ? 'font-medium' : 'text-muted-foreground'}>
+                              {index + 1}. Issued {new Date(entry.issuedAt).toLocaleDateString()}
+                              {entry.expiryDate && `, expires ${new Date(entry.expiryDate).toLocaleDateString()}`}
+                            </span>
+                            <div className="flex items-center gap-2">
+                              {entry.revoked ? (
+                                <Badge variant="destructive">Revoked</Badge>
+                              ) : isCurrent ? (
+                                <Badge variant="default" className="bg-green-500/20 text-green-400 border-green-500/30">Current</Badge>
+                              ) : (
+                                <Badge variant="secondary">Renewed</Badge>
+                              )}
+                              {isCurrent && !isShown && !entry.revoked && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-6 px-2"
+                                  onClick={() => runVerification(citizenAddress, undefined, { credentialId: entry.id })}
+                                  disabled={isLoading}
+                                >
+                                  Verify
+                                </Button>
+                              )}
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+
+                  {credential.withheldFields && (
+                    <ConsentAccessRequester
+                      key={citizenAddress}
+                      citizenAddress={citizenAddress}
+                      withheldFields={credential.withheldFields}
+                      onUseConsent={(consentToken) =>
+                        runVerification(citizenAddress, undefined, { credentialId: credential.id, consentToken })
+                      }
+                      disabled={isLoading}
+                    />
+                  )}
+
+                  <CredentialAttributes credential={credential} />
+
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     <div className="flex items-center gap-3 p-3 rounded-lg bg-background/50">
                       <User className="w-5 h-5 text-primary" />
                       <div>
                         <p className="text-xs text-muted-foreground">Full Name</p>
-                        <p className="font-medium">{credential.fullName}</p>
+                        <p className="font-medium">{isWithheld('fullName') ? WITHHELD_TEXT : credential.fullName}</p>
                       </div>
                     </div>
 
@@ -345,7 +1121,7 @@ export function CredentialVerifier() {
                       <CreditCard className="w-5 h-5 text-primary" />
                       <div>
                         <p className="text-xs text-muted-foreground">National ID</p>
-                        <p className="font-medium">{credential.nationalId}</p>
+                        <p className="font-medium">{isWithheld('nationalId') ? WITHHELD_TEXT : credential.nationalId}</p>
                       </div>
                     </div>
 
@@ -353,7 +1129,9 @@ export function CredentialVerifier() {
                       <Calendar className="w-5 h-5 text-primary" />
                       <div>
                         <p className="text-xs text-muted-foreground">Date of Birth</p>
-                        <p className="font-medium">{credential.dateOfBirth || 'Not specified'}</p>
+                        <p className="font-medium">
+                          {isWithheld('dateOfBirth') ? WITHHELD_TEXT : credential.dateOfBirth || 'Not specified'}
+                        </p>
                       </div>
                     </div>
 
@@ -368,6 +1146,30 @@ export function CredentialVerifier() {
                     </div>
                   </div>
 
+                  {credential.signature && (
+                    <div className="flex items-center justify-between text-sm pt-3 border-t border-border">
+                      <span className="text-muted-foreground">
+                        Issuer signature ({credential.signatureScheme === 'eip712' ? 'EIP-712' : 'EIP-191'}):
+                      </span>
+                      {credential.withheldFields ? (
+                        <Badge variant="outline" className="bg-yellow-500/20 text-yellow-400 border-yellow-500/30">
+                          <AlertTriangle className="w-3 h-3 mr-1" />
+                          Needs consent
+                        </Badge>
+                      ) : verifyCredentialSignature(credential) ? (
+                        <Badge variant="default" className="bg-green-500/20 text-green-400 border-green-500/30">
+                          <CheckCircle className="w-3 h-3 mr-1" />
+                          Valid
+                        </Badge>
+                      ) : (
+                        <Badge variant="destructive">
+                          <XCircle className="w-3 h-3 mr-1" />
+                          Invalid
+                        </Badge>
+                      )}
+                    </div>
+                  )}
+
                   <div className="pt-3 border-t border-border">
                     <p className="text-xs text-muted-foreground mb-1">Issued By</p>
                     <p className="font-mono text-xs break-all">
@@ -387,6 +1189,91 @@ export function CredentialVerifier() {
             </div>
           )}
         </form>
+
+        {/* Age Predicate Proof */}
+        <form onSubmit={handleCheckAgeProof} className="space-y-4 mt-6 pt-6 border-t border-border">
+          <div className="flex items-center gap-2">
+            <Cake className="w-4 h-4 text-primary" />
+            <span className="text-sm font-medium">Check Age Proof</span>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Confirms the holder is over an age threshold without revealing their date of birth.
+          </p>
+          <Textarea
+            placeholder='{"type":"AgeOverProof",...}'
+            value={ageProofInput}
+            onChange={(e) => setAgeProofInput(e.target.value)}
+            className="font-mono text-xs bg-secondary"
+          />
+          <Button type="submit" variant="outline" className="w-full" disabled={isCheckingAge}>
+            {isCheckingAge ? (
+              <>
+                <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin mr-2" />
+                Checking...
+              </>
+            ) : (
+              <>
+                <Cake className="w-4 h-4 mr-2" />
+                Check Age Proof
+              </>
+            )}
+          </Button>
+
+          {ageProofCheck && (
+            <div className={`p-4 rounded-lg border ${
+              ageProofCheck.valid && ageProofCheck.anchored && !ageProofCheck.expired
+                ? 'bg-green-500/10 border-green-500/30'
+                : 'bg-destructive/10 border-destructive/30'
+            }`}>
+              {ageProofCheck.valid ? (
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    {ageProofCheck.anchored && !ageProofCheck.expired ? (
+                      <CheckCircle className="w-5 h-5 text-green-500" />
+                    ) : (
+                      <XCircle className="w-5 h-5 text-destructive" />
+                    )}
+                    <span className="font-bold">Over {ageProofCheck.ageOver}</span>
+                  </div>
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-muted-foreground">Age predicate:</span>
+                    <Badge variant="default" className="bg-green-500/20 text-green-400 border-green-500/30">
+                      <CheckCircle className="w-3 h-3 mr-1" />
+                      Proven
+                    </Badge>
+                  </div>
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-muted-foreground">Credential on-chain:</span>
+                    {ageProofCheck.anchored ? (
+                      <Badge variant="default" className="bg-green-500/20 text-green-400 border-green-500/30">
+                        <CheckCircle className="w-3 h-3 mr-1" />
+                        Active
+                      </Badge>
+                    ) : (
+                      <Badge variant="destructive">
+                        <Ban className="w-3 h-3 mr-1" />
+                        {ageProofCheck.credentialStatus === 'not_anchored'
+                          ? 'Not anchored'
+                          : CREDENTIAL_STATUS_LABELS[ageProofCheck.credentialStatus as CredentialStatus]}
+                      </Badge>
+                    )}
+                  </div>
+                  {ageProofCheck.expired && (
+                    <p className="text-xs text-yellow-500">The underlying credential has expired.</p>
+                  )}
+                  <p className="text-xs text-muted-foreground font-mono break-all">
+                    Holder: {ageProofCheck.citizenAddress}
+                  </p>
+                </div>
+              ) : (
+                <div className="flex items-center gap-2">
+                  <XCircle className="w-5 h-5 text-destructive" />
+                  <span className="text-sm text-destructive">{ageProofCheck.error}</span>
+                </div>
+              )}
+            </div>
+          )}
+        </form>
       </CardContent>
     </Card>
   );
@@ -0,0 +1,103 @@
+import { useRef, useState } from 'react';
+import { Paperclip, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  ACCEPTED_DOCUMENT_MIME_TYPES,
+  DOCUMENT_TYPE_LABELS,
+  DocumentType,
+  PendingDocument,
+  validateDocumentFile,
+} from '@/lib/credential-documents';
+
+interface DocumentAttachmentInputProps {
+  value: PendingDocument[];
+  onChange: (documents: PendingDocument[]) => void;
+  disabled?: boolean;
+}
+
+// Pick supporting documents for a request or credential; they are uploaded when it is submitted
+export function DocumentAttachmentInput({ value, onChange, disabled }: DocumentAttachmentInputProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [documentType, setDocumentType] = useState<DocumentType>('id_document');
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+
+    const accepted: PendingDocument[] = [];
+    for (const file of files) {
+      const error = validateDocumentFile(file);
+      if (error) {
+        toast({ title: 'File Not Attached', description: error, variant: 'destructive' });
+      } else {
+        accepted.push({ file, documentType });
+      }
+    }
+    if (accepted.length > 0) {
+      onChange([...value, ...accepted]);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Supporting Documents</Label>
+      <div className="flex gap-2">
+        <Select value={documentType} onValueChange={(type) => setDocumentType(type as DocumentType)} disabled={disabled}>
+          <SelectTrigger className="bg-secondary">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(DOCUMENT_TYPE_LABELS) as DocumentType[]).map((type) => (
+              <SelectItem key={type} value={type}>
+                {DOCUMENT_TYPE_LABELS[type]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={ACCEPTED_DOCUMENT_MIME_TYPES.join(',')}
+          multiple
+          className="hidden"
+          onChange={handleFiles}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled}
+        >
+          <Paperclip className="w-4 h-4 mr-2" />
+          Attach
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Scans of ID documents or proof of address (JPEG, PNG or PDF). Only you and administrators can open them.
+      </p>
+      {value.map((item, index) => (
+        <div
+          key={`${item.file.name}-${index}`}
+          className="flex items-center justify-between gap-2 p-2 rounded-md bg-secondary/50 border border-border text-sm"
+        >
+          <span className="truncate">
+            <span className="text-muted-foreground">{DOCUMENT_TYPE_LABELS[item.documentType]}:</span> {item.file.name}
+          </span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange(value.filter((_, i) => i !== index))}
+            disabled={disabled}
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
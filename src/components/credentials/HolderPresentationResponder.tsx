@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { QrCode, PenLine } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { useWallet } from '@/contexts/WalletContext';
+import { useToast } from '@/hooks/use-toast';
+import { QRCodeDisplay } from '@/components/wallet/QRCodeDisplay';
+import { StoredCredential } from '@/lib/credential-storage';
+import { createHolderPresentation, parsePresentationChallenge } from '@/lib/holder-binding';
+import { QRScanner } from './QRScanner';
+
+interface HolderPresentationResponderProps {
+  credential: StoredCredential;
+}
+
+export function HolderPresentationResponder({ credential }: HolderPresentationResponderProps) {
+  const { signWithWallet } = useWallet();
+  const { toast } = useToast();
+  const [challengeInput, setChallengeInput] = useState('');
+  const [response, setResponse] = useState<string | null>(null);
+  const [isSigning, setIsSigning] = useState(false);
+
+  const reset = () => {
+    setChallengeInput('');
+    setResponse(null);
+  };
+
+  const handleSign = async () => {
+    const challenge = parsePresentationChallenge(challengeInput.trim());
+    if (!challenge) {
+      toast({
+        title: 'Invalid Challenge',
+        description: 'Paste the challenge shown by the verifier',
+        variant: 'destructive',
+      });
+      return;
+    }
+    if (Date.now() > challenge.expiresAt) {
+      toast({
+        title: 'Challenge Expired',
+        description: 'Ask the verifier for a new challenge',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsSigning(true);
+    try {
+      const result = await signWithWallet((privateKey) =>
+        createHolderPresentation(privateKey, challenge, credential)
+      );
+
+      if (!result.success || !result.result) {
+        toast({
+          title: 'Signing Failed',
+          description: result.error || 'Could not sign the presentation',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      setResponse(JSON.stringify(result.result));
+    } finally {
+      setIsSigning(false);
+    }
+  };
+
+  return (
+    <Dialog onOpenChange={(open) => !open && reset()}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <QrCode className="w-4 h-4 mr-2" />
+          Present
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Present Credential</DialogTitle>
+          <DialogDescription>
+            Sign the verifier's challenge with your wallet to prove this credential is yours.
+          </DialogDescription>
+        </DialogHeader>
+
+        {response ? (
+          <div className="flex flex-col items-center gap-4 py-2">
+            <QRCodeDisplay value={response} title="Signed Presentation" size={240} />
+            <p className="text-xs text-muted-foreground text-center">
+              This response is only valid for the verifier that issued the challenge, and only once.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="presentationChallenge">Verifier Challenge</Label>
+              <Textarea
+                id="presentationChallenge"
+                placeholder='{"type":"PresentationChallenge",...}'
+                value={challengeInput}
+                onChange={(e) => setChallengeInput(e.target.value)}
+                className="font-mono text-xs bg-secondary"
+              />
+            </div>
+            <QRScanner onScan={setChallengeInput} buttonText="Scan Challenge" disabled={isSigning} />
+            <Button
+              className="w-full gradient-primary text-primary-foreground"
+              onClick={handleSign}
+              disabled={isSigning || !challengeInput.trim()}
+            >
+              {isSigning ? (
+                <>
+                  <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin mr-2" />
+                  Signing...
+                </>
+              ) : (
+                <>
+                  <PenLine className="w-4 h-4 mr-2" />
+                  Sign Challenge
+                </>
+              )}
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,223 @@
+import { useState, useEffect, useCallback } from 'react';
+import { WifiOff, Wifi, RefreshCw, CheckCircle, XCircle, AlertTriangle, Ban, ShieldQuestion, Database, PauseCircle, History } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import {
+  getCachedTrustSnapshot,
+  refreshTrustSnapshot,
+  verifyCredentialOffline,
+  verifyCompactCredentialOffline,
+  formatSnapshotAge,
+  TrustSnapshot,
+  OfflineVerificationResult,
+} from '@/lib/offline-verification';
+import { isCompactCredentialQR } from '@/lib/compact-credential';
+import { QRScanner } from './QRScanner';
+
+export function OfflineVerifier() {
+  const { toast } = useToast();
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [snapshot, setSnapshot] = useState<TrustSnapshot | null>(getCachedTrustSnapshot);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [payload, setPayload] = useState('');
+  const [result, setResult] = useState<OfflineVerificationResult | null>(null);
+
+  const refresh = useCallback(async (silent: boolean) => {
+    setIsRefreshing(true);
+    const response = await refreshTrustSnapshot();
+    setIsRefreshing(false);
+
+    if (response.success && response.snapshot) {
+      setSnapshot(response.snapshot);
+      if (!silent) {
+        toast({
+          title: 'Trust Data Updated',
+          description: `${response.snapshot.issuers.length} issuers, ${response.snapshot.revokedHashes.length} revoked credentials`,
+        });
+      }
+    } else if (!silent) {
+      toast({
+        title: 'Refresh Failed',
+        description: response.error || 'Could not download trust data',
+        variant: 'destructive',
+      });
+    }
+  }, [toast]);
+
+  // Refresh the cached trust data whenever the device is (or comes back) online
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      refresh(true);
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    if (navigator.onLine) {
+      refresh(true);
+    }
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [refresh]);
+
+  const verify = async (data: string) => {
+    if (!snapshot) {
+      toast({
+        title: 'No Trust Data',
+        description: 'Connect to the internet once to download trusted issuers and revocations',
+        variant: 'destructive',
+      });
+      return;
+    }
+    setResult(isCompactCredentialQR(data)
+      ? await verifyCompactCredentialOffline(data.trim(), snapshot)
+      : verifyCredentialOffline(data.trim(), snapshot));
+  };
+
+  const handleScan = (data: string) => {
+    setPayload(data);
+    verify(data);
+  };
+
+  const statusDisplay = result && {
+    valid: { icon: CheckCircle, color: 'text-green-400', box: 'bg-green-500/10 border-green-500/30', label: 'Credential Valid' },
+    expired: { icon: AlertTriangle, color: 'text-yellow-500', box: 'bg-yellow-500/10 border-yellow-500/30', label: 'Credential Expired' },
+    revoked: { icon: Ban, color: 'text-destructive', box: 'bg-destructive/10 border-destructive/30', label: 'Credential Revoked' },
+    suspended: { icon: PauseCircle, color: 'text-orange-400', box: 'bg-orange-500/10 border-orange-500/30', label: 'Credential Suspended' },
+    superseded: { icon: History, color: 'text-muted-foreground', box: 'bg-secondary border-border', label: 'Credential Renewed' },
+    untrusted: { icon: ShieldQuestion, color: 'text-destructive', box: 'bg-destructive/10 border-destructive/30', label: 'Untrusted Issuer' },
+    invalid: { icon: XCircle, color: 'text-destructive', box: 'bg-destructive/10 border-destructive/30', label: 'Invalid Credential' },
+  }[result.status];
+
+  return (
+    <Card className="border-border bg-card border-glow">
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className="w-12 h-12 rounded-lg gradient-primary flex items-center justify-center">
+            <WifiOff className="w-6 h-6 text-primary-foreground" />
+          </div>
+          <div>
+            <CardTitle>Offline Verification</CardTitle>
+            <CardDescription>Check signed credential QR codes without a network connection</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="p-4 rounded-lg bg-background/50 border border-border space-y-2">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Database className="w-4 h-4 text-primary" />
+              <span className="text-sm font-medium">Cached Trust Data</span>
+            </div>
+            {isOnline ? (
+              <Badge variant="outline" className="text-green-400 border-green-500/30">
+                <Wifi className="w-3 h-3 mr-1" />
+                Online
+              </Badge>
+            ) : (
+              <Badge variant="outline" className="text-yellow-400 border-yellow-500/30">
+                <WifiOff className="w-3 h-3 mr-1" />
+                Offline
+              </Badge>
+            )}
+          </div>
+          {snapshot ? (
+            <div className="text-xs text-muted-foreground space-y-1">
+              <p>Downloaded {formatSnapshotAge(Date.now() - snapshot.fetchedAt)} ago ({new Date(snapshot.fetchedAt).toLocaleString()})</p>
+              <p>
+                {snapshot.issuers.length} trusted issuers, {snapshot.revokedHashes.length} revoked,{' '}
+                {snapshot.suspendedHashes.length} suspended and {snapshot.supersededHashes.length} renewed credentials
+              </p>
+            </div>
+          ) : (
+            <p className="text-xs text-yellow-500">No trust data cached yet. Go online once to download it.</p>
+          )}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => refresh(false)}
+            disabled={!isOnline || isRefreshing}
+          >
+            <RefreshCw className={`w-4 h-4 mr-2 ${isRefreshing ? 'animate-spin' : ''}`} />
+            Refresh Now
+          </Button>
+        </div>
+
+        <QRScanner onScan={handleScan} buttonText="Scan Signed Credential QR" />
+
+        <div className="space-y-2">
+          <Label htmlFor="offlinePayload">Or paste the QR payload</Label>
+          <Textarea
+            id="offlinePayload"
+            placeholder="IC1:..."
+            value={payload}
+            onChange={(e) => setPayload(e.target.value)}
+            className="font-mono text-xs bg-secondary"
+          />
+          <Button
+            type="button"
+            className="w-full gradient-primary text-primary-foreground"
+            disabled={!payload.trim()}
+            onClick={() => verify(payload)}
+          >
+            <WifiOff className="w-4 h-4 mr-2" />
+            Verify Offline
+          </Button>
+        </div>
+
+        {result && statusDisplay && (
+          <div className={`p-4 rounded-lg border ${statusDisplay.box}`}>
+            <div className="flex items-center gap-2 mb-3">
+              <statusDisplay.icon className={`w-6 h-6 ${statusDisplay.color}`} />
+              <span className={`font-bold text-lg ${statusDisplay.color}`}>{statusDisplay.label}</span>
+            </div>
+
+            <div className="p-3 rounded-lg bg-yellow-500/10 border border-yellow-500/30 mb-3">
+              <p className="text-sm text-yellow-400 font-medium">Offline check</p>
+              <p className="text-xs text-muted-foreground">
+                Verified against trust data cached {formatSnapshotAge(result.snapshotAge)} ago.
+                Revocations and suspensions made since then are not reflected.
+              </p>
+            </div>
+
+            {result.error && <p className="text-sm text-muted-foreground mb-3">{result.error}</p>}
+
+            {result.credential && (
+              <div className="grid grid-cols-2 gap-3 text-sm">
+                <div>
+                  <p className="text-xs text-muted-foreground">Full Name</p>
+                  <p className="font-medium">{result.credential.fullName}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground">National ID</p>
+                  <p className="font-medium">{result.credential.nationalId}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground">Date of Birth</p>
+                  <p className="font-medium">{result.credential.dateOfBirth || 'Not specified'}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground">Expiry Date</p>
+                  <p className="font-medium">{result.credential.expiryDate || 'Not specified'}</p>
+                </div>
+                <div className="col-span-2">
+                  <p className="text-xs text-muted-foreground">Issuer</p>
+                  <p className="font-mono text-xs break-all">{result.credential.issuerAddress}</p>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
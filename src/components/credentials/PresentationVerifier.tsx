@@ -0,0 +1,223 @@
+import { useState } from 'react';
+import { ScanLine, CheckCircle, XCircle, AlertTriangle, Link2, EyeOff } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { DISCLOSABLE_CLAIMS, DISCLOSABLE_CLAIM_LABELS, SdJwtVerificationResult, verifySdJwtPresentation } from '@/lib/sd-jwt';
+import { PresentedCredentialStatus, checkPresentedCredential } from '@/lib/credential-storage';
+
+type PresentationResult = 'pending' | 'valid' | PresentedCredentialStatus;
+
+// Titles of the failed outcomes other than expiry
+const FAILED_RESULT_TITLES: Record<string, string> = {
+  invalid: 'Invalid Presentation',
+  untrusted: 'Untrusted Issuer',
+  revoked: 'Credential Revoked',
+  superseded: 'Credential Renewed',
+  suspended: 'Credential Suspended',
+  not_anchored: 'Not Anchored On-Chain',
+};
+
+export function PresentationVerifier() {
+  const { toast } = useToast();
+  const [presentation, setPresentation] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [result, setResult] = useState<PresentationResult>('pending');
+  const [verification, setVerification] = useState<SdJwtVerificationResult | null>(null);
+  const [onChainHash, setOnChainHash] = useState<string | null>(null);
+  const [registryError, setRegistryError] = useState<string | null>(null);
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!presentation.trim()) {
+      toast({
+        title: 'Presentation Required',
+        description: 'Paste the presentation shared by the credential holder',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsLoading(true);
+    setResult('pending');
+    setVerification(null);
+    setOnChainHash(null);
+    setRegistryError(null);
+
+    try {
+      const sdJwtResult = verifySdJwtPresentation(presentation);
+      setVerification(sdJwtResult);
+
+      if (!sdJwtResult.valid || !sdJwtResult.citizenAddress || !sdJwtResult.issuerAddress || !sdJwtResult.issuerJwt) {
+        setResult('invalid');
+        return;
+      }
+
+      const registry = await checkPresentedCredential({
+        citizenAddress: sdJwtResult.citizenAddress,
+        issuerAddress: sdJwtResult.issuerAddress,
+        credentialHash: sdJwtResult.credentialHash || '',
+        issuerJwt: sdJwtResult.issuerJwt,
+      }, { method: 'presentation', disclosedFields: Object.keys(sdJwtResult.disclosedClaims) });
+      setOnChainHash(registry.anchoredHash);
+      setRegistryError(registry.error || null);
+
+      const outcome = registry.status !== 'active'
+        ? registry.status
+        : sdJwtResult.expired ? 'expired' : 'valid';
+      setResult(outcome);
+    } catch (error: unknown) {
+      console.error('Presentation verification error:', error);
+      setResult('invalid');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const disclosedCount = verification ? Object.keys(verification.disclosedClaims).length : 0;
+
+  return (
+    <Card className="border-border bg-card border-glow">
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className="w-12 h-12 rounded-lg gradient-primary flex items-center justify-center">
+            <ScanLine className="w-6 h-6 text-primary-foreground" />
+          </div>
+          <div>
+            <CardTitle>Verify Presentation</CardTitle>
+            <CardDescription>Check a selective disclosure presentation shared by a citizen</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleVerify} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="presentation">SD-JWT Presentation *</Label>
+            <Textarea
+              id="presentation"
+              placeholder="eyJhbGciOiJFUzI1NksiLCJ0eXAiOiJ2YytzZC1qd3Qi..."
+              value={presentation}
+              onChange={(e) => setPresentation(e.target.value)}
+              className="font-mono text-xs bg-secondary min-h-[120px]"
+            />
+          </div>
+
+          <Button
+            type="submit"
+            className="w-full gradient-primary text-primary-foreground"
+            disabled={isLoading}
+          >
+            {isLoading ? (
+              <>
+                <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin mr-2" />
+                Verifying...
+              </>
+            ) : (
+              <>
+                <ScanLine className="w-4 h-4 mr-2" />
+                Verify Presentation
+              </>
+            )}
+          </Button>
+        </form>
+
+        {result !== 'pending' && verification && (
+          <div className={`mt-6 p-4 rounded-lg border ${
+            result === 'valid'
+              ? 'bg-green-500/10 border-green-500/30'
+              : result === 'expired'
+                ? 'bg-yellow-500/10 border-yellow-500/30'
+                : 'bg-destructive/10 border-destructive/30'
+          }`}>
+            <div className="flex items-center gap-2 mb-4">
+              {result === 'valid' ? (
+                <>
+                  <CheckCircle className="w-6 h-6 text-green-500" />
+                  <span className="font-bold text-lg text-green-400">Presentation Valid</span>
+                </>
+              ) : result === 'expired' ? (
+                <>
+                  <AlertTriangle className="w-6 h-6 text-yellow-500" />
+                  <span className="font-bold text-lg text-yellow-500">Credential Expired</span>
+                </>
+              ) : (
+                <>
+                  <XCircle className="w-6 h-6 text-destructive" />
+                  <span className="font-bold text-lg text-destructive">{FAILED_RESULT_TITLES[result]}</span>
+                </>
+              )}
+            </div>
+
+            {(verification.error || registryError) && (
+              <p className="text-sm text-destructive mb-4">{verification.error || registryError}</p>
+            )}
+
+            {/* Claims are only shown once the registry confirms they were issued with the credential */}
+            {verification.valid && result !== 'invalid' && result !== 'untrusted' && (
+              <div className="space-y-4">
+                <div className="p-3 rounded-lg bg-background/50 border border-border space-y-2">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-muted-foreground">Issuer signature:</span>
+                    <Badge variant="default" className="bg-green-500/20 text-green-400 border-green-500/30">
+                      <CheckCircle className="w-3 h-3 mr-1" />
+                      Valid
+                    </Badge>
+                  </div>
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-muted-foreground">
+                      <Link2 className="w-3 h-3 inline mr-1" />
+                      On-chain hash:
+                    </span>
+                    {onChainHash && onChainHash.toLowerCase() === verification.credentialHash?.toLowerCase() ? (
+                      <Badge variant="default" className="bg-green-500/20 text-green-400 border-green-500/30">
+                        <CheckCircle className="w-3 h-3 mr-1" />
+                        Verified
+                      </Badge>
+                    ) : (
+                      <Badge variant="destructive">
+                        <XCircle className="w-3 h-3 mr-1" />
+                        {onChainHash ? 'Mismatch' : 'Not found'}
+                      </Badge>
+                    )}
+                  </div>
+                  <div>
+                    <p className="text-xs text-muted-foreground">Citizen</p>
+                    <p className="font-mono text-xs break-all">{verification.citizenAddress}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-muted-foreground">Issuer</p>
+                    <p className="font-mono text-xs break-all">{verification.issuerAddress}</p>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Disclosed Claims ({disclosedCount})</p>
+                  {DISCLOSABLE_CLAIMS.map(claim => {
+                    const value = verification.disclosedClaims[claim];
+                    return (
+                      <div key={claim} className="flex items-center justify-between text-sm p-2 rounded bg-background/50">
+                        <span className="text-muted-foreground">{DISCLOSABLE_CLAIM_LABELS[claim]}</span>
+                        {value !== undefined ? (
+                          <span className="font-medium">{value}</span>
+                        ) : (
+                          <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                            <EyeOff className="w-3 h-3" />
+                            Not disclosed
+                          </span>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
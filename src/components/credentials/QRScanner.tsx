@@ -0,0 +1,183 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import jsQR from 'jsqr';
+import { Camera, ScanLine } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+
+interface QRScannerProps {
+  onScan: (data: string) => void;
+  buttonText?: string;
+  disabled?: boolean;
+}
+
+export function QRScanner({ onScan, buttonText = 'Scan QR', disabled = false }: QRScannerProps) {
+  const { toast } = useToast();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const frameRef = useRef<number | null>(null);
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+  // Bumped whenever the camera is started or stopped and on unmount, so a stream that arrives after
+  // the dialog was closed is stopped instead of left running
+  const sessionRef = useRef(0);
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isStarting, setIsStarting] = useState(false);
+
+  const stopCamera = useCallback(() => {
+    sessionRef.current += 1;
+    setIsStarting(false);
+    if (frameRef.current !== null) {
+      cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+    }
+    if (stream) {
+      stream.getTracks().forEach(track => track.stop());
+      setStream(null);
+    }
+  }, [stream]);
+
+  const startCamera = useCallback(async () => {
+    const session = ++sessionRef.current;
+    try {
+      setIsStarting(true);
+      // Prefer the rear camera on phones; desktops fall back to the default webcam
+      const mediaStream = await navigator.mediaDevices.getUserMedia({
+        video: { facingMode: 'environment' }
+      });
+      if (session !== sessionRef.current) {
+        mediaStream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      setStream(mediaStream);
+    } catch (error) {
+      if (session !== sessionRef.current) return;
+      console.error('Camera access error:', error);
+      toast({
+        title: 'Camera Access Denied',
+        description: 'Please allow camera access to scan QR codes',
+        variant: 'destructive',
+      });
+      setIsOpen(false);
+    } finally {
+      if (session === sessionRef.current) {
+        setIsStarting(false);
+      }
+    }
+  }, [toast]);
+
+  // Decode video frames until a QR code is found
+  // The video element lives in the dialog, so the stream is attached once both exist
+  useEffect(() => {
+    if (!stream || !videoRef.current) return;
+
+    videoRef.current.srcObject = stream;
+    videoRef.current.play().catch((error) => console.error('Video playback error:', error));
+
+    const scanFrame = () => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (!video || !canvas) return;
+
+      if (video.readyState === video.HAVE_ENOUGH_DATA) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        const ctx = canvas.getContext('2d', { willReadFrequently: true });
+        if (ctx) {
+          ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+          const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+          const code = jsQR(imageData.data, imageData.width, imageData.height, {
+            inversionAttempts: 'dontInvert',
+          });
+
+          if (code?.data) {
+            stopCamera();
+            setIsOpen(false);
+            onScanRef.current(code.data);
+            return;
+          }
+        }
+      }
+
+      frameRef.current = requestAnimationFrame(scanFrame);
+    };
+
+    frameRef.current = requestAnimationFrame(scanFrame);
+
+    return () => {
+      if (frameRef.current !== null) {
+        cancelAnimationFrame(frameRef.current);
+        frameRef.current = null;
+      }
+    };
+  }, [stream, stopCamera]);
+
+  useEffect(() => {
+    return () => {
+      if (stream) {
+        stream.getTracks().forEach(track => track.stop());
+      }
+    };
+  }, [stream]);
+
+  useEffect(() => {
+    return () => {
+      sessionRef.current += 1;
+    };
+  }, []);
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) {
+      stopCamera();
+    }
+  };
+
+  return (
+    <>
+      <Button
+        type="button"
+        variant="outline"
+        className="w-full"
+        disabled={disabled}
+        onClick={() => {
+          setIsOpen(true);
+          startCamera();
+        }}
+      >
+        <ScanLine className="w-4 h-4 mr-2" />
+        {buttonText}
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Scan QR Code</DialogTitle>
+            <DialogDescription>
+              Hold the credential QR code in front of the camera
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="relative aspect-square bg-secondary rounded-lg overflow-hidden flex items-center justify-center">
+            {(isStarting || !stream) && (
+              <div className="text-center p-8">
+                <Camera className="w-16 h-16 mx-auto text-muted-foreground mb-4" />
+                <p className="text-muted-foreground">{isStarting ? 'Starting camera...' : 'Camera not active'}</p>
+              </div>
+            )}
+            <video
+              ref={videoRef}
+              autoPlay
+              playsInline
+              muted
+              className={`absolute inset-0 w-full h-full object-cover ${stream ? 'block' : 'hidden'}`}
+            />
+            <div className="absolute inset-8 border-2 border-primary/60 rounded-lg pointer-events-none" />
+            <canvas ref={canvasRef} className="hidden" />
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,209 @@
+import { useState, useEffect } from 'react';
+import { Gauge, Lock, RefreshCw, Save } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { getIssuerStatus } from '@/lib/issuer-config';
+import {
+  RATE_LIMITED_FUNCTION_LABELS,
+  RateLimitLockout,
+  RateLimitPolicy,
+  formatRetryAfter,
+  liftLockout,
+  listActiveLockouts,
+  listRateLimitPolicies,
+  updateRateLimitPolicy,
+} from '@/lib/rate-limit';
+
+type PolicyNumberField = 'maxCalls' | 'windowSeconds' | 'lockoutSeconds' | 'maxLockoutSeconds';
+
+const POLICY_COLUMNS: { field: PolicyNumberField; label: string }[] = [
+  { field: 'maxCalls', label: 'Calls' },
+  { field: 'windowSeconds', label: 'Window (s)' },
+  { field: 'lockoutSeconds', label: 'Lockout (s)' },
+  { field: 'maxLockoutSeconds', label: 'Max lockout (s)' },
+];
+
+// Admin view of the per-function rate limits and the callers currently locked out
+export function RateLimitSettings() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [authorized, setAuthorized] = useState(false);
+  const [policies, setPolicies] = useState<RateLimitPolicy[]>([]);
+  const [lockouts, setLockouts] = useState<RateLimitLockout[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [savingFunction, setSavingFunction] = useState<string | null>(null);
+
+  const loadLimits = async () => {
+    setIsLoading(true);
+    try {
+      const [loadedPolicies, loadedLockouts] = await Promise.all([listRateLimitPolicies(), listActiveLockouts()]);
+      setPolicies(loadedPolicies);
+      setLockouts(loadedLockouts);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    const loadIssuer = async () => {
+      const status = await getIssuerStatus();
+      setAuthorized(status.authorized);
+      if (status.authorized) {
+        await loadLimits();
+      }
+    };
+    loadIssuer();
+  }, [user]);
+
+  const setPolicyField = (functionName: string, field: PolicyNumberField, value: string) => {
+    setPolicies((prev) =>
+      prev.map((p) => (p.functionName === functionName ? { ...p, [field]: parseInt(value, 10) || 0 } : p))
+    );
+  };
+
+  const handleSave = async (policy: RateLimitPolicy) => {
+    setSavingFunction(policy.functionName);
+    try {
+      const result = await updateRateLimitPolicy(policy);
+      if (!result.success) {
+        toast({
+          title: 'Update Failed',
+          description: result.error || 'Failed to update the rate limit',
+          variant: 'destructive',
+        });
+        return;
+      }
+      toast({
+        title: 'Rate Limit Updated',
+        description: `${RATE_LIMITED_FUNCTION_LABELS[policy.functionName] || policy.functionName}: ${policy.maxCalls} calls per ${formatRetryAfter(policy.windowSeconds)}`,
+      });
+    } finally {
+      setSavingFunction(null);
+    }
+  };
+
+  const handleLift = async (lockout: RateLimitLockout) => {
+    const result = await liftLockout(lockout.functionName, lockout.callerKey);
+    if (!result.success) {
+      toast({
+        title: 'Failed to Lift Lockout',
+        description: result.error,
+        variant: 'destructive',
+      });
+      return;
+    }
+    setLockouts((prev) => prev.filter((l) => l !== lockout));
+  };
+
+  if (!authorized) {
+    return null;
+  }
+
+  return (
+    <Card className="border-border bg-card">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-3">
+            <div className="w-12 h-12 rounded-lg gradient-primary flex items-center justify-center">
+              <Gauge className="w-6 h-6 text-primary-foreground" />
+            </div>
+            <div>
+              <CardTitle>Rate Limits</CardTitle>
+              <CardDescription>
+                Calls allowed per user and per IP. Reaching the limit locks the caller out, doubling with each repeat
+                within a day.
+              </CardDescription>
+            </div>
+          </div>
+          <Button variant="ghost" size="sm" onClick={loadLimits} disabled={isLoading}>
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="rounded-lg border border-border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Function</TableHead>
+                {POLICY_COLUMNS.map((column) => (
+                  <TableHead key={column.field}>{column.label}</TableHead>
+                ))}
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {policies.map((policy) => (
+                <TableRow key={policy.functionName}>
+                  <TableCell className="text-xs">
+                    <p>{RATE_LIMITED_FUNCTION_LABELS[policy.functionName] || policy.functionName}</p>
+                    <p className="font-mono text-muted-foreground">{policy.functionName}</p>
+                  </TableCell>
+                  {POLICY_COLUMNS.map((column) => (
+                    <TableCell key={column.field}>
+                      <Input
+                        type="number"
+                        min={column.field === 'maxCalls' || column.field === 'windowSeconds' ? 1 : 0}
+                        value={policy[column.field]}
+                        onChange={(e) => setPolicyField(policy.functionName, column.field, e.target.value)}
+                        className="bg-secondary h-8 w-24"
+                      />
+                    </TableCell>
+                  ))}
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleSave(policy)}
+                      disabled={savingFunction === policy.functionName}
+                    >
+                      <Save className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Lock className="w-4 h-4 text-primary" />
+            <p className="text-sm font-medium">Locked out now ({lockouts.length})</p>
+          </div>
+          {lockouts.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No caller is locked out</p>
+          ) : (
+            lockouts.map((lockout) => (
+              <div
+                key={`${lockout.functionName}:${lockout.callerKey}`}
+                className="flex items-center justify-between gap-2 p-2 rounded-lg bg-background/50"
+              >
+                <div className="min-w-0">
+                  <p className="font-mono text-xs truncate">{lockout.callerKey}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {RATE_LIMITED_FUNCTION_LABELS[lockout.functionName] || lockout.functionName}, until{' '}
+                    {new Date(lockout.lockedUntil).toLocaleString()}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline" className="bg-red-500/20 text-red-400 border-red-500/30">
+                    {lockout.strikes} strike{lockout.strikes === 1 ? '' : 's'}
+                  </Badge>
+                  <Button variant="outline" size="sm" onClick={() => handleLift(lockout)}>
+                    Lift
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,80 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SchemaField } from '@/lib/credential-schemas';
+
+export type SchemaFieldValues = Record<string, string | boolean>;
+
+interface SchemaFieldInputsProps {
+  fields: SchemaField[];
+  values: SchemaFieldValues;
+  errors: Record<string, string>;
+  onChange: (values: SchemaFieldValues) => void;
+}
+
+// Form inputs rendered from the fields of a credential schema
+export function SchemaFieldInputs({ fields, values, errors, onChange }: SchemaFieldInputsProps) {
+  const setValue = (key: string, value: string | boolean) => onChange({ ...values, [key]: value });
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {fields.map((field) => {
+        const id = `attr-${field.key}`;
+        const label = `${field.label}${field.required ? ' *' : ''}`;
+        const error = errors[field.key];
+
+        if (field.type === 'boolean') {
+          return (
+            <div key={field.key} className="flex items-center gap-2 pt-6">
+              <Checkbox
+                id={id}
+                checked={values[field.key] === true}
+                onCheckedChange={(checked) => setValue(field.key, checked === true)}
+              />
+              <Label htmlFor={id}>{label}</Label>
+              {error && <p className="text-xs text-destructive">{error}</p>}
+            </div>
+          );
+        }
+
+        return (
+          <div key={field.key} className="space-y-2">
+            <Label htmlFor={id}>{label}</Label>
+            {field.type === 'enum' ? (
+              <Select
+                value={typeof values[field.key] === 'string' ? (values[field.key] as string) : ''}
+                onValueChange={(value) => setValue(field.key, value)}
+              >
+                <SelectTrigger id={id} className={`bg-secondary ${error ? 'border-destructive' : ''}`}>
+                  <SelectValue placeholder={`Select ${field.label.toLowerCase()}`} />
+                </SelectTrigger>
+                <SelectContent>
+                  {(field.options || []).map((option) => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input
+                id={id}
+                type={field.type === 'date' ? 'date' : field.type === 'number' ? 'number' : 'text'}
+                min={field.min}
+                max={field.max}
+                maxLength={field.maxLength}
+                value={typeof values[field.key] === 'string' ? (values[field.key] as string) : ''}
+                onChange={(e) => setValue(field.key, e.target.value)}
+                className={`bg-secondary ${error ? 'border-destructive' : ''}`}
+              />
+            )}
+            {error ? (
+              <p className="text-xs text-destructive">{error}</p>
+            ) : field.description ? (
+              <p className="text-xs text-muted-foreground">{field.description}</p>
+            ) : null}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
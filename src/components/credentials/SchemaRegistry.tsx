@@ -0,0 +1,406 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Layers, Plus, Trash2, Lock, GitBranch } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { isAuthorizedIssuer } from '@/lib/issuer-config';
+import {
+  CredentialSchema,
+  SchemaField,
+  SchemaFieldType,
+  SCHEMA_FIELD_TYPES,
+  listCredentialSchemas,
+  publishCredentialSchema,
+  setCredentialSchemaActive,
+  validateSchemaDefinition,
+} from '@/lib/credential-schemas';
+
+// Editable field row; numeric constraints and enum options are kept as text until publishing
+interface FieldDraft {
+  key: string;
+  label: string;
+  type: SchemaFieldType;
+  required: boolean;
+  pattern: string;
+  min: string;
+  max: string;
+  options: string;
+}
+
+interface SchemaDraft {
+  credentialType: string;
+  name: string;
+  description: string;
+  fields: FieldDraft[];
+  // Publishing a new version of an existing type keeps its identifier fixed
+  isNewVersion: boolean;
+}
+
+const EMPTY_FIELD: FieldDraft = { key: '', label: '', type: 'string', required: false, pattern: '', min: '', max: '', options: '' };
+
+function toFieldDraft(field: SchemaField): FieldDraft {
+  return {
+    key: field.key,
+    label: field.label,
+    type: field.type,
+    required: !!field.required,
+    pattern: field.pattern || '',
+    min: field.min?.toString() ?? '',
+    max: field.max?.toString() ?? '',
+    options: field.options?.join(', ') || '',
+  };
+}
+
+function toSchemaField(draft: FieldDraft): SchemaField {
+  const field: SchemaField = { key: draft.key.trim(), label: draft.label.trim(), type: draft.type };
+  if (draft.required) field.required = true;
+  if (draft.type === 'string' && draft.pattern.trim()) field.pattern = draft.pattern.trim();
+  if (draft.type === 'number' && draft.min.trim()) field.min = Number(draft.min);
+  if (draft.type === 'number' && draft.max.trim()) field.max = Number(draft.max);
+  if (draft.type === 'enum') {
+    field.options = draft.options.split(',').map((option) => option.trim()).filter(Boolean);
+  }
+  return field;
+}
+
+export function SchemaRegistry() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [isAuthorized, setIsAuthorized] = useState(false);
+  const [schemas, setSchemas] = useState<CredentialSchema[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [draft, setDraft] = useState<SchemaDraft | null>(null);
+  const [isPublishing, setIsPublishing] = useState(false);
+
+  const loadSchemas = useCallback(async () => {
+    setIsLoading(true);
+    setSchemas(await listCredentialSchemas());
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    isAuthorizedIssuer().then(setIsAuthorized);
+    loadSchemas();
+  }, [user, loadSchemas]);
+
+  const updateField = (index: number, changes: Partial<FieldDraft>) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      fields: draft.fields.map((field, i) => (i === index ? { ...field, ...changes } : field)),
+    });
+  };
+
+  const handleToggleActive = async (schema: CredentialSchema, isActive: boolean) => {
+    const result = await setCredentialSchemaActive(schema.id, isActive);
+    if (!result.success) {
+      toast({
+        title: 'Update Failed',
+        description: result.error || 'Failed to update schema',
+        variant: 'destructive',
+      });
+      return;
+    }
+    setSchemas(schemas.map((s) => (s.id === schema.id ? { ...s, isActive } : s)));
+  };
+
+  const handlePublish = async () => {
+    if (!draft) return;
+
+    const definition = {
+      credentialType: draft.credentialType.trim(),
+      name: draft.name,
+      description: draft.description,
+      fields: draft.fields.map(toSchemaField),
+    };
+
+    const errors = validateSchemaDefinition(definition);
+    if (errors.length > 0) {
+      toast({
+        title: 'Invalid Schema',
+        description: errors[0],
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsPublishing(true);
+    const result = await publishCredentialSchema(definition);
+    setIsPublishing(false);
+
+    if (result.success && result.schema) {
+      toast({
+        title: 'Schema Published',
+        description: `${result.schema.name} v${result.schema.version} can now be issued`,
+      });
+      setDraft(null);
+      loadSchemas();
+    } else {
+      toast({
+        title: 'Publish Failed',
+        description: result.error || 'Failed to publish schema',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Card className="border-border bg-card border-glow">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <div className="w-12 h-12 rounded-lg gradient-primary flex items-center justify-center">
+              <Layers className="w-6 h-6 text-primary-foreground" />
+            </div>
+            <div>
+              <CardTitle>Credential Types</CardTitle>
+              <CardDescription>Define the credential types issuers can issue</CardDescription>
+            </div>
+          </div>
+          {isAuthorized && (
+            <Button
+              size="sm"
+              onClick={() => setDraft({ credentialType: '', name: '', description: '', fields: [], isNewVersion: false })}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              New Type
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {!isAuthorized && (
+          <Alert variant="destructive">
+            <Lock className="h-4 w-4" />
+            <AlertTitle>Read Only</AlertTitle>
+            <AlertDescription>Only administrators can define credential types.</AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground text-center py-4">Loading credential types...</p>
+        ) : schemas.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No credential types defined</p>
+        ) : (
+          schemas.map((schema) => (
+            <div key={schema.id} className="p-4 rounded-lg bg-background/50 border border-border space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="font-medium">{schema.name}</span>
+                  <Badge variant="outline" className="font-mono text-xs">{schema.credentialType}</Badge>
+                  <Badge variant="secondary">v{schema.version}</Badge>
+                  {schema.isActive ? (
+                    <Badge className="bg-green-500/20 text-green-400 border-green-500/30">Active</Badge>
+                  ) : (
+                    <Badge variant="outline" className="text-muted-foreground">Inactive</Badge>
+                  )}
+                </div>
+                {isAuthorized && (
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setDraft({
+                        credentialType: schema.credentialType,
+                        name: schema.name,
+                        description: schema.description || '',
+                        fields: schema.fields.map(toFieldDraft),
+                        isNewVersion: true,
+                      })}
+                    >
+                      <GitBranch className="w-4 h-4 mr-1" />
+                      New Version
+                    </Button>
+                    <Switch
+                      checked={schema.isActive}
+                      onCheckedChange={(checked) => handleToggleActive(schema, checked)}
+                      aria-label="Available for issuance"
+                    />
+                  </div>
+                )}
+              </div>
+              {schema.description && <p className="text-xs text-muted-foreground">{schema.description}</p>}
+              {schema.fields.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {schema.fields.map((field) => (
+                    <Badge key={field.key} variant="outline" className="text-xs font-normal">
+                      {field.label}: {field.type}{field.required ? ' *' : ''}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))
+        )}
+
+        <Dialog open={!!draft} onOpenChange={(open) => !open && setDraft(null)}>
+          <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{draft?.isNewVersion ? `New Version of ${draft.name}` : 'New Credential Type'}</DialogTitle>
+              <DialogDescription>
+                Published versions cannot be edited. Credentials already issued keep the version they were issued with.
+              </DialogDescription>
+            </DialogHeader>
+
+            {draft && (
+              <div className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="schemaType">Type Identifier *</Label>
+                    <Input
+                      id="schemaType"
+                      placeholder="driver_licence"
+                      value={draft.credentialType}
+                      disabled={draft.isNewVersion}
+                      onChange={(e) => setDraft({ ...draft, credentialType: e.target.value.toLowerCase() })}
+                      className="font-mono bg-secondary"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="schemaName">Display Name *</Label>
+                    <Input
+                      id="schemaName"
+                      placeholder="Driver Licence"
+                      value={draft.name}
+                      onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                      className="bg-secondary"
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="schemaDescription">Description</Label>
+                  <Input
+                    id="schemaDescription"
+                    value={draft.description}
+                    onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                    className="bg-secondary"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label>Fields</Label>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setDraft({ ...draft, fields: [...draft.fields, { ...EMPTY_FIELD }] })}
+                    >
+                      <Plus className="w-4 h-4 mr-1" />
+                      Add Field
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Full name, national ID, date of birth and expiry date are part of every credential.
+                  </p>
+
+                  {draft.fields.map((field, index) => (
+                    <div key={index} className="p-3 rounded-lg border border-border bg-secondary/30 space-y-2">
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                        <Input
+                          placeholder="key (e.g. licenceNumber)"
+                          value={field.key}
+                          onChange={(e) => updateField(index, { key: e.target.value })}
+                          className="font-mono text-xs bg-secondary"
+                        />
+                        <Input
+                          placeholder="Label"
+                          value={field.label}
+                          onChange={(e) => updateField(index, { label: e.target.value })}
+                          className="bg-secondary"
+                        />
+                        <Select
+                          value={field.type}
+                          onValueChange={(value) => updateField(index, { type: value as SchemaFieldType })}
+                        >
+                          <SelectTrigger className="bg-secondary">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {SCHEMA_FIELD_TYPES.map((type) => (
+                              <SelectItem key={type} value={type}>{type}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+
+                      {field.type === 'string' && (
+                        <Input
+                          placeholder="Validation pattern (regular expression, optional)"
+                          value={field.pattern}
+                          onChange={(e) => updateField(index, { pattern: e.target.value })}
+                          className="font-mono text-xs bg-secondary"
+                        />
+                      )}
+                      {field.type === 'number' && (
+                        <div className="grid grid-cols-2 gap-2">
+                          <Input
+                            type="number"
+                            placeholder="Minimum"
+                            value={field.min}
+                            onChange={(e) => updateField(index, { min: e.target.value })}
+                            className="bg-secondary"
+                          />
+                          <Input
+                            type="number"
+                            placeholder="Maximum"
+                            value={field.max}
+                            onChange={(e) => updateField(index, { max: e.target.value })}
+                            className="bg-secondary"
+                          />
+                        </div>
+                      )}
+                      {field.type === 'enum' && (
+                        <Input
+                          placeholder="Options, comma separated"
+                          value={field.options}
+                          onChange={(e) => updateField(index, { options: e.target.value })}
+                          className="bg-secondary"
+                        />
+                      )}
+
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-2">
+                          <Checkbox
+                            id={`required-${index}`}
+                            checked={field.required}
+                            onCheckedChange={(checked) => updateField(index, { required: checked === true })}
+                          />
+                          <Label htmlFor={`required-${index}`} className="text-sm">Required</Label>
+                        </div>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setDraft({ ...draft, fields: draft.fields.filter((_, i) => i !== index) })}
+                        >
+                          <Trash2 className="w-4 h-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+              <Button onClick={handlePublish} disabled={isPublishing} className="gradient-primary text-primary-foreground">
+                {isPublishing ? 'Publishing...' : 'Publish'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,41 +1,38 @@
 import { useState, useEffect } from 'react';
-import { Shield, Copy, User, Calendar, CreditCard, CheckCircle } from 'lucide-react';
+import { Shield, Copy } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { useWallet } from '@/contexts/WalletContext';
 import { useToast } from '@/hooks/use-toast';
-import { getMyCredential, StoredCredential, verifyCredentialSignature } from '@/lib/credential-storage';
-import { QRCodeButton } from '@/components/wallet/QRCodeDisplay';
+import { getMyCredentials, StoredCredential } from '@/lib/credential-storage';
+import { getCredentialStatus } from '@/lib/credential-lifecycle';
+import { CredentialCard } from './CredentialCard';
+import { VerificationHistory } from './VerificationHistory';
+import { ConsentRequestInbox } from './ConsentRequestInbox';
 
 export function UserCredentialView() {
   const { address } = useWallet();
   const { toast } = useToast();
-  const [credential, setCredential] = useState<StoredCredential | null>(null);
+  const [credentials, setCredentials] = useState<StoredCredential[]>([]);
   const [isLoading, setIsLoading] = useState(false);
-  const [isValid, setIsValid] = useState(false);
 
-  const fetchCredential = async () => {
+  const fetchCredentials = async () => {
     if (!address) return;
-    
+
     setIsLoading(true);
     try {
-      const cred = await getMyCredential();
-      setCredential(cred);
-      
-      if (cred) {
-        const valid = verifyCredentialSignature(cred);
-        setIsValid(valid);
-      }
+      const creds = await getMyCredentials();
+      setCredentials(creds);
     } catch (error) {
-      console.error('Error fetching credential:', error);
+      console.error('Error fetching credentials:', error);
     } finally {
       setIsLoading(false);
     }
   };
 
   useEffect(() => {
-    fetchCredential();
+    fetchCredentials();
   }, [address]);
 
   const copyToClipboard = (text: string) => {
@@ -46,28 +43,10 @@ export function UserCredentialView() {
     });
   };
 
-  const formatDate = (dateStr: string | number) => {
-    if (typeof dateStr === 'number') {
-      return new Date(dateStr).toLocaleDateString();
-    }
-    return dateStr ? new Date(dateStr).toLocaleDateString() : 'Not specified';
-  };
-
-  const isExpired = credential?.expiryDate ? new Date(credential.expiryDate) < new Date() : false;
-
-  const getCredentialQRData = () => {
-    if (!credential) return '';
-    return JSON.stringify({
-      type: 'identity-credential',
-      address: address,
-      fullName: credential.fullName,
-      nationalId: credential.nationalId,
-      credentialHash: credential.credentialHash,
-      issuer: credential.issuerAddress,
-      issuedAt: credential.issuedAt,
-      expiryDate: credential.expiryDate,
-    });
-  };
+  // Active credentials first; revoked and renewed ones are kept at the bottom for reference
+  const isInactive = (cred: StoredCredential) => ['revoked', 'superseded'].includes(getCredentialStatus(cred));
+  const sortedCredentials = [...credentials].sort((a, b) => Number(isInactive(a)) - Number(isInactive(b)));
+  const activeCount = credentials.filter((cred) => !isInactive(cred)).length;
 
   if (!address) {
     return (
@@ -88,8 +67,8 @@ export function UserCredentialView() {
             <Shield className="w-6 h-6 text-primary-foreground" />
           </div>
           <div>
-            <CardTitle>My Credential</CardTitle>
-            <CardDescription>View your verified identity credential</CardDescription>
+            <CardTitle>My Credentials</CardTitle>
+            <CardDescription>View the verified credentials held by your wallet</CardDescription>
           </div>
         </div>
       </CardHeader>
@@ -116,113 +95,49 @@ export function UserCredentialView() {
             <div className="flex items-center justify-center py-8">
               <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin" />
             </div>
-          ) : credential ? (
-            <div className={`p-4 rounded-lg border ${
-              isExpired 
-                ? 'bg-yellow-500/10 border-yellow-500/30' 
-                : 'bg-green-500/10 border-green-500/30'
-            }`}>
-              <div className="flex items-center justify-between mb-4">
-                <div className="flex items-center gap-2">
-                  <CheckCircle className={`w-5 h-5 ${isExpired ? 'text-yellow-500' : 'text-green-400'}`} />
-                  <span className={`font-medium ${isExpired ? 'text-yellow-500' : 'text-green-400'}`}>
-                    {isExpired ? 'Credential Expired' : 'Credential Valid'}
-                  </span>
-                </div>
-                <div className="flex items-center gap-2">
-                  {isValid && <Badge variant="default" className="bg-green-500">Verified</Badge>}
-                  <QRCodeButton 
-                    value={getCredentialQRData()} 
-                    title="My Credential QR" 
-                    buttonText="QR"
-                  />
-                </div>
-              </div>
-              
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
-                <div className="flex items-center gap-3 p-3 rounded-lg bg-background/50">
-                  <User className="w-5 h-5 text-primary" />
-                  <div>
-                    <p className="text-xs text-muted-foreground">Full Name</p>
-                    <p className="font-medium">{credential.fullName}</p>
-                  </div>
-                </div>
-
-                <div className="flex items-center gap-3 p-3 rounded-lg bg-background/50">
-                  <CreditCard className="w-5 h-5 text-primary" />
-                  <div>
-                    <p className="text-xs text-muted-foreground">National ID</p>
-                    <p className="font-medium">{credential.nationalId}</p>
-                  </div>
-                </div>
-
-                <div className="flex items-center gap-3 p-3 rounded-lg bg-background/50">
-                  <Calendar className="w-5 h-5 text-primary" />
-                  <div>
-                    <p className="text-xs text-muted-foreground">Date of Birth</p>
-                    <p className="font-medium">{formatDate(credential.dateOfBirth)}</p>
-                  </div>
-                </div>
-
-                <div className="flex items-center gap-3 p-3 rounded-lg bg-background/50">
-                  <Calendar className="w-5 h-5 text-primary" />
-                  <div>
-                    <p className="text-xs text-muted-foreground">Expiry Date</p>
-                    <p className={`font-medium ${isExpired ? 'text-destructive' : ''}`}>
-                      {formatDate(credential.expiryDate)}
-                    </p>
-                  </div>
-                </div>
-              </div>
-
-              <div className="pt-3 border-t border-border space-y-3">
-                <div>
-                  <p className="text-xs text-muted-foreground mb-1">Issued By</p>
-                  <p className="font-mono text-xs break-all">
-                    {credential.issuerAddress}
-                  </p>
-                </div>
-                
-                <div>
-                  <p className="text-xs text-muted-foreground mb-1">Issued On</p>
-                  <p className="text-sm">{formatDate(credential.issuedAt)}</p>
-                </div>
-
-                <div>
-                  <p className="text-xs text-muted-foreground mb-1">Credential Hash</p>
-                  <div className="flex items-center gap-2 p-2 rounded bg-background/50">
-                    <span className="font-mono text-xs break-all flex-1 text-primary">
-                      {credential.credentialHash}
-                    </span>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="shrink-0"
-                      onClick={() => copyToClipboard(credential.credentialHash)}
-                    >
-                      <Copy className="w-4 h-4" />
-                    </Button>
-                  </div>
-                </div>
-              </div>
+          ) : credentials.length > 0 ? (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                {activeCount} active credential{activeCount === 1 ? '' : 's'}
+                {credentials.length > activeCount && `, ${credentials.length - activeCount} revoked or renewed`}
+              </p>
+              {sortedCredentials.map((cred) => (
+                <CredentialCard
+                  key={cred.id || cred.credentialHash}
+                  credential={cred}
+                  defaultExpanded={credentials.length === 1}
+                />
+              ))}
             </div>
           ) : (
             <div className="p-4 rounded-lg bg-secondary border border-border text-center">
               <Shield className="w-8 h-8 mx-auto text-muted-foreground mb-2" />
-              <p className="text-muted-foreground">No credential found for this address</p>
+              <p className="text-muted-foreground">No credentials found for this address</p>
               <p className="text-xs text-muted-foreground mt-1">
                 Contact an authorized issuer to get your identity credential
               </p>
             </div>
           )}
 
+          {credentials.length > 0 && (
+            <div className="p-4 rounded-lg bg-secondary/50 border border-border">
+              <ConsentRequestInbox />
+            </div>
+          )}
+
+          {credentials.length > 0 && (
+            <div className="p-4 rounded-lg bg-secondary/50 border border-border">
+              <VerificationHistory credentials={credentials} />
+            </div>
+          )}
+
           <Button
             variant="outline"
             className="w-full"
-            onClick={fetchCredential}
+            onClick={fetchCredentials}
             disabled={isLoading}
           >
-            Refresh Credential
+            Refresh Credentials
           </Button>
         </div>
       </CardContent>
@@ -0,0 +1,102 @@
+import { useState, useEffect } from 'react';
+import { Eye, RefreshCw, UserCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { StoredCredential } from '@/lib/credential-storage';
+import {
+  VERIFICATION_METHOD_LABELS,
+  VERIFICATION_RESULT_LABELS,
+  VerificationEvent,
+  getDisclosedFieldLabel,
+  getMyVerificationHistory,
+} from '@/lib/verification-history';
+
+interface VerificationHistoryProps {
+  // The citizen's credentials, to name the credential each check was about
+  credentials: StoredCredential[];
+}
+
+// "Who checked my ID": checks of the citizen's credentials by others, newest first
+export function VerificationHistory({ credentials }: VerificationHistoryProps) {
+  const [events, setEvents] = useState<VerificationEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadEvents = async () => {
+    setIsLoading(true);
+    try {
+      setEvents(await getMyVerificationHistory());
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    const load = async () => {
+      await loadEvents();
+    };
+    load();
+  }, [credentials]);
+
+  const credentialName = (credentialId: string) => {
+    const credential = credentials.find((c) => c.id === credentialId);
+    return (credential?.credentialType || 'identity').replace(/_/g, ' ');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Eye className="w-4 h-4 text-primary" />
+          <p className="text-sm font-medium">Who checked my ID</p>
+        </div>
+        <Button variant="ghost" size="sm" onClick={loadEvents} disabled={isLoading}>
+          <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+
+      {events.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          {isLoading ? 'Loading...' : 'Nobody has checked your credentials yet'}
+        </p>
+      ) : (
+        <ol className="relative border-l border-border ml-2 space-y-4">
+          {events.map((event) => (
+            <li key={event.id} className="ml-4">
+              <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-primary/60 border border-background" />
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <UserCircle className="w-4 h-4 shrink-0 text-muted-foreground" />
+                  <span className="text-sm truncate">{event.verifierLabel || 'Anonymous verifier'}</span>
+                </div>
+                <Badge
+                  variant="outline"
+                  className={event.result === 'valid'
+                    ? 'bg-green-500/20 text-green-400 border-green-500/30'
+                    : 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30'}
+                >
+                  {VERIFICATION_RESULT_LABELS[event.result]}
+                </Badge>
+              </div>
+              {event.verifierAddress && (
+                <p className="font-mono text-xs text-muted-foreground truncate">{event.verifierAddress}</p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                {VERIFICATION_METHOD_LABELS[event.method]} ({credentialName(event.credentialId)}),{' '}
+                {new Date(event.verifiedAt).toLocaleString()}
+              </p>
+              {event.disclosedFields.length > 0 && (
+                <div className="flex flex-wrap gap-1 mt-1">
+                  {event.disclosedFields.map((field) => (
+                    <Badge key={field} variant="secondary" className="text-xs">
+                      {getDisclosedFieldLabel(field)}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
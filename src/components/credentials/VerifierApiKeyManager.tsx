@@ -0,0 +1,245 @@
+import { useState, useEffect } from 'react';
+import { KeyRound, Copy, Plus, AlertTriangle } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { getIssuerStatus } from '@/lib/issuer-config';
+import {
+  VERIFIER_API_BASE_URL,
+  VerifierApiKey,
+  createVerifierApiKey,
+  listVerifierApiKeys,
+  revokeVerifierApiKey,
+} from '@/lib/verifier-api-keys';
+
+// Admin view to issue and revoke API keys for partner systems using the verifier REST API
+export function VerifierApiKeyManager() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [authorized, setAuthorized] = useState(false);
+  const [keys, setKeys] = useState<VerifierApiKey[]>([]);
+  const [name, setName] = useState('');
+  const [partnerUsername, setPartnerUsername] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  // The plaintext key of the key just created; it cannot be shown again
+  const [newKey, setNewKey] = useState<string | null>(null);
+
+  const loadKeys = async () => {
+    setKeys(await listVerifierApiKeys());
+  };
+
+  useEffect(() => {
+    const loadIssuer = async () => {
+      const status = await getIssuerStatus();
+      setAuthorized(status.authorized);
+      if (status.authorized) {
+        await loadKeys();
+      }
+    };
+    loadIssuer();
+  }, [user]);
+
+  const copyToClipboard = (text: string, label: string) => {
+    navigator.clipboard.writeText(text);
+    toast({ title: 'Copied!', description: `${label} copied to clipboard` });
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    try {
+      const result = await createVerifierApiKey(name, partnerUsername);
+      if (!result.success || !result.apiKey) {
+        toast({
+          title: 'Failed to Create Key',
+          description: result.error || 'Please try again',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      setNewKey(result.apiKey);
+      setName('');
+      setPartnerUsername('');
+      await loadKeys();
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (key: VerifierApiKey) => {
+    const result = await revokeVerifierApiKey(key.id);
+    if (!result.success) {
+      toast({
+        title: 'Failed to Revoke Key',
+        description: result.error,
+        variant: 'destructive',
+      });
+      return;
+    }
+    toast({ title: 'API Key Revoked', description: `${key.name} can no longer call the API` });
+    await loadKeys();
+  };
+
+  return (
+    <Card className="border-border bg-card">
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className="w-12 h-12 rounded-lg gradient-primary flex items-center justify-center">
+            <KeyRound className="w-6 h-6 text-primary-foreground" />
+          </div>
+          <div>
+            <CardTitle>Verifier API Keys</CardTitle>
+            <CardDescription>Let partner systems verify credentials from their own backends</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!authorized ? (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Not Authorized</AlertTitle>
+            <AlertDescription>Only administrators can manage API keys.</AlertDescription>
+          </Alert>
+        ) : (
+          <>
+            <div className="p-3 rounded-lg bg-secondary/50 border border-border space-y-1">
+              <p className="text-xs text-muted-foreground">API base URL</p>
+              <div className="flex items-center gap-2">
+                <p className="font-mono text-xs break-all flex-1">{VERIFIER_API_BASE_URL}</p>
+                <Button variant="ghost" size="sm" onClick={() => copyToClipboard(VERIFIER_API_BASE_URL, 'API URL')}>
+                  <Copy className="w-4 h-4" />
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                POST /challenge, POST /verify, GET /status/:id and GET /issuers with an <span className="font-mono">x-api-key</span> header.
+                A key acts as its partner account: personal data needs that account's consent from the citizen.
+              </p>
+            </div>
+
+            {newKey && (
+              <Alert className="border-green-500/30 bg-green-500/10">
+                <KeyRound className="h-4 w-4 text-green-400" />
+                <AlertTitle>API Key Created</AlertTitle>
+                <AlertDescription className="space-y-2">
+                  <p>Copy it now and hand it to the partner securely. It will not be shown again.</p>
+                  <div className="flex items-center gap-2">
+                    <p className="font-mono text-xs break-all flex-1">{newKey}</p>
+                    <Button variant="outline" size="sm" onClick={() => copyToClipboard(newKey, 'API key')}>
+                      <Copy className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => setNewKey(null)}>
+                    Done
+                  </Button>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="apiKeyName">Name</Label>
+                <Input
+                  id="apiKeyName"
+                  placeholder="e.g. Acme Bank onboarding"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className="bg-secondary"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="apiKeyPartner">Partner Account</Label>
+                <Input
+                  id="apiKeyPartner"
+                  placeholder="Username"
+                  value={partnerUsername}
+                  onChange={(e) => setPartnerUsername(e.target.value)}
+                  className="bg-secondary"
+                />
+              </div>
+              <Button
+                type="submit"
+                className="md:col-span-2"
+                disabled={isCreating || !name.trim() || !partnerUsername.trim()}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                {isCreating ? 'Creating...' : 'Create API Key'}
+              </Button>
+            </form>
+
+            {keys.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">No API keys issued yet</p>
+            ) : (
+              <div className="space-y-2">
+                {keys.map((key) => (
+                  <div key={key.id} className="flex items-center justify-between gap-2 p-3 rounded-lg bg-background/50">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <p className="text-sm font-medium truncate">{key.name}</p>
+                        {key.revokedAt ? (
+                          <Badge variant="destructive">Revoked</Badge>
+                        ) : (
+                          <Badge variant="outline" className="bg-green-500/20 text-green-400 border-green-500/30">
+                            Active
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        <span className="font-mono">{key.keyPrefix}...</span> as {key.verifierLabel}, created{' '}
+                        {new Date(key.createdAt).toLocaleDateString()}
+                        {key.lastUsedAt ? `, last used ${new Date(key.lastUsedAt).toLocaleString()}` : ', never used'}
+                      </p>
+                    </div>
+                    {!key.revokedAt && (
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="outline" size="sm">
+                            Revoke
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Revoke {key.name}?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Calls with this key will be refused immediately. This cannot be undone; issue a new key
+                              if the partner needs access again.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => handleRevoke(key)}
+                              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                            >
+                              Revoke Key
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
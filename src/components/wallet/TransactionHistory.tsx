@@ -8,7 +8,7 @@ import { truncateAddress } from '@/lib/wallet';
 
 export interface Transaction {
   id: string;
-  type: 'issue' | 'verify' | 'send' | 'receive';
+  type: 'issue' | 'revoke' | 'verify' | 'send' | 'receive';
   txHash: string;
   from: string;
   to: string;
@@ -82,6 +82,8 @@ export function TransactionHistory() {
     switch (type) {
       case 'issue':
         return 'bg-purple-500/20 text-purple-400 border-purple-500/30';
+      case 'revoke':
+        return 'bg-red-500/20 text-red-400 border-red-500/30';
       case 'verify':
         return 'bg-blue-500/20 text-blue-400 border-blue-500/30';
       case 'send':
@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { getRetryAfter, rateLimitMessage } from '@/lib/rate-limit';
 
 interface AuthContextType {
   user: User | null;
@@ -19,9 +20,10 @@ interface AuthContextType {
   verifyFace: (faceDescriptor: number[]) => Promise<{ success: boolean; error?: string }>;
   setFaceVerified: (verified: boolean) => void;
   updateProfile: (updates: Partial<Profile>) => Promise<{ error: any }>;
-  checkUsernameExists: (username: string) => Promise<boolean>;
-  checkFaceHashExists: (hash: string) => Promise<boolean>;
-  checkFaceSimilarity: (descriptor: number[]) => Promise<{ exists: boolean; walletAddress: string | null }>;
+  // error is set when the check could not run, e.g. because the caller is rate limited
+  checkUsernameExists: (username: string) => Promise<{ exists: boolean; error?: string }>;
+  checkFaceHashExists: (hash: string) => Promise<{ exists: boolean; error?: string }>;
+  checkFaceSimilarity: (descriptor: number[]) => Promise<{ exists: boolean; walletAddress: string | null; error?: string }>;
 }
 
 interface Profile {
@@ -103,35 +105,37 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const checkUsernameExists = async (username: string): Promise<boolean> => {
+  const checkUsernameExists = async (username: string): Promise<{ exists: boolean; error?: string }> => {
     const { data, error } = await supabase.rpc('username_exists', {
       _username: username.toLowerCase().trim()
     });
     
     if (error) {
       console.error('Error checking username:', error);
-      return false;
+      const retryAfter = getRetryAfter(error);
+      return { exists: false, error: retryAfter ? rateLimitMessage(retryAfter) : undefined };
     }
     
-    return data === true;
+    return { exists: data === true };
   };
 
-  const checkFaceHashExists = async (hash: string): Promise<boolean> => {
+  const checkFaceHashExists = async (hash: string): Promise<{ exists: boolean; error?: string }> => {
     const { data, error } = await supabase.rpc('face_hash_exists', {
       _hash: hash
     });
     
     if (error) {
       console.error('Error checking face hash:', error);
-      return false;
+      const retryAfter = getRetryAfter(error);
+      return { exists: false, error: retryAfter ? rateLimitMessage(retryAfter) : undefined };
     }
     
-    return data === true;
+    return { exists: data === true };
   };
 
   // Check if a similar face already exists using Euclidean distance
   // Returns { exists: boolean, walletAddress: string | null }
-  const checkFaceSimilarity = async (descriptor: number[]): Promise<{ exists: boolean; walletAddress: string | null }> => {
+  const checkFaceSimilarity = async (descriptor: number[]): Promise<{ exists: boolean; walletAddress: string | null; error?: string }> => {
     const { data, error } = await supabase.rpc('check_face_similarity_with_wallet', {
       _descriptor: descriptor,
       _threshold: 0.6
@@ -139,7 +143,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     
     if (error) {
       console.error('Error checking face similarity:', error);
-      return { exists: false, walletAddress: null };
+      const retryAfter = getRetryAfter(error);
+      return { exists: false, walletAddress: null, error: retryAfter ? rateLimitMessage(retryAfter) : undefined };
     }
     
     // The function returns a table with similar_exists and wallet_address
@@ -152,8 +157,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const signUp = async (email: string, password: string, username: string) => {
     // Check if username already exists
-    const usernameExists = await checkUsernameExists(username);
-    if (usernameExists) {
+    const usernameCheck = await checkUsernameExists(username);
+    if (usernameCheck.error) {
+      return { error: { message: usernameCheck.error } };
+    }
+    if (usernameCheck.exists) {
       return { error: { message: 'Username already taken. Please choose a different one.' } };
     }
 
@@ -14,71 +14,539 @@ export type Database = {
   }
   public: {
     Tables: {
+      audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          actor_label: string | null
+          citizen_address: string | null
+          created_at: string
+          credential_id: string | null
+          details: Json
+          entry_hash: string
+          prev_hash: string
+          seq: number
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          actor_label?: string | null
+          citizen_address?: string | null
+          created_at?: string
+          credential_id?: string | null
+          details?: Json
+          entry_hash: string
+          prev_hash: string
+          seq?: number
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          actor_label?: string | null
+          citizen_address?: string | null
+          created_at?: string
+          credential_id?: string | null
+          details?: Json
+          entry_hash?: string
+          prev_hash?: string
+          seq?: number
+        }
+        Relationships: []
+      }
+      bulk_revocation_items: {
+        Row: {
+          bulk_revocation_id: string
+          citizen_address: string
+          credential_id: string | null
+          error: string | null
+          id: string
+          processed_at: string
+          status: string
+          tx_hash: string | null
+        }
+        Insert: {
+          bulk_revocation_id: string
+          citizen_address: string
+          credential_id?: string | null
+          error?: string | null
+          id?: string
+          processed_at?: string
+          status: string
+          tx_hash?: string | null
+        }
+        Update: {
+          bulk_revocation_id?: string
+          citizen_address?: string
+          credential_id?: string | null
+          error?: string | null
+          id?: string
+          processed_at?: string
+          status?: string
+          tx_hash?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bulk_revocation_items_bulk_revocation_id_fkey"
+            columns: ["bulk_revocation_id"]
+            isOneToOne: false
+            referencedRelation: "bulk_revocations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bulk_revocation_items_credential_id_fkey"
+            columns: ["credential_id"]
+            isOneToOne: false
+            referencedRelation: "credentials"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bulk_revocations: {
+        Row: {
+          address_count: number
+          completed_at: string | null
+          created_at: string
+          created_by: string
+          id: string
+          note: string | null
+          reason_code: string
+        }
+        Insert: {
+          address_count: number
+          completed_at?: string | null
+          created_at?: string
+          created_by: string
+          id?: string
+          note?: string | null
+          reason_code: string
+        }
+        Update: {
+          address_count?: number
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string
+          id?: string
+          note?: string | null
+          reason_code?: string
+        }
+        Relationships: []
+      }
+      credential_anchor_batches: {
+        Row: {
+          anchored_at: string
+          anchored_by: string | null
+          contract_address: string
+          id: string
+          leaf_count: number
+          merkle_root: string
+          tx_hash: string | null
+        }
+        Insert: {
+          anchored_at?: string
+          anchored_by?: string | null
+          contract_address: string
+          id?: string
+          leaf_count: number
+          merkle_root: string
+          tx_hash?: string | null
+        }
+        Update: {
+          anchored_at?: string
+          anchored_by?: string | null
+          contract_address?: string
+          id?: string
+          leaf_count?: number
+          merkle_root?: string
+          tx_hash?: string | null
+        }
+        Relationships: []
+      }
+      credential_documents: {
+        Row: {
+          citizen_user_id: string
+          created_at: string
+          credential_id: string | null
+          document_type: string
+          file_name: string
+          id: string
+          mime_type: string
+          request_id: string | null
+          sha256: string
+          size_bytes: number
+          storage_path: string
+          uploaded_by: string
+        }
+        Insert: {
+          citizen_user_id: string
+          created_at?: string
+          credential_id?: string | null
+          document_type: string
+          file_name: string
+          id?: string
+          mime_type: string
+          request_id?: string | null
+          sha256: string
+          size_bytes: number
+          storage_path: string
+          uploaded_by: string
+        }
+        Update: {
+          citizen_user_id?: string
+          created_at?: string
+          credential_id?: string | null
+          document_type?: string
+          file_name?: string
+          id?: string
+          mime_type?: string
+          request_id?: string | null
+          sha256?: string
+          size_bytes?: number
+          storage_path?: string
+          uploaded_by?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credential_documents_credential_id_fkey"
+            columns: ["credential_id"]
+            isOneToOne: false
+            referencedRelation: "credentials"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credential_documents_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "credential_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      credential_requests: {
+        Row: {
+          attributes: Json
+          citizen_address: string
+          citizen_user_id: string
+          created_at: string
+          credential_id: string | null
+          credential_type: string
+          date_of_birth: string | null
+          full_name: string
+          id: string
+          national_id: string
+          review_message: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          schema_version: number
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          attributes?: Json
+          citizen_address: string
+          citizen_user_id: string
+          created_at?: string
+          credential_id?: string | null
+          credential_type: string
+          date_of_birth?: string | null
+          full_name: string
+          id?: string
+          national_id: string
+          review_message?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          schema_version: number
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          attributes?: Json
+          citizen_address?: string
+          citizen_user_id?: string
+          created_at?: string
+          credential_id?: string | null
+          credential_type?: string
+          date_of_birth?: string | null
+          full_name?: string
+          id?: string
+          national_id?: string
+          review_message?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          schema_version?: number
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credential_requests_credential_id_fkey"
+            columns: ["credential_id"]
+            isOneToOne: false
+            referencedRelation: "credentials"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credential_requests_credential_type_schema_version_fkey"
+            columns: ["credential_type", "schema_version"]
+            isOneToOne: false
+            referencedRelation: "credential_schemas"
+            referencedColumns: ["credential_type", "version"]
+          },
+        ]
+      }
+      credential_schemas: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          credential_type: string
+          description: string | null
+          fields: Json
+          id: string
+          is_active: boolean
+          name: string
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          credential_type: string
+          description?: string | null
+          fields?: Json
+          id?: string
+          is_active?: boolean
+          name: string
+          version?: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          credential_type?: string
+          description?: string | null
+          fields?: Json
+          id?: string
+          is_active?: boolean
+          name?: string
+          version?: number
+        }
+        Relationships: []
+      }
+      credential_status_events: {
+        Row: {
+          action: string
+          actor_user_id: string | null
+          created_at: string
+          credential_id: string
+          from_status: string
+          id: string
+          note: string | null
+          reason_code: string
+          to_status: string
+        }
+        Insert: {
+          action: string
+          actor_user_id?: string | null
+          created_at?: string
+          credential_id: string
+          from_status: string
+          id?: string
+          note?: string | null
+          reason_code: string
+          to_status: string
+        }
+        Update: {
+          action?: string
+          actor_user_id?: string | null
+          created_at?: string
+          credential_id?: string
+          from_status?: string
+          id?: string
+          note?: string | null
+          reason_code?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credential_status_events_credential_id_fkey"
+            columns: ["credential_id"]
+            isOneToOne: false
+            referencedRelation: "credentials"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      credential_status_lists: {
+        Row: {
+          credential: Json
+          issuer_address: string
+          published_at: string
+          published_by: string | null
+          status_purpose: string
+        }
+        Insert: {
+          credential: Json
+          issuer_address: string
+          published_at?: string
+          published_by?: string | null
+          status_purpose: string
+        }
+        Update: {
+          credential?: Json
+          issuer_address?: string
+          published_at?: string
+          published_by?: string | null
+          status_purpose?: string
+        }
+        Relationships: []
+      }
       credentials: {
         Row: {
+          age_proof_seed: string | null
+          anchor_batch_id: string | null
+          attributes: Json
+          audit_metadata: Json
+          canonical_payload: string | null
+          chain_id: number | null
           citizen_address: string
           citizen_user_id: string
+          compact_qr: string | null
+          contract_address: string | null
+          contract_version: number
           created_at: string
           credential_hash: string
+          credential_type: string
           date_of_birth: string | null
           expiry_date: string | null
           face_descriptor: number[] | null
           face_descriptor_hash: string | null
           full_name: string
           id: string
+          issuance_tx_hash: string | null
           issued_at: string
           issuer_address: string
           issuer_user_id: string
+          merkle_proof: Json | null
+          merkle_root: string | null
           national_id: string
+          renews_credential_id: string | null
           revocation_tx_hash: string | null
           revoked_at: string | null
           revoked_by: string | null
+          schema_version: number
+          sd_jwt: string | null
           signature: string
+          signature_scheme: string
+          status_list_index: number
+          superseded_at: string | null
+          suspended_at: string | null
+          suspended_by: string | null
           updated_at: string
         }
         Insert: {
+          age_proof_seed?: string | null
+          anchor_batch_id?: string | null
+          attributes?: Json
+          audit_metadata?: Json
+          canonical_payload?: string | null
+          chain_id?: number | null
           citizen_address: string
           citizen_user_id: string
+          compact_qr?: string | null
+          contract_address?: string | null
+          contract_version?: number
           created_at?: string
           credential_hash: string
+          credential_type?: string
           date_of_birth?: string | null
           expiry_date?: string | null
           face_descriptor?: number[] | null
           face_descriptor_hash?: string | null
           full_name: string
           id?: string
+          issuance_tx_hash?: string | null
           issued_at?: string
           issuer_address: string
           issuer_user_id: string
+          merkle_proof?: Json | null
+          merkle_root?: string | null
           national_id: string
+          renews_credential_id?: string | null
           revocation_tx_hash?: string | null
           revoked_at?: string | null
           revoked_by?: string | null
+          schema_version?: number
+          sd_jwt?: string | null
           signature: string
+          signature_scheme?: string
+          status_list_index?: number
+          superseded_at?: string | null
+          suspended_at?: string | null
+          suspended_by?: string | null
           updated_at?: string
         }
         Update: {
+          age_proof_seed?: string | null
+          anchor_batch_id?: string | null
+          attributes?: Json
+          audit_metadata?: Json
+          canonical_payload?: string | null
+          chain_id?: number | null
           citizen_address?: string
           citizen_user_id?: string
+          compact_qr?: string | null
+          contract_address?: string | null
+          contract_version?: number
           created_at?: string
           credential_hash?: string
+          credential_type?: string
           date_of_birth?: string | null
           expiry_date?: string | null
           face_descriptor?: number[] | null
           face_descriptor_hash?: string | null
           full_name?: string
           id?: string
+          issuance_tx_hash?: string | null
           issued_at?: string
           issuer_address?: string
           issuer_user_id?: string
+          merkle_proof?: Json | null
+          merkle_root?: string | null
           national_id?: string
+          renews_credential_id?: string | null
           revocation_tx_hash?: string | null
           revoked_at?: string | null
           revoked_by?: string | null
+          schema_version?: number
+          sd_jwt?: string | null
           signature?: string
+          signature_scheme?: string
+          status_list_index?: number
+          superseded_at?: string | null
+          suspended_at?: string | null
+          suspended_by?: string | null
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "credentials_anchor_batch_id_fkey"
+            columns: ["anchor_batch_id"]
+            isOneToOne: false
+            referencedRelation: "credential_anchor_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credentials_schema_fkey"
+            columns: ["credential_type", "schema_version"]
+            isOneToOne: false
+            referencedRelation: "credential_schemas"
+            referencedColumns: ["credential_type", "version"]
+          },
+          {
+            foreignKeyName: "credentials_renews_credential_id_fkey"
+            columns: ["renews_credential_id"]
+            isOneToOne: true
+            referencedRelation: "credentials"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       profiles: {
         Row: {
@@ -116,6 +584,99 @@ export type Database = {
         }
         Relationships: []
       }
+      rate_limit_calls: {
+        Row: {
+          called_at: string
+          caller_key: string
+          function_name: string
+          id: number
+        }
+        Insert: {
+          called_at?: string
+          caller_key: string
+          function_name: string
+          id?: number
+        }
+        Update: {
+          called_at?: string
+          caller_key?: string
+          function_name?: string
+          id?: number
+        }
+        Relationships: []
+      }
+      rate_limit_lockouts: {
+        Row: {
+          caller_key: string
+          function_name: string
+          last_strike_at: string
+          locked_until: string
+          strikes: number
+        }
+        Insert: {
+          caller_key: string
+          function_name: string
+          last_strike_at?: string
+          locked_until: string
+          strikes?: number
+        }
+        Update: {
+          caller_key?: string
+          function_name?: string
+          last_strike_at?: string
+          locked_until?: string
+          strikes?: number
+        }
+        Relationships: []
+      }
+      rate_limit_policies: {
+        Row: {
+          function_name: string
+          lockout_seconds: number
+          max_calls: number
+          max_lockout_seconds: number
+          updated_at: string
+          updated_by: string | null
+          window_seconds: number
+        }
+        Insert: {
+          function_name: string
+          lockout_seconds?: number
+          max_calls: number
+          max_lockout_seconds?: number
+          updated_at?: string
+          updated_by?: string | null
+          window_seconds: number
+        }
+        Update: {
+          function_name?: string
+          lockout_seconds?: number
+          max_calls?: number
+          max_lockout_seconds?: number
+          updated_at?: string
+          updated_by?: string | null
+          window_seconds?: number
+        }
+        Relationships: []
+      }
+      status_list_reservations: {
+        Row: {
+          reserved_at: string
+          reserved_by: string
+          status_list_index: number
+        }
+        Insert: {
+          reserved_at?: string
+          reserved_by: string
+          status_list_index: number
+        }
+        Update: {
+          reserved_at?: string
+          reserved_by?: string
+          status_list_index?: number
+        }
+        Relationships: []
+      }
       user_roles: {
         Row: {
           id: string
@@ -134,13 +695,228 @@ export type Database = {
         }
         Relationships: []
       }
+      verification_consents: {
+        Row: {
+          citizen_address: string
+          citizen_user_id: string
+          created_at: string
+          decided_at: string | null
+          expires_at: string | null
+          id: string
+          purpose: string
+          requested_fields: string[]
+          status: string
+          token: string | null
+          verifier_label: string | null
+          verifier_user_id: string
+        }
+        Insert: {
+          citizen_address: string
+          citizen_user_id: string
+          created_at?: string
+          decided_at?: string | null
+          expires_at?: string | null
+          id?: string
+          purpose: string
+          requested_fields: string[]
+          status?: string
+          token?: string | null
+          verifier_label?: string | null
+          verifier_user_id: string
+        }
+        Update: {
+          citizen_address?: string
+          citizen_user_id?: string
+          created_at?: string
+          decided_at?: string | null
+          expires_at?: string | null
+          id?: string
+          purpose?: string
+          requested_fields?: string[]
+          status?: string
+          token?: string | null
+          verifier_label?: string | null
+          verifier_user_id?: string
+        }
+        Relationships: []
+      }
+      verification_events: {
+        Row: {
+          citizen_user_id: string
+          credential_id: string
+          disclosed_fields: string[]
+          id: string
+          method: string
+          result: string
+          verified_at: string
+          verifier_address: string | null
+          verifier_label: string | null
+          verifier_user_id: string | null
+        }
+        Insert: {
+          citizen_user_id: string
+          credential_id: string
+          disclosed_fields?: string[]
+          id?: string
+          method: string
+          result: string
+          verified_at?: string
+          verifier_address?: string | null
+          verifier_label?: string | null
+          verifier_user_id?: string | null
+        }
+        Update: {
+          citizen_user_id?: string
+          credential_id?: string
+          disclosed_fields?: string[]
+          id?: string
+          method?: string
+          result?: string
+          verified_at?: string
+          verifier_address?: string | null
+          verifier_label?: string | null
+          verifier_user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "verification_events_credential_id_fkey"
+            columns: ["credential_id"]
+            isOneToOne: false
+            referencedRelation: "credentials"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      verifier_api_challenges: {
+        Row: {
+          consumed_at: string | null
+          created_at: string
+          expires_at: string
+          id: string
+          nonce: string
+          verifier_id: string
+          verifier_user_id: string
+        }
+        Insert: {
+          consumed_at?: string | null
+          created_at?: string
+          expires_at: string
+          id?: string
+          nonce: string
+          verifier_id: string
+          verifier_user_id: string
+        }
+        Update: {
+          consumed_at?: string | null
+          created_at?: string
+          expires_at?: string
+          id?: string
+          nonce?: string
+          verifier_id?: string
+          verifier_user_id?: string
+        }
+        Relationships: []
+      }
+      verifier_api_keys: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          key_hash: string
+          key_prefix: string
+          last_used_at: string | null
+          name: string
+          revoked_at: string | null
+          revoked_by: string | null
+          verifier_label: string
+          verifier_user_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          key_hash: string
+          key_prefix: string
+          last_used_at?: string | null
+          name: string
+          revoked_at?: string | null
+          revoked_by?: string | null
+          verifier_label: string
+          verifier_user_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          key_hash?: string
+          key_prefix?: string
+          last_used_at?: string | null
+          name?: string
+          revoked_at?: string | null
+          revoked_by?: string | null
+          verifier_label?: string
+          verifier_user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      act_as_api_verifier: { Args: { _api_key: string }; Returns: boolean }
+      api_consume_presentation_challenge: {
+        Args: { _api_key: string; _nonce: string; _verifier_id: string }
+        Returns: Json
+      }
+      api_create_presentation_challenge: {
+        Args: { _api_key: string }
+        Returns: Json
+      }
+      api_credential_status: {
+        Args: { _api_key: string; _credential_id: string }
+        Returns: Json
+      }
+      api_verify_credential: {
+        Args: {
+          _api_key: string
+          _citizen_address: string
+          _consent_token?: string
+          _credential_hash?: string
+          _credential_id?: string
+        }
+        Returns: Json
+      }
+      append_audit_entry: {
+        Args: {
+          _action: string
+          _actor_id: string
+          _citizen_address: string
+          _credential_id: string
+          _details: Json
+        }
+        Returns: number
+      }
+      audit_log_entry_hash: {
+        Args: {
+          _action: string
+          _actor_id: string
+          _actor_label: string
+          _citizen_address: string
+          _created_at: string
+          _credential_id: string
+          _details: Json
+          _prev_hash: string
+          _seq: number
+        }
+        Returns: string
+      }
       check_credential_face_similarity: {
-        Args: { _descriptor: number[]; _threshold?: number }
+        Args: {
+          _descriptor: number[]
+          _exclude_address?: string
+          _threshold?: number
+        }
         Returns: boolean
       }
       check_face_similarity: {
@@ -154,12 +930,49 @@ export type Database = {
           wallet_address: string
         }[]
       }
+      check_sd_jwt_presentation: {
+        Args: {
+          _citizen_address: string
+          _credential_hash: string
+          _disclosed_fields?: string[]
+          _issuer_jwt: string
+          _method?: string
+        }
+        Returns: Json
+      }
+      create_verifier_api_key: {
+        Args: { _name: string; _verifier_username: string }
+        Returns: Json
+      }
       credential_exists_for_address: {
-        Args: { _address: string }
+        Args: { _address: string; _credential_type?: string }
         Returns: boolean
       }
       credential_face_hash_exists: { Args: { _hash: string }; Returns: boolean }
+      credential_lifecycle_status: {
+        Args: {
+          _expiry_date: string
+          _revoked_at: string
+          _superseded_at: string
+          _suspended_at: string
+        }
+        Returns: string
+      }
+      decide_verification_consent: {
+        Args: {
+          _approve: boolean
+          _consent_id: string
+          _valid_minutes?: number
+        }
+        Returns: Json
+      }
+      enforce_rate_limit: { Args: { _function: string }; Returns: undefined }
       face_hash_exists: { Args: { _hash: string }; Returns: boolean }
+      get_credential_renewal_chain: {
+        Args: { _credential_id: string }
+        Returns: Json
+      }
+      get_offline_trust_snapshot: { Args: never; Returns: Json }
       get_user_id_by_wallet: {
         Args: { _wallet_address: string }
         Returns: string
@@ -172,9 +985,88 @@ export type Database = {
         Returns: boolean
       }
       is_authorized_issuer: { Args: { _user_id?: string }; Returns: boolean }
+      list_holder_credentials: {
+        Args: { _citizen_address: string }
+        Returns: Json
+      }
+      log_verification_event: {
+        Args: {
+          _citizen_user_id: string
+          _credential_id: string
+          _disclosed_fields: string[]
+          _method: string
+          _result: string
+        }
+        Returns: undefined
+      }
+      next_status_list_index: { Args: never; Returns: number }
+      raise_rate_limited: { Args: { _retry_after: number }; Returns: undefined }
+      record_credential_anchor_batch: {
+        Args: {
+          _contract_address: string
+          _merkle_root: string
+          _proofs: Json
+          _tx_hash?: string
+        }
+        Returns: Json
+      }
+      request_client_ip: { Args: never; Returns: string }
+      request_verification_consent: {
+        Args: {
+          _citizen_address: string
+          _fields: string[]
+          _purpose: string
+        }
+        Returns: Json
+      }
+      reserve_status_list_index: { Args: never; Returns: Json }
+      resubmit_credential_request: {
+        Args: {
+          _attributes: Json
+          _date_of_birth: string
+          _full_name: string
+          _national_id: string
+          _request_id: string
+          _schema_version: number
+        }
+        Returns: Json
+      }
+      review_credential_request: {
+        Args: {
+          _credential_id?: string
+          _decision: string
+          _message?: string
+          _request_id: string
+        }
+        Returns: Json
+      }
+      revoke_verifier_api_key: { Args: { _key_id: string }; Returns: Json }
+      transition_credential_status: {
+        Args: {
+          _action: string
+          _credential_id: string
+          _note?: string
+          _reason_code: string
+          _tx_hash?: string
+        }
+        Returns: Json
+      }
       username_exists: { Args: { _username: string }; Returns: boolean }
-      verify_credential: { Args: { _citizen_address: string }; Returns: Json }
+      verify_audit_log: { Args: never; Returns: Json }
+      verify_credential: {
+        Args: {
+          _citizen_address: string
+          _consent_token?: string
+          _credential_hash?: string
+          _credential_id?: string
+        }
+        Returns: Json
+      }
       wallet_address_exists: { Args: { _address: string }; Returns: boolean }
+      withdraw_verification_consent: {
+        Args: { _consent_id: string }
+        Returns: Json
+      }
     }
     Enums: {
       app_role: "admin" | "user"
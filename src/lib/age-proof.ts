@@ -0,0 +1,172 @@
+// Age-over-threshold predicate proofs (hash-chain construction)
+// At issuance the issuer draws a random seed s and signs the commitment c = H^(E - b)(s),
+// where b is the birth date and E a fixed far-future epoch, both counted in days.
+// To prove "born on or before T" the holder reveals p = H^(T - b)(s); the verifier checks
+// H^(E - T)(p) = c. Producing p for T < b would require inverting SHA-256, and p reveals
+// nothing about b beyond b <= T.
+
+import { ethers } from 'ethers';
+import { verifySdJwtPresentation } from './sd-jwt';
+
+export const AGE_PROOF_TYPE = 'AgeOverProof';
+export const AGE_PROOF_VERSION = 1;
+export const AGE_PROOF_THRESHOLDS = [18, 21] as const;
+
+// Chain endpoints, in days since 1970-01-01 (UTC)
+const AGE_PROOF_EPOCH = '2100-01-01';
+const EARLIEST_BIRTH_DATE = '1900-01-01';
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface AgeCommitment {
+  seed: string;
+  commitment: string;
+}
+
+export interface AgeProof {
+  type: typeof AGE_PROOF_TYPE;
+  version: number;
+  ageOver: number;
+  // Latest birth date that satisfies the predicate on the day the proof was created
+  thresholdDate: string;
+  proof: string;
+  // SD-JWT presentation carrying the issuer-signed commitment (no claims disclosed)
+  presentation: string;
+}
+
+export interface AgeProofVerificationResult {
+  valid: boolean;
+  error?: string;
+  ageOver?: number;
+  thresholdDate?: string;
+  citizenAddress?: string;
+  issuerAddress?: string;
+  credentialHash?: string;
+  // Issuer-signed JWT carrying the commitment, checked against the registry by the verifier
+  issuerJwt?: string;
+  expired?: boolean;
+}
+
+// Day number of a YYYY-MM-DD date, or null when it is not a valid date
+function toDayNumber(date: string): number | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return null;
+  const time = Date.parse(`${date}T00:00:00Z`);
+  return isNaN(time) ? null : Math.floor(time / MS_PER_DAY);
+}
+
+function hashChain(start: string, steps: number): string {
+  let value = start;
+  for (let i = 0; i < steps; i++) {
+    value = ethers.sha256(value);
+  }
+  return value;
+}
+
+// Latest birth date for someone who is at least `age` years old on `today` (UTC)
+export function getAgeThresholdDate(age: number, today: Date = new Date()): string {
+  const threshold = new Date(Date.UTC(today.getUTCFullYear() - age, today.getUTCMonth(), today.getUTCDate()));
+  return threshold.toISOString().slice(0, 10);
+}
+
+// Create the seed and commitment for a date of birth at issuance
+// Returns null when the date of birth is missing or outside the supported range
+export function createAgeCommitment(dateOfBirth: string): AgeCommitment | null {
+  const birthDay = toDayNumber(dateOfBirth);
+  if (birthDay === null || birthDay < toDayNumber(EARLIEST_BIRTH_DATE)! || birthDay >= toDayNumber(AGE_PROOF_EPOCH)!) {
+    return null;
+  }
+
+  const seed = ethers.hexlify(ethers.randomBytes(32));
+  return {
+    seed,
+    commitment: hashChain(seed, toDayNumber(AGE_PROOF_EPOCH)! - birthDay),
+  };
+}
+
+// Prove the holder is at least `ageOver` years old today
+export function createAgeProof(
+  presentation: string,
+  seed: string,
+  dateOfBirth: string,
+  ageOver: number
+): { success: boolean; proof?: AgeProof; error?: string } {
+  const birthDay = toDayNumber(dateOfBirth);
+  if (birthDay === null) {
+    return { success: false, error: 'Invalid date of birth' };
+  }
+
+  const thresholdDate = getAgeThresholdDate(ageOver);
+  const thresholdDay = toDayNumber(thresholdDate)!;
+  if (birthDay > thresholdDay) {
+    return { success: false, error: `You are not yet ${ageOver}` };
+  }
+
+  return {
+    success: true,
+    proof: {
+      type: AGE_PROOF_TYPE,
+      version: AGE_PROOF_VERSION,
+      ageOver,
+      thresholdDate,
+      proof: hashChain(seed, thresholdDay - birthDay),
+      presentation,
+    },
+  };
+}
+
+export function serializeAgeProof(proof: AgeProof): string {
+  return JSON.stringify(proof);
+}
+
+// Verify an age proof against the issuer-signed commitment and today's date
+// The commitment is only as good as its JWT: callers must confirm with checkPresentedCredential that
+// it is the JWT issued with the holder's anchored credential by an authorized issuer.
+export function verifyAgeProof(input: string): AgeProofVerificationResult {
+  let ageProof: AgeProof;
+  try {
+    ageProof = JSON.parse(input) as AgeProof;
+  } catch {
+    return { valid: false, error: 'Age proof is not valid JSON' };
+  }
+
+  if (ageProof?.type !== AGE_PROOF_TYPE || ageProof.version !== AGE_PROOF_VERSION) {
+    return { valid: false, error: 'Unsupported age proof format' };
+  }
+  if (!Number.isInteger(ageProof.ageOver) || ageProof.ageOver <= 0 || !ethers.isHexString(ageProof.proof, 32)) {
+    return { valid: false, error: 'Malformed age proof' };
+  }
+
+  const thresholdDay = toDayNumber(ageProof.thresholdDate);
+  const epochDay = toDayNumber(AGE_PROOF_EPOCH)!;
+  if (thresholdDay === null || thresholdDay < toDayNumber(EARLIEST_BIRTH_DATE)! || thresholdDay > epochDay) {
+    return { valid: false, error: 'Invalid threshold date' };
+  }
+
+  // A proof for an earlier threshold date stays true; a later one would claim too little
+  if (thresholdDay > toDayNumber(getAgeThresholdDate(ageProof.ageOver))!) {
+    return { valid: false, error: `Threshold date does not establish age ${ageProof.ageOver} today` };
+  }
+
+  const sdJwtResult = verifySdJwtPresentation(ageProof.presentation);
+  if (!sdJwtResult.valid) {
+    return { valid: false, error: sdJwtResult.error };
+  }
+  if (!sdJwtResult.ageCommitment) {
+    return { valid: false, error: 'Credential does not contain an age commitment' };
+  }
+
+  const recomputed = hashChain(ageProof.proof, epochDay - thresholdDay);
+  if (recomputed.toLowerCase() !== sdJwtResult.ageCommitment.toLowerCase()) {
+    return { valid: false, error: 'Age proof does not match the signed commitment' };
+  }
+
+  return {
+    valid: true,
+    ageOver: ageProof.ageOver,
+    thresholdDate: ageProof.thresholdDate,
+    citizenAddress: sdJwtResult.citizenAddress,
+    issuerAddress: sdJwtResult.issuerAddress,
+    credentialHash: sdJwtResult.credentialHash,
+    issuerJwt: sdJwtResult.issuerJwt,
+    expired: sdJwtResult.expired,
+  };
+}
@@ -0,0 +1,153 @@
+// Audit log of issuer and admin actions
+// Every entry is written by the database where the action happens: issuance and renewal by a trigger
+// on credentials, status changes by transition_credential_status, lookups by verify_credential and
+// role changes by triggers on user_roles. Entries are hash-chained (see audit_log_entry_hash) and
+// verify_audit_log walks the chain to detect tampering.
+
+import { supabase } from '@/integrations/supabase/client';
+
+export type AuditAction =
+  | 'credential.issued'
+  | 'credential.revoked'
+  | 'credential.suspended'
+  | 'credential.reinstated'
+  | 'credential.superseded'
+  | 'credential.lookup'
+  | 'role.granted'
+  | 'role.removed';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'credential.issued': 'Credential issued',
+  'credential.revoked': 'Credential revoked',
+  'credential.suspended': 'Credential suspended',
+  'credential.reinstated': 'Credential reinstated',
+  'credential.superseded': 'Credential renewed',
+  'credential.lookup': 'Credential lookup',
+  'role.granted': 'Role granted',
+  'role.removed': 'Role removed',
+};
+
+// Entries loaded into the audit view at once, newest first
+export const AUDIT_PAGE_SIZE = 200;
+
+export interface AuditEntry {
+  seq: number;
+  createdAt: string;
+  actorId?: string;
+  actorLabel?: string;
+  action: AuditAction;
+  citizenAddress?: string;
+  credentialId?: string;
+  details: Record<string, unknown>;
+  prevHash: string;
+  entryHash: string;
+}
+
+export interface AuditFilters {
+  // Matches the actor's username or user ID
+  actor?: string;
+  action?: AuditAction;
+  citizenAddress?: string;
+  // Inclusive dates, YYYY-MM-DD
+  from?: string;
+  to?: string;
+}
+
+export interface AuditIntegrityResult {
+  success: boolean;
+  valid?: boolean;
+  checked?: number;
+  brokenAt?: number;
+  reason?: string;
+  headHash?: string;
+  error?: string;
+}
+
+interface DatabaseAuditEntry {
+  seq: number;
+  created_at: string;
+  actor_id: string | null;
+  actor_label: string | null;
+  action: string;
+  citizen_address: string | null;
+  credential_id: string | null;
+  details: unknown;
+  prev_hash: string;
+  entry_hash: string;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function toAuditEntry(row: DatabaseAuditEntry): AuditEntry {
+  return {
+    seq: row.seq,
+    createdAt: row.created_at,
+    actorId: row.actor_id || undefined,
+    actorLabel: row.actor_label || undefined,
+    action: row.action as AuditAction,
+    citizenAddress: row.citizen_address || undefined,
+    credentialId: row.credential_id || undefined,
+    details: (row.details as Record<string, unknown>) || {},
+    prevHash: row.prev_hash,
+    entryHash: row.entry_hash,
+  };
+}
+
+// Audit entries matching the filters, newest first (admin only)
+export async function listAuditEntries(filters: AuditFilters = {}): Promise<AuditEntry[]> {
+  try {
+    let query = supabase.from('audit_log').select('*');
+
+    const actor = filters.actor?.trim();
+    if (actor) {
+      query = UUID_PATTERN.test(actor)
+        ? query.eq('actor_id', actor)
+        : query.ilike('actor_label', `%${actor}%`);
+    }
+    if (filters.action) {
+      query = query.eq('action', filters.action);
+    }
+    if (filters.citizenAddress?.trim()) {
+      query = query.ilike('citizen_address', filters.citizenAddress.trim());
+    }
+    if (filters.from) {
+      query = query.gte('created_at', new Date(`${filters.from}T00:00:00`).toISOString());
+    }
+    if (filters.to) {
+      const end = new Date(`${filters.to}T00:00:00`);
+      end.setDate(end.getDate() + 1);
+      query = query.lt('created_at', end.toISOString());
+    }
+
+    const { data, error } = await query
+      .order('seq', { ascending: false })
+      .limit(AUDIT_PAGE_SIZE);
+
+    if (error) {
+      console.error('Error fetching audit log:', error);
+      return [];
+    }
+
+    return (data || []).map((row) => toAuditEntry(row as DatabaseAuditEntry));
+  } catch (error) {
+    console.error('Error fetching audit log:', error);
+    return [];
+  }
+}
+
+// Recompute the whole hash chain in the database (admin only)
+export async function verifyAuditLogIntegrity(): Promise<AuditIntegrityResult> {
+  try {
+    const { data, error } = await supabase.rpc('verify_audit_log');
+
+    if (error) {
+      console.error('Error verifying audit log:', error);
+      return { success: false, error: 'Failed to verify the audit log' };
+    }
+
+    return data as unknown as AuditIntegrityResult;
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to verify the audit log';
+    return { success: false, error: errorMessage };
+  }
+}
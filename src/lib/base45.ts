@@ -0,0 +1,53 @@
+// Base45 encoding (RFC 9285)
+// Uses the QR code alphanumeric character set, so Base45 text fits in the
+// compact alphanumeric QR mode
+
+const BASE45_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:';
+
+export function base45Encode(bytes: Uint8Array): string {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 2) {
+    if (i + 1 < bytes.length) {
+      let value = bytes[i] * 256 + bytes[i + 1];
+      for (let j = 0; j < 3; j++) {
+        result += BASE45_CHARSET[value % 45];
+        value = Math.floor(value / 45);
+      }
+    } else {
+      let value = bytes[i];
+      for (let j = 0; j < 2; j++) {
+        result += BASE45_CHARSET[value % 45];
+        value = Math.floor(value / 45);
+      }
+    }
+  }
+  return result;
+}
+
+export function base45Decode(text: string): Uint8Array {
+  if (text.length % 3 === 1) {
+    throw new Error('Invalid Base45 length');
+  }
+
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i += 3) {
+    const chunk = text.slice(i, i + 3);
+    let value = 0;
+    for (let j = chunk.length - 1; j >= 0; j--) {
+      const digit = BASE45_CHARSET.indexOf(chunk[j]);
+      if (digit < 0) {
+        throw new Error(`Invalid Base45 character: ${chunk[j]}`);
+      }
+      value = value * 45 + digit;
+    }
+
+    if (chunk.length === 3) {
+      if (value > 0xffff) throw new Error('Invalid Base45 value');
+      bytes.push(value >> 8, value & 0xff);
+    } else {
+      if (value > 0xff) throw new Error('Invalid Base45 value');
+      bytes.push(value);
+    }
+  }
+  return new Uint8Array(bytes);
+}
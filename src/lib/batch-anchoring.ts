@@ -0,0 +1,148 @@
+// Batched on-chain anchoring
+// Credentials issued while a batch registry is registered are stored as pending. Anchoring a batch
+// builds a Merkle tree over the pending credentials, puts only its root on-chain in one transaction
+// and records each credential's inclusion proof, so verifiers can check it against the root.
+
+import { supabase } from '@/integrations/supabase/client';
+import { getCredentialBatchRegistryAddress } from './contracts';
+import { buildMerkleTree, computeCredentialLeaf } from './merkle';
+import { anchorMerkleRoot, getMerkleRootAnchor } from './wallet';
+
+// Upper bound on credentials per batch; proofs grow with log2 of the batch size
+export const MAX_BATCH_SIZE = 500;
+
+export interface PendingBatchCredential {
+  id: string;
+  citizenAddress: string;
+  credentialHash: string;
+  issuedAt: string;
+}
+
+export interface AnchorBatch {
+  id: string;
+  contractAddress: string;
+  merkleRoot: string;
+  leafCount: number;
+  txHash?: string;
+  anchoredAt: string;
+}
+
+// Pending credentials on a batch registry, oldest first. Revoked and renewed credentials are left
+// out: they were never anchored and have nothing to revoke on-chain.
+export async function listPendingBatchCredentials(
+  contractAddress: string,
+  limit: number = MAX_BATCH_SIZE
+): Promise<PendingBatchCredential[]> {
+  try {
+    const { data, error } = await supabase
+      .from('credentials')
+      .select('id, citizen_address, credential_hash, issued_at')
+      .eq('contract_version', 3)
+      .ilike('contract_address', contractAddress)
+      .is('anchor_batch_id', null)
+      .is('revoked_at', null)
+      .is('superseded_at', null)
+      .order('issued_at', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching pending credentials:', error);
+      return [];
+    }
+
+    return (data || []).map((row) => ({
+      id: row.id,
+      citizenAddress: row.citizen_address,
+      credentialHash: row.credential_hash,
+      issuedAt: row.issued_at,
+    }));
+  } catch (error) {
+    console.error('Error fetching pending credentials:', error);
+    return [];
+  }
+}
+
+// Anchor the pending credentials of the registered batch registry as one Merkle root (admin only)
+// If the root is already on-chain (e.g. the proofs failed to save last time) no transaction is sent.
+export async function anchorPendingCredentials(
+  privateKey: string
+): Promise<{ success: boolean; leafCount?: number; merkleRoot?: string; txHash?: string; error?: string }> {
+  try {
+    const contractAddress = getCredentialBatchRegistryAddress();
+    if (!contractAddress) {
+      return { success: false, error: 'Register a batch anchoring registry first' };
+    }
+
+    const pending = await listPendingBatchCredentials(contractAddress);
+    if (pending.length === 0) {
+      return { success: false, error: 'No credentials are waiting to be anchored' };
+    }
+
+    const leaves = pending.map((c) => computeCredentialLeaf(c.id, c.citizenAddress, c.credentialHash));
+    const { root, proofs } = buildMerkleTree(leaves);
+
+    let txHash: string | undefined;
+    const anchoredAt = await getMerkleRootAnchor(contractAddress, root);
+    if (anchoredAt === null) {
+      const anchorResult = await anchorMerkleRoot(privateKey, contractAddress, root, leaves.length, 'sepolia');
+      if (!anchorResult.success) {
+        return {
+          success: false,
+          error: `Blockchain error: ${anchorResult.error}. Make sure you have Sepolia ETH for gas fees.`
+        };
+      }
+      txHash = anchorResult.txHash;
+    }
+
+    const { data, error } = await supabase.rpc('record_credential_anchor_batch', {
+      _contract_address: contractAddress,
+      _merkle_root: root,
+      _proofs: Object.fromEntries(pending.map((c, index) => [c.id, proofs[index]])),
+      _tx_hash: txHash,
+    });
+
+    const result = data as { success: boolean; error?: string } | null;
+    if (error || !result?.success) {
+      console.error('Error recording anchor batch:', error || result?.error);
+      return {
+        success: false,
+        merkleRoot: root,
+        txHash,
+        error: `Root anchored on-chain but the proofs were not saved: ${error?.message || result?.error}. Anchor again to retry.`
+      };
+    }
+
+    return { success: true, leafCount: leaves.length, merkleRoot: root, txHash };
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to anchor batch';
+    return { success: false, error: errorMessage };
+  }
+}
+
+// Recently anchored batches, newest first (admin only)
+export async function listAnchorBatches(limit: number = 10): Promise<AnchorBatch[]> {
+  try {
+    const { data, error } = await supabase
+      .from('credential_anchor_batches')
+      .select('*')
+      .order('anchored_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching anchor batches:', error);
+      return [];
+    }
+
+    return (data || []).map((row) => ({
+      id: row.id,
+      contractAddress: row.contract_address,
+      merkleRoot: row.merkle_root,
+      leafCount: row.leaf_count,
+      txHash: row.tx_hash || undefined,
+      anchoredAt: row.anchored_at,
+    }));
+  } catch (error) {
+    console.error('Error fetching anchor batches:', error);
+    return [];
+  }
+}
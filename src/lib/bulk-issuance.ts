@@ -0,0 +1,286 @@
+// Bulk credential issuance from CSV
+// Rows are checked with the same rules as single issuance before anything is signed. Issuance runs
+// row by row and the job is saved to local storage after every row, so a failed or interrupted run
+// resumes where it stopped without issuing a credential twice.
+
+import { supabase } from '@/integrations/supabase/client';
+import { getCredentialBatchRegistryAddress, getCredentialRegistryV2Address } from './contracts';
+import { CredentialSchema, validateAttributes } from './credential-schemas';
+import {
+  checkCredentialExistsForAddress,
+  signAndIssueCredential,
+  validateCredentialFields,
+} from './credential-storage';
+
+const BULK_JOB_STORAGE_KEY = 'bulk_issuance_job';
+export const MAX_BULK_ROWS = 500;
+
+// Accepted header names per field, compared lowercase without spaces, dashes or underscores
+const COLUMN_ALIASES: Record<'citizenAddress' | 'fullName' | 'nationalId' | 'dateOfBirth' | 'expiryDate', string[]> = {
+  citizenAddress: ['address', 'citizenaddress', 'walletaddress', 'wallet'],
+  fullName: ['name', 'fullname'],
+  nationalId: ['nationalid', 'idnumber'],
+  dateOfBirth: ['dob', 'dateofbirth', 'birthdate'],
+  expiryDate: ['expiry', 'expirydate', 'expires', 'validuntil'],
+};
+
+export const BULK_CSV_TEMPLATE = 'address,full_name,national_id,date_of_birth,expiry_date\n';
+
+// ready rows can be issued; invalid rows are never issued; issuing marks a row whose transaction was
+// sent but whose result was not recorded (e.g. the page was closed)
+export type BulkRowStatus = 'invalid' | 'ready' | 'issuing' | 'issued' | 'failed' | 'skipped';
+
+export interface BulkIssuanceRow {
+  // Line number in the CSV file (the header is line 1)
+  line: number;
+  citizenAddress: string;
+  fullName: string;
+  nationalId: string;
+  dateOfBirth: string;
+  expiryDate: string;
+  // Raw values of the credential type's fields, keyed by field key
+  attributes: Record<string, string>;
+  citizenUserId?: string;
+  status: BulkRowStatus;
+  error?: string;
+  credentialId?: string;
+  txHash?: string;
+}
+
+export interface BulkIssuanceJob {
+  id: string;
+  fileName: string;
+  credentialType: string;
+  schemaVersion: number;
+  createdAt: string;
+  rows: BulkIssuanceRow[];
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[\s_-]/g, '');
+
+// RFC 4180 CSV: quoted fields may contain commas, quotes ("") and line breaks
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Drop blank lines
+  return records.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+export function toCsvValue(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Read a CSV into rows; extra columns are matched to the fields of the credential type
+export function parseBulkIssuanceCsv(
+  text: string,
+  schema: CredentialSchema
+): { success: boolean; rows?: BulkIssuanceRow[]; error?: string } {
+  const records = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (records.length < 2) {
+    return { success: false, error: 'The file needs a header row and at least one citizen' };
+  }
+  if (records.length - 1 > MAX_BULK_ROWS) {
+    return { success: false, error: `A batch can contain at most ${MAX_BULK_ROWS} rows` };
+  }
+
+  const headers = records[0].map(normalizeHeader);
+  const columnOf = (aliases: string[]) => headers.findIndex((header) => aliases.includes(header));
+  const columns = Object.fromEntries(
+    Object.entries(COLUMN_ALIASES).map(([key, aliases]) => [key, columnOf(aliases)])
+  ) as Record<keyof typeof COLUMN_ALIASES, number>;
+
+  if (columns.citizenAddress < 0 || columns.fullName < 0 || columns.nationalId < 0) {
+    return { success: false, error: 'The header must include address, full_name and national_id columns' };
+  }
+
+  const fieldColumns = schema.fields.map((field) => ({ key: field.key, column: columnOf([normalizeHeader(field.key)]) }));
+  const knownColumns = new Set([...Object.values(columns), ...fieldColumns.map((f) => f.column)]);
+  const unknown = records[0].filter((_, index) => !knownColumns.has(index));
+  if (unknown.length > 0) {
+    return { success: false, error: `Unknown column${unknown.length === 1 ? '' : 's'} for ${schema.name}: ${unknown.join(', ')}` };
+  }
+
+  const valueAt = (record: string[], column: number) => (column >= 0 ? (record[column] || '').trim() : '');
+  const rows = records.slice(1).map((record, index): BulkIssuanceRow => ({
+    line: index + 2,
+    citizenAddress: valueAt(record, columns.citizenAddress),
+    fullName: valueAt(record, columns.fullName),
+    nationalId: valueAt(record, columns.nationalId),
+    dateOfBirth: valueAt(record, columns.dateOfBirth),
+    expiryDate: valueAt(record, columns.expiryDate),
+    attributes: Object.fromEntries(
+      fieldColumns.filter((f) => f.column >= 0).map((f) => [f.key, valueAt(record, f.column)])
+    ),
+    status: 'ready',
+  }));
+
+  return { success: true, rows };
+}
+
+// Check every row before issuance: field rules, type fields, duplicates and the holder's account
+export async function validateBulkRows(
+  rows: BulkIssuanceRow[],
+  schema: CredentialSchema,
+  onProgress?: (checked: number) => void
+): Promise<BulkIssuanceRow[]> {
+  const registryV2Address = getCredentialRegistryV2Address();
+  const batchRegistryAddress = getCredentialBatchRegistryAddress();
+  const seenAddresses = new Set<string>();
+  const checked: BulkIssuanceRow[] = [];
+
+  for (const row of rows) {
+    const invalid = (error: string): BulkIssuanceRow => ({ ...row, status: 'invalid', error });
+
+    const fieldError = validateCredentialFields(row.citizenAddress, row);
+    const attributeCheck = validateAttributes(schema, row.attributes);
+    const addressKey = row.citizenAddress.toLowerCase();
+
+    if (fieldError) {
+      checked.push(invalid(fieldError));
+    } else if (!attributeCheck.valid) {
+      checked.push(invalid(Object.values(attributeCheck.errors)[0]));
+    } else if (seenAddresses.has(addressKey)) {
+      checked.push(invalid('Address appears more than once in this file'));
+    } else {
+      seenAddresses.add(addressKey);
+      const { data: citizenUserId } = await supabase.rpc('get_user_id_by_wallet', {
+        _wallet_address: row.citizenAddress
+      });
+
+      if (!citizenUserId) {
+        checked.push(invalid('No user has linked this wallet address'));
+      } else if (await checkCredentialExistsForAddress(row.citizenAddress, schema.credentialType)) {
+        checked.push(invalid(`Already holds an active ${schema.name}`));
+      } else if (!registryV2Address && !batchRegistryAddress && await checkCredentialExistsForAddress(row.citizenAddress)) {
+        checked.push(invalid('Already has a credential; a v2 or batch registry is needed for more than one'));
+      } else {
+        checked.push({ ...row, citizenUserId, status: 'ready', error: undefined });
+      }
+    }
+
+    onProgress?.(checked.length);
+  }
+
+  return checked;
+}
+
+export function createBulkIssuanceJob(fileName: string, schema: CredentialSchema, rows: BulkIssuanceRow[]): BulkIssuanceJob {
+  return {
+    id: crypto.randomUUID(),
+    fileName,
+    credentialType: schema.credentialType,
+    schemaVersion: schema.version,
+    createdAt: new Date().toISOString(),
+    rows,
+  };
+}
+
+export function getSavedBulkJob(): BulkIssuanceJob | null {
+  try {
+    const stored = localStorage.getItem(BULK_JOB_STORAGE_KEY);
+    return stored ? JSON.parse(stored) as BulkIssuanceJob : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveBulkJob(job: BulkIssuanceJob): void {
+  localStorage.setItem(BULK_JOB_STORAGE_KEY, JSON.stringify(job));
+}
+
+export function clearBulkJob(): void {
+  localStorage.removeItem(BULK_JOB_STORAGE_KEY);
+}
+
+// Rows still to do in a run: ready, failed and interrupted ones
+export function getPendingRows(job: BulkIssuanceJob): BulkIssuanceRow[] {
+  return job.rows.filter((row) => ['ready', 'failed', 'issuing'].includes(row.status));
+}
+
+// Issue one row. A row left in "issuing" by an interrupted run is only retried when the holder
+// still has no active credential of the type, so it is never issued twice.
+export async function issueBulkRow(
+  privateKey: string,
+  job: BulkIssuanceJob,
+  row: BulkIssuanceRow
+): Promise<BulkIssuanceRow> {
+  if (!row.citizenUserId) {
+    return { ...row, status: 'invalid', error: 'Row was not validated' };
+  }
+
+  if (row.status === 'issuing' && await checkCredentialExistsForAddress(row.citizenAddress, job.credentialType)) {
+    return { ...row, status: 'issued', error: 'Issued by an interrupted run; credential ID not recorded' };
+  }
+
+  const result = await signAndIssueCredential(privateKey, row.citizenAddress, row.citizenUserId, {
+    fullName: row.fullName,
+    dateOfBirth: row.dateOfBirth,
+    nationalId: row.nationalId,
+    expiryDate: row.expiryDate,
+    credentialType: job.credentialType,
+    schemaVersion: job.schemaVersion,
+    attributes: row.attributes,
+  });
+
+  if (!result.success || !result.credential) {
+    return { ...row, status: 'failed', error: result.error || 'Failed to issue credential' };
+  }
+
+  return {
+    ...row,
+    status: 'issued',
+    error: undefined,
+    credentialId: result.credential.id,
+    txHash: result.credential.txHash,
+  };
+}
+
+// Result report: one line per CSV row with its outcome
+export function toBulkReportCsv(job: BulkIssuanceJob): string {
+  const header = ['line', 'address', 'full_name', 'national_id', 'status', 'credential_id', 'tx_hash', 'error'];
+  const lines = job.rows.map((row) => [
+    String(row.line),
+    row.citizenAddress,
+    row.fullName,
+    row.nationalId,
+    row.status,
+    row.credentialId || '',
+    row.txHash || '',
+    row.error || '',
+  ].map(toCsvValue).join(','));
+  return [header.join(','), ...lines].join('\n') + '\n';
+}
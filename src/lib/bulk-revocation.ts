@@ -0,0 +1,237 @@
+// Bulk revocation
+// Addresses are pasted or uploaded, looked up for credentials that can still be revoked, then revoked
+// one by one under a shared reason code. Every outcome is written to bulk_revocation_items as it
+// happens, so the run is on record even if the page is closed part way.
+
+import { ethers } from 'ethers';
+import { supabase } from '@/integrations/supabase/client';
+import { parseCsv, toCsvValue } from './bulk-issuance';
+import { HolderCredentialSummary, listHolderCredentials, revokeCredentialById } from './credential-storage';
+import { canTransition, validateTransition } from './credential-lifecycle';
+
+export const MAX_BULK_REVOCATION_ADDRESSES = 500;
+
+// Header names recognised as the address column of an uploaded CSV
+const ADDRESS_HEADERS = ['address', 'citizenaddress', 'walletaddress', 'wallet'];
+
+// invalid and none (no revocable credentials) are never revoked; revoking marks the address in progress
+export type RevocationTargetStatus = 'invalid' | 'none' | 'ready' | 'revoking' | 'revoked' | 'failed';
+
+export interface CredentialRevocationOutcome {
+  credentialId: string;
+  typeName: string;
+  success: boolean;
+  txHash?: string;
+  error?: string;
+}
+
+export interface RevocationTarget {
+  // The address as entered
+  input: string;
+  citizenAddress: string;
+  // Credentials that can still be revoked (active, suspended or expired)
+  credentials: HolderCredentialSummary[];
+  status: RevocationTargetStatus;
+  error?: string;
+  outcomes: CredentialRevocationOutcome[];
+}
+
+export interface BulkRevocationReason {
+  code: string;
+  note?: string;
+}
+
+// Read addresses from pasted text or a CSV file. A CSV with an address header uses that column;
+// otherwise every comma, semicolon or whitespace separated value is taken as an address.
+export function parseRevocationAddresses(text: string): { success: boolean; addresses?: string[]; error?: string } {
+  const cleaned = text.replace(/^\uFEFF/, '');
+  const records = parseCsv(cleaned);
+  const headerColumn = records.length > 0
+    ? records[0].findIndex((header) => ADDRESS_HEADERS.includes(header.toLowerCase().replace(/[\s_-]/g, '')))
+    : -1;
+
+  const values = headerColumn >= 0
+    ? records.slice(1).map((record) => (record[headerColumn] || '').trim())
+    : cleaned.split(/[\s,;]+/).map((value) => value.trim());
+
+  // Keep the first occurrence of each address
+  const seen = new Set<string>();
+  const addresses = values.filter((value) => {
+    const key = value.toLowerCase();
+    if (!value || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  if (addresses.length === 0) {
+    return { success: false, error: 'No addresses found' };
+  }
+  if (addresses.length > MAX_BULK_REVOCATION_ADDRESSES) {
+    return { success: false, error: `At most ${MAX_BULK_REVOCATION_ADDRESSES} addresses can be revoked at once` };
+  }
+  return { success: true, addresses };
+}
+
+// Find the revocable credentials of each address
+export async function lookupRevocationTargets(
+  addresses: string[],
+  onProgress?: (checked: number) => void
+): Promise<RevocationTarget[]> {
+  const targets: RevocationTarget[] = [];
+
+  for (const input of addresses) {
+    if (!ethers.isAddress(input)) {
+      targets.push({ input, citizenAddress: input, credentials: [], status: 'invalid', error: 'Invalid Ethereum address format', outcomes: [] });
+    } else {
+      const citizenAddress = ethers.getAddress(input);
+      const credentials = (await listHolderCredentials(citizenAddress)).filter((c) => canTransition(c.status, 'revoke'));
+      targets.push(credentials.length > 0
+        ? { input, citizenAddress, credentials, status: 'ready', outcomes: [] }
+        : { input, citizenAddress, credentials, status: 'none', error: 'No credentials to revoke', outcomes: [] });
+    }
+    onProgress?.(targets.length);
+  }
+
+  return targets;
+}
+
+// Record the start of a run (admin only)
+export async function startBulkRevocation(
+  reason: BulkRevocationReason,
+  addressCount: number
+): Promise<{ success: boolean; id?: string; error?: string }> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return { success: false, error: 'Not authenticated' };
+    }
+
+    // Revocation allows every revocable state, so checking against 'active' validates the reason only
+    const reasonError = validateTransition('active', 'revoke', reason.code, reason.note);
+    if (reasonError) {
+      return { success: false, error: reasonError };
+    }
+
+    const { data, error } = await supabase
+      .from('bulk_revocations')
+      .insert({
+        reason_code: reason.code,
+        note: reason.note?.trim() || null,
+        address_count: addressCount,
+        created_by: user.id,
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error('Error starting bulk revocation:', error);
+      return { success: false, error: error.message || 'Failed to start bulk revocation' };
+    }
+
+    return { success: true, id: data.id };
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to start bulk revocation';
+    return { success: false, error: errorMessage };
+  }
+}
+
+export async function completeBulkRevocation(bulkRevocationId: string): Promise<void> {
+  const { error } = await supabase
+    .from('bulk_revocations')
+    .update({ completed_at: new Date().toISOString() })
+    .eq('id', bulkRevocationId);
+
+  if (error) {
+    console.error('Error completing bulk revocation:', error);
+  }
+}
+
+async function recordOutcomes(
+  rows: {
+    bulk_revocation_id: string;
+    citizen_address: string;
+    credential_id: string | null;
+    status: 'revoked' | 'failed' | 'skipped';
+    error: string | null;
+    tx_hash: string | null;
+  }[]
+): Promise<void> {
+  if (rows.length === 0) return;
+
+  const { error } = await supabase.from('bulk_revocation_items').insert(rows);
+  if (error) {
+    console.error('Error recording bulk revocation outcome:', error);
+  }
+}
+
+// Record invalid addresses and addresses without revocable credentials as skipped
+export async function recordSkippedTargets(bulkRevocationId: string, targets: RevocationTarget[]): Promise<void> {
+  await recordOutcomes(targets
+    .filter((target) => target.status === 'invalid' || target.status === 'none')
+    .map((target) => ({
+      bulk_revocation_id: bulkRevocationId,
+      citizen_address: target.input,
+      credential_id: null,
+      status: 'skipped',
+      error: target.error || null,
+      tx_hash: null,
+    })));
+}
+
+// Revoke every credential of one address and record the outcome of each
+export async function revokeTarget(
+  privateKey: string,
+  bulkRevocationId: string,
+  target: RevocationTarget,
+  reason: BulkRevocationReason
+): Promise<RevocationTarget> {
+  const outcomes: CredentialRevocationOutcome[] = [];
+  for (const credential of target.credentials) {
+    const result = await revokeCredentialById(privateKey, credential.id, reason);
+    outcomes.push({
+      credentialId: credential.id,
+      typeName: credential.typeName || credential.credentialType,
+      // Revoked on-chain but not in the database counts as a failure to follow up
+      success: result.success && !result.error,
+      txHash: result.txHash,
+      error: result.error,
+    });
+  }
+
+  await recordOutcomes(outcomes.map((outcome) => ({
+    bulk_revocation_id: bulkRevocationId,
+    citizen_address: target.citizenAddress,
+    credential_id: outcome.credentialId,
+    status: outcome.success ? 'revoked' : 'failed',
+    error: outcome.error || null,
+    tx_hash: outcome.txHash || null,
+  })));
+
+  const failed = outcomes.filter((outcome) => !outcome.success);
+  return {
+    ...target,
+    status: failed.length > 0 ? 'failed' : 'revoked',
+    error: failed.length > 0 ? failed.map((outcome) => `${outcome.typeName}: ${outcome.error}`).join('; ') : undefined,
+    outcomes,
+  };
+}
+
+// Result report: one line per credential, or per address when nothing was revoked
+export function toRevocationReportCsv(targets: RevocationTarget[], reason: BulkRevocationReason): string {
+  const header = ['address', 'credential_id', 'credential_type', 'status', 'reason_code', 'tx_hash', 'error'];
+  const lines = targets.flatMap((target) => {
+    if (target.outcomes.length === 0) {
+      return [[target.input, '', '', target.status, reason.code, '', target.error || '']];
+    }
+    return target.outcomes.map((outcome) => [
+      target.citizenAddress,
+      outcome.credentialId,
+      outcome.typeName,
+      outcome.success ? 'revoked' : 'failed',
+      reason.code,
+      outcome.txHash || '',
+      outcome.error || '',
+    ]);
+  });
+  return [header.join(','), ...lines.map((line) => line.map(toCsvValue).join(','))].join('\n') + '\n';
+}
@@ -0,0 +1,181 @@
+// Compact signed credential QR (modelled on the EU Digital COVID Certificate)
+// Claims are CBOR-encoded as a CWT, signed by the issuer as COSE_Sign1 (ES256K, secp256k1),
+// zlib-compressed and Base45-encoded behind an "IC1:" prefix. The result verifies offline
+// and is small enough to print on an ID card.
+
+import { ethers } from 'ethers';
+import { Encoder, Tag } from 'cbor-x';
+import { base45Encode, base45Decode } from './base45';
+
+export const COMPACT_QR_PREFIX = 'IC1:';
+
+// COSE / CWT identifiers (RFC 9052, RFC 8392, RFC 8812)
+const COSE_SIGN1_TAG = 18;
+const COSE_HEADER_ALG = 1;
+const COSE_HEADER_KID = 4;
+const COSE_ALG_ES256K = -47;
+const CWT_ISS = 1;
+const CWT_SUB = 2;
+const CWT_EXP = 4;
+const CWT_IAT = 6;
+// Private-use claim holding the identity credential (mirrors the DCC hcert claim)
+const CWT_IDENTITY_CREDENTIAL = -260;
+const IDENTITY_CREDENTIAL_V1 = 1;
+
+const cbor = new Encoder({ useRecords: false, mapsAsObjects: false, tagUint8Array: false });
+
+export interface CompactCredentialClaims {
+  citizenAddress: string;
+  issuerAddress: string;
+  fullName: string;
+  nationalId: string;
+  dateOfBirth: string;
+  expiryDate: string;
+  credentialHash: string;
+  issuedAt: number;
+  // Position in the Bitstring Status Lists; absent from QR codes issued before it was signed
+  statusListIndex?: number;
+}
+
+export interface CompactCredentialVerification {
+  success: boolean;
+  claims?: CompactCredentialClaims;
+  error?: string;
+}
+
+export function isCompactCredentialQR(data: string): boolean {
+  return data.trim().startsWith(COMPACT_QR_PREFIX);
+}
+
+async function zlibDeflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function zlibInflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// COSE Sig_structure for a COSE_Sign1 with no external AAD
+function sigStructureDigest(protectedHeader: Uint8Array, payload: Uint8Array): string {
+  const sigStructure = cbor.encode(['Signature1', protectedHeader, new Uint8Array(0), payload]);
+  return ethers.sha256(sigStructure);
+}
+
+// Create the compact QR text for a credential, signed with the issuer's key
+export async function createCompactCredentialQR(
+  privateKey: string,
+  claims: CompactCredentialClaims
+): Promise<string> {
+  const identity = new Map<string, string | number | Uint8Array>([
+    ['n', claims.fullName],
+    ['id', claims.nationalId],
+    ['dob', claims.dateOfBirth || ''],
+    ['exp', claims.expiryDate || ''],
+    ['h', ethers.getBytes(claims.credentialHash)],
+  ]);
+  if (claims.statusListIndex !== undefined) {
+    identity.set('sli', claims.statusListIndex);
+  }
+
+  const cwt = new Map<number, unknown>([
+    [CWT_ISS, ethers.getAddress(claims.issuerAddress)],
+    [CWT_SUB, ethers.getAddress(claims.citizenAddress)],
+    [CWT_IAT, Math.floor(claims.issuedAt / 1000)],
+    [CWT_IDENTITY_CREDENTIAL, new Map([[IDENTITY_CREDENTIAL_V1, identity]])],
+  ]);
+  if (claims.expiryDate) {
+    cwt.set(CWT_EXP, Math.floor(new Date(`${claims.expiryDate}T23:59:59Z`).getTime() / 1000));
+  }
+
+  const protectedHeader = cbor.encode(new Map([[COSE_HEADER_ALG, COSE_ALG_ES256K]]));
+  const unprotectedHeader = new Map([[COSE_HEADER_KID, ethers.getBytes(ethers.getAddress(claims.issuerAddress))]]);
+  const payload = cbor.encode(cwt);
+
+  const signature = new ethers.SigningKey(privateKey).sign(sigStructureDigest(protectedHeader, payload));
+  const coseSign1 = cbor.encode(new Tag(
+    [protectedHeader, unprotectedHeader, payload, ethers.getBytes(ethers.concat([signature.r, signature.s]))],
+    COSE_SIGN1_TAG
+  ));
+
+  return COMPACT_QR_PREFIX + base45Encode(await zlibDeflate(coseSign1));
+}
+
+// Decode a compact QR and check its COSE signature against the issuer in the claims
+// Trust in the issuer itself is decided by the caller (database, chain or cached trust list)
+export async function verifyCompactCredentialQR(data: string): Promise<CompactCredentialVerification> {
+  try {
+    const text = data.trim();
+    if (!text.startsWith(COMPACT_QR_PREFIX)) {
+      return { success: false, error: 'Not a compact credential QR code' };
+    }
+
+    const compressed = base45Decode(text.slice(COMPACT_QR_PREFIX.length));
+    // zlib streams start with 0x78; uncompressed COSE is accepted as well
+    const coseBytes = compressed[0] === 0x78 ? await zlibInflate(compressed) : compressed;
+
+    const decoded = cbor.decode(coseBytes);
+    const coseSign1 = decoded instanceof Tag ? decoded.value : decoded;
+    if (!Array.isArray(coseSign1) || coseSign1.length !== 4) {
+      return { success: false, error: 'Malformed COSE_Sign1 structure' };
+    }
+
+    const [protectedHeader, , payload, signature] = coseSign1 as [Uint8Array, unknown, Uint8Array, Uint8Array];
+    const headers = cbor.decode(protectedHeader) as Map<number, unknown>;
+    if (headers.get(COSE_HEADER_ALG) !== COSE_ALG_ES256K) {
+      return { success: false, error: 'Unsupported COSE algorithm' };
+    }
+    if (!(signature instanceof Uint8Array) || signature.length !== 64) {
+      return { success: false, error: 'Malformed COSE signature' };
+    }
+
+    const cwt = cbor.decode(payload) as Map<number, unknown>;
+    const issuerAddress = cwt.get(CWT_ISS);
+    const citizenAddress = cwt.get(CWT_SUB);
+    const identity = (cwt.get(CWT_IDENTITY_CREDENTIAL) as Map<number, Map<string, unknown>> | undefined)
+      ?.get(IDENTITY_CREDENTIAL_V1);
+    if (typeof issuerAddress !== 'string' || !ethers.isAddress(issuerAddress) ||
+        typeof citizenAddress !== 'string' || !ethers.isAddress(citizenAddress) || !identity) {
+      return { success: false, error: 'Missing credential claims' };
+    }
+
+    const statusListIndex = identity.get('sli');
+    if (statusListIndex !== undefined && !Number.isInteger(statusListIndex)) {
+      return { success: false, error: 'Malformed status list index' };
+    }
+
+    // ES256K carries no recovery id, so both candidates are tried
+    const digest = sigStructureDigest(protectedHeader, payload);
+    const r = ethers.hexlify(signature.slice(0, 32));
+    const s = ethers.hexlify(signature.slice(32));
+    const signedByIssuer = [27, 28].some((v) => {
+      try {
+        return ethers.recoverAddress(digest, ethers.Signature.from({ r, s, v })).toLowerCase() === issuerAddress.toLowerCase();
+      } catch {
+        return false;
+      }
+    });
+    if (!signedByIssuer) {
+      return { success: false, error: 'Issuer signature is invalid' };
+    }
+
+    return {
+      success: true,
+      claims: {
+        citizenAddress,
+        issuerAddress,
+        fullName: String(identity.get('n') ?? ''),
+        nationalId: String(identity.get('id') ?? ''),
+        dateOfBirth: String(identity.get('dob') ?? ''),
+        expiryDate: String(identity.get('exp') ?? ''),
+        credentialHash: ethers.hexlify(identity.get('h') as Uint8Array),
+        issuedAt: Number(cwt.get(CWT_IAT) ?? 0) * 1000,
+        statusListIndex: statusListIndex as number | undefined,
+      },
+    };
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Invalid compact credential QR';
+    return { success: false, error: errorMessage };
+  }
+}
@@ -119,3 +119,387 @@ contract IdentityCredential {
     }
 }
 `;
+
+// Credential registry v2: hashes are keyed by credential ID so a holder can hold several credentials.
+// The v1 contract above keeps a single hash per holder address and remains readable for older credentials.
+const REGISTRY_V2_STORAGE_KEY = 'deployed_registry_v2_address';
+
+// Get the v2 registry used for new issuance, or null when only the v1 contract is configured
+export function getCredentialRegistryV2Address(): string | null {
+  return localStorage.getItem(REGISTRY_V2_STORAGE_KEY);
+}
+
+export function setCredentialRegistryV2Address(address: string | null): void {
+  if (address) {
+    localStorage.setItem(REGISTRY_V2_STORAGE_KEY, address);
+  } else {
+    localStorage.removeItem(REGISTRY_V2_STORAGE_KEY);
+  }
+}
+
+// On-chain credential ID: the database UUID as a left-padded bytes32
+export function credentialIdToBytes32(credentialId: string): string {
+  return `0x${credentialId.replace(/-/g, '').toLowerCase().padStart(64, '0')}`;
+}
+
+export const CREDENTIAL_REGISTRY_V2_ABI = [
+  {
+    inputs: [],
+    stateMutability: 'nonpayable',
+    type: 'constructor',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'bytes32', name: 'credentialId', type: 'bytes32' },
+      { indexed: true, internalType: 'address', name: 'holder', type: 'address' },
+      { indexed: false, internalType: 'bytes32', name: 'hash', type: 'bytes32' },
+      { indexed: false, internalType: 'uint256', name: 'blockTimestamp', type: 'uint256' },
+    ],
+    name: 'CredentialIssued',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'bytes32', name: 'credentialId', type: 'bytes32' },
+      { indexed: true, internalType: 'address', name: 'holder', type: 'address' },
+      { indexed: false, internalType: 'uint256', name: 'blockTimestamp', type: 'uint256' },
+    ],
+    name: 'CredentialRevoked',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'bytes32', name: 'previousId', type: 'bytes32' },
+      { indexed: true, internalType: 'bytes32', name: 'credentialId', type: 'bytes32' },
+      { indexed: true, internalType: 'address', name: 'holder', type: 'address' },
+      { indexed: false, internalType: 'uint256', name: 'blockTimestamp', type: 'uint256' },
+    ],
+    name: 'CredentialRenewed',
+    type: 'event',
+  },
+  {
+    inputs: [
+      { internalType: 'bytes32', name: '_credentialId', type: 'bytes32' },
+      { internalType: 'address', name: '_holder', type: 'address' },
+      { internalType: 'bytes32', name: '_hash', type: 'bytes32' },
+    ],
+    name: 'issueCredential',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'bytes32', name: '_credentialId', type: 'bytes32' }],
+    name: 'revokeCredential',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'bytes32', name: '_previousId', type: 'bytes32' },
+      { internalType: 'bytes32', name: '_credentialId', type: 'bytes32' },
+      { internalType: 'bytes32', name: '_hash', type: 'bytes32' },
+    ],
+    name: 'renewCredential',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'bytes32', name: '', type: 'bytes32' }],
+    name: 'supersededBy',
+    outputs: [{ internalType: 'bytes32', name: '', type: 'bytes32' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'bytes32', name: '', type: 'bytes32' }],
+    name: 'credentials',
+    outputs: [
+      { internalType: 'address', name: 'holder', type: 'address' },
+      { internalType: 'bytes32', name: 'hash', type: 'bytes32' },
+      { internalType: 'uint64', name: 'issuedAt', type: 'uint64' },
+      { internalType: 'uint64', name: 'revokedAt', type: 'uint64' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'bytes32', name: '', type: 'bytes32' }],
+    name: 'credentialIdByHash',
+    outputs: [{ internalType: 'bytes32', name: '', type: 'bytes32' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'address', name: '_holder', type: 'address' }],
+    name: 'getHolderCredentials',
+    outputs: [{ internalType: 'bytes32[]', name: '', type: 'bytes32[]' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'issuer',
+    outputs: [{ internalType: 'address', name: '', type: 'address' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'bytes32', name: '_credentialId', type: 'bytes32' },
+      { internalType: 'bytes32', name: '_hash', type: 'bytes32' },
+    ],
+    name: 'verifyCredential',
+    outputs: [{ internalType: 'bool', name: '', type: 'bool' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const;
+
+export const CREDENTIAL_REGISTRY_V2_SOURCE = `
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+contract IdentityCredentialRegistryV2 {
+    struct Credential {
+        address holder;
+        bytes32 hash;
+        uint64 issuedAt;
+        uint64 revokedAt;
+    }
+
+    address public issuer;
+
+    mapping(bytes32 => Credential) public credentials;
+    mapping(bytes32 => bytes32) public credentialIdByHash;
+    mapping(bytes32 => bytes32) public supersededBy;
+    mapping(address => bytes32[]) private holderCredentials;
+
+    event CredentialIssued(bytes32 indexed credentialId, address indexed holder, bytes32 hash, uint256 blockTimestamp);
+    event CredentialRevoked(bytes32 indexed credentialId, address indexed holder, uint256 blockTimestamp);
+    event CredentialRenewed(bytes32 indexed previousId, bytes32 indexed credentialId, address indexed holder, uint256 blockTimestamp);
+
+    constructor() {
+        issuer = msg.sender;
+    }
+
+    modifier onlyIssuer() {
+        require(msg.sender == issuer, "Only issuer can perform this action");
+        _;
+    }
+
+    function issueCredential(bytes32 _credentialId, address _holder, bytes32 _hash) external onlyIssuer {
+        _issue(_credentialId, _holder, _hash);
+    }
+
+    function _issue(bytes32 _credentialId, address _holder, bytes32 _hash) private {
+        require(_credentialId != bytes32(0) && _hash != bytes32(0), "Invalid credential");
+        require(credentials[_credentialId].holder == address(0), "Credential already exists");
+        require(credentialIdByHash[_hash] == bytes32(0), "Hash already anchored");
+        credentials[_credentialId] = Credential(_holder, _hash, uint64(block.timestamp), 0);
+        credentialIdByHash[_hash] = _credentialId;
+        holderCredentials[_holder].push(_credentialId);
+        emit CredentialIssued(_credentialId, _holder, _hash, block.timestamp);
+    }
+
+    function revokeCredential(bytes32 _credentialId) external onlyIssuer {
+        Credential storage credential = credentials[_credentialId];
+        require(credential.holder != address(0), "No credential to revoke");
+        require(credential.revokedAt == 0, "Credential already revoked");
+        credential.revokedAt = uint64(block.timestamp);
+        emit CredentialRevoked(_credentialId, credential.holder, block.timestamp);
+    }
+
+    // Replace a credential with its successor in one transaction: the old hash stops verifying
+    // in the same block the new one is anchored
+    function renewCredential(bytes32 _previousId, bytes32 _credentialId, bytes32 _hash) external onlyIssuer {
+        Credential storage previous = credentials[_previousId];
+        require(previous.holder != address(0), "No credential to renew");
+        require(previous.revokedAt == 0, "Credential already revoked");
+        previous.revokedAt = uint64(block.timestamp);
+        supersededBy[_previousId] = _credentialId;
+        _issue(_credentialId, previous.holder, _hash);
+        emit CredentialRenewed(_previousId, _credentialId, previous.holder, block.timestamp);
+    }
+
+    function verifyCredential(bytes32 _credentialId, bytes32 _hash) external view returns (bool) {
+        Credential storage credential = credentials[_credentialId];
+        return credential.hash == _hash && _hash != bytes32(0) && credential.revokedAt == 0;
+    }
+
+    function getHolderCredentials(address _holder) external view returns (bytes32[] memory) {
+        return holderCredentials[_holder];
+    }
+}
+`;
+
+// Batch anchoring registry: only Merkle roots of credential batches are stored on-chain.
+// Each credential keeps its inclusion proof; individual credentials are revoked by their leaf.
+const BATCH_REGISTRY_STORAGE_KEY = 'deployed_batch_registry_address';
+
+// Get the batch registry used for new issuance, or null when credentials are anchored one by one
+export function getCredentialBatchRegistryAddress(): string | null {
+  return localStorage.getItem(BATCH_REGISTRY_STORAGE_KEY);
+}
+
+export function setCredentialBatchRegistryAddress(address: string | null): void {
+  if (address) {
+    localStorage.setItem(BATCH_REGISTRY_STORAGE_KEY, address);
+  } else {
+    localStorage.removeItem(BATCH_REGISTRY_STORAGE_KEY);
+  }
+}
+
+export const CREDENTIAL_BATCH_REGISTRY_ABI = [
+  {
+    inputs: [],
+    stateMutability: 'nonpayable',
+    type: 'constructor',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'bytes32', name: 'root', type: 'bytes32' },
+      { indexed: false, internalType: 'uint32', name: 'leafCount', type: 'uint32' },
+      { indexed: false, internalType: 'uint256', name: 'blockTimestamp', type: 'uint256' },
+    ],
+    name: 'RootAnchored',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'bytes32', name: 'leaf', type: 'bytes32' },
+      { indexed: false, internalType: 'uint256', name: 'blockTimestamp', type: 'uint256' },
+    ],
+    name: 'LeafRevoked',
+    type: 'event',
+  },
+  {
+    inputs: [
+      { internalType: 'bytes32', name: '_root', type: 'bytes32' },
+      { internalType: 'uint32', name: '_leafCount', type: 'uint32' },
+    ],
+    name: 'anchorRoot',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'bytes32', name: '_leaf', type: 'bytes32' }],
+    name: 'revokeLeaf',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'bytes32', name: '', type: 'bytes32' }],
+    name: 'roots',
+    outputs: [
+      { internalType: 'uint64', name: 'anchoredAt', type: 'uint64' },
+      { internalType: 'uint32', name: 'leafCount', type: 'uint32' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'bytes32', name: '', type: 'bytes32' }],
+    name: 'revokedLeaves',
+    outputs: [{ internalType: 'uint64', name: '', type: 'uint64' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'issuer',
+    outputs: [{ internalType: 'address', name: '', type: 'address' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'bytes32', name: '_root', type: 'bytes32' },
+      { internalType: 'bytes32', name: '_leaf', type: 'bytes32' },
+      { internalType: 'bytes32[]', name: '_proof', type: 'bytes32[]' },
+    ],
+    name: 'verifyProof',
+    outputs: [{ internalType: 'bool', name: '', type: 'bool' }],
+    stateMutability: 'pure',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'bytes32', name: '_root', type: 'bytes32' },
+      { internalType: 'bytes32', name: '_leaf', type: 'bytes32' },
+      { internalType: 'bytes32[]', name: '_proof', type: 'bytes32[]' },
+    ],
+    name: 'verifyCredential',
+    outputs: [{ internalType: 'bool', name: '', type: 'bool' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const;
+
+export const CREDENTIAL_BATCH_REGISTRY_SOURCE = `
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+contract IdentityCredentialBatchRegistry {
+    struct Batch {
+        uint64 anchoredAt;
+        uint32 leafCount;
+    }
+
+    address public issuer;
+
+    mapping(bytes32 => Batch) public roots;
+    mapping(bytes32 => uint64) public revokedLeaves;
+
+    event RootAnchored(bytes32 indexed root, uint32 leafCount, uint256 blockTimestamp);
+    event LeafRevoked(bytes32 indexed leaf, uint256 blockTimestamp);
+
+    constructor() {
+        issuer = msg.sender;
+    }
+
+    modifier onlyIssuer() {
+        require(msg.sender == issuer, "Only issuer can perform this action");
+        _;
+    }
+
+    function anchorRoot(bytes32 _root, uint32 _leafCount) external onlyIssuer {
+        require(_root != bytes32(0) && _leafCount > 0, "Invalid batch");
+        require(roots[_root].anchoredAt == 0, "Root already anchored");
+        roots[_root] = Batch(uint64(block.timestamp), _leafCount);
+        emit RootAnchored(_root, _leafCount, block.timestamp);
+    }
+
+    function revokeLeaf(bytes32 _leaf) external onlyIssuer {
+        require(_leaf != bytes32(0), "Invalid credential");
+        require(revokedLeaves[_leaf] == 0, "Credential already revoked");
+        revokedLeaves[_leaf] = uint64(block.timestamp);
+        emit LeafRevoked(_leaf, block.timestamp);
+    }
+
+    // Leaves are keccak256(abi.encode(credentialId, holder, hash)); each pair is hashed in sorted order
+    function verifyProof(bytes32 _root, bytes32 _leaf, bytes32[] calldata _proof) public pure returns (bool) {
+        bytes32 node = _leaf;
+        for (uint256 i = 0; i < _proof.length; i++) {
+            bytes32 sibling = _proof[i];
+            node = node < sibling
+                ? keccak256(abi.encodePacked(node, sibling))
+                : keccak256(abi.encodePacked(sibling, node));
+        }
+        return node == _root;
+    }
+
+    function verifyCredential(bytes32 _root, bytes32 _leaf, bytes32[] calldata _proof) external view returns (bool) {
+        return roots[_root].anchoredAt != 0 && revokedLeaves[_leaf] == 0 && verifyProof(_root, _leaf, _proof);
+    }
+}
+`;
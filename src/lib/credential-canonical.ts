@@ -0,0 +1,197 @@
+// Canonical credential serialization
+// The credential hash is keccak256 over a canonical JSON payload (sorted keys, no whitespace,
+// checksummed addresses, YYYY-MM-DD dates and a UTC ISO 8601 issuance timestamp).
+// The exact payload string is stored with the credential so anyone can recompute the hash.
+// Version 2 adds the credential type, schema version and typed schema attributes.
+// Version 3 adds the credential's position in the Bitstring Status Lists, so the position a
+// verifier checks is covered by the issuer signature.
+
+import { ethers } from 'ethers';
+import { DEFAULT_CREDENTIAL_TYPE, DEFAULT_SCHEMA_VERSION } from './credential-schemas';
+
+export const CANONICAL_PAYLOAD_VERSION = 3;
+const SUPPORTED_PAYLOAD_VERSIONS = [1, 2, 3];
+
+export interface CanonicalCredentialPayload {
+  version: number;
+  citizenAddress: string;
+  issuer: string;
+  fullName: string;
+  nationalId: string;
+  dateOfBirth: string;
+  expiryDate: string;
+  issuedAt: string;
+  // Version 2 and later
+  credentialType?: string;
+  schemaVersion?: number;
+  attributes?: Record<string, string | number | boolean>;
+  // Version 3 and later
+  statusListIndex?: number;
+}
+
+// Fields that are stored both as database columns and inside the canonical payload
+export interface CanonicalCredentialFields {
+  citizenAddress: string;
+  issuerAddress: string;
+  fullName: string;
+  nationalId: string;
+  dateOfBirth: string;
+  expiryDate: string;
+  credentialType?: string;
+  schemaVersion?: number;
+  attributes?: Record<string, string | number | boolean>;
+  statusListIndex?: number;
+}
+
+export type CanonicalValue = string | number | boolean | null | CanonicalValue[] | { [key: string]: CanonicalValue };
+
+// Deterministic JSON: object keys sorted by code point, no insignificant whitespace
+export function canonicalJson(value: CanonicalValue): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const keys = Object.keys(value).sort();
+    return `{${keys.map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// Normalize a date-only value to YYYY-MM-DD (empty string when not provided)
+function normalizeDate(value: string): string {
+  if (!value) return '';
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+// Build a normalized canonical payload for a new credential
+// Versions 1 and 2 are only built to recompute hashes of credentials issued before schemas
+// existed or before the status list position was signed
+export function buildCanonicalPayload(
+  fields: CanonicalCredentialFields,
+  issuedAt: Date,
+  version: number = CANONICAL_PAYLOAD_VERSION
+): CanonicalCredentialPayload {
+  const payload: CanonicalCredentialPayload = {
+    version,
+    citizenAddress: ethers.getAddress(fields.citizenAddress),
+    issuer: ethers.getAddress(fields.issuerAddress),
+    fullName: fields.fullName,
+    nationalId: fields.nationalId,
+    dateOfBirth: normalizeDate(fields.dateOfBirth),
+    expiryDate: normalizeDate(fields.expiryDate),
+    issuedAt: issuedAt.toISOString(),
+  };
+  if (version >= 2) {
+    payload.credentialType = fields.credentialType || DEFAULT_CREDENTIAL_TYPE;
+    payload.schemaVersion = fields.schemaVersion || DEFAULT_SCHEMA_VERSION;
+    payload.attributes = fields.attributes || {};
+  }
+  if (version >= 3) {
+    if (fields.statusListIndex === undefined) {
+      throw new Error('A status list index is required');
+    }
+    payload.statusListIndex = fields.statusListIndex;
+  }
+  return payload;
+}
+
+export function serializeCanonicalPayload(payload: CanonicalCredentialPayload): string {
+  return canonicalJson({ ...payload } as { [key: string]: CanonicalValue });
+}
+
+export function hashCanonicalPayload(serializedPayload: string): string {
+  return ethers.keccak256(ethers.toUtf8Bytes(serializedPayload));
+}
+
+// Parse a stored canonical payload, rejecting anything that is not in canonical form
+export function parseCanonicalPayload(serializedPayload: string): CanonicalCredentialPayload | null {
+  try {
+    const payload = JSON.parse(serializedPayload) as CanonicalCredentialPayload;
+    if (!SUPPORTED_PAYLOAD_VERSIONS.includes(payload?.version)) {
+      return null;
+    }
+    if (serializeCanonicalPayload(payload) !== serializedPayload) {
+      return null;
+    }
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+export interface CredentialIntegrityReport {
+  // False for legacy credentials issued before the canonical payload was stored
+  recomputable: boolean;
+  // Database columns that disagree with the stored canonical payload
+  mismatchedFields: string[];
+  recomputedHash: string | null;
+  // Recomputed hash equals the credential_hash column
+  recomputedMatchesStored: boolean;
+  // On-chain credentials(address) value, null when not found on-chain
+  onChainHash: string | null;
+  onChainMatchesStored: boolean;
+  onChainMatchesRecomputed: boolean;
+}
+
+// Recompute the credential hash from its stored canonical payload and compare
+// the database fields, the recomputed hash and the on-chain hash against each other
+export function checkCredentialIntegrity(
+  credential: CanonicalCredentialFields & { credentialHash: string; canonicalPayload?: string },
+  onChainHash: string | null
+): CredentialIntegrityReport {
+  const sameHash = (a: string | null, b: string | null) =>
+    !!a && !!b && a.toLowerCase() === b.toLowerCase();
+
+  const report: CredentialIntegrityReport = {
+    recomputable: false,
+    mismatchedFields: [],
+    recomputedHash: null,
+    recomputedMatchesStored: false,
+    onChainHash,
+    onChainMatchesStored: sameHash(onChainHash, credential.credentialHash),
+    onChainMatchesRecomputed: false,
+  };
+
+  const payload = credential.canonicalPayload ? parseCanonicalPayload(credential.canonicalPayload) : null;
+  if (!payload) {
+    return report;
+  }
+
+  report.recomputable = true;
+
+  const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+  if (!sameAddress(payload.citizenAddress, credential.citizenAddress)) report.mismatchedFields.push('citizenAddress');
+  if (!sameAddress(payload.issuer, credential.issuerAddress)) report.mismatchedFields.push('issuerAddress');
+  if (payload.fullName !== credential.fullName) report.mismatchedFields.push('fullName');
+  if (payload.nationalId !== credential.nationalId) report.mismatchedFields.push('nationalId');
+  if (payload.dateOfBirth !== (credential.dateOfBirth || '')) report.mismatchedFields.push('dateOfBirth');
+  if (payload.expiryDate !== (credential.expiryDate || '')) report.mismatchedFields.push('expiryDate');
+  if (payload.version >= 2) {
+    if (payload.credentialType !== (credential.credentialType || DEFAULT_CREDENTIAL_TYPE)) report.mismatchedFields.push('credentialType');
+    if (payload.schemaVersion !== (credential.schemaVersion || DEFAULT_SCHEMA_VERSION)) report.mismatchedFields.push('schemaVersion');
+    if (canonicalJson(payload.attributes || {}) !== canonicalJson(credential.attributes || {})) report.mismatchedFields.push('attributes');
+  }
+  if (payload.version >= 3 && payload.statusListIndex !== credential.statusListIndex) {
+    report.mismatchedFields.push('statusListIndex');
+  }
+
+  report.recomputedHash = hashCanonicalPayload(credential.canonicalPayload!);
+  report.recomputedMatchesStored = sameHash(report.recomputedHash, credential.credentialHash);
+  report.onChainMatchesRecomputed = sameHash(onChainHash, report.recomputedHash);
+
+  return report;
+}
+
+// A credential passes the integrity check only when all three sources agree
+export function isCredentialIntegrityValid(report: CredentialIntegrityReport): boolean {
+  return (
+    report.recomputable &&
+    report.mismatchedFields.length === 0 &&
+    report.recomputedMatchesStored &&
+    report.onChainMatchesRecomputed
+  );
+}
@@ -0,0 +1,245 @@
+// Supporting documents for identity proofing
+// Scans of ID documents and proof of address attached to a credential request (by the citizen) or to a
+// credential (by an issuer). Files are kept in the private identity-documents bucket, readable only by
+// the citizen and admins. Each file's SHA-256 hash is recorded with it and copied into the audit
+// metadata of the credential it backs; opening a document checks the file against that hash.
+
+import { supabase } from '@/integrations/supabase/client';
+
+const DOCUMENTS_BUCKET = 'identity-documents';
+
+export const MAX_DOCUMENT_SIZE = 10 * 1024 * 1024;
+
+export const ACCEPTED_DOCUMENT_MIME_TYPES = ['image/jpeg', 'image/png', 'application/pdf'];
+
+export type DocumentType = 'id_document' | 'proof_of_address';
+
+export const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  id_document: 'ID document',
+  proof_of_address: 'Proof of address',
+};
+
+export interface CredentialDocument {
+  id: string;
+  citizenUserId: string;
+  requestId?: string;
+  credentialId?: string;
+  documentType: DocumentType;
+  fileName: string;
+  mimeType: string;
+  sizeBytes: number;
+  storagePath: string;
+  sha256: string;
+  createdAt: string;
+}
+
+// A file picked in a form, uploaded once the request or credential it belongs to exists
+export interface PendingDocument {
+  file: File;
+  documentType: DocumentType;
+}
+
+// Where a document is attached: always a citizen, plus their request and/or credential
+export interface DocumentTarget {
+  citizenUserId: string;
+  requestId?: string;
+  credentialId?: string;
+}
+
+interface DatabaseCredentialDocument {
+  id: string;
+  citizen_user_id: string;
+  request_id: string | null;
+  credential_id: string | null;
+  document_type: string;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  storage_path: string;
+  sha256: string;
+  created_at: string;
+}
+
+function toCredentialDocument(row: DatabaseCredentialDocument): CredentialDocument {
+  return {
+    id: row.id,
+    citizenUserId: row.citizen_user_id,
+    requestId: row.request_id || undefined,
+    credentialId: row.credential_id || undefined,
+    documentType: row.document_type as DocumentType,
+    fileName: row.file_name,
+    mimeType: row.mime_type,
+    sizeBytes: row.size_bytes,
+    storagePath: row.storage_path,
+    sha256: row.sha256,
+    createdAt: row.created_at,
+  };
+}
+
+export function validateDocumentFile(file: File): string | null {
+  if (!ACCEPTED_DOCUMENT_MIME_TYPES.includes(file.type)) {
+    return `${file.name}: only JPEG, PNG and PDF files can be attached`;
+  }
+  if (file.size === 0) {
+    return `${file.name}: the file is empty`;
+  }
+  if (file.size > MAX_DOCUMENT_SIZE) {
+    return `${file.name}: files can be at most ${MAX_DOCUMENT_SIZE / (1024 * 1024)} MB`;
+  }
+  return null;
+}
+
+// Hex-encoded SHA-256 of the file contents
+export async function hashDocument(data: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await data.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+export async function uploadCredentialDocument(
+  pending: PendingDocument,
+  target: DocumentTarget
+): Promise<{ success: boolean; document?: CredentialDocument; error?: string }> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return { success: false, error: 'Not authenticated' };
+    }
+
+    const fileError = validateDocumentFile(pending.file);
+    if (fileError) {
+      return { success: false, error: fileError };
+    }
+
+    const id = crypto.randomUUID();
+    const storagePath = `${target.citizenUserId}/${id}`;
+    const sha256 = await hashDocument(pending.file);
+
+    const { error: uploadError } = await supabase.storage
+      .from(DOCUMENTS_BUCKET)
+      .upload(storagePath, pending.file, { contentType: pending.file.type });
+
+    if (uploadError) {
+      console.error('Error uploading document:', uploadError);
+      return { success: false, error: `${pending.file.name}: upload failed` };
+    }
+
+    const { data, error } = await supabase
+      .from('credential_documents')
+      .insert({
+        id,
+        citizen_user_id: target.citizenUserId,
+        request_id: target.requestId || null,
+        credential_id: target.credentialId || null,
+        document_type: pending.documentType,
+        file_name: pending.file.name.slice(0, 255),
+        mime_type: pending.file.type,
+        size_bytes: pending.file.size,
+        storage_path: storagePath,
+        sha256,
+        uploaded_by: user.id,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error recording document:', error);
+      // Don't leave a file behind that no record points to
+      await supabase.storage.from(DOCUMENTS_BUCKET).remove([storagePath]);
+      return { success: false, error: `${pending.file.name}: failed to attach the document` };
+    }
+
+    return { success: true, document: toCredentialDocument(data as DatabaseCredentialDocument) };
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to upload document';
+    return { success: false, error: errorMessage };
+  }
+}
+
+// Upload every picked file; returns the errors of the ones that failed
+export async function uploadPendingDocuments(pending: PendingDocument[], target: DocumentTarget): Promise<string[]> {
+  const errors: string[] = [];
+  for (const item of pending) {
+    const result = await uploadCredentialDocument(item, target);
+    if (!result.success) {
+      errors.push(result.error || `${item.file.name}: upload failed`);
+    }
+  }
+  return errors;
+}
+
+// Documents of a request or of a credential, oldest first
+export async function listCredentialDocuments(
+  filter: { requestId: string } | { credentialId: string }
+): Promise<CredentialDocument[]> {
+  try {
+    const query = supabase.from('credential_documents').select('*');
+    const { data, error } = await ('requestId' in filter
+      ? query.eq('request_id', filter.requestId)
+      : query.eq('credential_id', filter.credentialId)
+    ).order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching documents:', error);
+      return [];
+    }
+
+    return (data || []).map((row) => toCredentialDocument(row as DatabaseCredentialDocument));
+  } catch (error) {
+    console.error('Error fetching documents:', error);
+    return [];
+  }
+}
+
+// Download a document for viewing and check it still matches its recorded hash.
+// The caller revokes the returned object URL when done with it.
+export async function openCredentialDocument(
+  document: CredentialDocument
+): Promise<{ success: boolean; url?: string; hashMatches?: boolean; error?: string }> {
+  try {
+    const { data, error } = await supabase.storage.from(DOCUMENTS_BUCKET).download(document.storagePath);
+
+    if (error || !data) {
+      console.error('Error downloading document:', error);
+      return { success: false, error: 'Failed to load the document' };
+    }
+
+    const hashMatches = (await hashDocument(data)) === document.sha256;
+    const blob = new Blob([data], { type: document.mimeType });
+    return { success: true, url: URL.createObjectURL(blob), hashMatches };
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to load the document';
+    return { success: false, error: errorMessage };
+  }
+}
+
+// Remove a document. Citizens can only remove documents not yet linked to a credential.
+export async function deleteCredentialDocument(document: CredentialDocument): Promise<{ success: boolean; error?: string }> {
+  try {
+    // The record goes first: row level security decides whether the document may still be removed
+    const { data, error } = await supabase
+      .from('credential_documents')
+      .delete()
+      .eq('id', document.id)
+      .select('id');
+
+    if (error) {
+      console.error('Error deleting document:', error);
+      return { success: false, error: 'Failed to delete the document' };
+    }
+    if (!data || data.length === 0) {
+      return { success: false, error: 'This document backs an issued credential and can no longer be removed' };
+    }
+
+    const { error: storageError } = await supabase.storage.from(DOCUMENTS_BUCKET).remove([document.storagePath]);
+    if (storageError) {
+      console.error('Error deleting document file:', storageError);
+    }
+
+    return { success: true };
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to delete the document';
+    return { success: false, error: errorMessage };
+  }
+}
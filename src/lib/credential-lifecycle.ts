@@ -0,0 +1,184 @@
+// Credential lifecycle
+// States: active, suspended, revoked, expired and superseded (replaced by a renewal).
+// Transitions are validated here for the UI and again by transition_credential_status in the
+// database, which records the reason code, actor and timestamp of every change.
+// Suspension is reversible and lives in the database only; revocation is also anchored on-chain.
+
+import { supabase } from '@/integrations/supabase/client';
+
+export type CredentialStatus = 'active' | 'suspended' | 'revoked' | 'expired' | 'superseded';
+
+export type LifecycleAction = 'suspend' | 'reinstate' | 'revoke' | 'supersede';
+
+export const CREDENTIAL_STATUS_LABELS: Record<CredentialStatus, string> = {
+  active: 'Active',
+  suspended: 'Suspended',
+  revoked: 'Revoked',
+  expired: 'Expired',
+  superseded: 'Renewed',
+};
+
+// States each action may start from
+const ALLOWED_TRANSITIONS: Record<LifecycleAction, CredentialStatus[]> = {
+  suspend: ['active'],
+  reinstate: ['suspended'],
+  revoke: ['active', 'suspended', 'expired'],
+  supersede: ['active', 'expired'],
+};
+
+export interface ReasonCode {
+  code: string;
+  label: string;
+}
+
+// Reason codes accepted per action; keep in sync with transition_credential_status
+export const LIFECYCLE_REASON_CODES: Record<LifecycleAction, ReasonCode[]> = {
+  suspend: [
+    { code: 'under_investigation', label: 'Under investigation' },
+    { code: 'suspected_fraud', label: 'Suspected fraud' },
+    { code: 'holder_request', label: 'Requested by holder' },
+    { code: 'lost_or_stolen', label: 'Reported lost or stolen' },
+    { code: 'data_error', label: 'Data error under review' },
+    { code: 'other', label: 'Other' },
+  ],
+  reinstate: [
+    { code: 'investigation_cleared', label: 'Investigation cleared' },
+    { code: 'holder_request', label: 'Requested by holder' },
+    { code: 'data_corrected', label: 'Data corrected' },
+    { code: 'other', label: 'Other' },
+  ],
+  revoke: [
+    { code: 'fraud_confirmed', label: 'Fraud confirmed' },
+    { code: 'lost_or_stolen', label: 'Lost or stolen' },
+    { code: 'data_error', label: 'Issued with incorrect data' },
+    { code: 'holder_request', label: 'Requested by holder' },
+    { code: 'deceased', label: 'Holder deceased' },
+    { code: 'entitlement_ended', label: 'Entitlement ended' },
+    { code: 'other', label: 'Other' },
+  ],
+  supersede: [
+    { code: 'renewed', label: 'Renewed' },
+  ],
+};
+
+export interface CredentialStatusEvent {
+  id: string;
+  credentialId: string;
+  action: LifecycleAction;
+  fromStatus: CredentialStatus;
+  toStatus: CredentialStatus;
+  reasonCode: string;
+  note?: string;
+  actorUserId?: string;
+  createdAt: string;
+}
+
+// Effective status of a credential: terminal states win over suspension, suspension over expiry
+export function getCredentialStatus(credential: {
+  revokedAt?: string;
+  supersededAt?: string;
+  suspendedAt?: string;
+  expiryDate?: string;
+}): CredentialStatus {
+  if (credential.revokedAt) return 'revoked';
+  if (credential.supersededAt) return 'superseded';
+  if (credential.suspendedAt) return 'suspended';
+  if (credential.expiryDate && new Date(credential.expiryDate) < new Date(new Date().toDateString())) {
+    return 'expired';
+  }
+  return 'active';
+}
+
+export function canTransition(status: CredentialStatus, action: LifecycleAction): boolean {
+  return ALLOWED_TRANSITIONS[action].includes(status);
+}
+
+export function getReasonLabel(action: LifecycleAction, code: string): string {
+  return LIFECYCLE_REASON_CODES[action].find((reason) => reason.code === code)?.label || code;
+}
+
+// Check a transition before it is submitted; returns an error message or null
+export function validateTransition(
+  status: CredentialStatus,
+  action: LifecycleAction,
+  reasonCode: string,
+  note?: string
+): string | null {
+  if (!canTransition(status, action)) {
+    return `Cannot ${action} a credential that is ${CREDENTIAL_STATUS_LABELS[status].toLowerCase()}`;
+  }
+  if (!LIFECYCLE_REASON_CODES[action].some((reason) => reason.code === reasonCode)) {
+    return 'Select a reason';
+  }
+  if (reasonCode === 'other' && !note?.trim()) {
+    return 'Describe the reason when selecting "Other"';
+  }
+  if (note && note.length > 500) {
+    return 'Note must be at most 500 characters';
+  }
+  return null;
+}
+
+// Apply a status transition (admin only). Revocations pass the on-chain transaction hash.
+export async function transitionCredentialStatus(
+  credentialId: string,
+  action: Exclude<LifecycleAction, 'supersede'>,
+  reasonCode: string,
+  note?: string,
+  txHash?: string
+): Promise<{ success: boolean; status?: CredentialStatus; error?: string }> {
+  try {
+    const { data, error } = await supabase.rpc('transition_credential_status', {
+      _credential_id: credentialId,
+      _action: action,
+      _reason_code: reasonCode,
+      _note: note?.trim() || undefined,
+      _tx_hash: txHash,
+    });
+
+    if (error) {
+      console.error('Error changing credential status:', error);
+      return { success: false, error: error.message || 'Failed to change credential status' };
+    }
+
+    const response = data as unknown as { success: boolean; toStatus?: CredentialStatus; error?: string };
+    if (!response?.success) {
+      return { success: false, error: response?.error || 'Failed to change credential status' };
+    }
+
+    return { success: true, status: response.toStatus };
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to change credential status';
+    return { success: false, error: errorMessage };
+  }
+}
+
+// Status history of a credential, oldest first (admins and the holder)
+export async function getCredentialStatusHistory(credentialId: string): Promise<CredentialStatusEvent[]> {
+  try {
+    const { data, error } = await supabase
+      .from('credential_status_events')
+      .select('*')
+      .eq('credential_id', credentialId)
+      .order('created_at', { ascending: true });
+
+    if (error || !data) {
+      return [];
+    }
+
+    return data.map((row) => ({
+      id: row.id,
+      credentialId: row.credential_id,
+      action: row.action as LifecycleAction,
+      fromStatus: row.from_status as CredentialStatus,
+      toStatus: row.to_status as CredentialStatus,
+      reasonCode: row.reason_code,
+      note: row.note || undefined,
+      actorUserId: row.actor_user_id || undefined,
+      createdAt: row.created_at,
+    }));
+  } catch (error) {
+    console.error('Error fetching credential status history:', error);
+    return [];
+  }
+}
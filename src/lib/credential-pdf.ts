@@ -0,0 +1,210 @@
+// Printable credential PDFs, generated entirely in the browser
+// 'card' is a two-sided ID-1 card (85.6 x 53.98 mm); 'a4' is a portrait certificate.
+
+import { jsPDF } from 'jspdf';
+import QRCode from 'qrcode';
+import { StoredCredential } from './credential-storage';
+import { toSignedCredentialQR } from './offline-verification';
+import { IDENTITY_CREDENTIAL_QR_TYPE } from './credential-qr';
+import { NETWORKS } from './networks';
+
+export type CredentialPdfLayout = 'card' | 'a4';
+
+const ID1_WIDTH_MM = 85.6;
+const ID1_HEIGHT_MM = 53.98;
+const PRIMARY_COLOR: [number, number, number] = [37, 99, 235];
+const MUTED_COLOR: [number, number, number] = [100, 116, 139];
+const TEXT_COLOR: [number, number, number] = [15, 23, 42];
+
+// QR payload printed on the document: the signed compact QR when available,
+// otherwise the identity-credential payload the verifier cross-checks online
+function getVerificationQRData(credential: StoredCredential): string {
+  return credential.compactQr || toSignedCredentialQR(credential) || JSON.stringify({
+    type: IDENTITY_CREDENTIAL_QR_TYPE,
+    address: credential.citizenAddress,
+    credentialHash: credential.credentialHash,
+    issuer: credential.issuerAddress,
+  });
+}
+
+// Link to the issuance transaction, or to the citizen address for older credentials
+function getExplorerLink(credential: StoredCredential): string {
+  const explorer = NETWORKS.sepolia.blockExplorer;
+  return credential.txHash
+    ? `${explorer}/tx/${credential.txHash}`
+    : `${explorer}/address/${credential.citizenAddress}`;
+}
+
+function formatDate(value: string | number): string {
+  if (!value) return 'Not specified';
+  return new Date(value).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+// Draw an uppercase label with its value underneath; values wider than maxWidth are cut to one line
+function drawField(
+  doc: jsPDF,
+  label: string,
+  value: string,
+  x: number,
+  y: number,
+  labelSize: number,
+  valueSize: number,
+  maxWidth?: number
+) {
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(labelSize);
+  doc.setTextColor(...MUTED_COLOR);
+  doc.text(label.toUpperCase(), x, y);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(valueSize);
+  doc.setTextColor(...TEXT_COLOR);
+  doc.text(maxWidth ? doc.splitTextToSize(value, maxWidth)[0] : value, x, y + valueSize * 0.45);
+}
+
+function renderCard(doc: jsPDF, credential: StoredCredential, qrImage: string) {
+  const w = ID1_WIDTH_MM;
+  const h = ID1_HEIGHT_MM;
+
+  // Front: identity details
+  doc.setFillColor(...PRIMARY_COLOR);
+  doc.rect(0, 0, w, 9, 'F');
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(8);
+  doc.setTextColor(255, 255, 255);
+  doc.text('IDENTITY CREDENTIAL', 4, 5.8);
+
+  drawField(doc, 'Full name', credential.fullName, 4, 15, 5, 9, 48);
+  drawField(doc, 'National ID', credential.nationalId, 4, 25, 5, 8, 48);
+  drawField(doc, 'Date of birth', formatDate(credential.dateOfBirth), 4, 34, 5, 7);
+  drawField(doc, 'Issued', formatDate(credential.issuedAt), 4, 43, 5, 7);
+  drawField(doc, 'Valid until', formatDate(credential.expiryDate), 32, 43, 5, 7);
+
+  doc.addImage(qrImage, 'PNG', w - 30, 13, 26, 26);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(4);
+  doc.setTextColor(...MUTED_COLOR);
+  doc.text('Scan to verify', w - 17, 42, { align: 'center' });
+
+  // Back: issuer and anchoring details
+  doc.addPage([w, h], 'landscape');
+  doc.setFillColor(...PRIMARY_COLOR);
+  doc.rect(0, h - 4, w, 4, 'F');
+
+  drawField(doc, 'Issuer', credential.issuerAddress, 4, 7, 5, 5.5);
+  drawField(doc, 'Holder', credential.citizenAddress, 4, 16, 5, 5.5);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(5);
+  doc.setTextColor(...MUTED_COLOR);
+  doc.text('CREDENTIAL HASH', 4, 25);
+  doc.setFont('courier', 'normal');
+  doc.setFontSize(5);
+  doc.setTextColor(...TEXT_COLOR);
+  doc.text(doc.splitTextToSize(credential.credentialHash, w - 8), 4, 28);
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(5);
+  doc.setTextColor(...MUTED_COLOR);
+  doc.text('BLOCKCHAIN RECORD', 4, 38);
+  doc.setTextColor(...PRIMARY_COLOR);
+  doc.textWithLink(doc.splitTextToSize(getExplorerLink(credential), w - 8)[0], 4, 41, { url: getExplorerLink(credential) });
+}
+
+function renderA4(doc: jsPDF, credential: StoredCredential, qrImage: string) {
+  const w = doc.internal.pageSize.getWidth();
+  const margin = 20;
+
+  doc.setDrawColor(...PRIMARY_COLOR);
+  doc.setLineWidth(1);
+  doc.rect(10, 10, w - 20, doc.internal.pageSize.getHeight() - 20);
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(24);
+  doc.setTextColor(...PRIMARY_COLOR);
+  doc.text('Identity Credential', w / 2, 38, { align: 'center' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(11);
+  doc.setTextColor(...MUTED_COLOR);
+  doc.text('Blockchain-anchored certificate of identity', w / 2, 46, { align: 'center' });
+
+  let y = 68;
+  const fields: [string, string][] = [
+    ['Full name', credential.fullName],
+    ['National ID', credential.nationalId],
+    ['Date of birth', formatDate(credential.dateOfBirth)],
+    ['Issued on', formatDate(credential.issuedAt)],
+    ['Valid until', formatDate(credential.expiryDate)],
+  ];
+  for (const [label, value] of fields) {
+    drawField(doc, label, value, margin, y, 9, 14, 100);
+    y += 16;
+  }
+
+  doc.addImage(qrImage, 'PNG', w - margin - 60, 62, 60, 60);
+  doc.setFontSize(9);
+  doc.setTextColor(...MUTED_COLOR);
+  doc.text('Scan to verify this credential', w - margin - 30, 128, { align: 'center' });
+
+  y += 6;
+  drawField(doc, 'Issuer', credential.issuerAddress, margin, y, 9, 10);
+  y += 14;
+  drawField(doc, 'Holder wallet', credential.citizenAddress, margin, y, 9, 10);
+  y += 14;
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(...MUTED_COLOR);
+  doc.text('CREDENTIAL HASH', margin, y);
+  doc.setFont('courier', 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(...TEXT_COLOR);
+  doc.text(credential.credentialHash, margin, y + 5);
+  y += 14;
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(...MUTED_COLOR);
+  doc.text(credential.txHash ? 'ISSUANCE TRANSACTION' : 'BLOCKCHAIN RECORD', margin, y);
+  doc.setFontSize(9);
+  doc.setTextColor(...PRIMARY_COLOR);
+  const link = getExplorerLink(credential);
+  doc.textWithLink(doc.splitTextToSize(link, w - margin * 2)[0], margin, y + 5, { url: link });
+
+  doc.setFontSize(8);
+  doc.setTextColor(...MUTED_COLOR);
+  doc.text(
+    'This document is a copy of a digital credential. Its authenticity is established by scanning the QR code, not by the paper itself.',
+    w / 2,
+    doc.internal.pageSize.getHeight() - 18,
+    { align: 'center', maxWidth: w - margin * 2 }
+  );
+}
+
+// Render a credential as a PDF document
+export async function generateCredentialPdf(
+  credential: StoredCredential,
+  layout: CredentialPdfLayout
+): Promise<Blob> {
+  const qrImage = await QRCode.toDataURL(getVerificationQRData(credential), {
+    errorCorrectionLevel: 'M',
+    margin: 1,
+    width: 512,
+  });
+
+  const doc = layout === 'card'
+    ? new jsPDF({ orientation: 'landscape', unit: 'mm', format: [ID1_WIDTH_MM, ID1_HEIGHT_MM], compress: true })
+    : new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4', compress: true });
+
+  doc.setProperties({
+    title: `Identity Credential - ${credential.fullName}`,
+    subject: 'Identity credential',
+    creator: 'Blockchain Based Identity Verification',
+  });
+
+  if (layout === 'card') {
+    renderCard(doc, credential, qrImage);
+  } else {
+    renderA4(doc, credential, qrImage);
+  }
+
+  return doc.output('blob');
+}
@@ -0,0 +1,77 @@
+// Credential QR payloads
+// Parses the `identity-credential` JSON payload shown by holders so a verifier can
+// cross-check its claims against the database and the chain
+
+import { ethers } from 'ethers';
+
+export const IDENTITY_CREDENTIAL_QR_TYPE = 'identity-credential';
+
+export interface IdentityCredentialQRPayload {
+  type: typeof IDENTITY_CREDENTIAL_QR_TYPE;
+  address: string;
+  credentialHash: string;
+  issuer: string;
+  fullName?: string;
+  nationalId?: string;
+  issuedAt?: number;
+  expiryDate?: string;
+}
+
+// Result of comparing a scanned payload against the database record and on-chain hash
+export interface CredentialQRCrossCheck {
+  scannedHash: string;
+  scannedIssuer: string;
+  hashMatchesDatabase: boolean;
+  hashMatchesChain: boolean;
+  issuerMatchesDatabase: boolean;
+  // Set for compact COSE QR codes, whose issuer signature is checked before cross-checking
+  coseSignatureValid?: boolean;
+}
+
+// Read the `type` field of a scanned JSON payload, or null for non-JSON content
+export function getQRPayloadType(data: string): string | null {
+  try {
+    const parsed = JSON.parse(data);
+    return typeof parsed?.type === 'string' ? parsed.type : null;
+  } catch {
+    return null;
+  }
+}
+
+export function parseIdentityCredentialQR(data: string): IdentityCredentialQRPayload | null {
+  try {
+    const payload = JSON.parse(data) as IdentityCredentialQRPayload;
+    if (
+      payload?.type !== IDENTITY_CREDENTIAL_QR_TYPE ||
+      !ethers.isAddress(payload.address) ||
+      !ethers.isHexString(payload.credentialHash, 32) ||
+      !ethers.isAddress(payload.issuer)
+    ) {
+      return null;
+    }
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+export function crossCheckCredentialQR(
+  payload: IdentityCredentialQRPayload,
+  database: { credentialHash: string; issuerAddress: string } | null,
+  onChainHash: string | null
+): CredentialQRCrossCheck {
+  const same = (a: string | null | undefined, b: string | null | undefined) =>
+    !!a && !!b && a.toLowerCase() === b.toLowerCase();
+
+  return {
+    scannedHash: payload.credentialHash,
+    scannedIssuer: payload.issuer,
+    hashMatchesDatabase: same(payload.credentialHash, database?.credentialHash),
+    hashMatchesChain: same(payload.credentialHash, onChainHash),
+    issuerMatchesDatabase: same(payload.issuer, database?.issuerAddress),
+  };
+}
+
+export function isCredentialQRConsistent(check: CredentialQRCrossCheck): boolean {
+  return check.hashMatchesDatabase && check.hashMatchesChain && check.issuerMatchesDatabase;
+}
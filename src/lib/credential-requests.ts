@@ -0,0 +1,263 @@
+// Credential requests initiated by citizens
+// A citizen requests a credential type for their linked wallet with the data they claim. Admins
+// review the queue: approval issues the credential with the request's data (see CredentialIssuer),
+// rejection and "needs info" send a message the citizen sees. Review and resubmission go through
+// review_credential_request and resubmit_credential_request in the database.
+
+import { supabase } from '@/integrations/supabase/client';
+import { validateCredentialFields } from './credential-storage';
+import { CredentialAttributes, getCredentialSchema, validateAttributes } from './credential-schemas';
+
+export type CredentialRequestStatus = 'pending' | 'approved' | 'rejected' | 'needs_info';
+
+export type ReviewDecision = Exclude<CredentialRequestStatus, 'pending'>;
+
+export const REQUEST_STATUS_LABELS: Record<CredentialRequestStatus, string> = {
+  pending: 'Pending review',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  needs_info: 'Needs information',
+};
+
+export interface CredentialRequest {
+  id: string;
+  citizenUserId: string;
+  citizenAddress: string;
+  credentialType: string;
+  schemaVersion: number;
+  fullName: string;
+  nationalId: string;
+  dateOfBirth: string;
+  attributes: CredentialAttributes;
+  status: CredentialRequestStatus;
+  reviewMessage?: string;
+  reviewedAt?: string;
+  credentialId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// The claims a citizen submits with a request
+export interface CredentialRequestData {
+  credentialType: string;
+  schemaVersion: number;
+  fullName: string;
+  nationalId: string;
+  dateOfBirth: string;
+  attributes: Record<string, string | boolean>;
+}
+
+interface DatabaseCredentialRequest {
+  id: string;
+  citizen_user_id: string;
+  citizen_address: string;
+  credential_type: string;
+  schema_version: number;
+  full_name: string;
+  national_id: string;
+  date_of_birth: string | null;
+  attributes: unknown;
+  status: string;
+  review_message: string | null;
+  reviewed_at: string | null;
+  credential_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+function toCredentialRequest(row: DatabaseCredentialRequest): CredentialRequest {
+  return {
+    id: row.id,
+    citizenUserId: row.citizen_user_id,
+    citizenAddress: row.citizen_address,
+    credentialType: row.credential_type,
+    schemaVersion: row.schema_version,
+    fullName: row.full_name,
+    nationalId: row.national_id,
+    dateOfBirth: row.date_of_birth || '',
+    attributes: (row.attributes as CredentialAttributes) || {},
+    status: row.status as CredentialRequestStatus,
+    reviewMessage: row.review_message || undefined,
+    reviewedAt: row.reviewed_at || undefined,
+    credentialId: row.credential_id || undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// Check the claims with the same rules as issuance; returns the typed attributes or an error
+async function validateRequestData(
+  citizenAddress: string,
+  data: CredentialRequestData
+): Promise<{ attributes?: CredentialAttributes; error?: string }> {
+  const fieldError = validateCredentialFields(citizenAddress, { ...data, expiryDate: '' });
+  if (fieldError) {
+    return { error: fieldError };
+  }
+
+  const schema = await getCredentialSchema(data.credentialType, data.schemaVersion);
+  if (!schema || !schema.isActive) {
+    return { error: 'This credential type cannot be requested' };
+  }
+
+  const attributeCheck = validateAttributes(schema, data.attributes);
+  if (!attributeCheck.valid) {
+    return { error: Object.values(attributeCheck.errors)[0] };
+  }
+  return { attributes: attributeCheck.attributes };
+}
+
+// Submit a request for the signed-in citizen's linked wallet
+export async function submitCredentialRequest(
+  citizenAddress: string,
+  data: CredentialRequestData
+): Promise<{ success: boolean; request?: CredentialRequest; error?: string }> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return { success: false, error: 'Not authenticated' };
+    }
+
+    const checked = await validateRequestData(citizenAddress, data);
+    if (checked.error) {
+      return { success: false, error: checked.error };
+    }
+
+    const { data: row, error } = await supabase
+      .from('credential_requests')
+      .insert({
+        citizen_user_id: user.id,
+        citizen_address: citizenAddress,
+        credential_type: data.credentialType,
+        schema_version: data.schemaVersion,
+        full_name: data.fullName.trim(),
+        national_id: data.nationalId.trim(),
+        date_of_birth: data.dateOfBirth || null,
+        attributes: checked.attributes,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error submitting credential request:', error);
+      return {
+        success: false,
+        error: error.code === '23505'
+          ? 'You already have an open request for this credential type'
+          : 'Failed to submit request. Make sure your wallet is linked to your account.'
+      };
+    }
+
+    return { success: true, request: toCredentialRequest(row as DatabaseCredentialRequest) };
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to submit request';
+    return { success: false, error: errorMessage };
+  }
+}
+
+// Correct a request the reviewer asked more information for and send it back for review
+export async function resubmitCredentialRequest(
+  request: CredentialRequest,
+  data: CredentialRequestData
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const checked = await validateRequestData(request.citizenAddress, data);
+    if (checked.error) {
+      return { success: false, error: checked.error };
+    }
+
+    const { data: result, error } = await supabase.rpc('resubmit_credential_request', {
+      _request_id: request.id,
+      _schema_version: data.schemaVersion,
+      _full_name: data.fullName.trim(),
+      _national_id: data.nationalId.trim(),
+      _date_of_birth: data.dateOfBirth,
+      _attributes: checked.attributes,
+    });
+
+    if (error) {
+      console.error('Error resubmitting credential request:', error);
+      return { success: false, error: 'Failed to resubmit request' };
+    }
+
+    return result as unknown as { success: boolean; error?: string };
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to resubmit request';
+    return { success: false, error: errorMessage };
+  }
+}
+
+// The signed-in citizen's requests, newest first
+export async function getMyCredentialRequests(): Promise<CredentialRequest[]> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('credential_requests')
+      .select('*')
+      .eq('citizen_user_id', user.id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching credential requests:', error);
+      return [];
+    }
+
+    return (data || []).map((row) => toCredentialRequest(row as DatabaseCredentialRequest));
+  } catch (error) {
+    console.error('Error fetching credential requests:', error);
+    return [];
+  }
+}
+
+// Requests in the review queue, oldest first (admin only)
+export async function listCredentialRequests(
+  statuses: CredentialRequestStatus[] = ['pending']
+): Promise<CredentialRequest[]> {
+  try {
+    const { data, error } = await supabase
+      .from('credential_requests')
+      .select('*')
+      .in('status', statuses)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching credential requests:', error);
+      return [];
+    }
+
+    return (data || []).map((row) => toCredentialRequest(row as DatabaseCredentialRequest));
+  } catch (error) {
+    console.error('Error fetching credential requests:', error);
+    return [];
+  }
+}
+
+// Record a review decision (admin only). Approval passes the credential issued for the request.
+export async function reviewCredentialRequest(
+  requestId: string,
+  decision: ReviewDecision,
+  options: { message?: string; credentialId?: string } = {}
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { data, error } = await supabase.rpc('review_credential_request', {
+      _request_id: requestId,
+      _decision: decision,
+      _message: options.message?.trim() || undefined,
+      _credential_id: options.credentialId,
+    });
+
+    if (error) {
+      console.error('Error reviewing credential request:', error);
+      return { success: false, error: 'Failed to record the review' };
+    }
+
+    return data as unknown as { success: boolean; error?: string };
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to record the review';
+    return { success: false, error: errorMessage };
+  }
+}
@@ -0,0 +1,345 @@
+// Credential schema registry
+// Admins define credential types (driver licence, student ID, ...) as versioned schemas of typed
+// fields. Every credential keeps the core holder fields; the schema describes its extra attributes.
+// Published versions are immutable so credentials can always be displayed against their schema.
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+
+export const DEFAULT_CREDENTIAL_TYPE = 'identity';
+export const DEFAULT_SCHEMA_VERSION = 1;
+
+export type SchemaFieldType = 'string' | 'number' | 'boolean' | 'date' | 'enum';
+
+export const SCHEMA_FIELD_TYPES: SchemaFieldType[] = ['string', 'number', 'boolean', 'date', 'enum'];
+
+export interface SchemaField {
+  key: string;
+  label: string;
+  type: SchemaFieldType;
+  required?: boolean;
+  description?: string;
+  // string fields
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  // number fields
+  min?: number;
+  max?: number;
+  // enum fields
+  options?: string[];
+}
+
+export interface CredentialSchema {
+  id: string;
+  credentialType: string;
+  version: number;
+  name: string;
+  description?: string;
+  fields: SchemaField[];
+  isActive: boolean;
+  createdAt: string;
+}
+
+export type AttributeValue = string | number | boolean;
+export type CredentialAttributes = Record<string, AttributeValue>;
+
+interface DatabaseCredentialSchema {
+  id: string;
+  credential_type: string;
+  version: number;
+  name: string;
+  description: string | null;
+  fields: Json;
+  is_active: boolean;
+  created_at: string;
+}
+
+const CREDENTIAL_TYPE_REGEX = /^[a-z][a-z0-9_]{1,49}$/;
+const FIELD_KEY_REGEX = /^[a-zA-Z][a-zA-Z0-9]{0,39}$/;
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+// Core credential fields cannot be redefined by a schema
+const RESERVED_FIELD_KEYS = ['fullName', 'nationalId', 'dateOfBirth', 'expiryDate', 'citizenAddress', 'issuer'];
+
+function toCredentialSchema(dbSchema: DatabaseCredentialSchema): CredentialSchema {
+  return {
+    id: dbSchema.id,
+    credentialType: dbSchema.credential_type,
+    version: dbSchema.version,
+    name: dbSchema.name,
+    description: dbSchema.description || undefined,
+    fields: Array.isArray(dbSchema.fields) ? (dbSchema.fields as unknown as SchemaField[]) : [],
+    isActive: dbSchema.is_active,
+    createdAt: dbSchema.created_at,
+  };
+}
+
+// List all schema versions, newest version of each type first
+export async function listCredentialSchemas(): Promise<CredentialSchema[]> {
+  try {
+    const { data, error } = await supabase
+      .from('credential_schemas')
+      .select('*')
+      .order('credential_type', { ascending: true })
+      .order('version', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching credential schemas:', error);
+      return [];
+    }
+
+    return (data || []).map(row => toCredentialSchema(row as DatabaseCredentialSchema));
+  } catch (error) {
+    console.error('Error fetching credential schemas:', error);
+    return [];
+  }
+}
+
+// Latest active version of each credential type, used by the issuer form
+export function getLatestActiveSchemas(schemas: CredentialSchema[]): CredentialSchema[] {
+  const latest = new Map<string, CredentialSchema>();
+  for (const schema of schemas) {
+    if (!schema.isActive) continue;
+    const current = latest.get(schema.credentialType);
+    if (!current || schema.version > current.version) {
+      latest.set(schema.credentialType, schema);
+    }
+  }
+  return [...latest.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Get a specific schema version (public, used by verifiers)
+export async function getCredentialSchema(
+  credentialType: string,
+  version: number
+): Promise<CredentialSchema | null> {
+  try {
+    const { data, error } = await supabase
+      .from('credential_schemas')
+      .select('*')
+      .eq('credential_type', credentialType)
+      .eq('version', version)
+      .maybeSingle();
+
+    if (error || !data) {
+      return null;
+    }
+
+    return toCredentialSchema(data as DatabaseCredentialSchema);
+  } catch (error) {
+    console.error('Error fetching credential schema:', error);
+    return null;
+  }
+}
+
+// Check a schema definition before it is published
+export function validateSchemaDefinition(definition: {
+  credentialType: string;
+  name: string;
+  fields: SchemaField[];
+}): string[] {
+  const errors: string[] = [];
+
+  if (!CREDENTIAL_TYPE_REGEX.test(definition.credentialType)) {
+    errors.push('Type identifier must be 2-50 lowercase letters, digits or underscores, starting with a letter');
+  }
+  if (!definition.name.trim()) {
+    errors.push('Display name is required');
+  }
+
+  const seen = new Set<string>();
+  for (const field of definition.fields) {
+    const label = field.label.trim() || field.key || 'Unnamed field';
+    if (!FIELD_KEY_REGEX.test(field.key)) {
+      errors.push(`${label}: key must be alphanumeric and start with a letter`);
+    } else if (RESERVED_FIELD_KEYS.includes(field.key)) {
+      errors.push(`${label}: "${field.key}" is a core credential field`);
+    } else if (seen.has(field.key)) {
+      errors.push(`${label}: duplicate key "${field.key}"`);
+    }
+    seen.add(field.key);
+
+    if (!field.label.trim()) {
+      errors.push(`${field.key || 'Field'}: label is required`);
+    }
+    if (!SCHEMA_FIELD_TYPES.includes(field.type)) {
+      errors.push(`${label}: unsupported type`);
+    }
+    if (field.type === 'enum' && (!field.options || field.options.length === 0)) {
+      errors.push(`${label}: enum fields need at least one option`);
+    }
+    if (field.pattern) {
+      try {
+        new RegExp(field.pattern);
+      } catch {
+        errors.push(`${label}: invalid pattern`);
+      }
+    }
+    if (field.min !== undefined && field.max !== undefined && field.min > field.max) {
+      errors.push(`${label}: minimum is greater than maximum`);
+    }
+    if (field.minLength !== undefined && field.maxLength !== undefined && field.minLength > field.maxLength) {
+      errors.push(`${label}: minimum length is greater than maximum length`);
+    }
+  }
+
+  return errors;
+}
+
+// Publish a schema as the next version of its credential type (admin only)
+export async function publishCredentialSchema(definition: {
+  credentialType: string;
+  name: string;
+  description?: string;
+  fields: SchemaField[];
+}): Promise<{ success: boolean; schema?: CredentialSchema; error?: string }> {
+  try {
+    const errors = validateSchemaDefinition(definition);
+    if (errors.length > 0) {
+      return { success: false, error: errors[0] };
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return { success: false, error: 'Not authenticated' };
+    }
+
+    const { data: latest } = await supabase
+      .from('credential_schemas')
+      .select('version')
+      .eq('credential_type', definition.credentialType)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const { data, error } = await supabase
+      .from('credential_schemas')
+      .insert({
+        credential_type: definition.credentialType,
+        version: (latest?.version ?? 0) + 1,
+        name: definition.name.trim(),
+        description: definition.description?.trim() || null,
+        fields: definition.fields as unknown as Json,
+        created_by: user.id,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error publishing credential schema:', error);
+      return { success: false, error: error.message || 'Failed to publish schema' };
+    }
+
+    return { success: true, schema: toCredentialSchema(data as DatabaseCredentialSchema) };
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to publish schema';
+    return { success: false, error: errorMessage };
+  }
+}
+
+// Enable or disable a schema version for new issuance (admin only)
+export async function setCredentialSchemaActive(
+  schemaId: string,
+  isActive: boolean
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase
+      .from('credential_schemas')
+      .update({ is_active: isActive })
+      .eq('id', schemaId);
+
+    if (error) {
+      console.error('Error updating credential schema:', error);
+      return { success: false, error: error.message || 'Failed to update schema' };
+    }
+
+    return { success: true };
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to update schema';
+    return { success: false, error: errorMessage };
+  }
+}
+
+// Validate raw form values against a schema and convert them to typed attributes
+// Empty optional fields are omitted from the result
+export function validateAttributes(
+  schema: CredentialSchema,
+  values: Record<string, string | boolean | undefined>
+): { valid: boolean; errors: Record<string, string>; attributes: CredentialAttributes } {
+  const errors: Record<string, string> = {};
+  const attributes: CredentialAttributes = {};
+
+  for (const field of schema.fields) {
+    const raw = values[field.key];
+
+    if (field.type === 'boolean') {
+      if (raw === true || raw === 'true') {
+        attributes[field.key] = true;
+      } else if (field.required) {
+        errors[field.key] = `${field.label} must be confirmed`;
+      } else {
+        attributes[field.key] = false;
+      }
+      continue;
+    }
+
+    const value = typeof raw === 'string' ? raw.trim().replace(/[<>]/g, '') : '';
+    if (!value) {
+      if (field.required) {
+        errors[field.key] = `${field.label} is required`;
+      }
+      continue;
+    }
+
+    switch (field.type) {
+      case 'string':
+        if (field.minLength !== undefined && value.length < field.minLength) {
+          errors[field.key] = `${field.label} must be at least ${field.minLength} characters`;
+        } else if (field.maxLength !== undefined && value.length > field.maxLength) {
+          errors[field.key] = `${field.label} must be at most ${field.maxLength} characters`;
+        } else if (field.pattern && !new RegExp(field.pattern).test(value)) {
+          errors[field.key] = `${field.label} has an invalid format`;
+        } else {
+          attributes[field.key] = value;
+        }
+        break;
+      case 'number': {
+        const number = Number(value);
+        if (!Number.isFinite(number)) {
+          errors[field.key] = `${field.label} must be a number`;
+        } else if (field.min !== undefined && number < field.min) {
+          errors[field.key] = `${field.label} must be at least ${field.min}`;
+        } else if (field.max !== undefined && number > field.max) {
+          errors[field.key] = `${field.label} must be at most ${field.max}`;
+        } else {
+          attributes[field.key] = number;
+        }
+        break;
+      }
+      case 'date':
+        if (!DATE_REGEX.test(value) || isNaN(new Date(value).getTime())) {
+          errors[field.key] = `${field.label} must be a date (YYYY-MM-DD)`;
+        } else {
+          attributes[field.key] = value;
+        }
+        break;
+      case 'enum':
+        if (!field.options?.includes(value)) {
+          errors[field.key] = `${field.label} must be one of: ${field.options?.join(', ')}`;
+        } else {
+          attributes[field.key] = value;
+        }
+        break;
+    }
+  }
+
+  return { valid: Object.keys(errors).length === 0, errors, attributes };
+}
+
+// Display a stored attribute value
+export function formatAttributeValue(field: SchemaField | undefined, value: AttributeValue | undefined): string {
+  if (value === undefined || value === '') return 'Not specified';
+  if (field?.type === 'boolean' || typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (field?.type === 'date') return new Date(String(value)).toLocaleDateString();
+  return String(value);
+}
@@ -4,9 +4,54 @@
 
 import { ethers } from 'ethers';
 import { supabase } from '@/integrations/supabase/client';
-import { issueCredential as issueCredentialOnChain, revokeCredential as revokeCredentialOnChain } from './wallet';
+import {
+  issueCredential as issueCredentialOnChain,
+  revokeCredential as revokeCredentialOnChain,
+  issueCredentialV2,
+  revokeCredentialV2,
+  renewCredentialV2,
+  revokeBatchCredential,
+  getStoredCredential,
+  getStoredCredentialV2,
+  getStoredCredentialBatch,
+} from './wallet';
+import { NETWORKS } from './networks';
+import {
+  getCredentialContractAddress,
+  getCredentialRegistryV2Address,
+  getCredentialBatchRegistryAddress,
+} from './contracts';
+import { computeCredentialLeaf, verifyMerkleProof } from './merkle';
+import {
+  CREDENTIAL_EIP712_DOMAIN_VERSION,
+  CredentialTypedData,
+  SignatureScheme,
+  getCredentialDomain,
+  signCredentialTypedData,
+  recoverCredentialTypedDataSigner,
+} from './credential-typed-data';
+import {
+  buildCanonicalPayload,
+  serializeCanonicalPayload,
+  hashCanonicalPayload,
+  parseCanonicalPayload,
+} from './credential-canonical';
+import { createSdJwt } from './sd-jwt';
+import { createAgeCommitment } from './age-proof';
+import { createCompactCredentialQR } from './compact-credential';
+import { getRetryAfter, rateLimitMessage } from './rate-limit';
+import { ConsentField } from './verification-consent';
+import {
+  CredentialAttributes,
+  DEFAULT_CREDENTIAL_TYPE,
+  DEFAULT_SCHEMA_VERSION,
+  getCredentialSchema,
+  validateAttributes,
+} from './credential-schemas';
+import { CredentialStatus, getCredentialStatus, transitionCredentialStatus, validateTransition } from './credential-lifecycle';
 
 export interface StoredCredential {
+  id?: string;
   citizenAddress: string;
   credentialHash: string;
   signature: string;
@@ -21,6 +66,32 @@ export interface StoredCredential {
   revokedAt?: string;
   revokedBy?: string;
   revocationTxHash?: string;
+  suspendedAt?: string;
+  signatureScheme?: SignatureScheme;
+  chainId?: number;
+  contractAddress?: string;
+  // 1 = v1 contract keyed by holder address, 2 = v2 registry keyed by credential ID,
+  // 3 = batch registry (Merkle root of a batch on-chain)
+  contractVersion?: number;
+  // Batch anchoring: the anchored root and this credential's inclusion proof (unset while pending)
+  merkleRoot?: string;
+  merkleProof?: string[];
+  canonicalPayload?: string;
+  sdJwt?: string;
+  ageProofSeed?: string;
+  compactQr?: string;
+  credentialType?: string;
+  schemaVersion?: number;
+  attributes?: CredentialAttributes;
+  // Renewal chain: the credential this one replaced, and the one that replaced it
+  renewsCredentialId?: string;
+  renewedByCredentialId?: string;
+  supersededAt?: string;
+  // Position in the published Bitstring Status Lists
+  statusListIndex?: number;
+  // Personal data fields left out of a verification response for lack of consent
+  // (see verification-consent); their values are empty
+  withheldFields?: ConsentField[];
 }
 
 interface DatabaseCredential {
@@ -36,12 +107,36 @@ interface DatabaseCredential {
   national_id: string;
   expiry_date: string | null;
   face_descriptor_hash: string | null;
+  face_descriptor: number[] | null;
   issued_at: string;
+  signature_scheme: string;
+  chain_id: number | null;
+  contract_address: string | null;
+  contract_version: number;
+  canonical_payload: string | null;
+  sd_jwt: string | null;
+  age_proof_seed: string | null;
+  compact_qr: string | null;
+  issuance_tx_hash: string | null;
+  revoked_at: string | null;
+  revoked_by: string | null;
+  revocation_tx_hash: string | null;
+  credential_type: string;
+  schema_version: number;
+  attributes: unknown;
+  renews_credential_id: string | null;
+  superseded_at: string | null;
+  suspended_at: string | null;
+  status_list_index: number;
+  anchor_batch_id: string | null;
+  merkle_root: string | null;
+  merkle_proof: unknown;
 }
 
 // Convert database credential to app credential format
 function toStoredCredential(dbCred: DatabaseCredential): StoredCredential {
   return {
+    id: dbCred.id,
     citizenAddress: dbCred.citizen_address,
     credentialHash: dbCred.credential_hash,
     signature: dbCred.signature,
@@ -52,9 +147,56 @@ function toStoredCredential(dbCred: DatabaseCredential): StoredCredential {
     nationalId: dbCred.national_id,
     expiryDate: dbCred.expiry_date || '',
     faceDescriptorHash: dbCred.face_descriptor_hash || undefined,
+    signatureScheme: dbCred.signature_scheme as SignatureScheme,
+    chainId: dbCred.chain_id ?? undefined,
+    contractAddress: dbCred.contract_address || undefined,
+    contractVersion: dbCred.contract_version,
+    canonicalPayload: dbCred.canonical_payload || undefined,
+    sdJwt: dbCred.sd_jwt || undefined,
+    ageProofSeed: dbCred.age_proof_seed || undefined,
+    compactQr: dbCred.compact_qr || undefined,
+    txHash: dbCred.issuance_tx_hash || undefined,
+    revokedAt: dbCred.revoked_at || undefined,
+    revokedBy: dbCred.revoked_by || undefined,
+    revocationTxHash: dbCred.revocation_tx_hash || undefined,
+    suspendedAt: dbCred.suspended_at || undefined,
+    credentialType: dbCred.credential_type,
+    schemaVersion: dbCred.schema_version,
+    attributes: (dbCred.attributes as CredentialAttributes) || {},
+    renewsCredentialId: dbCred.renews_credential_id || undefined,
+    supersededAt: dbCred.superseded_at || undefined,
+    statusListIndex: dbCred.status_list_index,
+    merkleRoot: dbCred.merkle_root || undefined,
+    merkleProof: (dbCred.merkle_proof as string[] | null) || undefined,
   };
 }
 
+// Build the EIP-712 message for a credential
+function toCredentialTypedData(credential: StoredCredential): CredentialTypedData {
+  return {
+    citizen: credential.citizenAddress,
+    issuer: credential.issuerAddress,
+    fullName: credential.fullName,
+    nationalId: credential.nationalId,
+    dateOfBirth: credential.dateOfBirth,
+    expiryDate: credential.expiryDate,
+    credentialHash: credential.credentialHash,
+    statusListIndex: credential.statusListIndex,
+  };
+}
+
+// Credentials with a version 3 canonical payload carry their status list position in the signed
+// payload and EIP-712 struct; older ones were given a position after they were signed
+export function isStatusListIndexSigned(credential: Pick<StoredCredential, 'canonicalPayload' | 'statusListIndex'>): boolean {
+  const payload = credential.canonicalPayload ? parseCanonicalPayload(credential.canonicalPayload) : null;
+  return !!payload && payload.version >= 3 && payload.statusListIndex === credential.statusListIndex;
+}
+
+// EIP-712 domain version a credential was signed under
+export function getCredentialSignatureVersion(credential: Pick<StoredCredential, 'canonicalPayload' | 'statusListIndex'>): string {
+  return isStatusListIndexSigned(credential) ? CREDENTIAL_EIP712_DOMAIN_VERSION : '1';
+}
+
 // Hash a face descriptor to create a secure, privacy-preserving identifier
 export function hashFaceDescriptor(descriptor: number[]): string {
   const descriptorString = descriptor.map(d => d.toFixed(6)).join(',');
@@ -84,11 +226,13 @@ export async function checkDuplicateFaceHash(faceHash: string): Promise<boolean>
 }
 
 // Check if a similar face already exists in credentials using Euclidean distance
-export async function checkDuplicateFaceSimilarity(descriptor: number[]): Promise<boolean> {
+// Credentials already held by excludeAddress are ignored, so a holder can receive further credentials
+export async function checkDuplicateFaceSimilarity(descriptor: number[], excludeAddress?: string): Promise<boolean> {
   try {
     const { data, error } = await supabase.rpc('check_credential_face_similarity', {
       _descriptor: descriptor,
-      _threshold: 0.6
+      _threshold: 0.6,
+      _exclude_address: excludeAddress
     });
     if (error) {
       console.error('Error checking face similarity:', error);
@@ -102,10 +246,12 @@ export async function checkDuplicateFaceSimilarity(descriptor: number[]): Promis
 }
 
 // Check if a credential exists for an address (server-side check)
-export async function checkCredentialExistsForAddress(address: string): Promise<boolean> {
+// With a credential type, only active credentials of that type are counted
+export async function checkCredentialExistsForAddress(address: string, credentialType?: string): Promise<boolean> {
   try {
     const { data, error } = await supabase.rpc('credential_exists_for_address', {
-      _address: address
+      _address: address,
+      _credential_type: credentialType
     });
     if (error) {
       console.error('Error checking credential existence:', error);
@@ -147,60 +293,111 @@ function isValidDateFormat(dateStr: string): boolean {
   return !isNaN(date.getTime());
 }
 
+export interface IssueCredentialData {
+  fullName: string;
+  dateOfBirth: string;
+  nationalId: string;
+  expiryDate: string;
+  faceDescriptor?: number[];
+  credentialType?: string;
+  schemaVersion?: number;
+  attributes?: CredentialAttributes;
+}
+
+// Check the holder fields of a new credential; returns an error message or null
+// (shared by single and bulk issuance)
+export function validateCredentialFields(
+  citizenAddress: string,
+  credentialData: Pick<IssueCredentialData, 'fullName' | 'nationalId' | 'dateOfBirth' | 'expiryDate'>
+): string | null {
+  // Validate Ethereum address format
+  if (!ethers.isAddress(citizenAddress)) {
+    return 'Invalid Ethereum address format';
+  }
+
+  // Sanitize inputs
+  const sanitizedName = sanitizeInput(credentialData.fullName);
+  const sanitizedNationalId = sanitizeInput(credentialData.nationalId);
+
+  // Validate required fields
+  if (!sanitizedName) {
+    return 'Full name is required';
+  }
+  if (!sanitizedNationalId) {
+    return 'National ID is required';
+  }
+
+  // Validate format
+  if (!isValidName(sanitizedName)) {
+    return 'Invalid name format. Use letters, spaces, hyphens, or apostrophes only.';
+  }
+  if (!isValidNationalId(sanitizedNationalId)) {
+    return 'Invalid National ID format. Use alphanumeric characters and hyphens only.';
+  }
+
+  // Validate dates if provided
+  if (credentialData.dateOfBirth && !isValidDateFormat(credentialData.dateOfBirth)) {
+    return 'Invalid date of birth format. Use YYYY-MM-DD.';
+  }
+  if (credentialData.expiryDate && !isValidDateFormat(credentialData.expiryDate)) {
+    return 'Invalid expiry date format. Use YYYY-MM-DD.';
+  }
+
+  // Length validation
+  if (sanitizedName.length > 100) {
+    return 'Full name must be less than 100 characters';
+  }
+  if (sanitizedNationalId.length > 50) {
+    return 'National ID must be less than 50 characters';
+  }
+
+  return null;
+}
+
 // Sign and issue credential - stores in database with RLS protection
 export async function signAndIssueCredential(
   privateKey: string,
   citizenAddress: string,
   citizenUserId: string,
-  credentialData: {
-    fullName: string;
-    dateOfBirth: string;
-    nationalId: string;
-    expiryDate: string;
-    faceDescriptor?: number[];
-  }
+  credentialData: IssueCredentialData
 ): Promise<{ success: boolean; credential?: StoredCredential; error?: string }> {
+  return issueCredentialRecord(privateKey, citizenAddress, citizenUserId, credentialData, null);
+}
+
+// Shared by first issuance and renewal; a renewal passes the credential it replaces
+async function issueCredentialRecord(
+  privateKey: string,
+  citizenAddress: string,
+  citizenUserId: string,
+  credentialData: IssueCredentialData,
+  renews: DatabaseCredential | null
+): Promise<{ success: boolean; credential?: StoredCredential; warning?: string; error?: string }> {
   try {
-    // Validate Ethereum address format
-    if (!ethers.isAddress(citizenAddress)) {
-      return { success: false, error: 'Invalid Ethereum address format' };
+    const fieldError = validateCredentialFields(citizenAddress, credentialData);
+    if (fieldError) {
+      return { success: false, error: fieldError };
     }
-
-    // Sanitize inputs
     const sanitizedName = sanitizeInput(credentialData.fullName);
     const sanitizedNationalId = sanitizeInput(credentialData.nationalId);
 
-    // Validate required fields
-    if (!sanitizedName) {
-      return { success: false, error: 'Full name is required' };
-    }
-    if (!sanitizedNationalId) {
-      return { success: false, error: 'National ID is required' };
-    }
-
-    // Validate format
-    if (!isValidName(sanitizedName)) {
-      return { success: false, error: 'Invalid name format. Use letters, spaces, hyphens, or apostrophes only.' };
-    }
-    if (!isValidNationalId(sanitizedNationalId)) {
-      return { success: false, error: 'Invalid National ID format. Use alphanumeric characters and hyphens only.' };
-    }
-
-    // Validate dates if provided
-    if (credentialData.dateOfBirth && !isValidDateFormat(credentialData.dateOfBirth)) {
-      return { success: false, error: 'Invalid date of birth format. Use YYYY-MM-DD.' };
-    }
-    if (credentialData.expiryDate && !isValidDateFormat(credentialData.expiryDate)) {
-      return { success: false, error: 'Invalid expiry date format. Use YYYY-MM-DD.' };
+    // Validate type-specific attributes against the credential schema
+    const credentialType = credentialData.credentialType || DEFAULT_CREDENTIAL_TYPE;
+    const schemaVersion = credentialData.schemaVersion || DEFAULT_SCHEMA_VERSION;
+    const schema = await getCredentialSchema(credentialType, schemaVersion);
+    if (!schema) {
+      return { success: false, error: `Unknown credential type: ${credentialType} v${schemaVersion}` };
     }
-
-    // Length validation
-    if (sanitizedName.length > 100) {
-      return { success: false, error: 'Full name must be less than 100 characters' };
+    if (!schema.isActive) {
+      return { success: false, error: `${schema.name} v${schemaVersion} is no longer issued` };
     }
-    if (sanitizedNationalId.length > 50) {
-      return { success: false, error: 'National ID must be less than 50 characters' };
+    const attributeValues = Object.fromEntries(
+      Object.entries(credentialData.attributes || {}).map(([key, value]) => [key, typeof value === 'boolean' ? value : String(value)])
+    );
+    const attributeCheck = validateAttributes(schema, attributeValues);
+    if (!attributeCheck.valid) {
+      return { success: false, error: Object.values(attributeCheck.errors)[0] };
     }
+    const attributes = attributeCheck.attributes;
 
     const wallet = new ethers.Wallet(privateKey);
 
@@ -210,7 +407,7 @@ export async function signAndIssueCredential(
       faceDescriptorHash = hashFaceDescriptor(credentialData.faceDescriptor);
       
       // Use similarity-based duplicate detection (Euclidean distance)
-      const isSimilar = await checkDuplicateFaceSimilarity(credentialData.faceDescriptor);
+      const isSimilar = await checkDuplicateFaceSimilarity(credentialData.faceDescriptor, citizenAddress);
       if (isSimilar) {
         return {
           success: false,
@@ -219,12 +416,29 @@ export async function signAndIssueCredential(
       }
     }
 
-    // Check if this wallet already has a credential
-    const existingCredential = await checkCredentialExistsForAddress(citizenAddress);
-    if (existingCredential) {
+    // A holder may hold one active credential of each type (a renewal replaces it)
+    const existingOfType = !renews && await checkCredentialExistsForAddress(citizenAddress, credentialType);
+    if (existingOfType) {
       return {
         success: false,
-        error: 'This wallet address already has a credential issued.'
+        error: `This wallet address already holds an active ${schema.name}.`
+      };
+    }
+
+    // The v1 contract stores a single hash per address; further credentials need the v2 registry
+    // or the batch registry. With a batch registry registered, credentials are anchored in batches.
+    const registryV2Address = getCredentialRegistryV2Address();
+    const batchRegistryAddress = getCredentialBatchRegistryAddress();
+    if (renews && !registryV2Address && !batchRegistryAddress) {
+      return {
+        success: false,
+        error: 'Renewal anchors the successor by credential ID. Register a v2 credential registry first.'
+      };
+    }
+    if (!registryV2Address && !batchRegistryAddress && await checkCredentialExistsForAddress(citizenAddress)) {
+      return {
+        success: false,
+        error: 'This wallet address already has a credential. Register a v2 credential registry to issue more than one credential per holder.'
       };
     }
 
@@ -234,28 +448,95 @@ export async function signAndIssueCredential(
       return { success: false, error: 'Not authenticated' };
     }
 
-    // Create credential hash
-    const dataToHash = JSON.stringify({
+    // The status list position is signed with the credential, so it is reserved before hashing
+    const { data: reservation, error: reservationError } = await supabase.rpc('reserve_status_list_index');
+    const reserved = reservation as { success: boolean; statusListIndex?: number; error?: string } | null;
+    if (reservationError || !reserved?.success || reserved.statusListIndex === undefined) {
+      console.error('Error reserving status list index:', reservationError);
+      return { success: false, error: reserved?.error || 'Could not reserve a status list position' };
+    }
+    const statusListIndex = reserved.statusListIndex;
+
+    // Create credential hash from the canonical payload (stored with the credential so it can be recomputed)
+    const issuedAt = new Date();
+    const canonicalPayload = serializeCanonicalPayload(buildCanonicalPayload({
       citizenAddress,
+      issuerAddress: wallet.address,
       fullName: sanitizedName,
-      dateOfBirth: credentialData.dateOfBirth,
       nationalId: sanitizedNationalId,
+      dateOfBirth: credentialData.dateOfBirth,
       expiryDate: credentialData.expiryDate,
-      issuer: wallet.address,
-      issuedAt: Date.now()
-    });
-    const credentialHash = ethers.keccak256(ethers.toUtf8Bytes(dataToHash));
+      credentialType,
+      schemaVersion,
+      attributes,
+      statusListIndex,
+    }, issuedAt));
+    const credentialHash = hashCanonicalPayload(canonicalPayload);
+
+    // Sign the credential as EIP-712 typed data, bound to the chain and contract it is anchored on
+    const credentialId = crypto.randomUUID();
+    const chainId = NETWORKS.sepolia.chainId;
+    const contractVersion = batchRegistryAddress ? 3 : registryV2Address ? 2 : 1;
+    const contractAddress = batchRegistryAddress || registryV2Address || getCredentialContractAddress();
+    const signature = await signCredentialTypedData(
+      wallet,
+      getCredentialDomain(chainId, contractAddress),
+      {
+        citizen: citizenAddress,
+        issuer: wallet.address,
+        fullName: sanitizedName,
+        nationalId: sanitizedNationalId,
+        dateOfBirth: credentialData.dateOfBirth,
+        expiryDate: credentialData.expiryDate,
+        credentialHash,
+        statusListIndex,
+      }
+    );
 
-    // Sign the credential hash
-    const signature = await wallet.signMessage(ethers.getBytes(credentialHash));
+    // Commit to the date of birth so the holder can prove an age threshold without revealing it
+    const ageCommitment = createAgeCommitment(credentialData.dateOfBirth);
 
-    // Store credential hash on blockchain first
-    const blockchainResult = await issueCredentialOnChain(
-      privateKey,
+    // Issue an SD-JWT so the holder can later disclose individual claims
+    const sdJwt = createSdJwt(privateKey, {
+      issuerAddress: wallet.address,
       citizenAddress,
       credentialHash,
-      'sepolia'
-    );
+      issuedAt: issuedAt.getTime(),
+      claims: {
+        fullName: sanitizedName,
+        nationalId: sanitizedNationalId,
+        dateOfBirth: credentialData.dateOfBirth,
+        expiryDate: credentialData.expiryDate,
+      },
+      ageCommitment: ageCommitment?.commitment,
+    });
+
+    // Compact COSE-signed QR for offline checks and printed cards
+    const compactQr = await createCompactCredentialQR(privateKey, {
+      citizenAddress,
+      issuerAddress: wallet.address,
+      fullName: sanitizedName,
+      nationalId: sanitizedNationalId,
+      dateOfBirth: credentialData.dateOfBirth,
+      expiryDate: credentialData.expiryDate,
+      credentialHash,
+      issuedAt: issuedAt.getTime(),
+      statusListIndex,
+    });
+
+    // Store credential hash on blockchain first. A renewal on the same v2 registry replaces the
+    // predecessor's hash in a single transaction; otherwise the old anchor is revoked afterwards.
+    // In batch mode nothing is sent now: the credential is pending until the next batch is anchored.
+    const renewsOnSameRegistry = !!renews && contractVersion === 2 && renews.contract_version === 2 &&
+      renews.contract_address?.toLowerCase() === registryV2Address?.toLowerCase();
+    let blockchainResult: { success: boolean; txHash?: string; error?: string } = { success: true };
+    if (contractVersion !== 3) {
+      blockchainResult = renews && renewsOnSameRegistry
+        ? await renewCredentialV2(privateKey, registryV2Address!, renews.id, credentialId, credentialHash, 'sepolia')
+        : registryV2Address
+          ? await issueCredentialV2(privateKey, registryV2Address, credentialId, citizenAddress, credentialHash, 'sepolia')
+          : await issueCredentialOnChain(privateKey, citizenAddress, credentialHash, 'sepolia');
+    }
 
     if (!blockchainResult.success) {
       return { 
@@ -268,6 +549,7 @@ export async function signAndIssueCredential(
     const { data, error } = await supabase
       .from('credentials')
       .insert({
+        id: credentialId,
         citizen_user_id: citizenUserId,
         citizen_address: citizenAddress,
         issuer_user_id: user.id,
@@ -280,6 +562,21 @@ export async function signAndIssueCredential(
         expiry_date: credentialData.expiryDate || null,
         face_descriptor_hash: faceDescriptorHash || null,
         face_descriptor: credentialData.faceDescriptor || null,
+        signature_scheme: 'eip712',
+        chain_id: chainId,
+        contract_address: contractAddress,
+        contract_version: contractVersion,
+        canonical_payload: canonicalPayload,
+        sd_jwt: sdJwt,
+        age_proof_seed: ageCommitment?.seed ?? null,
+        compact_qr: compactQr,
+        issuance_tx_hash: blockchainResult.txHash || null,
+        credential_type: credentialType,
+        schema_version: schemaVersion,
+        attributes,
+        issued_at: issuedAt.toISOString(),
+        renews_credential_id: renews?.id ?? null,
+        status_list_index: statusListIndex,
       })
       .select()
       .single();
@@ -290,19 +587,46 @@ export async function signAndIssueCredential(
     }
 
     const credential: StoredCredential = {
+      id: credentialId,
       citizenAddress,
       credentialHash,
       signature,
       issuerAddress: wallet.address,
-      issuedAt: Date.now(),
+      issuedAt: issuedAt.getTime(),
       fullName: sanitizedName,
       dateOfBirth: credentialData.dateOfBirth,
       nationalId: sanitizedNationalId,
       expiryDate: credentialData.expiryDate,
       faceDescriptorHash,
       txHash: blockchainResult.txHash,
+      signatureScheme: 'eip712',
+      chainId,
+      contractAddress,
+      contractVersion,
+      canonicalPayload,
+      sdJwt,
+      ageProofSeed: ageCommitment?.seed,
+      compactQr,
+      credentialType,
+      schemaVersion,
+      attributes,
+      renewsCredentialId: renews?.id,
+      statusListIndex,
     };
 
+    // The predecessor is superseded in the database; retire its anchor on the older contract too
+    if (renews && !renewsOnSameRegistry) {
+      const retired = await revokeAnchor(privateKey, renews);
+      if (!retired.success) {
+        console.error('Error revoking renewed credential on blockchain:', retired.error);
+        return {
+          success: true,
+          credential,
+          warning: 'Renewed, but the previous on-chain anchor could not be revoked'
+        };
+      }
+    }
+
     return { success: true, credential };
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : 'Failed to issue credential';
@@ -310,34 +634,218 @@ export async function signAndIssueCredential(
   }
 }
 
+// Revoke a credential's anchor on the contract it was anchored on. A batch credential is revoked
+// by its leaf; one still pending has nothing on-chain yet and is left out of the next batch.
+async function revokeAnchor(
+  privateKey: string,
+  credential: Pick<DatabaseCredential, 'id' | 'citizen_address' | 'credential_hash' | 'contract_address' | 'contract_version' | 'merkle_root'>
+): Promise<{ success: boolean; txHash?: string; error?: string }> {
+  if (credential.contract_version === 3 && credential.contract_address) {
+    if (!credential.merkle_root) {
+      return { success: true };
+    }
+    const leaf = computeCredentialLeaf(credential.id, credential.citizen_address, credential.credential_hash);
+    return await revokeBatchCredential(privateKey, credential.contract_address, leaf, 'sepolia');
+  }
+  if (credential.contract_version === 2 && credential.contract_address) {
+    return await revokeCredentialV2(privateKey, credential.contract_address, credential.id, 'sepolia');
+  }
+  return await revokeCredentialOnChain(privateKey, credential.citizen_address, 'sepolia');
+}
+
+// Renew a credential: issue a successor with new dates that replaces it (issuer only)
+// The predecessor stays in the database as history, marked superseded
+export async function renewCredential(
+  privateKey: string,
+  credentialId: string,
+  renewal: { expiryDate: string }
+): Promise<{ success: boolean; credential?: StoredCredential; warning?: string; error?: string }> {
+  try {
+    if (!isValidDateFormat(renewal.expiryDate)) {
+      return { success: false, error: 'Invalid expiry date format. Use YYYY-MM-DD.' };
+    }
+    if (new Date(renewal.expiryDate) <= new Date()) {
+      return { success: false, error: 'The new expiry date must be in the future' };
+    }
+
+    const { data, error } = await supabase
+      .from('credentials')
+      .select('*')
+      .eq('id', credentialId)
+      .maybeSingle();
+
+    if (error || !data) {
+      return { success: false, error: 'Credential not found' };
+    }
+
+    const predecessor = data as DatabaseCredential;
+    const status = getCredentialStatus({
+      revokedAt: predecessor.revoked_at || undefined,
+      supersededAt: predecessor.superseded_at || undefined,
+      suspendedAt: predecessor.suspended_at || undefined,
+      expiryDate: predecessor.expiry_date || undefined,
+    });
+    const transitionError = validateTransition(status, 'supersede', 'renewed');
+    if (transitionError) {
+      return { success: false, error: transitionError };
+    }
+
+    return await issueCredentialRecord(
+      privateKey,
+      predecessor.citizen_address,
+      predecessor.citizen_user_id,
+      {
+        fullName: predecessor.full_name,
+        dateOfBirth: predecessor.date_of_birth || '',
+        nationalId: predecessor.national_id,
+        expiryDate: renewal.expiryDate,
+        faceDescriptor: predecessor.face_descriptor || undefined,
+        credentialType: predecessor.credential_type,
+        schemaVersion: predecessor.schema_version,
+        attributes: (predecessor.attributes as CredentialAttributes) || {},
+      },
+      predecessor
+    );
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to renew credential';
+    return { success: false, error: errorMessage };
+  }
+}
+
+// One credential in a renewal chain
+export interface RenewalChainEntry {
+  id: string;
+  credentialHash: string;
+  issuedAt: string;
+  expiryDate: string | null;
+  renewsCredentialId: string | null;
+  supersededAt: string | null;
+  revoked: boolean;
+}
+
+// Get the renewal chain a credential belongs to, oldest first (public)
+export async function getCredentialRenewalChain(credentialId: string): Promise<RenewalChainEntry[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_credential_renewal_chain', {
+      _credential_id: credentialId
+    });
+
+    if (error) {
+      console.error('Error fetching renewal chain:', error);
+      return [];
+    }
+
+    return (data as unknown as RenewalChainEntry[]) || [];
+  } catch (error) {
+    console.error('Error fetching renewal chain:', error);
+    return [];
+  }
+}
+
 // Verify credential response type
 interface VerifyCredentialResponse {
   isValid: boolean;
-  error?: string;
+  // Only status is reported to callers who are not signed in
+  status?: CredentialStatus | null;
+  error?: string | null;
+  consentError?: string | null;
   credential?: {
-    fullName: string;
-    nationalId: string;
-    dateOfBirth: string | null;
+    id?: string;
+    // Personal data is only present when the caller may see it
+    fullName?: string;
+    nationalId?: string;
+    dateOfBirth?: string | null;
     expiryDate: string | null;
     issuerAddress: string;
     issuedAt: string;
     credentialHash: string;
+    signature?: string | null;
+    signatureScheme?: SignatureScheme | null;
+    chainId?: number | null;
+    contractAddress?: string | null;
+    contractVersion?: number | null;
+    canonicalPayload?: string | null;
+    credentialType?: string | null;
+    schemaVersion?: number | null;
+    attributes?: CredentialAttributes | null;
+    renewsCredentialId?: string | null;
+    renewedByCredentialId?: string | null;
+    supersededAt?: string | null;
+    suspendedAt?: string | null;
+    revokedAt?: string | null;
+    statusListIndex?: number | null;
+    merkleRoot?: string | null;
+    merkleProof?: string[] | null;
+    withheldFields?: ConsentField[];
+  };
+}
+
+// Convert the public verification response to app credential format
+function responseToStoredCredential(
+  citizenAddress: string,
+  responseCredential: NonNullable<VerifyCredentialResponse['credential']>
+): StoredCredential {
+  return {
+    id: responseCredential.id,
+    citizenAddress,
+    credentialHash: responseCredential.credentialHash,
+    signature: responseCredential.signature || '',
+    issuerAddress: responseCredential.issuerAddress,
+    issuedAt: new Date(responseCredential.issuedAt).getTime(),
+    fullName: responseCredential.fullName || '',
+    dateOfBirth: responseCredential.dateOfBirth || '',
+    nationalId: responseCredential.nationalId || '',
+    expiryDate: responseCredential.expiryDate || '',
+    signatureScheme: responseCredential.signatureScheme || undefined,
+    chainId: responseCredential.chainId ?? undefined,
+    contractAddress: responseCredential.contractAddress || undefined,
+    contractVersion: responseCredential.contractVersion ?? undefined,
+    canonicalPayload: responseCredential.canonicalPayload || undefined,
+    credentialType: responseCredential.credentialType || undefined,
+    schemaVersion: responseCredential.schemaVersion ?? undefined,
+    attributes: responseCredential.attributes || undefined,
+    renewsCredentialId: responseCredential.renewsCredentialId || undefined,
+    renewedByCredentialId: responseCredential.renewedByCredentialId || undefined,
+    supersededAt: responseCredential.supersededAt || undefined,
+    suspendedAt: responseCredential.suspendedAt || undefined,
+    revokedAt: responseCredential.revokedAt || undefined,
+    statusListIndex: responseCredential.statusListIndex ?? undefined,
+    merkleRoot: responseCredential.merkleRoot || undefined,
+    merkleProof: responseCredential.merkleProof || undefined,
+    withheldFields: responseCredential.withheldFields?.length ? responseCredential.withheldFields : undefined,
   };
 }
 
 // Verify a credential by citizen address (public verification via RPC)
-export async function verifyCredentialForCitizen(citizenAddress: string): Promise<{
+// A holder can have several credentials: select one by ID or hash, otherwise the latest active one is used.
+// Personal data is only returned to issuers, the holder, or with the token of an approved consent.
+export async function verifyCredentialForCitizen(
+  citizenAddress: string,
+  selector: { credentialId?: string; credentialHash?: string; consentToken?: string } = {}
+): Promise<{
   isValid: boolean;
   credential?: StoredCredential;
+  // Lifecycle status when the credential itself is not returned (callers who are not signed in)
+  status?: CredentialStatus;
   error?: string;
+  consentError?: string;
+  // Seconds to wait when the caller has made too many lookups
+  retryAfter?: number;
 }> {
   try {
     const { data, error } = await supabase.rpc('verify_credential', {
-      _citizen_address: citizenAddress
+      _citizen_address: citizenAddress,
+      _credential_id: selector.credentialId,
+      _credential_hash: selector.credentialHash,
+      _consent_token: selector.consentToken
     });
 
     if (error) {
       console.error('Error verifying credential:', error);
+      const retryAfter = getRetryAfter(error);
+      if (retryAfter) {
+        return { isValid: false, error: rateLimitMessage(retryAfter), retryAfter };
+      }
       return { isValid: false, error: 'Verification failed' };
     }
 
@@ -347,33 +855,20 @@ export async function verifyCredentialForCitizen(citizenAddress: string): Promis
       return { 
         isValid: false, 
         error: response?.error || 'No credential found for this address',
-        credential: response?.credential ? {
-          citizenAddress,
-          credentialHash: response.credential.credentialHash,
-          signature: '',
-          issuerAddress: response.credential.issuerAddress,
-          issuedAt: new Date(response.credential.issuedAt).getTime(),
-          fullName: response.credential.fullName,
-          dateOfBirth: response.credential.dateOfBirth || '',
-          nationalId: response.credential.nationalId,
-          expiryDate: response.credential.expiryDate || '',
-        } : undefined
+        consentError: response?.consentError || undefined,
+        status: response?.status || undefined,
+        credential: response?.credential
+          ? responseToStoredCredential(citizenAddress, response.credential)
+          : undefined
       };
     }
 
     return {
       isValid: true,
-      credential: {
-        citizenAddress,
-        credentialHash: response.credential!.credentialHash,
-        signature: '',
-        issuerAddress: response.credential!.issuerAddress,
-        issuedAt: new Date(response.credential!.issuedAt).getTime(),
-        fullName: response.credential!.fullName,
-        dateOfBirth: response.credential!.dateOfBirth || '',
-        nationalId: response.credential!.nationalId,
-        expiryDate: response.credential!.expiryDate || '',
-      }
+      consentError: response.consentError || undefined,
+      // Unauthenticated callers only learn the result
+      status: response.status || undefined,
+      credential: response.credential ? responseToStoredCredential(citizenAddress, response.credential) : undefined
     };
   } catch (error) {
     console.error('Error verifying credential:', error);
@@ -381,60 +876,240 @@ export async function verifyCredentialForCitizen(citizenAddress: string): Promis
   }
 }
 
-// Get credential for the current user (their own credential)
-export async function getMyCredential(): Promise<StoredCredential | null> {
+// Summary of one of a holder's credentials, as listed for verifiers
+export interface HolderCredentialSummary {
+  id: string;
+  credentialType: string;
+  schemaVersion: number;
+  typeName: string | null;
+  issuedAt: string;
+  expiryDate: string | null;
+  revoked: boolean;
+  superseded: boolean;
+  status: CredentialStatus;
+}
+
+// List the credentials held by an address (public, newest first)
+export async function listHolderCredentials(citizenAddress: string): Promise<HolderCredentialSummary[]> {
   try {
+    const { data, error } = await supabase.rpc('list_holder_credentials', {
+      _citizen_address: citizenAddress
+    });
+
+    if (error) {
+      console.error('Error listing holder credentials:', error);
+      return [];
+    }
+
+    return (data as unknown as HolderCredentialSummary[]) || [];
+  } catch (error) {
+    console.error('Error listing holder credentials:', error);
+    return [];
+  }
+}
+
+// Get the credentials of the current user (their own credentials), newest first
+export async function getMyCredentials(): Promise<StoredCredential[]> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return [];
+    }
+
     const { data, error } = await supabase
       .from('credentials')
       .select('*')
-      .limit(1)
-      .single();
+      .eq('citizen_user_id', user.id)
+      .order('issued_at', { ascending: false });
 
     if (error || !data) {
-      return null;
+      return [];
     }
 
-    return toStoredCredential(data as DatabaseCredential);
+    return data.map(row => toStoredCredential(row as DatabaseCredential));
   } catch (error) {
-    console.error('Error fetching credential:', error);
-    return null;
+    console.error('Error fetching credentials:', error);
+    return [];
   }
 }
 
-// Get credential for a specific citizen (admin only - for verification)
-export async function getCredentialForCitizen(citizenAddress: string): Promise<StoredCredential | null> {
+// Get the credentials of a specific citizen (admin only), newest first
+export async function getCredentialsForCitizen(citizenAddress: string): Promise<StoredCredential[]> {
   try {
     const { data, error } = await supabase
       .from('credentials')
       .select('*')
       .eq('citizen_address', citizenAddress)
-      .limit(1)
-      .single();
+      .order('issued_at', { ascending: false });
 
     if (error || !data) {
+      return [];
+    }
+
+    return data.map(row => toStoredCredential(row as DatabaseCredential));
+  } catch (error) {
+    console.error('Error fetching credentials:', error);
+    return [];
+  }
+}
+
+// Read the on-chain hash of a credential from the contract it was anchored on
+// v2 credentials are looked up by ID, v1 credentials by holder address. Batch credentials are
+// checked by their inclusion proof against the anchored root; pending ones have no anchor yet.
+export async function getAnchoredCredentialHash(
+  credential: Pick<
+    StoredCredential,
+    'id' | 'citizenAddress' | 'credentialHash' | 'contractVersion' | 'contractAddress' | 'merkleRoot' | 'merkleProof'
+  >
+): Promise<string | null> {
+  if (credential.contractVersion === 3) {
+    if (!credential.id || !credential.contractAddress || !credential.merkleRoot || !credential.merkleProof) {
       return null;
     }
+    const leaf = computeCredentialLeaf(credential.id, credential.citizenAddress, credential.credentialHash);
+    if (!verifyMerkleProof(leaf, credential.merkleProof, credential.merkleRoot)) {
+      return null;
+    }
+    const included = await getStoredCredentialBatch(credential.contractAddress, credential.merkleRoot, leaf, credential.merkleProof);
+    return included ? credential.credentialHash : null;
+  }
+  if (credential.contractVersion === 2 && credential.id && credential.contractAddress) {
+    const anchored = await getStoredCredentialV2(credential.contractAddress, credential.id);
+    return anchored && anchored.holder.toLowerCase() === credential.citizenAddress.toLowerCase()
+      ? anchored.hash
+      : null;
+  }
+  return await getStoredCredential(credential.citizenAddress);
+}
+
+// Registry outcome for a credential presented by its holder (SD-JWT presentation or age proof)
+export type PresentedCredentialStatus = CredentialStatus | 'invalid' | 'untrusted' | 'not_anchored';
+
+interface CheckSdJwtPresentationResponse {
+  found: boolean;
+  matchesIssued?: boolean;
+  error?: string;
+  issuerAddress?: string;
+  issuerAuthorized?: boolean;
+  status?: CredentialStatus;
+  id?: string;
+  contractVersion?: number | null;
+  contractAddress?: string | null;
+  merkleRoot?: string | null;
+  merkleProof?: string[] | null;
+}
+
+// Check a verified SD-JWT against the registry: it must be the JWT issued with the holder's
+// credential, signed by that credential's issuer, who must still be authorized, and the
+// credential must be active and anchored on-chain. The database records the check in the
+// holder's verification history.
+export async function checkPresentedCredential(
+  presented: {
+    citizenAddress: string;
+    issuerAddress: string;
+    credentialHash: string;
+    issuerJwt: string;
+  },
+  event: { method: 'presentation' | 'age_proof'; disclosedFields: string[] }
+): Promise<{
+  status: PresentedCredentialStatus;
+  error?: string;
+  anchoredHash: string | null;
+  retryAfter?: number;
+}> {
+  try {
+    const { data, error } = await supabase.rpc('check_sd_jwt_presentation', {
+      _citizen_address: presented.citizenAddress,
+      _credential_hash: presented.credentialHash,
+      _issuer_jwt: presented.issuerJwt,
+      _method: event.method,
+      _disclosed_fields: event.disclosedFields,
+    });
+
+    if (error) {
+      console.error('Error checking presentation:', error);
+      const retryAfter = getRetryAfter(error);
+      return {
+        status: 'invalid',
+        error: retryAfter ? rateLimitMessage(retryAfter) : 'The presentation could not be checked',
+        anchoredHash: null,
+        retryAfter,
+      };
+    }
+
+    const response = data as unknown as CheckSdJwtPresentationResponse;
+    if (!response.found || !response.matchesIssued) {
+      return { status: 'invalid', error: response.error || 'Presentation was not issued with this credential', anchoredHash: null };
+    }
+    if (response.issuerAddress?.toLowerCase() !== presented.issuerAddress.toLowerCase()) {
+      return { status: 'untrusted', error: 'Presentation is not signed by the issuer of the credential', anchoredHash: null };
+    }
+    if (!response.issuerAuthorized) {
+      return { status: 'untrusted', error: 'The issuer is no longer an authorized issuer', anchoredHash: null };
+    }
+
+    // Revoked credentials are cleared from the contract, so the anchored hash must still match
+    const anchoredHash = await getAnchoredCredentialHash({
+      id: response.id,
+      citizenAddress: presented.citizenAddress,
+      credentialHash: presented.credentialHash,
+      contractVersion: response.contractVersion ?? undefined,
+      contractAddress: response.contractAddress || undefined,
+      merkleRoot: response.merkleRoot || undefined,
+      merkleProof: response.merkleProof || undefined,
+    });
 
-    return toStoredCredential(data as DatabaseCredential);
+    const status = response.status || 'active';
+    if (status !== 'active') {
+      return { status, anchoredHash };
+    }
+    if (!anchoredHash || anchoredHash.toLowerCase() !== presented.credentialHash.toLowerCase()) {
+      return { status: 'not_anchored', error: 'The credential hash is not anchored on-chain', anchoredHash };
+    }
+    return { status: 'active', anchoredHash };
   } catch (error) {
-    console.error('Error fetching credential:', error);
-    return null;
+    console.error('Error checking presentation:', error);
+    return { status: 'invalid', error: 'The presentation could not be checked', anchoredHash: null };
   }
 }
 
 // Verify credential signature client-side (for display purposes)
+// Supports EIP-712 typed-data signatures and legacy personal_sign (EIP-191) signatures
 export function verifyCredentialSignature(credential: StoredCredential): boolean {
   try {
     if (!credential.signature) {
       return true; // Signature not available in public view, trust server verification
     }
-    
-    const recoveredAddress = ethers.verifyMessage(
-      ethers.getBytes(credential.credentialHash),
-      credential.signature
-    );
 
-    return recoveredAddress.toLowerCase() === credential.issuerAddress.toLowerCase();
+    let recoveredAddress: string | null;
+    if (credential.signatureScheme === 'eip712') {
+      if (!credential.chainId || !credential.contractAddress) {
+        return false;
+      }
+      // Credentials parsed from a QR code or document carry no canonical payload: a position in the
+      // struct can only recover the issuer if it was signed, so version 2 is tried before version 1
+      const versions = credential.canonicalPayload
+        ? [getCredentialSignatureVersion(credential)]
+        : credential.statusListIndex !== undefined ? [CREDENTIAL_EIP712_DOMAIN_VERSION, '1'] : ['1'];
+      recoveredAddress = null;
+      for (const version of versions) {
+        recoveredAddress = recoverCredentialTypedDataSigner(
+          getCredentialDomain(credential.chainId, credential.contractAddress, version),
+          toCredentialTypedData(credential),
+          credential.signature
+        );
+        if (recoveredAddress?.toLowerCase() === credential.issuerAddress.toLowerCase()) {
+          break;
+        }
+      }
+    } else {
+      recoveredAddress = ethers.verifyMessage(
+        ethers.getBytes(credential.credentialHash),
+        credential.signature
+      );
+    }
+
+    return recoveredAddress?.toLowerCase() === credential.issuerAddress.toLowerCase();
   } catch {
     return false;
   }
@@ -482,16 +1157,13 @@ export async function getExistingFaceHashes(): Promise<string[]> {
 }
 
 // Revoke a credential - removes from blockchain and marks as revoked in database
-export async function revokeCredentialForCitizen(
+// The reason code is recorded with the transition (see credential-lifecycle)
+export async function revokeCredentialById(
   privateKey: string,
-  citizenAddress: string
+  credentialId: string,
+  reason: { code: string; note?: string }
 ): Promise<{ success: boolean; txHash?: string; error?: string }> {
   try {
-    // Validate Ethereum address format
-    if (!ethers.isAddress(citizenAddress)) {
-      return { success: false, error: 'Invalid Ethereum address format' };
-    }
-
     // Get current user (must be admin/issuer)
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) {
@@ -499,17 +1171,31 @@ export async function revokeCredentialForCitizen(
     }
 
     // Check if credential exists
-    const existingCredential = await checkCredentialExistsForAddress(citizenAddress);
-    if (!existingCredential) {
-      return { success: false, error: 'No credential found for this address' };
+    const { data: existing, error: lookupError } = await supabase
+      .from('credentials')
+      .select('id, citizen_address, credential_hash, contract_address, contract_version, merkle_root, revoked_at, superseded_at, suspended_at, expiry_date')
+      .eq('id', credentialId)
+      .maybeSingle();
+
+    if (lookupError || !existing) {
+      return { success: false, error: 'Credential not found' };
+    }
+    if (existing.superseded_at) {
+      return { success: false, error: 'Credential has been renewed. Revoke its current successor instead.' };
+    }
+    const status = getCredentialStatus({
+      revokedAt: existing.revoked_at || undefined,
+      supersededAt: existing.superseded_at || undefined,
+      suspendedAt: existing.suspended_at || undefined,
+      expiryDate: existing.expiry_date || undefined,
+    });
+    const transitionError = validateTransition(status, 'revoke', reason.code, reason.note);
+    if (transitionError) {
+      return { success: false, error: transitionError };
     }
 
-    // Revoke on blockchain first
-    const blockchainResult = await revokeCredentialOnChain(
-      privateKey,
-      citizenAddress,
-      'sepolia'
-    );
+    // Revoke on blockchain first, on the contract the credential was anchored on
+    const blockchainResult = await revokeAnchor(privateKey, existing);
 
     if (!blockchainResult.success) {
       return { 
@@ -519,17 +1205,16 @@ export async function revokeCredentialForCitizen(
     }
 
     // Update database to mark as revoked
-    const { error } = await supabase
-      .from('credentials')
-      .update({
-        revoked_at: new Date().toISOString(),
-        revoked_by: user.id,
-        revocation_tx_hash: blockchainResult.txHash,
-      })
-      .eq('citizen_address', citizenAddress);
+    const transition = await transitionCredentialStatus(
+      credentialId,
+      'revoke',
+      reason.code,
+      reason.note,
+      blockchainResult.txHash
+    );
 
-    if (error) {
-      console.error('Error updating credential revocation in database:', error);
+    if (!transition.success) {
+      console.error('Error updating credential revocation in database:', transition.error);
       // Blockchain revocation succeeded but database update failed
       return { 
         success: true, 
@@ -544,23 +1229,3 @@ export async function revokeCredentialForCitizen(
     return { success: false, error: errorMessage };
   }
 }
-
-// Check if a credential is revoked
-export async function isCredentialRevoked(citizenAddress: string): Promise<boolean> {
-  try {
-    const { data, error } = await supabase
-      .from('credentials')
-      .select('revoked_at')
-      .eq('citizen_address', citizenAddress)
-      .maybeSingle();
-
-    if (error || !data) {
-      return false;
-    }
-
-    return data.revoked_at !== null;
-  } catch (error) {
-    console.error('Error checking revocation status:', error);
-    return false;
-  }
-}
@@ -0,0 +1,93 @@
+// EIP-712 typed-data definitions for identity credentials
+// Issuers sign a structured IdentityCredential instead of an opaque hash,
+// so wallets can display exactly what is being signed and the signature is
+// bound to a specific chain and credential contract
+// Version 2 of the struct adds the status list position; version 1 signatures of older
+// credentials still verify.
+
+import { ethers } from 'ethers';
+
+export const CREDENTIAL_EIP712_DOMAIN_NAME = 'IdentityCredential';
+export const CREDENTIAL_EIP712_DOMAIN_VERSION = '2';
+export const CREDENTIAL_EIP712_PRIMARY_TYPE = 'IdentityCredential';
+
+const CREDENTIAL_EIP712_FIELDS_V1: ethers.TypedDataField[] = [
+  { name: 'citizen', type: 'address' },
+  { name: 'issuer', type: 'address' },
+  { name: 'fullName', type: 'string' },
+  { name: 'nationalId', type: 'string' },
+  { name: 'dateOfBirth', type: 'string' },
+  { name: 'expiryDate', type: 'string' },
+  { name: 'credentialHash', type: 'bytes32' },
+];
+
+export const CREDENTIAL_EIP712_TYPES: Record<string, ethers.TypedDataField[]> = {
+  IdentityCredential: [...CREDENTIAL_EIP712_FIELDS_V1, { name: 'statusListIndex', type: 'uint256' }],
+};
+
+// Struct signed before the status list position was included
+export const CREDENTIAL_EIP712_TYPES_V1: Record<string, ethers.TypedDataField[]> = {
+  IdentityCredential: CREDENTIAL_EIP712_FIELDS_V1,
+};
+
+export interface CredentialTypedData {
+  citizen: string;
+  issuer: string;
+  fullName: string;
+  nationalId: string;
+  dateOfBirth: string;
+  expiryDate: string;
+  credentialHash: string;
+  // Version 2 and later
+  statusListIndex?: number;
+}
+
+// Signature schemes used for issued credentials
+// 'eip191' is the legacy personal_sign over the credential hash
+export type SignatureScheme = 'eip712' | 'eip191';
+
+// Struct definition for a domain version ('1' or '2')
+export function getCredentialTypes(version: string): Record<string, ethers.TypedDataField[]> {
+  return version === '1' ? CREDENTIAL_EIP712_TYPES_V1 : CREDENTIAL_EIP712_TYPES;
+}
+
+// Build the EIP-712 domain for a chain and credential contract
+export function getCredentialDomain(
+  chainId: number,
+  contractAddress: string,
+  version: string = CREDENTIAL_EIP712_DOMAIN_VERSION
+): ethers.TypedDataDomain {
+  return {
+    name: CREDENTIAL_EIP712_DOMAIN_NAME,
+    version,
+    chainId,
+    verifyingContract: ethers.getAddress(contractAddress),
+  };
+}
+
+// Sign a credential as EIP-712 typed data
+export async function signCredentialTypedData(
+  wallet: ethers.Wallet,
+  domain: ethers.TypedDataDomain,
+  value: CredentialTypedData
+): Promise<string> {
+  return await wallet.signTypedData(domain, CREDENTIAL_EIP712_TYPES, value);
+}
+
+// Recover the signer of an EIP-712 credential signature, using the struct of the domain's version
+export function recoverCredentialTypedDataSigner(
+  domain: ethers.TypedDataDomain,
+  value: CredentialTypedData,
+  signature: string
+): string | null {
+  try {
+    const types = getCredentialTypes(String(domain.version));
+    if (types === CREDENTIAL_EIP712_TYPES_V1) {
+      const { statusListIndex: _statusListIndex, ...valueV1 } = value;
+      return ethers.verifyTypedData(domain, types, valueV1, signature);
+    }
+    return ethers.verifyTypedData(domain, types, value, signature);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,21 @@
+// did:pkh identifiers for Ethereum accounts (CAIP-10 account IDs)
+
+import { ethers } from 'ethers';
+import { NETWORKS } from './networks';
+
+// Credentials are anchored on Sepolia, so DIDs default to that chain
+const DEFAULT_CHAIN_ID = NETWORKS.sepolia.chainId;
+
+// Build a did:pkh identifier for an Ethereum account
+export function addressToDid(address: string, chainId: number = DEFAULT_CHAIN_ID): string {
+  return `did:pkh:eip155:${chainId}:${ethers.getAddress(address)}`;
+}
+
+// Extract the Ethereum address from a did:pkh identifier
+export function didToAddress(did: string): string | null {
+  const match = /^did:pkh:eip155:\d+:(0x[0-9a-fA-F]{40})$/.exec(did);
+  if (!match || !ethers.isAddress(match[1])) {
+    return null;
+  }
+  return ethers.getAddress(match[1]);
+}
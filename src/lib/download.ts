@@ -0,0 +1,19 @@
+// Client-side file download helpers
+
+// Trigger a browser download for in-memory content
+export function downloadFile(filename: string, content: BlobPart, mimeType: string): void {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+// Download a value as pretty-printed JSON
+export function downloadJson(filename: string, value: unknown): void {
+  downloadFile(filename, JSON.stringify(value, null, 2), 'application/json');
+}
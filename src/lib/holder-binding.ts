@@ -0,0 +1,135 @@
+// Holder-binding presentations (challenge/response)
+// The verifier issues a one-time nonce; the holder signs nonce + credential hash + verifier id
+// with their wallet key. A copied presentation cannot be replayed because the nonce is only
+// accepted once and the signer must be the credential's citizen address.
+
+import { ethers } from 'ethers';
+import { signMessage, verifySignedMessage } from './wallet';
+
+export const PRESENTATION_CHALLENGE_TYPE = 'PresentationChallenge';
+export const HOLDER_PRESENTATION_TYPE = 'HolderBoundPresentation';
+
+// How long a holder has to answer a challenge
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const VERIFIER_ID_STORAGE_KEY = 'verifier_id';
+
+export interface PresentationChallenge {
+  type: typeof PRESENTATION_CHALLENGE_TYPE;
+  nonce: string;
+  verifierId: string;
+  expiresAt: number;
+}
+
+export interface HolderPresentation {
+  type: typeof HOLDER_PRESENTATION_TYPE;
+  citizenAddress: string;
+  credentialHash: string;
+  nonce: string;
+  verifierId: string;
+  signature: string;
+}
+
+// Stable identifier for this verifier: its wallet address, or a random id kept in local storage
+export function getVerifierId(walletAddress?: string | null): string {
+  if (walletAddress) {
+    return ethers.getAddress(walletAddress);
+  }
+
+  let verifierId = localStorage.getItem(VERIFIER_ID_STORAGE_KEY);
+  if (!verifierId) {
+    verifierId = `urn:uuid:${crypto.randomUUID()}`;
+    localStorage.setItem(VERIFIER_ID_STORAGE_KEY, verifierId);
+  }
+  return verifierId;
+}
+
+export function createPresentationChallenge(verifierId: string): PresentationChallenge {
+  return {
+    type: PRESENTATION_CHALLENGE_TYPE,
+    nonce: ethers.hexlify(ethers.randomBytes(16)),
+    verifierId,
+    expiresAt: Date.now() + CHALLENGE_TTL_MS,
+  };
+}
+
+export function parsePresentationChallenge(input: string): PresentationChallenge | null {
+  try {
+    const challenge = JSON.parse(input) as PresentationChallenge;
+    if (
+      challenge?.type !== PRESENTATION_CHALLENGE_TYPE ||
+      !ethers.isHexString(challenge.nonce, 16) ||
+      typeof challenge.verifierId !== 'string' ||
+      typeof challenge.expiresAt !== 'number'
+    ) {
+      return null;
+    }
+    return challenge;
+  } catch {
+    return null;
+  }
+}
+
+// The exact message signed by the holder (EIP-191 personal_sign)
+export function buildHolderBindingMessage(
+  nonce: string,
+  credentialHash: string,
+  verifierId: string
+): string {
+  return [
+    'Identity credential presentation',
+    `Credential: ${credentialHash.toLowerCase()}`,
+    `Verifier: ${verifierId}`,
+    `Nonce: ${nonce.toLowerCase()}`,
+  ].join('\n');
+}
+
+// Answer a verifier's challenge for the holder's credential
+export async function createHolderPresentation(
+  privateKey: string,
+  challenge: PresentationChallenge,
+  credential: { citizenAddress: string; credentialHash: string }
+): Promise<HolderPresentation> {
+  const message = buildHolderBindingMessage(challenge.nonce, credential.credentialHash, challenge.verifierId);
+  return {
+    type: HOLDER_PRESENTATION_TYPE,
+    citizenAddress: credential.citizenAddress,
+    credentialHash: credential.credentialHash,
+    nonce: challenge.nonce,
+    verifierId: challenge.verifierId,
+    signature: await signMessage(privateKey, message),
+  };
+}
+
+// Check a holder's response against the challenge this verifier issued
+export function verifyHolderPresentation(
+  input: string,
+  challenge: PresentationChallenge
+): { success: boolean; presentation?: HolderPresentation; error?: string } {
+  let presentation: HolderPresentation;
+  try {
+    presentation = JSON.parse(input) as HolderPresentation;
+  } catch {
+    return { success: false, error: 'Presentation is not valid JSON' };
+  }
+
+  if (presentation?.type !== HOLDER_PRESENTATION_TYPE) {
+    return { success: false, error: 'Unsupported presentation format' };
+  }
+  if (!ethers.isAddress(presentation.citizenAddress) || !ethers.isHexString(presentation.credentialHash, 32)) {
+    return { success: false, error: 'Malformed presentation' };
+  }
+  if (presentation.nonce?.toLowerCase() !== challenge.nonce.toLowerCase() || presentation.verifierId !== challenge.verifierId) {
+    return { success: false, error: 'Presentation was not made for this challenge' };
+  }
+  if (Date.now() > challenge.expiresAt) {
+    return { success: false, error: 'Challenge has expired. Issue a new one.' };
+  }
+
+  const message = buildHolderBindingMessage(presentation.nonce, presentation.credentialHash, presentation.verifierId);
+  const signer = verifySignedMessage(message, presentation.signature);
+  if (!signer || signer.toLowerCase() !== presentation.citizenAddress.toLowerCase()) {
+    return { success: false, error: 'Presentation was not signed by the credential holder' };
+  }
+
+  return { success: true, presentation };
+}
@@ -0,0 +1,55 @@
+// Merkle trees for batched credential anchoring
+// Leaves commit to (credential ID, holder, credential hash); each pair of nodes is hashed in sorted
+// order, matching verifyProof in the batch registry contract, so a proof is just the list of siblings.
+
+import { ethers } from 'ethers';
+import { credentialIdToBytes32 } from './contracts';
+
+export function computeCredentialLeaf(credentialId: string, holderAddress: string, credentialHash: string): string {
+  return ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(
+    ['bytes32', 'address', 'bytes32'],
+    [credentialIdToBytes32(credentialId), holderAddress, credentialHash]
+  ));
+}
+
+function hashPair(a: string, b: string): string {
+  const [first, second] = a.toLowerCase() < b.toLowerCase() ? [a, b] : [b, a];
+  return ethers.keccak256(ethers.concat([first, second]));
+}
+
+// Build a tree over the leaves; an unpaired node is carried up to the next level unchanged
+export function buildMerkleTree(leaves: string[]): { root: string; proofs: string[][] } {
+  if (leaves.length === 0) {
+    throw new Error('A Merkle tree needs at least one leaf');
+  }
+
+  const proofs: string[][] = leaves.map(() => []);
+  let level = leaves.map((hash, index) => ({ hash, leafIndexes: [index] }));
+
+  while (level.length > 1) {
+    const next: typeof level = [];
+    for (let i = 0; i < level.length; i += 2) {
+      const left = level[i];
+      const right = level[i + 1];
+      if (!right) {
+        next.push(left);
+        continue;
+      }
+      left.leafIndexes.forEach((index) => proofs[index].push(right.hash));
+      right.leafIndexes.forEach((index) => proofs[index].push(left.hash));
+      next.push({ hash: hashPair(left.hash, right.hash), leafIndexes: [...left.leafIndexes, ...right.leafIndexes] });
+    }
+    level = next;
+  }
+
+  return { root: level[0].hash, proofs };
+}
+
+export function verifyMerkleProof(leaf: string, proof: string[], root: string): boolean {
+  try {
+    const computed = proof.reduce((node, sibling) => hashPair(node, sibling), leaf);
+    return computed.toLowerCase() === root.toLowerCase();
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,235 @@
+// Offline credential verification
+// Verifiers cache a snapshot of trusted issuer addresses and the hashes of revoked, suspended
+// and renewed credentials while online. Offline checks then rely only on that snapshot and the issuer's EIP-712 signature
+// carried in a signed QR payload - no database or blockchain RPC calls.
+
+import { supabase } from '@/integrations/supabase/client';
+import { StoredCredential, isStatusListIndexSigned, verifyCredentialSignature } from './credential-storage';
+import { verifyCompactCredentialQR } from './compact-credential';
+
+export const SIGNED_CREDENTIAL_QR_TYPE = 'signed-identity-credential';
+const TRUST_SNAPSHOT_STORAGE_KEY = 'offline_trust_snapshot';
+
+export interface TrustSnapshot {
+  issuers: string[];
+  revokedHashes: string[];
+  suspendedHashes: string[];
+  // Credentials replaced by a renewal
+  supersededHashes: string[];
+  // Server time the snapshot was generated
+  generatedAt: string;
+  // Local time the snapshot was downloaded
+  fetchedAt: number;
+}
+
+// Self-contained credential for offline checks; only EIP-712 credentials bind every field
+export interface SignedCredentialQRPayload {
+  type: typeof SIGNED_CREDENTIAL_QR_TYPE;
+  citizenAddress: string;
+  issuerAddress: string;
+  fullName: string;
+  nationalId: string;
+  dateOfBirth: string;
+  expiryDate: string;
+  issuedAt: number;
+  credentialHash: string;
+  signature: string;
+  chainId: number;
+  contractAddress: string;
+  // Only set when the position is covered by the signature
+  statusListIndex?: number;
+}
+
+export type OfflineVerificationStatus =
+  | 'valid'
+  | 'invalid'
+  | 'untrusted'
+  | 'revoked'
+  | 'suspended'
+  | 'superseded'
+  | 'expired';
+
+export interface OfflineVerificationResult {
+  status: OfflineVerificationStatus;
+  error?: string;
+  credential?: StoredCredential;
+  // Age of the trust snapshot used for the check, in milliseconds
+  snapshotAge: number;
+}
+
+export function getCachedTrustSnapshot(): TrustSnapshot | null {
+  try {
+    const stored = localStorage.getItem(TRUST_SNAPSHOT_STORAGE_KEY);
+    const snapshot = stored ? JSON.parse(stored) as TrustSnapshot : null;
+    // Snapshots cached before suspensions were listed would pass suspended credentials
+    if (!snapshot || !Array.isArray(snapshot.suspendedHashes) || !Array.isArray(snapshot.supersededHashes)) {
+      return null;
+    }
+    return snapshot;
+  } catch {
+    return null;
+  }
+}
+
+// Download a fresh snapshot and cache it for offline use
+export async function refreshTrustSnapshot(): Promise<{ success: boolean; snapshot?: TrustSnapshot; error?: string }> {
+  try {
+    const { data, error } = await supabase.rpc('get_offline_trust_snapshot');
+
+    if (error) {
+      console.error('Error fetching trust snapshot:', error);
+      return { success: false, error: error.message };
+    }
+
+    const response = data as {
+      issuers: string[];
+      revokedHashes: string[];
+      suspendedHashes: string[];
+      supersededHashes: string[];
+      generatedAt: string;
+    };
+    const snapshot: TrustSnapshot = {
+      issuers: response.issuers || [],
+      revokedHashes: response.revokedHashes || [],
+      suspendedHashes: response.suspendedHashes || [],
+      supersededHashes: response.supersededHashes || [],
+      generatedAt: response.generatedAt,
+      fetchedAt: Date.now(),
+    };
+
+    localStorage.setItem(TRUST_SNAPSHOT_STORAGE_KEY, JSON.stringify(snapshot));
+    return { success: true, snapshot };
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to refresh trust data';
+    return { success: false, error: errorMessage };
+  }
+}
+
+// Human-readable age of the cached snapshot, e.g. "3 hours"
+export function formatSnapshotAge(ageMs: number): string {
+  const minutes = Math.floor(ageMs / 60000);
+  if (minutes < 1) return 'less than a minute';
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} hour${hours === 1 ? '' : 's'}`;
+  const days = Math.floor(hours / 24);
+  return `${days} day${days === 1 ? '' : 's'}`;
+}
+
+// Build the signed QR payload for a holder's credential
+// Returns null for legacy credentials whose signature covers only the hash
+export function toSignedCredentialQR(credential: StoredCredential): string | null {
+  if (credential.signatureScheme !== 'eip712' || !credential.chainId || !credential.contractAddress) {
+    return null;
+  }
+
+  const payload: SignedCredentialQRPayload = {
+    type: SIGNED_CREDENTIAL_QR_TYPE,
+    citizenAddress: credential.citizenAddress,
+    issuerAddress: credential.issuerAddress,
+    fullName: credential.fullName,
+    nationalId: credential.nationalId,
+    dateOfBirth: credential.dateOfBirth,
+    expiryDate: credential.expiryDate,
+    issuedAt: credential.issuedAt,
+    credentialHash: credential.credentialHash,
+    signature: credential.signature,
+    chainId: credential.chainId,
+    contractAddress: credential.contractAddress,
+    ...(isStatusListIndexSigned(credential) ? { statusListIndex: credential.statusListIndex } : {}),
+  };
+  return JSON.stringify(payload);
+}
+
+export function parseSignedCredentialQR(data: string): StoredCredential | null {
+  try {
+    const payload = JSON.parse(data) as SignedCredentialQRPayload;
+    if (payload?.type !== SIGNED_CREDENTIAL_QR_TYPE || !payload.signature || !payload.credentialHash) {
+      return null;
+    }
+
+    return {
+      citizenAddress: payload.citizenAddress,
+      issuerAddress: payload.issuerAddress,
+      fullName: payload.fullName,
+      nationalId: payload.nationalId,
+      dateOfBirth: payload.dateOfBirth || '',
+      expiryDate: payload.expiryDate || '',
+      issuedAt: payload.issuedAt,
+      credentialHash: payload.credentialHash,
+      signature: payload.signature,
+      signatureScheme: 'eip712',
+      chainId: payload.chainId,
+      contractAddress: payload.contractAddress,
+      statusListIndex: Number.isInteger(payload.statusListIndex) ? payload.statusListIndex : undefined,
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Verify a signed QR payload using only the cached trust snapshot
+export function verifyCredentialOffline(data: string, snapshot: TrustSnapshot): OfflineVerificationResult {
+  const snapshotAge = Date.now() - snapshot.fetchedAt;
+  const credential = parseSignedCredentialQR(data);
+
+  if (!credential) {
+    return { status: 'invalid', error: 'Not a signed credential QR code', snapshotAge };
+  }
+
+  // The EIP-712 signature covers every field shown to the verifier, not just the hash
+  if (!verifyCredentialSignature(credential)) {
+    return { status: 'invalid', error: 'Issuer signature is invalid', credential, snapshotAge };
+  }
+
+  return checkAgainstSnapshot(credential, snapshot, snapshotAge);
+}
+
+// Verify a compact COSE QR (IC1:...) using only the cached trust snapshot
+export async function verifyCompactCredentialOffline(
+  data: string,
+  snapshot: TrustSnapshot
+): Promise<OfflineVerificationResult> {
+  const snapshotAge = Date.now() - snapshot.fetchedAt;
+  const verification = await verifyCompactCredentialQR(data);
+
+  if (!verification.success || !verification.claims) {
+    return { status: 'invalid', error: verification.error, snapshotAge };
+  }
+
+  const credential: StoredCredential = {
+    ...verification.claims,
+    signature: '',
+  };
+  return checkAgainstSnapshot(credential, snapshot, snapshotAge);
+}
+
+// Issuer trust, lifecycle and expiry checks shared by both QR formats
+function checkAgainstSnapshot(
+  credential: StoredCredential,
+  snapshot: TrustSnapshot,
+  snapshotAge: number
+): OfflineVerificationResult {
+  if (!snapshot.issuers.includes(credential.issuerAddress.toLowerCase())) {
+    return { status: 'untrusted', error: 'Issuer is not in the cached list of trusted issuers', credential, snapshotAge };
+  }
+
+  const credentialHash = credential.credentialHash.toLowerCase();
+  if (snapshot.revokedHashes.includes(credentialHash)) {
+    return { status: 'revoked', error: 'Credential is on the cached revocation list', credential, snapshotAge };
+  }
+
+  if (snapshot.suspendedHashes.includes(credentialHash)) {
+    return { status: 'suspended', error: 'Credential is suspended by its issuer', credential, snapshotAge };
+  }
+
+  if (snapshot.supersededHashes.includes(credentialHash)) {
+    return { status: 'superseded', error: 'Credential has been renewed; only its replacement is valid', credential, snapshotAge };
+  }
+
+  if (credential.expiryDate && new Date(credential.expiryDate) < new Date()) {
+    return { status: 'expired', error: 'Credential has expired', credential, snapshotAge };
+  }
+
+  return { status: 'valid', credential, snapshotAge };
+}
@@ -0,0 +1,200 @@
+// Rate limiting of public RPCs
+// Lookups such as verify_credential and username_exists count each call per signed-in user and per
+// client IP (see enforce_rate_limit). Over the limit, the call fails with HTTP 429 and an error
+// whose code is 'rate_limited' and whose details hold the seconds to wait.
+
+import { supabase } from '@/integrations/supabase/client';
+
+export const RATE_LIMIT_ERROR_CODE = 'rate_limited';
+
+export const RATE_LIMITED_FUNCTION_LABELS: Record<string, string> = {
+  verify_credential: 'Credential verification',
+  username_exists: 'Username check',
+  get_user_id_by_wallet: 'Wallet lookup',
+  face_hash_exists: 'Face hash check',
+  credential_face_hash_exists: 'Credential face hash check',
+  check_face_similarity_with_wallet: 'Face similarity check',
+  check_credential_face_similarity: 'Credential face similarity check',
+  credential_exists_for_address: 'Credential existence check',
+  list_holder_credentials: 'Holder credential listing',
+  request_verification_consent: 'Consent request',
+  check_sd_jwt_presentation: 'Presentation check',
+  api_create_presentation_challenge: 'API presentation challenge',
+};
+
+export interface RateLimitPolicy {
+  functionName: string;
+  maxCalls: number;
+  windowSeconds: number;
+  // 0 when callers only wait for the window to slide
+  lockoutSeconds: number;
+  maxLockoutSeconds: number;
+  updatedAt: string;
+}
+
+export interface RateLimitLockout {
+  functionName: string;
+  // user:<uuid> or ip:<address>
+  callerKey: string;
+  strikes: number;
+  lockedUntil: string;
+}
+
+interface DatabaseRateLimitPolicy {
+  function_name: string;
+  max_calls: number;
+  window_seconds: number;
+  lockout_seconds: number;
+  max_lockout_seconds: number;
+  updated_at: string;
+}
+
+interface DatabaseRateLimitLockout {
+  function_name: string;
+  caller_key: string;
+  strikes: number;
+  locked_until: string;
+}
+
+// Seconds to wait if the error is a rate limit rejection, otherwise null
+export function getRetryAfter(error: { code?: string; details?: string | null } | null | undefined): number | null {
+  if (!error || error.code !== RATE_LIMIT_ERROR_CODE) {
+    return null;
+  }
+  const seconds = parseInt(error.details || '', 10);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds : 1;
+}
+
+export function formatRetryAfter(seconds: number): string {
+  if (seconds < 60) {
+    return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  }
+  if (seconds < 3600) {
+    const minutes = Math.ceil(seconds / 60);
+    return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  }
+  const hours = Math.ceil(seconds / 3600);
+  return `${hours} hour${hours === 1 ? '' : 's'}`;
+}
+
+export function rateLimitMessage(retryAfter: number): string {
+  return `Too many attempts. Please try again in ${formatRetryAfter(retryAfter)}.`;
+}
+
+// Limits for every rate-limited function (admin only)
+export async function listRateLimitPolicies(): Promise<RateLimitPolicy[]> {
+  try {
+    const { data, error } = await supabase
+      .from('rate_limit_policies')
+      .select('*')
+      .order('function_name');
+
+    if (error) {
+      console.error('Error fetching rate limits:', error);
+      return [];
+    }
+
+    return (data || []).map((row: DatabaseRateLimitPolicy) => ({
+      functionName: row.function_name,
+      maxCalls: row.max_calls,
+      windowSeconds: row.window_seconds,
+      lockoutSeconds: row.lockout_seconds,
+      maxLockoutSeconds: row.max_lockout_seconds,
+      updatedAt: row.updated_at,
+    }));
+  } catch (error) {
+    console.error('Error fetching rate limits:', error);
+    return [];
+  }
+}
+
+export async function updateRateLimitPolicy(
+  policy: Pick<RateLimitPolicy, 'functionName' | 'maxCalls' | 'windowSeconds' | 'lockoutSeconds' | 'maxLockoutSeconds'>
+): Promise<{ success: boolean; error?: string }> {
+  if (policy.maxCalls < 1 || policy.windowSeconds < 1) {
+    return { success: false, error: 'Calls and window must be at least 1' };
+  }
+  if (policy.lockoutSeconds < 0 || policy.maxLockoutSeconds < policy.lockoutSeconds) {
+    return { success: false, error: 'Maximum lockout cannot be shorter than the first lockout' };
+  }
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { data, error } = await supabase
+      .from('rate_limit_policies')
+      .update({
+        max_calls: policy.maxCalls,
+        window_seconds: policy.windowSeconds,
+        lockout_seconds: policy.lockoutSeconds,
+        max_lockout_seconds: policy.maxLockoutSeconds,
+        updated_by: user?.id,
+      })
+      .eq('function_name', policy.functionName)
+      .select('function_name');
+
+    if (error) {
+      console.error('Error updating rate limit:', error);
+      return { success: false, error: 'Failed to update the rate limit' };
+    }
+    if (!data || data.length === 0) {
+      return { success: false, error: 'Only administrators can change rate limits' };
+    }
+
+    return { success: true };
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to update the rate limit';
+    return { success: false, error: errorMessage };
+  }
+}
+
+// Callers locked out right now, longest lockout first (admin only)
+export async function listActiveLockouts(): Promise<RateLimitLockout[]> {
+  try {
+    const { data, error } = await supabase
+      .from('rate_limit_lockouts')
+      .select('*')
+      .gt('locked_until', new Date().toISOString())
+      .order('locked_until', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching lockouts:', error);
+      return [];
+    }
+
+    return (data || []).map((row: DatabaseRateLimitLockout) => ({
+      functionName: row.function_name,
+      callerKey: row.caller_key,
+      strikes: row.strikes,
+      lockedUntil: row.locked_until,
+    }));
+  } catch (error) {
+    console.error('Error fetching lockouts:', error);
+    return [];
+  }
+}
+
+// Lift a lockout early; the caller's strike count is reset with it (admin only)
+export async function liftLockout(functionName: string, callerKey: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { data, error } = await supabase
+      .from('rate_limit_lockouts')
+      .delete()
+      .eq('function_name', functionName)
+      .eq('caller_key', callerKey)
+      .select('caller_key');
+
+    if (error) {
+      console.error('Error lifting lockout:', error);
+      return { success: false, error: 'Failed to lift the lockout' };
+    }
+    if (!data || data.length === 0) {
+      return { success: false, error: 'Lockout not found' };
+    }
+
+    return { success: true };
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to lift the lockout';
+    return { success: false, error: errorMessage };
+  }
+}
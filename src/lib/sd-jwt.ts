@@ -0,0 +1,262 @@
+// Selective Disclosure JWT (SD-JWT) for identity credentials
+// At issuance the issuer signs a JWT that only contains salted SHA-256 digests of each claim.
+// The holder keeps the disclosures (salt, name, value) and reveals only the ones they choose.
+// Signatures use ES256K (secp256k1) with the issuer's wallet key, so the issuer is identified
+// by their Ethereum address (did:pkh).
+
+import { ethers } from 'ethers';
+import { addressToDid, didToAddress } from './did';
+
+export const SD_JWT_TYPE = 'vc+sd-jwt';
+export const SD_JWT_VCT = 'IdentityCredential';
+const SD_ALG = 'sha-256';
+const SALT_BYTES = 16;
+
+// Claims that can be selectively disclosed
+export const DISCLOSABLE_CLAIMS = ['fullName', 'nationalId', 'dateOfBirth', 'expiryDate'] as const;
+export type DisclosableClaim = typeof DISCLOSABLE_CLAIMS[number];
+
+export const DISCLOSABLE_CLAIM_LABELS: Record<DisclosableClaim, string> = {
+  fullName: 'Full Name',
+  nationalId: 'National ID',
+  dateOfBirth: 'Date of Birth',
+  expiryDate: 'Expiry Date',
+};
+
+export interface SdJwtPayload {
+  iss: string;
+  sub: string;
+  iat: number;
+  // Credential validity is a registered claim and always visible to the verifier
+  exp?: number;
+  vct: string;
+  credentialHash: string;
+  // Hash-chain commitment to the date of birth for age predicate proofs
+  ageCommitment?: string;
+  _sd_alg: string;
+  _sd: string[];
+}
+
+export interface Disclosure {
+  encoded: string;
+  salt: string;
+  name: string;
+  value: string;
+}
+
+export interface ParsedSdJwt {
+  jwt: string;
+  header: { alg: string; typ?: string; kid?: string };
+  payload: SdJwtPayload;
+  disclosures: Disclosure[];
+}
+
+// Base64url helpers (RFC 7515, no padding)
+export function base64UrlEncode(data: Uint8Array | string): string {
+  const bytes = typeof data === 'string' ? ethers.toUtf8Bytes(data) : data;
+  return ethers.encodeBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return ethers.decodeBase64(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+}
+
+function base64UrlDecodeJson<T>(value: string): T {
+  return JSON.parse(ethers.toUtf8String(base64UrlDecode(value))) as T;
+}
+
+// SHA-256 digest of a disclosure, as it appears in the _sd array
+function digestDisclosure(encoded: string): string {
+  return base64UrlEncode(ethers.getBytes(ethers.sha256(ethers.toUtf8Bytes(encoded))));
+}
+
+// Sign a JWS (compact serialization) with ES256K
+function signJws(privateKey: string, header: object, payload: object): string {
+  const signingInput = `${base64UrlEncode(JSON.stringify(header))}.${base64UrlEncode(JSON.stringify(payload))}`;
+  const digest = ethers.sha256(ethers.toUtf8Bytes(signingInput));
+  const signature = new ethers.SigningKey(privateKey).sign(digest);
+  return `${signingInput}.${base64UrlEncode(ethers.getBytes(ethers.concat([signature.r, signature.s])))}`;
+}
+
+// Check an ES256K JWS against an expected Ethereum address
+// ES256K signatures carry no recovery id, so both candidates are tried
+export function verifyJwsSigner(jws: string, expectedAddress: string): boolean {
+  try {
+    const [encodedHeader, encodedPayload, encodedSignature] = jws.split('.');
+    if (!encodedHeader || !encodedPayload || !encodedSignature) return false;
+
+    const rawSignature = base64UrlDecode(encodedSignature);
+    if (rawSignature.length !== 64) return false;
+
+    const digest = ethers.sha256(ethers.toUtf8Bytes(`${encodedHeader}.${encodedPayload}`));
+    const r = ethers.hexlify(rawSignature.slice(0, 32));
+    const s = ethers.hexlify(rawSignature.slice(32));
+
+    return [27, 28].some((v) => {
+      try {
+        const recovered = ethers.recoverAddress(digest, ethers.Signature.from({ r, s, v }));
+        return recovered.toLowerCase() === expectedAddress.toLowerCase();
+      } catch {
+        return false;
+      }
+    });
+  } catch {
+    return false;
+  }
+}
+
+function createDisclosure(name: string, value: string): Disclosure {
+  const salt = base64UrlEncode(ethers.randomBytes(SALT_BYTES));
+  const encoded = base64UrlEncode(JSON.stringify([salt, name, value]));
+  return { encoded, salt, name, value };
+}
+
+// Issue an SD-JWT with every identity claim selectively disclosable
+// Returns the issuer-signed JWT followed by all disclosures (jwt~d1~d2~...~)
+export function createSdJwt(
+  privateKey: string,
+  credential: {
+    issuerAddress: string;
+    citizenAddress: string;
+    credentialHash: string;
+    issuedAt: number;
+    claims: Partial<Record<DisclosableClaim, string>>;
+    ageCommitment?: string;
+  }
+): string {
+  const disclosures = DISCLOSABLE_CLAIMS
+    .filter((name) => credential.claims[name])
+    .map((name) => createDisclosure(name, credential.claims[name]!));
+
+  const payload: SdJwtPayload = {
+    iss: addressToDid(credential.issuerAddress),
+    sub: addressToDid(credential.citizenAddress),
+    iat: Math.floor(credential.issuedAt / 1000),
+    vct: SD_JWT_VCT,
+    credentialHash: credential.credentialHash,
+    _sd_alg: SD_ALG,
+    // Sorted so the digest order does not reveal which claim is which
+    _sd: disclosures.map((d) => digestDisclosure(d.encoded)).sort(),
+  };
+  if (credential.ageCommitment) {
+    payload.ageCommitment = credential.ageCommitment;
+  }
+  if (credential.claims.expiryDate) {
+    payload.exp = Math.floor(new Date(`${credential.claims.expiryDate}T23:59:59Z`).getTime() / 1000);
+  }
+
+  const header = {
+    alg: 'ES256K',
+    typ: SD_JWT_TYPE,
+    kid: `${payload.iss}#blockchainAccountId`,
+  };
+
+  const jwt = signJws(privateKey, header, payload);
+  return `${[jwt, ...disclosures.map((d) => d.encoded)].join('~')}~`;
+}
+
+// Split an SD-JWT into its issuer JWT and decoded disclosures
+export function parseSdJwt(sdJwt: string): ParsedSdJwt {
+  const parts = sdJwt.trim().split('~');
+  const jwt = parts[0];
+  const [encodedHeader, encodedPayload] = jwt.split('.');
+  if (!encodedHeader || !encodedPayload) {
+    throw new Error('Malformed SD-JWT');
+  }
+
+  const disclosures = parts.slice(1).filter(Boolean).map((encoded) => {
+    const decoded = base64UrlDecodeJson<unknown>(encoded);
+    if (!Array.isArray(decoded) || decoded.length !== 3 || typeof decoded[1] !== 'string') {
+      throw new Error('Malformed disclosure');
+    }
+    return { encoded, salt: String(decoded[0]), name: decoded[1], value: String(decoded[2]) };
+  });
+
+  return {
+    jwt,
+    header: base64UrlDecodeJson(encodedHeader),
+    payload: base64UrlDecodeJson<SdJwtPayload>(encodedPayload),
+    disclosures,
+  };
+}
+
+// Build a presentation that reveals only the chosen claims
+export function createSdJwtPresentation(sdJwt: string, claims: DisclosableClaim[]): string {
+  const parsed = parseSdJwt(sdJwt);
+  const selected = parsed.disclosures.filter((d) => claims.includes(d.name as DisclosableClaim));
+  return `${[parsed.jwt, ...selected.map((d) => d.encoded)].join('~')}~`;
+}
+
+export interface SdJwtVerificationResult {
+  valid: boolean;
+  error?: string;
+  issuerAddress?: string;
+  citizenAddress?: string;
+  credentialHash?: string;
+  issuedAt?: number;
+  expiresAt?: number;
+  expired?: boolean;
+  ageCommitment?: string;
+  // Issuer-signed JWT without disclosures, to compare with the one stored at issuance
+  issuerJwt?: string;
+  disclosedClaims: Partial<Record<DisclosableClaim, string>>;
+}
+
+// Verify an SD-JWT presentation: issuer signature, disclosure digests and validity period
+// This only shows the JWT was signed by the key in iss; checkPresentedCredential (credential-storage.ts)
+// confirms it is the JWT issued with the credential and that the issuer is authorized.
+export function verifySdJwtPresentation(presentation: string): SdJwtVerificationResult {
+  try {
+    const parsed = parseSdJwt(presentation);
+    const { header, payload } = parsed;
+
+    if (header.alg !== 'ES256K' || header.typ !== SD_JWT_TYPE) {
+      return { valid: false, error: 'Unsupported SD-JWT header', disclosedClaims: {} };
+    }
+    if (payload._sd_alg !== SD_ALG || !Array.isArray(payload._sd)) {
+      return { valid: false, error: 'Unsupported selective disclosure algorithm', disclosedClaims: {} };
+    }
+
+    const issuerAddress = didToAddress(payload.iss);
+    const citizenAddress = didToAddress(payload.sub);
+    if (!issuerAddress || !citizenAddress) {
+      return { valid: false, error: 'Issuer and subject must be did:pkh accounts', disclosedClaims: {} };
+    }
+    if (!verifyJwsSigner(parsed.jwt, issuerAddress)) {
+      return { valid: false, error: 'Issuer signature is invalid', disclosedClaims: {} };
+    }
+
+    const disclosedClaims: Partial<Record<DisclosableClaim, string>> = {};
+    const seenDigests = new Set<string>();
+    for (const disclosure of parsed.disclosures) {
+      const digest = digestDisclosure(disclosure.encoded);
+      if (!payload._sd.includes(digest) || seenDigests.has(digest)) {
+        return { valid: false, error: `Disclosure for "${disclosure.name}" does not match the signed digests`, disclosedClaims: {} };
+      }
+      if (!(DISCLOSABLE_CLAIMS as readonly string[]).includes(disclosure.name)) {
+        return { valid: false, error: `Unknown claim "${disclosure.name}"`, disclosedClaims: {} };
+      }
+      seenDigests.add(digest);
+      disclosedClaims[disclosure.name as DisclosableClaim] = disclosure.value;
+    }
+
+    const expiresAt = payload.exp ? payload.exp * 1000 : undefined;
+
+    return {
+      valid: true,
+      issuerAddress,
+      citizenAddress,
+      credentialHash: payload.credentialHash,
+      issuedAt: payload.iat * 1000,
+      expiresAt,
+      expired: expiresAt !== undefined && expiresAt < Date.now(),
+      ageCommitment: payload.ageCommitment,
+      issuerJwt: parsed.jwt,
+      disclosedClaims,
+    };
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Invalid SD-JWT presentation';
+    return { valid: false, error: errorMessage, disclosedClaims: {} };
+  }
+}
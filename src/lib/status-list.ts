@@ -0,0 +1,335 @@
+// Bitstring Status Lists (W3C Bitstring Status List v1.0)
+// Every credential has a position (statusListIndex) in one bitstring per status purpose. Issuers
+// publish each list as a signed BitstringStatusListCredential; verifiers download and cache the whole
+// list and check a single bit locally, so the issuer never learns which credential was checked.
+
+import { ethers } from 'ethers';
+import { supabase } from '@/integrations/supabase/client';
+import { addressToDid, didToAddress } from './did';
+import { canonicalJson, CanonicalValue } from './credential-canonical';
+import { base64UrlEncode, base64UrlDecode } from './sd-jwt';
+import { getCachedTrustSnapshot, refreshTrustSnapshot } from './offline-verification';
+import {
+  VC_CONTEXT_V2,
+  SECP256K1_RECOVERY_PROOF_TYPE,
+  STATUS_PURPOSES,
+  StatusPurpose,
+  getStatusListCredentialId,
+} from './verifiable-credentials';
+
+// 16 KB uncompressed, the minimum list size for herd privacy.
+// Keep in sync with next_status_list_index in the database.
+export const STATUS_LIST_SIZE = 131072;
+export const BITSTRING_STATUS_LIST_CREDENTIAL_TYPE = 'BitstringStatusListCredential';
+export const BITSTRING_STATUS_LIST_TYPE = 'BitstringStatusList';
+
+const STATUS_LIST_CACHE_PREFIX = 'status_list_';
+// Cached lists are reused for this long before downloading again
+const STATUS_LIST_CACHE_TTL_MS = 5 * 60 * 1000;
+// Supabase returns at most this many rows per request
+const CREDENTIAL_PAGE_SIZE = 1000;
+
+export interface StatusListProof {
+  type: typeof SECP256K1_RECOVERY_PROOF_TYPE;
+  created: string;
+  proofPurpose: 'assertionMethod';
+  verificationMethod: string;
+  proofValue: string;
+  // keccak256 of the canonical JSON of the credential without its proof, signed as an EIP-191 message
+  signedDigest: string;
+}
+
+export interface BitstringStatusListCredential {
+  '@context': string[];
+  id: string;
+  type: string[];
+  issuer: { id: string };
+  validFrom: string;
+  credentialSubject: {
+    id: string;
+    type: typeof BITSTRING_STATUS_LIST_TYPE;
+    statusPurpose: StatusPurpose;
+    // Multibase (base64url, "u" prefix) of the GZIP-compressed bitstring
+    encodedList: string;
+  };
+  proof: StatusListProof;
+}
+
+interface CachedStatusList {
+  credential: BitstringStatusListCredential;
+  // Local time the list was downloaded
+  fetchedAt: number;
+}
+
+export interface StatusListCheck {
+  success: boolean;
+  revoked?: boolean;
+  suspended?: boolean;
+  issuerAddress?: string;
+  // Oldest publication time of the lists used for the check
+  publishedAt?: string;
+  // Both lists came from the local cache
+  fromCache?: boolean;
+  error?: string;
+}
+
+async function gzip(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function gunzip(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Index 0 is the most significant bit of the first byte
+function setBit(bitstring: Uint8Array, index: number): void {
+  bitstring[Math.floor(index / 8)] |= 0x80 >> (index % 8);
+}
+
+function getBit(bitstring: Uint8Array, index: number): boolean {
+  return (bitstring[Math.floor(index / 8)] & (0x80 >> (index % 8))) !== 0;
+}
+
+export async function encodeStatusList(bitstring: Uint8Array): Promise<string> {
+  return `u${base64UrlEncode(await gzip(bitstring))}`;
+}
+
+export async function decodeStatusList(encodedList: string): Promise<Uint8Array> {
+  if (!encodedList.startsWith('u')) {
+    throw new Error('encodedList must be multibase base64url');
+  }
+  return gunzip(base64UrlDecode(encodedList.slice(1)));
+}
+
+function digestStatusListCredential(credential: Omit<BitstringStatusListCredential, 'proof'>): string {
+  return ethers.keccak256(ethers.toUtf8Bytes(canonicalJson(credential as unknown as CanonicalValue)));
+}
+
+// Sign a status list with the issuer's key
+async function createStatusListCredential(
+  privateKey: string,
+  statusPurpose: StatusPurpose,
+  bitstring: Uint8Array
+): Promise<BitstringStatusListCredential> {
+  const wallet = new ethers.Wallet(privateKey);
+  const issuerDid = addressToDid(wallet.address);
+  const listId = getStatusListCredentialId(statusPurpose);
+  const validFrom = new Date().toISOString();
+
+  const unsigned: Omit<BitstringStatusListCredential, 'proof'> = {
+    '@context': [VC_CONTEXT_V2],
+    id: listId,
+    type: ['VerifiableCredential', BITSTRING_STATUS_LIST_CREDENTIAL_TYPE],
+    issuer: { id: issuerDid },
+    validFrom,
+    credentialSubject: {
+      id: `${listId}#list`,
+      type: BITSTRING_STATUS_LIST_TYPE,
+      statusPurpose,
+      encodedList: await encodeStatusList(bitstring),
+    },
+  };
+
+  const signedDigest = digestStatusListCredential(unsigned);
+  return {
+    ...unsigned,
+    proof: {
+      type: SECP256K1_RECOVERY_PROOF_TYPE,
+      created: validFrom,
+      proofPurpose: 'assertionMethod',
+      verificationMethod: `${issuerDid}#blockchainAccountId`,
+      proofValue: await wallet.signMessage(ethers.getBytes(signedDigest)),
+      signedDigest,
+    },
+  };
+}
+
+// Check the proof of a status list; returns the signing issuer address or null
+export function verifyStatusListCredential(
+  credential: BitstringStatusListCredential,
+  statusPurpose: StatusPurpose
+): string | null {
+  try {
+    const { proof, ...unsigned } = credential;
+    if (
+      !proof ||
+      credential.id !== getStatusListCredentialId(statusPurpose) ||
+      !credential.type?.includes(BITSTRING_STATUS_LIST_CREDENTIAL_TYPE) ||
+      credential.credentialSubject?.statusPurpose !== statusPurpose ||
+      digestStatusListCredential(unsigned) !== proof.signedDigest
+    ) {
+      return null;
+    }
+
+    const issuerAddress = didToAddress(credential.issuer.id);
+    const recoveredAddress = ethers.verifyMessage(ethers.getBytes(proof.signedDigest), proof.proofValue);
+    return issuerAddress && recoveredAddress.toLowerCase() === issuerAddress.toLowerCase() ? issuerAddress : null;
+  } catch {
+    return null;
+  }
+}
+
+// Rebuild and publish both status lists from the credential records (admin only)
+// Revocation covers revoked and renewed credentials; suspension covers suspended ones.
+export async function publishStatusLists(privateKey: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return { success: false, error: 'Not authenticated' };
+    }
+
+    const bitstrings: Record<StatusPurpose, Uint8Array> = {
+      revocation: new Uint8Array(STATUS_LIST_SIZE / 8),
+      suspension: new Uint8Array(STATUS_LIST_SIZE / 8),
+    };
+
+    for (let from = 0; ; from += CREDENTIAL_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('credentials')
+        .select('status_list_index, revoked_at, superseded_at, suspended_at')
+        .or('revoked_at.not.is.null,superseded_at.not.is.null,suspended_at.not.is.null')
+        .order('status_list_index')
+        .range(from, from + CREDENTIAL_PAGE_SIZE - 1);
+
+      if (error) {
+        console.error('Error reading credential statuses:', error);
+        return { success: false, error: 'Failed to read credential statuses' };
+      }
+
+      for (const row of data) {
+        if (row.revoked_at || row.superseded_at) {
+          setBit(bitstrings.revocation, row.status_list_index);
+        } else if (row.suspended_at) {
+          setBit(bitstrings.suspension, row.status_list_index);
+        }
+      }
+
+      if (data.length < CREDENTIAL_PAGE_SIZE) break;
+    }
+
+    const wallet = new ethers.Wallet(privateKey);
+    for (const statusPurpose of STATUS_PURPOSES) {
+      const credential = await createStatusListCredential(privateKey, statusPurpose, bitstrings[statusPurpose]);
+      const { error } = await supabase
+        .from('credential_status_lists')
+        .upsert({
+          status_purpose: statusPurpose,
+          credential: JSON.parse(JSON.stringify(credential)),
+          issuer_address: wallet.address,
+          published_by: user.id,
+          published_at: credential.validFrom,
+        });
+
+      if (error) {
+        console.error('Error publishing status list:', error);
+        return { success: false, error: `Failed to publish the ${statusPurpose} list` };
+      }
+    }
+
+    return { success: true };
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to publish status lists';
+    return { success: false, error: errorMessage };
+  }
+}
+
+function getCachedStatusList(statusPurpose: StatusPurpose): CachedStatusList | null {
+  try {
+    const stored = localStorage.getItem(`${STATUS_LIST_CACHE_PREFIX}${statusPurpose}`);
+    return stored ? JSON.parse(stored) as CachedStatusList : null;
+  } catch {
+    return null;
+  }
+}
+
+// Download a status list, reusing the cached copy while it is fresh (or when offline)
+async function fetchStatusList(
+  statusPurpose: StatusPurpose
+): Promise<{ credential?: BitstringStatusListCredential; fromCache: boolean; error?: string }> {
+  const cached = getCachedStatusList(statusPurpose);
+  if (cached && Date.now() - cached.fetchedAt < STATUS_LIST_CACHE_TTL_MS) {
+    return { credential: cached.credential, fromCache: true };
+  }
+
+  const { data, error } = await supabase
+    .from('credential_status_lists')
+    .select('credential')
+    .eq('status_purpose', statusPurpose)
+    .maybeSingle();
+
+  if (error || !data) {
+    if (cached) {
+      return { credential: cached.credential, fromCache: true };
+    }
+    if (error) {
+      console.error('Error fetching status list:', error);
+    }
+    return { fromCache: false, error: error ? 'Failed to download the status list' : 'No status list has been published yet' };
+  }
+
+  const credential = data.credential as unknown as BitstringStatusListCredential;
+  const entry: CachedStatusList = { credential, fetchedAt: Date.now() };
+  localStorage.setItem(`${STATUS_LIST_CACHE_PREFIX}${statusPurpose}`, JSON.stringify(entry));
+  return { credential, fromCache: false };
+}
+
+// Check a credential's revocation and suspension bits against the published lists
+// Lists must be signed by a trusted issuer from the verifier's trust snapshot.
+export async function checkStatusListEntry(statusListIndex: number): Promise<StatusListCheck> {
+  try {
+    if (!Number.isInteger(statusListIndex) || statusListIndex < 0 || statusListIndex >= STATUS_LIST_SIZE) {
+      return { success: false, error: 'Status list index is out of range' };
+    }
+
+    const snapshot = getCachedTrustSnapshot() || (await refreshTrustSnapshot()).snapshot;
+    if (!snapshot) {
+      return { success: false, error: 'Trusted issuer list is not available' };
+    }
+
+    const bits: Partial<Record<StatusPurpose, boolean>> = {};
+    let issuerAddress: string | undefined;
+    let publishedAt: string | undefined;
+    let fromCache = true;
+
+    for (const statusPurpose of STATUS_PURPOSES) {
+      const list = await fetchStatusList(statusPurpose);
+      if (!list.credential) {
+        return { success: false, error: list.error };
+      }
+
+      const signer = verifyStatusListCredential(list.credential, statusPurpose);
+      if (!signer) {
+        return { success: false, error: `The ${statusPurpose} list signature is invalid` };
+      }
+      if (!snapshot.issuers.includes(signer.toLowerCase())) {
+        return { success: false, error: `The ${statusPurpose} list was not signed by a trusted issuer` };
+      }
+
+      const bitstring = await decodeStatusList(list.credential.credentialSubject.encodedList);
+      if (bitstring.length * 8 < STATUS_LIST_SIZE) {
+        return { success: false, error: `The ${statusPurpose} list is too short` };
+      }
+
+      bits[statusPurpose] = getBit(bitstring, statusListIndex);
+      issuerAddress = signer;
+      if (!publishedAt || list.credential.validFrom < publishedAt) {
+        publishedAt = list.credential.validFrom;
+      }
+      fromCache = fromCache && list.fromCache;
+    }
+
+    return {
+      success: true,
+      revoked: bits.revocation,
+      suspended: bits.suspension,
+      issuerAddress,
+      publishedAt,
+      fromCache,
+    };
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to check the status list';
+    return { success: false, error: errorMessage };
+  }
+}
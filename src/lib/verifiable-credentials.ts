@@ -0,0 +1,384 @@
+// W3C Verifiable Credentials (VC Data Model 2.0) serialization
+// Converts StoredCredential to/from a JSON-LD document that other wallets and verifiers understand
+// The proof is built from the existing issuer signature over the credential hash
+
+import { ethers } from 'ethers';
+import { addressToDid, didToAddress } from './did';
+import { StoredCredential, getCredentialSignatureVersion, verifyCredentialSignature } from './credential-storage';
+import {
+  CREDENTIAL_EIP712_DOMAIN_NAME,
+  CREDENTIAL_EIP712_PRIMARY_TYPE,
+  getCredentialDomain,
+  getCredentialTypes,
+} from './credential-typed-data';
+import { buildCanonicalPayload, serializeCanonicalPayload, hashCanonicalPayload } from './credential-canonical';
+import { CredentialAttributes, DEFAULT_CREDENTIAL_TYPE, DEFAULT_SCHEMA_VERSION } from './credential-schemas';
+
+export const VC_CONTEXT_V2 = 'https://www.w3.org/ns/credentials/v2';
+export const IDENTITY_CREDENTIAL_TYPE = 'IdentityCredential';
+export const SECP256K1_RECOVERY_PROOF_TYPE = 'EcdsaSecp256k1RecoverySignature2020';
+export const EIP712_PROOF_TYPE = 'EthereumEip712Signature2021';
+export const CREDENTIAL_SCHEMA_TYPE = 'CredentialSchemaRegistry';
+export const BITSTRING_STATUS_LIST_ENTRY_TYPE = 'BitstringStatusListEntry';
+
+// Bitstring Status List purposes published by the issuer (see status-list.ts)
+export type StatusPurpose = 'revocation' | 'suspension';
+export const STATUS_PURPOSES: StatusPurpose[] = ['revocation', 'suspension'];
+
+export interface VerifiableCredentialProof {
+  type: string;
+  created: string;
+  proofPurpose: 'assertionMethod';
+  verificationMethod: string;
+  proofValue: string;
+  // keccak256 credential hash covered by the signature
+  // (signed directly as an EIP-191 message, or as a member of the EIP-712 struct)
+  signedDigest: string;
+  eip712?: {
+    domain: ethers.TypedDataDomain;
+    types: Record<string, ethers.TypedDataField[]>;
+    primaryType: string;
+  };
+  // Where the credential hash is anchored, so verifiers can read it from the chain directly
+  anchor?: VerifiableCredentialAnchor;
+}
+
+export interface VerifiableCredentialAnchor {
+  contractVersion: number;
+  contractAddress: string;
+  credentialId?: string;
+  merkleRoot?: string;
+  merkleProof?: string[];
+}
+
+export interface IdentityCredentialSubject {
+  id: string;
+  fullName: string;
+  nationalId: string;
+  dateOfBirth?: string;
+  faceDescriptorHash?: string;
+  // Typed fields defined by the credential schema
+  attributes?: CredentialAttributes;
+}
+
+export interface VerifiableCredentialSchema {
+  id: string;
+  type: typeof CREDENTIAL_SCHEMA_TYPE;
+}
+
+// Position of the credential in a published status list
+export interface BitstringStatusListEntry {
+  id: string;
+  type: typeof BITSTRING_STATUS_LIST_ENTRY_TYPE;
+  statusPurpose: StatusPurpose;
+  statusListIndex: string;
+  statusListCredential: string;
+}
+
+export interface VerifiableCredentialDocument {
+  '@context': string[];
+  id: string;
+  type: string[];
+  issuer: { id: string };
+  validFrom: string;
+  validUntil?: string;
+  credentialSubject: IdentityCredentialSubject;
+  credentialSchema?: VerifiableCredentialSchema;
+  credentialStatus?: BitstringStatusListEntry[];
+  proof: VerifiableCredentialProof;
+}
+
+// Date-only values (YYYY-MM-DD) are valid until the end of that day (UTC)
+function expiryToDateTime(expiryDate: string): string {
+  return new Date(`${expiryDate}T23:59:59Z`).toISOString();
+}
+
+function dateTimeToExpiry(validUntil: string): string {
+  return new Date(validUntil).toISOString().slice(0, 10);
+}
+
+// Schema reference: urn:bbiv:schema:<credential type>:<version>
+function toSchemaId(credentialType: string, schemaVersion: number): string {
+  return `urn:bbiv:schema:${credentialType}:${schemaVersion}`;
+}
+
+function fromSchemaId(id: string): { credentialType: string; schemaVersion: number } | null {
+  const match = /^urn:bbiv:schema:([a-z][a-z0-9_]{1,49}):(\d+)$/.exec(id);
+  return match ? { credentialType: match[1], schemaVersion: Number(match[2]) } : null;
+}
+
+// Published status list credential: urn:bbiv:status-list:<purpose>
+export function getStatusListCredentialId(purpose: StatusPurpose): string {
+  return `urn:bbiv:status-list:${purpose}`;
+}
+
+function toStatusListEntries(statusListIndex: number): BitstringStatusListEntry[] {
+  return STATUS_PURPOSES.map((statusPurpose) => ({
+    id: `${getStatusListCredentialId(statusPurpose)}#${statusListIndex}`,
+    type: BITSTRING_STATUS_LIST_ENTRY_TYPE,
+    statusPurpose,
+    statusListIndex: String(statusListIndex),
+    statusListCredential: getStatusListCredentialId(statusPurpose),
+  }));
+}
+
+// All entries must point at the same position; returns null when the status is malformed
+function fromStatusListEntries(entries: unknown): number | null {
+  if (!Array.isArray(entries) || entries.length === 0) {
+    return null;
+  }
+
+  let statusListIndex: number | null = null;
+  for (const entry of entries as Partial<BitstringStatusListEntry>[]) {
+    if (
+      entry?.type !== BITSTRING_STATUS_LIST_ENTRY_TYPE ||
+      !STATUS_PURPOSES.includes(entry.statusPurpose as StatusPurpose) ||
+      entry.statusListCredential !== getStatusListCredentialId(entry.statusPurpose as StatusPurpose) ||
+      typeof entry.statusListIndex !== 'string' ||
+      !/^\d+$/.test(entry.statusListIndex)
+    ) {
+      return null;
+    }
+    const index = Number(entry.statusListIndex);
+    if (statusListIndex !== null && index !== statusListIndex) {
+      return null;
+    }
+    statusListIndex = index;
+  }
+  return statusListIndex;
+}
+
+// Anchor details are not signed; a wrong anchor only makes the on-chain lookup fail
+function isValidAnchor(anchor: Partial<VerifiableCredentialAnchor>): boolean {
+  return [1, 2, 3].includes(anchor.contractVersion as number) &&
+    typeof anchor.contractAddress === 'string' && ethers.isAddress(anchor.contractAddress) &&
+    (anchor.credentialId === undefined || typeof anchor.credentialId === 'string') &&
+    (anchor.merkleRoot === undefined || ethers.isHexString(anchor.merkleRoot, 32)) &&
+    (anchor.merkleProof === undefined ||
+      (Array.isArray(anchor.merkleProof) && anchor.merkleProof.every((node) => ethers.isHexString(node, 32))));
+}
+
+function isValidDateTime(value: unknown): value is string {
+  return typeof value === 'string' && !isNaN(new Date(value).getTime());
+}
+
+// Serialize a credential as a VC 2.0 JSON-LD document
+export function toVerifiableCredential(credential: StoredCredential): VerifiableCredentialDocument {
+  const issuerDid = addressToDid(credential.issuerAddress);
+
+  const credentialSubject: IdentityCredentialSubject = {
+    id: addressToDid(credential.citizenAddress),
+    fullName: credential.fullName,
+    nationalId: credential.nationalId,
+  };
+  if (credential.dateOfBirth) {
+    credentialSubject.dateOfBirth = credential.dateOfBirth;
+  }
+  if (credential.faceDescriptorHash) {
+    credentialSubject.faceDescriptorHash = credential.faceDescriptorHash;
+  }
+  if (credential.attributes && Object.keys(credential.attributes).length > 0) {
+    credentialSubject.attributes = credential.attributes;
+  }
+
+  const validFrom = new Date(credential.issuedAt).toISOString();
+
+  const proof: VerifiableCredentialProof = {
+    type: SECP256K1_RECOVERY_PROOF_TYPE,
+    created: validFrom,
+    proofPurpose: 'assertionMethod',
+    verificationMethod: `${issuerDid}#blockchainAccountId`,
+    proofValue: credential.signature,
+    signedDigest: credential.credentialHash,
+  };
+  if (credential.signatureScheme === 'eip712' && credential.chainId && credential.contractAddress) {
+    proof.type = EIP712_PROOF_TYPE;
+    const version = getCredentialSignatureVersion(credential);
+    proof.eip712 = {
+      domain: getCredentialDomain(credential.chainId, credential.contractAddress, version),
+      types: getCredentialTypes(version),
+      primaryType: CREDENTIAL_EIP712_PRIMARY_TYPE,
+    };
+  }
+  if (credential.contractAddress) {
+    proof.anchor = {
+      contractVersion: credential.contractVersion || 1,
+      contractAddress: credential.contractAddress,
+      ...(credential.id ? { credentialId: credential.id } : {}),
+      ...(credential.merkleRoot && credential.merkleProof
+        ? { merkleRoot: credential.merkleRoot, merkleProof: credential.merkleProof }
+        : {}),
+    };
+  }
+
+  return {
+    '@context': [VC_CONTEXT_V2],
+    id: `urn:bbiv:credential:${credential.credentialHash}`,
+    type: ['VerifiableCredential', IDENTITY_CREDENTIAL_TYPE],
+    issuer: { id: issuerDid },
+    validFrom,
+    ...(credential.expiryDate ? { validUntil: expiryToDateTime(credential.expiryDate) } : {}),
+    credentialSubject,
+    ...(credential.credentialType ? {
+      credentialSchema: {
+        id: toSchemaId(credential.credentialType, credential.schemaVersion || DEFAULT_SCHEMA_VERSION),
+        type: CREDENTIAL_SCHEMA_TYPE,
+      },
+    } : {}),
+    ...(credential.statusListIndex !== undefined ? { credentialStatus: toStatusListEntries(credential.statusListIndex) } : {}),
+    proof,
+  };
+}
+
+// Parse and validate a VC 2.0 document back into a StoredCredential
+export function fromVerifiableCredential(input: unknown): {
+  success: boolean;
+  credential?: StoredCredential;
+  error?: string;
+} {
+  try {
+    const doc = (typeof input === 'string' ? JSON.parse(input) : input) as Partial<VerifiableCredentialDocument>;
+
+    if (!doc || typeof doc !== 'object') {
+      return { success: false, error: 'Document is not a JSON object' };
+    }
+    if (!Array.isArray(doc['@context']) || doc['@context'][0] !== VC_CONTEXT_V2) {
+      return { success: false, error: 'Unsupported @context. Expected a VC Data Model 2.0 document.' };
+    }
+    if (!Array.isArray(doc.type) || !doc.type.includes('VerifiableCredential') || !doc.type.includes(IDENTITY_CREDENTIAL_TYPE)) {
+      return { success: false, error: `Document is not an ${IDENTITY_CREDENTIAL_TYPE}` };
+    }
+
+    const issuerId = typeof doc.issuer === 'string' ? doc.issuer : doc.issuer?.id;
+    const issuerAddress = issuerId ? didToAddress(issuerId) : null;
+    if (!issuerAddress) {
+      return { success: false, error: 'Issuer must be a did:pkh Ethereum account' };
+    }
+
+    const subject = doc.credentialSubject;
+    const citizenAddress = subject?.id ? didToAddress(subject.id) : null;
+    if (!subject || !citizenAddress) {
+      return { success: false, error: 'credentialSubject.id must be a did:pkh Ethereum account' };
+    }
+    if (typeof subject.fullName !== 'string' || !subject.fullName) {
+      return { success: false, error: 'credentialSubject.fullName is required' };
+    }
+    if (typeof subject.nationalId !== 'string' || !subject.nationalId) {
+      return { success: false, error: 'credentialSubject.nationalId is required' };
+    }
+
+    if (!isValidDateTime(doc.validFrom)) {
+      return { success: false, error: 'validFrom must be an ISO 8601 date-time' };
+    }
+    if (doc.validUntil !== undefined && !isValidDateTime(doc.validUntil)) {
+      return { success: false, error: 'validUntil must be an ISO 8601 date-time' };
+    }
+
+    const proof = doc.proof;
+    if (!proof || (proof.type !== SECP256K1_RECOVERY_PROOF_TYPE && proof.type !== EIP712_PROOF_TYPE)) {
+      return {
+        success: false,
+        error: `Unsupported proof type. Expected ${EIP712_PROOF_TYPE} or ${SECP256K1_RECOVERY_PROOF_TYPE}.`
+      };
+    }
+    if (!proof.proofValue || !ethers.isHexString(proof.signedDigest, 32)) {
+      return { success: false, error: 'Proof is missing its signature or signed digest' };
+    }
+
+    const schemaRef = doc.credentialSchema ? fromSchemaId(doc.credentialSchema.id) : null;
+    if (doc.credentialSchema && !schemaRef) {
+      return { success: false, error: 'credentialSchema.id is not a registered credential schema' };
+    }
+    if (subject.attributes !== undefined && (typeof subject.attributes !== 'object' || Array.isArray(subject.attributes))) {
+      return { success: false, error: 'credentialSubject.attributes must be an object' };
+    }
+
+    const statusListIndex = doc.credentialStatus !== undefined ? fromStatusListEntries(doc.credentialStatus) : undefined;
+    if (statusListIndex === null) {
+      return { success: false, error: `credentialStatus must list ${BITSTRING_STATUS_LIST_ENTRY_TYPE} entries for one status list index` };
+    }
+
+    if (proof.anchor !== undefined && !isValidAnchor(proof.anchor)) {
+      return { success: false, error: 'Proof has an invalid anchor' };
+    }
+
+    let eip712Domain: { chainId: number; contractAddress: string } | undefined;
+    if (proof.type === EIP712_PROOF_TYPE) {
+      const domain = proof.eip712?.domain;
+      if (
+        !domain ||
+        domain.name !== CREDENTIAL_EIP712_DOMAIN_NAME ||
+        proof.eip712?.primaryType !== CREDENTIAL_EIP712_PRIMARY_TYPE ||
+        !domain.chainId ||
+        typeof domain.verifyingContract !== 'string' ||
+        !ethers.isAddress(domain.verifyingContract)
+      ) {
+        return { success: false, error: 'Proof has an invalid EIP-712 domain' };
+      }
+      eip712Domain = { chainId: Number(domain.chainId), contractAddress: domain.verifyingContract };
+    }
+
+    const credential: StoredCredential = {
+      citizenAddress,
+      credentialHash: proof.signedDigest,
+      signature: proof.proofValue,
+      issuerAddress,
+      issuedAt: new Date(doc.validFrom).getTime(),
+      fullName: subject.fullName,
+      dateOfBirth: subject.dateOfBirth || '',
+      nationalId: subject.nationalId,
+      expiryDate: doc.validUntil ? dateTimeToExpiry(doc.validUntil) : '',
+      faceDescriptorHash: subject.faceDescriptorHash,
+      signatureScheme: eip712Domain ? 'eip712' : 'eip191',
+      chainId: eip712Domain?.chainId,
+      contractAddress: eip712Domain?.contractAddress ?? proof.anchor?.contractAddress,
+      contractVersion: proof.anchor?.contractVersion,
+      id: proof.anchor?.credentialId,
+      merkleRoot: proof.anchor?.merkleRoot,
+      merkleProof: proof.anchor?.merkleProof,
+      credentialType: schemaRef?.credentialType,
+      schemaVersion: schemaRef?.schemaVersion,
+      attributes: subject.attributes,
+      statusListIndex,
+    };
+
+    if (!verifyCredentialSignature(credential)) {
+      return { success: false, error: 'Proof signature does not match the issuer' };
+    }
+
+    // The proof only covers the hash (or, for EIP-712, some of the claims), so the document's claims
+    // must recompute it: current payload version first, which also covers the status list position,
+    // then version 2 and version 1 for credentials issued before the position or schemas.
+    // Otherwise the claims shown could be swapped under a genuine proof.
+    for (const version of statusListIndex !== undefined ? [3, 2, 1] : [2, 1]) {
+      const canonicalPayload = serializeCanonicalPayload(buildCanonicalPayload({
+        citizenAddress: credential.citizenAddress,
+        issuerAddress: credential.issuerAddress,
+        fullName: credential.fullName,
+        nationalId: credential.nationalId,
+        dateOfBirth: credential.dateOfBirth,
+        expiryDate: credential.expiryDate,
+        credentialType: credential.credentialType || DEFAULT_CREDENTIAL_TYPE,
+        schemaVersion: credential.schemaVersion,
+        attributes: credential.attributes,
+        statusListIndex,
+      }, new Date(credential.issuedAt), version));
+      if (hashCanonicalPayload(canonicalPayload) === credential.credentialHash.toLowerCase()) {
+        credential.canonicalPayload = canonicalPayload;
+        break;
+      }
+    }
+
+    if (!credential.canonicalPayload) {
+      return {
+        success: false,
+        error: 'The claims in the document do not match its credential hash. Credentials issued before canonical hashing can only be verified by holder address.',
+      };
+    }
+
+    return { success: true, credential };
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Invalid verifiable credential';
+    return { success: false, error: errorMessage };
+  }
+}
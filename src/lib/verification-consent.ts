@@ -0,0 +1,204 @@
+// Consent-gated verification of personal data
+// A verifier asks a citizen for the personal data fields it needs and why. The citizen approves for a
+// limited time or denies; an approval carries a token that verify_credential accepts from that
+// verifier only. Without one, verifiers see a credential's status but not who it belongs to.
+
+import { supabase } from '@/integrations/supabase/client';
+import { getRetryAfter, rateLimitMessage } from './rate-limit';
+
+export const CONSENT_FIELDS = ['fullName', 'nationalId', 'dateOfBirth', 'attributes'] as const;
+export type ConsentField = typeof CONSENT_FIELDS[number];
+
+export const CONSENT_FIELD_LABELS: Record<ConsentField, string> = {
+  fullName: 'Full Name',
+  nationalId: 'National ID',
+  dateOfBirth: 'Date of Birth',
+  attributes: 'Credential details',
+};
+
+export type ConsentStatus = 'pending' | 'approved' | 'denied' | 'withdrawn';
+
+// How long an approval lasts, offered to the citizen
+export const CONSENT_DURATIONS = [
+  { minutes: 15, label: '15 minutes' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 24 * 60, label: '1 day' },
+  { minutes: 7 * 24 * 60, label: '7 days' },
+];
+
+export interface VerificationConsent {
+  id: string;
+  verifierUserId: string;
+  verifierLabel?: string;
+  citizenAddress: string;
+  requestedFields: ConsentField[];
+  purpose: string;
+  status: ConsentStatus;
+  // Only set on approved requests; visible to the verifier and the citizen
+  token?: string;
+  expiresAt?: string;
+  createdAt: string;
+  decidedAt?: string;
+}
+
+interface DatabaseVerificationConsent {
+  id: string;
+  verifier_user_id: string;
+  verifier_label: string | null;
+  citizen_address: string;
+  requested_fields: string[];
+  purpose: string;
+  status: string;
+  token: string | null;
+  expires_at: string | null;
+  created_at: string;
+  decided_at: string | null;
+}
+
+function toVerificationConsent(row: DatabaseVerificationConsent): VerificationConsent {
+  return {
+    id: row.id,
+    verifierUserId: row.verifier_user_id,
+    verifierLabel: row.verifier_label || undefined,
+    citizenAddress: row.citizen_address,
+    requestedFields: row.requested_fields as ConsentField[],
+    purpose: row.purpose,
+    status: row.status as ConsentStatus,
+    token: row.token || undefined,
+    expiresAt: row.expires_at || undefined,
+    createdAt: row.created_at,
+    decidedAt: row.decided_at || undefined,
+  };
+}
+
+// An approval that can still be used
+export function isConsentActive(consent: VerificationConsent): boolean {
+  return consent.status === 'approved'
+    && !!consent.token
+    && !!consent.expiresAt
+    && new Date(consent.expiresAt).getTime() > Date.now();
+}
+
+export async function requestVerificationConsent(
+  citizenAddress: string,
+  fields: ConsentField[],
+  purpose: string
+): Promise<{ success: boolean; id?: string; error?: string }> {
+  try {
+    const { data, error } = await supabase.rpc('request_verification_consent', {
+      _citizen_address: citizenAddress,
+      _fields: fields,
+      _purpose: purpose.trim(),
+    });
+
+    if (error) {
+      console.error('Error requesting consent:', error);
+      const retryAfter = getRetryAfter(error);
+      return { success: false, error: retryAfter ? rateLimitMessage(retryAfter) : 'Failed to send the request' };
+    }
+
+    return data as unknown as { success: boolean; id?: string; error?: string };
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to send the request';
+    return { success: false, error: errorMessage };
+  }
+}
+
+// The signed-in verifier's requests to the holder of an address, newest first
+export async function getMyConsentRequestsFor(citizenAddress: string): Promise<VerificationConsent[]> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('verification_consents')
+      .select('*')
+      .eq('verifier_user_id', user.id)
+      .ilike('citizen_address', citizenAddress)
+      .order('created_at', { ascending: false })
+      .limit(10);
+
+    if (error) {
+      console.error('Error fetching consent requests:', error);
+      return [];
+    }
+
+    return (data || []).map((row) => toVerificationConsent(row as DatabaseVerificationConsent));
+  } catch (error) {
+    console.error('Error fetching consent requests:', error);
+    return [];
+  }
+}
+
+// Requests addressed to the signed-in citizen, newest first
+export async function getConsentRequestsForMe(limit = 20): Promise<VerificationConsent[]> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('verification_consents')
+      .select('*')
+      .eq('citizen_user_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching consent requests:', error);
+      return [];
+    }
+
+    return (data || []).map((row) => toVerificationConsent(row as DatabaseVerificationConsent));
+  } catch (error) {
+    console.error('Error fetching consent requests:', error);
+    return [];
+  }
+}
+
+// Approve for a number of minutes, or deny (the citizen only)
+export async function decideVerificationConsent(
+  consentId: string,
+  approve: boolean,
+  validMinutes?: number
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { data, error } = await supabase.rpc('decide_verification_consent', {
+      _consent_id: consentId,
+      _approve: approve,
+      _valid_minutes: validMinutes,
+    });
+
+    if (error) {
+      console.error('Error answering consent request:', error);
+      return { success: false, error: 'Failed to answer the request' };
+    }
+
+    return data as unknown as { success: boolean; error?: string };
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to answer the request';
+    return { success: false, error: errorMessage };
+  }
+}
+
+// Withdraw an approval before it expires (the citizen only)
+export async function withdrawVerificationConsent(consentId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { data, error } = await supabase.rpc('withdraw_verification_consent', {
+      _consent_id: consentId,
+    });
+
+    if (error) {
+      console.error('Error withdrawing consent:', error);
+      return { success: false, error: 'Failed to withdraw consent' };
+    }
+
+    return data as unknown as { success: boolean; error?: string };
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to withdraw consent';
+    return { success: false, error: errorMessage };
+  }
+}
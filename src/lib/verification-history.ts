@@ -0,0 +1,101 @@
+// Verification history
+// Who checked a citizen's credentials, when, with what result and which fields they saw. The database
+// records lookups in verify_credential, and presentations and age proofs when they are checked
+// against the registry (check_sd_jwt_presentation, see checkPresentedCredential).
+
+import { supabase } from '@/integrations/supabase/client';
+import { DISCLOSABLE_CLAIM_LABELS, DisclosableClaim } from './sd-jwt';
+
+export type VerificationMethod = 'lookup' | 'presentation' | 'age_proof';
+
+export type VerificationResult = 'valid' | 'invalid' | 'revoked' | 'superseded' | 'suspended' | 'expired';
+
+export const VERIFICATION_METHOD_LABELS: Record<VerificationMethod, string> = {
+  lookup: 'Looked up your credential',
+  presentation: 'Checked a presentation you shared',
+  age_proof: 'Checked an age proof you shared',
+};
+
+export const VERIFICATION_RESULT_LABELS: Record<VerificationResult, string> = {
+  valid: 'Valid',
+  invalid: 'Invalid',
+  revoked: 'Revoked',
+  superseded: 'Renewed',
+  suspended: 'Suspended',
+  expired: 'Expired',
+};
+
+export interface VerificationEvent {
+  id: string;
+  credentialId: string;
+  verifierUserId?: string;
+  verifierLabel?: string;
+  verifierAddress?: string;
+  method: VerificationMethod;
+  result: VerificationResult;
+  disclosedFields: string[];
+  verifiedAt: string;
+}
+
+interface DatabaseVerificationEvent {
+  id: string;
+  credential_id: string;
+  verifier_user_id: string | null;
+  verifier_label: string | null;
+  verifier_address: string | null;
+  method: string;
+  result: string;
+  disclosed_fields: string[];
+  verified_at: string;
+}
+
+// Age proofs disclose only the predicate, recorded as ageOver<years>
+export function ageOverField(ageOver: number): string {
+  return `ageOver${ageOver}`;
+}
+
+export function getDisclosedFieldLabel(field: string): string {
+  const ageOver = /^ageOver(\d+)$/.exec(field);
+  if (ageOver) {
+    return `Over ${ageOver[1]}`;
+  }
+  return DISCLOSABLE_CLAIM_LABELS[field as DisclosableClaim]
+    || field.replace(/_/g, ' ').replace(/^\w/, (c) => c.toUpperCase());
+}
+
+// Checks of the signed-in citizen's credentials by others, newest first
+export async function getMyVerificationHistory(limit = 50): Promise<VerificationEvent[]> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('verification_events')
+      .select('*')
+      .eq('citizen_user_id', user.id)
+      .order('verified_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching verification history:', error);
+      return [];
+    }
+
+    return (data || []).map((row: DatabaseVerificationEvent) => ({
+      id: row.id,
+      credentialId: row.credential_id,
+      verifierUserId: row.verifier_user_id || undefined,
+      verifierLabel: row.verifier_label || undefined,
+      verifierAddress: row.verifier_address || undefined,
+      method: row.method as VerificationMethod,
+      result: row.result as VerificationResult,
+      disclosedFields: row.disclosed_fields || [],
+      verifiedAt: row.verified_at,
+    }));
+  } catch (error) {
+    console.error('Error fetching verification history:', error);
+    return [];
+  }
+}
@@ -0,0 +1,102 @@
+// API keys for the verifier REST API
+// Partner systems verify credentials from their backends through the verifier-api edge function.
+// Admins issue a key per partner account and revoke it when the partnership ends; the key is only
+// shown once, the database keeps its SHA-256.
+
+import { supabase } from '@/integrations/supabase/client';
+
+// Base URL partners call, e.g. POST <base>/verify
+export const VERIFIER_API_BASE_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/verifier-api`;
+
+export interface VerifierApiKey {
+  id: string;
+  name: string;
+  verifierUserId: string;
+  verifierLabel: string;
+  keyPrefix: string;
+  createdAt: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+}
+
+interface DatabaseVerifierApiKey {
+  id: string;
+  name: string;
+  verifier_user_id: string;
+  verifier_label: string;
+  key_prefix: string;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+// All keys, active ones first (admin only)
+export async function listVerifierApiKeys(): Promise<VerifierApiKey[]> {
+  try {
+    const { data, error } = await supabase
+      .from('verifier_api_keys')
+      .select('id, name, verifier_user_id, verifier_label, key_prefix, created_at, last_used_at, revoked_at')
+      .order('revoked_at', { ascending: false, nullsFirst: true })
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching API keys:', error);
+      return [];
+    }
+
+    return (data || []).map((row: DatabaseVerifierApiKey) => ({
+      id: row.id,
+      name: row.name,
+      verifierUserId: row.verifier_user_id,
+      verifierLabel: row.verifier_label,
+      keyPrefix: row.key_prefix,
+      createdAt: row.created_at,
+      lastUsedAt: row.last_used_at || undefined,
+      revokedAt: row.revoked_at || undefined,
+    }));
+  } catch (error) {
+    console.error('Error fetching API keys:', error);
+    return [];
+  }
+}
+
+// Issue a key acting as the partner account with this username. apiKey is only returned here.
+export async function createVerifierApiKey(
+  name: string,
+  verifierUsername: string
+): Promise<{ success: boolean; id?: string; apiKey?: string; error?: string }> {
+  try {
+    const { data, error } = await supabase.rpc('create_verifier_api_key', {
+      _name: name.trim(),
+      _verifier_username: verifierUsername.trim(),
+    });
+
+    if (error) {
+      console.error('Error creating API key:', error);
+      return { success: false, error: 'Failed to create the API key' };
+    }
+
+    return data as unknown as { success: boolean; id?: string; apiKey?: string; error?: string };
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to create the API key';
+    return { success: false, error: errorMessage };
+  }
+}
+
+export async function revokeVerifierApiKey(keyId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { data, error } = await supabase.rpc('revoke_verifier_api_key', {
+      _key_id: keyId,
+    });
+
+    if (error) {
+      console.error('Error revoking API key:', error);
+      return { success: false, error: 'Failed to revoke the API key' };
+    }
+
+    return data as unknown as { success: boolean; error?: string };
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to revoke the API key';
+    return { success: false, error: errorMessage };
+  }
+}
@@ -1,6 +1,12 @@
 import { ethers } from 'ethers';
 import { NETWORKS, Network, DEFAULT_NETWORK } from './networks';
-import { getCredentialContractAddress, CREDENTIAL_CONTRACT_ABI } from './contracts';
+import {
+  getCredentialContractAddress,
+  CREDENTIAL_CONTRACT_ABI,
+  CREDENTIAL_REGISTRY_V2_ABI,
+  CREDENTIAL_BATCH_REGISTRY_ABI,
+  credentialIdToBytes32,
+} from './contracts';
 
 export interface WalletState {
   address: string;
@@ -184,6 +190,190 @@ export async function getStoredCredential(
   }
 }
 
+// Get a v2 credential registry (credentials keyed by ID)
+export function getCredentialRegistryV2(
+  contractAddress: string,
+  signerOrProvider: ethers.Signer | ethers.Provider
+) {
+  return new ethers.Contract(contractAddress, CREDENTIAL_REGISTRY_V2_ABI, signerOrProvider);
+}
+
+// Issue credential on a v2 registry
+export async function issueCredentialV2(
+  privateKey: string,
+  contractAddress: string,
+  credentialId: string,
+  holderAddress: string,
+  credentialHash: string,
+  networkId: string = 'sepolia'
+): Promise<{ success: boolean; txHash?: string; error?: string }> {
+  try {
+    const signer = getSigner(privateKey, networkId);
+    const contract = getCredentialRegistryV2(contractAddress, signer);
+
+    const tx = await contract.issueCredential(credentialIdToBytes32(credentialId), holderAddress, credentialHash);
+    const receipt = await tx.wait();
+
+    return { success: true, txHash: receipt.hash };
+  } catch (error: unknown) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to issue credential' };
+  }
+}
+
+// Revoke credential on a v2 registry
+export async function revokeCredentialV2(
+  privateKey: string,
+  contractAddress: string,
+  credentialId: string,
+  networkId: string = 'sepolia'
+): Promise<{ success: boolean; txHash?: string; error?: string }> {
+  try {
+    const signer = getSigner(privateKey, networkId);
+    const contract = getCredentialRegistryV2(contractAddress, signer);
+
+    const tx = await contract.revokeCredential(credentialIdToBytes32(credentialId));
+    const receipt = await tx.wait();
+
+    return { success: true, txHash: receipt.hash };
+  } catch (error: unknown) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to revoke credential' };
+  }
+}
+
+// Renew a credential on a v2 registry: revokes the predecessor and anchors its successor atomically
+export async function renewCredentialV2(
+  privateKey: string,
+  contractAddress: string,
+  previousCredentialId: string,
+  credentialId: string,
+  credentialHash: string,
+  networkId: string = 'sepolia'
+): Promise<{ success: boolean; txHash?: string; error?: string }> {
+  try {
+    const signer = getSigner(privateKey, networkId);
+    const contract = getCredentialRegistryV2(contractAddress, signer);
+
+    const tx = await contract.renewCredential(
+      credentialIdToBytes32(previousCredentialId),
+      credentialIdToBytes32(credentialId),
+      credentialHash
+    );
+    const receipt = await tx.wait();
+
+    return { success: true, txHash: receipt.hash };
+  } catch (error: unknown) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to renew credential' };
+  }
+}
+
+// Get the anchored hash of a credential on a v2 registry (null when missing or revoked)
+export async function getStoredCredentialV2(
+  contractAddress: string,
+  credentialId: string,
+  networkId: string = 'sepolia'
+): Promise<{ holder: string; hash: string } | null> {
+  try {
+    const provider = getProvider(networkId);
+    const contract = getCredentialRegistryV2(contractAddress, provider);
+
+    const [holder, hash, , revokedAt] = await contract.credentials(credentialIdToBytes32(credentialId));
+    if (holder === ethers.ZeroAddress || revokedAt !== 0n) {
+      return null;
+    }
+
+    return { holder, hash: hash.toString() };
+  } catch (error) {
+    console.error('Error getting credential:', error);
+    return null;
+  }
+}
+
+// Get a batch registry (Merkle roots of credential batches)
+export function getCredentialBatchRegistry(
+  contractAddress: string,
+  signerOrProvider: ethers.Signer | ethers.Provider
+) {
+  return new ethers.Contract(contractAddress, CREDENTIAL_BATCH_REGISTRY_ABI, signerOrProvider);
+}
+
+// Anchor the Merkle root of a credential batch
+export async function anchorMerkleRoot(
+  privateKey: string,
+  contractAddress: string,
+  merkleRoot: string,
+  leafCount: number,
+  networkId: string = 'sepolia'
+): Promise<{ success: boolean; txHash?: string; error?: string }> {
+  try {
+    const signer = getSigner(privateKey, networkId);
+    const contract = getCredentialBatchRegistry(contractAddress, signer);
+
+    const tx = await contract.anchorRoot(merkleRoot, leafCount);
+    const receipt = await tx.wait();
+
+    return { success: true, txHash: receipt.hash };
+  } catch (error: unknown) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to anchor batch' };
+  }
+}
+
+// Revoke one credential of an anchored batch by its leaf
+export async function revokeBatchCredential(
+  privateKey: string,
+  contractAddress: string,
+  leaf: string,
+  networkId: string = 'sepolia'
+): Promise<{ success: boolean; txHash?: string; error?: string }> {
+  try {
+    const signer = getSigner(privateKey, networkId);
+    const contract = getCredentialBatchRegistry(contractAddress, signer);
+
+    const tx = await contract.revokeLeaf(leaf);
+    const receipt = await tx.wait();
+
+    return { success: true, txHash: receipt.hash };
+  } catch (error: unknown) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to revoke credential' };
+  }
+}
+
+// When a batch root was anchored (milliseconds), or null when it is not on-chain
+export async function getMerkleRootAnchor(
+  contractAddress: string,
+  merkleRoot: string,
+  networkId: string = 'sepolia'
+): Promise<number | null> {
+  try {
+    const provider = getProvider(networkId);
+    const contract = getCredentialBatchRegistry(contractAddress, provider);
+
+    const [anchoredAt] = await contract.roots(merkleRoot);
+    return anchoredAt === 0n ? null : Number(anchoredAt) * 1000;
+  } catch (error) {
+    console.error('Error getting batch root:', error);
+    return null;
+  }
+}
+
+// Check a credential leaf and its inclusion proof against an anchored root (false when revoked)
+export async function getStoredCredentialBatch(
+  contractAddress: string,
+  merkleRoot: string,
+  leaf: string,
+  proof: string[],
+  networkId: string = 'sepolia'
+): Promise<boolean> {
+  try {
+    const provider = getProvider(networkId);
+    const contract = getCredentialBatchRegistry(contractAddress, provider);
+
+    return await contract.verifyCredential(merkleRoot, leaf, proof);
+  } catch (error) {
+    console.error('Error verifying batch credential:', error);
+    return false;
+  }
+}
+
 // Sign a message
 export async function signMessage(privateKey: string, message: string): Promise<string> {
   const wallet = new ethers.Wallet(privateKey);
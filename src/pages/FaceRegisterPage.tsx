@@ -60,13 +60,21 @@ export default function FaceRegisterPage() {
       const faceHash = hashFaceDescriptor(faceDescriptor);
 
       // Check if a similar face is already registered using Euclidean distance
-      let similarityResult = { exists: false, walletAddress: null as string | null };
+      let similarityResult: { exists: boolean; walletAddress: string | null; error?: string } = { exists: false, walletAddress: null };
       try {
         similarityResult = await checkFaceSimilarity(faceDescriptor);
       } catch (similarityError) {
         console.error('Face similarity check error:', similarityError);
         // Continue with registration if similarity check fails (first user case)
       }
+
+      // Rate limited: registering without the duplicate check would defeat it
+      if (similarityResult.error) {
+        setError(similarityResult.error);
+        setShowCamera(false);
+        setIsRegistering(false);
+        return;
+      }
       
       if (similarityResult.exists) {
         const walletDisplay = similarityResult.walletAddress 
@@ -1,15 +1,39 @@
+import { useState } from 'react';
 import { FileCheck, AlertTriangle, Info } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { CredentialIssuer } from '@/components/credentials/CredentialIssuer';
+import { BulkCredentialIssuer } from '@/components/credentials/BulkCredentialIssuer';
 import { CredentialRevoker } from '@/components/credentials/CredentialRevoker';
+import { BulkCredentialRevoker } from '@/components/credentials/BulkCredentialRevoker';
+import { CredentialRenewer } from '@/components/credentials/CredentialRenewer';
 import { ContractDeployer } from '@/components/credentials/ContractDeployer';
+import { SchemaRegistry } from '@/components/credentials/SchemaRegistry';
+import { BatchAnchorPanel } from '@/components/credentials/BatchAnchorPanel';
+import { CredentialRequestQueue } from '@/components/credentials/CredentialRequestQueue';
+import { AuditLogViewer } from '@/components/credentials/AuditLogViewer';
+import { RateLimitSettings } from '@/components/credentials/RateLimitSettings';
+import { VerifierApiKeyManager } from '@/components/credentials/VerifierApiKeyManager';
 import { useWallet } from '@/contexts/WalletContext';
 import { getCredentialContractAddress } from '@/lib/contracts';
+import { CredentialRequest } from '@/lib/credential-requests';
 export default function IssuerPage() {
   const { address } = useWallet();
   const contractAddress = getCredentialContractAddress();
+  const [activeTab, setActiveTab] = useState('issue');
+  // Request opened from the review queue; issuing its credential approves it
+  const [approvingRequest, setApprovingRequest] = useState<CredentialRequest | null>(null);
+
+  const approveRequest = (request: CredentialRequest) => {
+    setApprovingRequest(request);
+    setActiveTab('issue');
+  };
+
+  const closeRequest = () => {
+    setApprovingRequest(null);
+    setActiveTab('requests');
+  };
 
   return (
     <div className="container mx-auto px-4 py-8">
@@ -39,21 +63,52 @@ export default function IssuerPage() {
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           <div className="lg:col-span-2">
-            <Tabs defaultValue="issue" className="w-full">
-              <TabsList className="grid w-full grid-cols-2 mb-4">
-                <TabsTrigger value="issue">Issue Credential</TabsTrigger>
-                <TabsTrigger value="revoke">Revoke Credential</TabsTrigger>
+            <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+              <TabsList className="grid w-full grid-cols-5 md:grid-cols-9 h-auto mb-4">
+                <TabsTrigger value="issue">Issue</TabsTrigger>
+                <TabsTrigger value="requests">Requests</TabsTrigger>
+                <TabsTrigger value="bulk">Bulk</TabsTrigger>
+                <TabsTrigger value="renew">Renew</TabsTrigger>
+                <TabsTrigger value="revoke">Status</TabsTrigger>
+                <TabsTrigger value="bulk-revoke">Bulk Revoke</TabsTrigger>
+                <TabsTrigger value="types">Types</TabsTrigger>
+                <TabsTrigger value="audit">Audit</TabsTrigger>
+                <TabsTrigger value="api">API</TabsTrigger>
               </TabsList>
               <TabsContent value="issue">
-                <CredentialIssuer />
+                <CredentialIssuer request={approvingRequest} onRequestClosed={closeRequest} />
+              </TabsContent>
+              <TabsContent value="requests">
+                <CredentialRequestQueue onApprove={approveRequest} />
+              </TabsContent>
+              <TabsContent value="bulk">
+                <BulkCredentialIssuer />
+              </TabsContent>
+              <TabsContent value="renew">
+                <CredentialRenewer />
               </TabsContent>
               <TabsContent value="revoke">
                 <CredentialRevoker />
               </TabsContent>
+              <TabsContent value="bulk-revoke">
+                <BulkCredentialRevoker />
+              </TabsContent>
+              <TabsContent value="types">
+                <SchemaRegistry />
+              </TabsContent>
+              <TabsContent value="audit" className="space-y-6">
+                <AuditLogViewer />
+                <RateLimitSettings />
+              </TabsContent>
+              <TabsContent value="api">
+                <VerifierApiKeyManager />
+              </TabsContent>
             </Tabs>
           </div>
 
           <div className="space-y-6">
+            <BatchAnchorPanel />
+
             <Card className="border-border bg-card">
               <CardHeader>
                 <CardTitle className="text-lg">Contract Info</CardTitle>
@@ -83,7 +138,7 @@ export default function IssuerPage() {
                 </div>
                 <div className="flex gap-2">
                   <span className="text-primary font-bold">2.</span>
-                  <p>Fill in their identity information</p>
+                  <p>Choose the credential type and fill in its fields</p>
                 </div>
                 <div className="flex gap-2">
                   <span className="text-primary font-bold">3.</span>
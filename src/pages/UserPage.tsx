@@ -5,6 +5,7 @@ import { Button } from '@/components/ui/button';
 import { useWallet } from '@/contexts/WalletContext';
 import { WalletCard } from '@/components/wallet/WalletCard';
 import { UserCredentialView } from '@/components/credentials/UserCredentialView';
+import { CredentialRequestForm } from '@/components/credentials/CredentialRequestForm';
 
 export default function UserPage() {
   const { isConnected } = useWallet();
@@ -62,6 +63,8 @@ export default function UserPage() {
                   </Link>
                 </CardContent>
               </Card>
+
+              <CredentialRequestForm />
             </div>
 
             <UserCredentialView />
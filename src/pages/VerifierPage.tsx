@@ -1,7 +1,10 @@
 import { Shield, Info, CheckCircle } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { CredentialVerifier } from '@/components/credentials/CredentialVerifier';
+import { PresentationVerifier } from '@/components/credentials/PresentationVerifier';
+import { OfflineVerifier } from '@/components/credentials/OfflineVerifier';
 import { CREDENTIAL_CONTRACT_ADDRESS } from '@/lib/contracts';
 
 export default function VerifierPage() {
@@ -28,7 +31,22 @@ export default function VerifierPage() {
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           <div className="lg:col-span-2">
-            <CredentialVerifier />
+            <Tabs defaultValue="address" className="w-full">
+              <TabsList className="grid w-full grid-cols-3 mb-4">
+                <TabsTrigger value="address">Wallet Address</TabsTrigger>
+                <TabsTrigger value="presentation">Presentation</TabsTrigger>
+                <TabsTrigger value="offline">Offline</TabsTrigger>
+              </TabsList>
+              <TabsContent value="address">
+                <CredentialVerifier />
+              </TabsContent>
+              <TabsContent value="presentation">
+                <PresentationVerifier />
+              </TabsContent>
+              <TabsContent value="offline">
+                <OfflineVerifier />
+              </TabsContent>
+            </Tabs>
           </div>
 
           <div className="space-y-6">
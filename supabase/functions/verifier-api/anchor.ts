@@ -0,0 +1,78 @@
+// On-chain anchor check for the verifier API
+// Mirrors getAnchoredCredentialHash in src/lib/credential-storage.ts: v2 credentials are looked up
+// by ID, v1 credentials by holder address, and batch credentials by their inclusion proof against
+// the anchored root.
+
+import { ethers } from 'npm:ethers@6';
+
+// Same defaults as the web app (src/lib/networks.ts, src/lib/contracts.ts)
+const RPC_URL = Deno.env.get('VERIFIER_RPC_URL') || 'https://1rpc.io/sepolia';
+const V1_CONTRACT_ADDRESS = Deno.env.get('VERIFIER_V1_CONTRACT_ADDRESS') || '0xfB5E4033246E11851d9AC9f19109F734400f2Fc0';
+
+const V1_ABI = ['function credentials(address) view returns (bytes32)'];
+const V2_ABI = ['function credentials(bytes32) view returns (address holder, bytes32 hash, uint64 issuedAt, uint64 revokedAt)'];
+const BATCH_ABI = ['function verifyCredential(bytes32 _root, bytes32 _leaf, bytes32[] _proof) view returns (bool)'];
+
+export interface AnchoredCredential {
+  id?: string;
+  citizenAddress: string;
+  credentialHash: string;
+  contractVersion?: number;
+  contractAddress?: string;
+  merkleRoot?: string;
+  merkleProof?: string[];
+}
+
+function credentialIdToBytes32(credentialId: string): string {
+  return `0x${credentialId.replace(/-/g, '').toLowerCase().padStart(64, '0')}`;
+}
+
+function computeCredentialLeaf(credentialId: string, holderAddress: string, credentialHash: string): string {
+  return ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(
+    ['bytes32', 'address', 'bytes32'],
+    [credentialIdToBytes32(credentialId), holderAddress, credentialHash]
+  ));
+}
+
+function verifyMerkleProof(leaf: string, proof: string[], root: string): boolean {
+  try {
+    const computed = proof.reduce((node, sibling) => {
+      const [first, second] = node.toLowerCase() < sibling.toLowerCase() ? [node, sibling] : [sibling, node];
+      return ethers.keccak256(ethers.concat([first, second]));
+    }, leaf);
+    return computed.toLowerCase() === root.toLowerCase();
+  } catch {
+    return false;
+  }
+}
+
+// The hash anchored on-chain for the credential, or null if it is not (or no longer) anchored
+export async function getAnchoredCredentialHash(credential: AnchoredCredential): Promise<string | null> {
+  const provider = new ethers.JsonRpcProvider(RPC_URL);
+
+  if (credential.contractVersion === 3) {
+    if (!credential.id || !credential.contractAddress || !credential.merkleRoot || !credential.merkleProof) {
+      return null;
+    }
+    const leaf = computeCredentialLeaf(credential.id, credential.citizenAddress, credential.credentialHash);
+    if (!verifyMerkleProof(leaf, credential.merkleProof, credential.merkleRoot)) {
+      return null;
+    }
+    const registry = new ethers.Contract(credential.contractAddress, BATCH_ABI, provider);
+    const included: boolean = await registry.verifyCredential(credential.merkleRoot, leaf, credential.merkleProof);
+    return included ? credential.credentialHash : null;
+  }
+
+  if (credential.contractVersion === 2 && credential.id && credential.contractAddress) {
+    const registry = new ethers.Contract(credential.contractAddress, V2_ABI, provider);
+    const [holder, hash, , revokedAt] = await registry.credentials(credentialIdToBytes32(credential.id));
+    if (holder === ethers.ZeroAddress || revokedAt !== 0n) {
+      return null;
+    }
+    return holder.toLowerCase() === credential.citizenAddress.toLowerCase() ? hash.toString() : null;
+  }
+
+  const contract = new ethers.Contract(V1_CONTRACT_ADDRESS, V1_ABI, provider);
+  const hash = (await contract.credentials(credential.citizenAddress)).toString();
+  return hash === ethers.ZeroHash ? null : hash;
+}
@@ -0,0 +1,379 @@
+// Verifier REST API for partner systems
+// Partners call with an API key issued by an admin (x-api-key header, or Authorization: Bearer).
+// The key acts as a partner account: personal data needs that account's consent (consentToken),
+// checks show up in the citizen's verification history, and the account's rate limits apply.
+//
+//   POST /challenge    one-time challenge for the holder to answer, valid for five minutes
+//   POST /verify       { address, credentialId?, credentialHash?, consentToken? }
+//                      { presentation, consentToken? }  holder-bound presentation answering a challenge
+//   GET  /status/:id   lifecycle status of a credential by ID
+//   GET  /issuers      wallet addresses of the authorized issuers
+//
+// Results carry `valid`, the credential `status`, the on-chain anchor check and an `explanation`.
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { ethers } from 'npm:ethers@6';
+import { getAnchoredCredentialHash } from './anchor.ts';
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+  { auth: { persistSession: false } }
+);
+
+const HOLDER_PRESENTATION_TYPE = 'HolderBoundPresentation';
+
+const STATUS_EXPLANATIONS: Record<string, string> = {
+  active: 'The credential is active.',
+  revoked: 'The credential has been revoked by its issuer.',
+  superseded: 'The credential has been renewed; only its replacement is valid.',
+  suspended: 'The credential is temporarily suspended by its issuer.',
+  expired: 'The credential has passed its expiry date.',
+};
+
+interface VerifyCredentialResponse {
+  isValid: boolean;
+  error?: string | null;
+  consentError?: string | null;
+  unauthorized?: boolean;
+  credential?: {
+    id: string;
+    status: string;
+    fullName?: string;
+    nationalId?: string;
+    dateOfBirth?: string | null;
+    attributes?: Record<string, unknown>;
+    expiryDate: string | null;
+    issuerAddress: string;
+    issuedAt: string;
+    credentialHash: string;
+    credentialType?: string;
+    schemaVersion?: number;
+    contractVersion?: number | null;
+    contractAddress?: string | null;
+    merkleRoot?: string | null;
+    merkleProof?: string[] | null;
+    withheldFields?: string[];
+  };
+}
+
+interface HolderPresentation {
+  type: string;
+  citizenAddress: string;
+  credentialHash: string;
+  nonce: string;
+  verifierId: string;
+  signature: string;
+}
+
+function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+function getApiKey(req: Request): string | null {
+  const header = req.headers.get('x-api-key');
+  if (header) return header.trim();
+  const authorization = req.headers.get('authorization');
+  return authorization?.startsWith('Bearer vk_') ? authorization.slice('Bearer '.length).trim() : null;
+}
+
+// Same message the holder signs in the app (src/lib/holder-binding.ts)
+function buildHolderBindingMessage(nonce: string, credentialHash: string, verifierId: string): string {
+  return [
+    'Identity credential presentation',
+    `Credential: ${credentialHash.toLowerCase()}`,
+    `Verifier: ${verifierId}`,
+    `Nonce: ${nonce.toLowerCase()}`,
+  ].join('\n');
+}
+
+// Format and holder signature of a presentation; the nonce is consumed separately (see handleVerify)
+function checkHolderPresentation(input: unknown): { presentation?: HolderPresentation; error?: string } {
+  let presentation: HolderPresentation;
+  try {
+    presentation = (typeof input === 'string' ? JSON.parse(input) : input) as HolderPresentation;
+  } catch {
+    return { error: 'Presentation is not valid JSON' };
+  }
+
+  if (presentation?.type !== HOLDER_PRESENTATION_TYPE) {
+    return { error: 'Unsupported presentation format' };
+  }
+  if (
+    !ethers.isAddress(presentation.citizenAddress) ||
+    !ethers.isHexString(presentation.credentialHash, 32) ||
+    !ethers.isHexString(presentation.nonce, 16) ||
+    typeof presentation.verifierId !== 'string'
+  ) {
+    return { error: 'Malformed presentation' };
+  }
+
+  try {
+    const message = buildHolderBindingMessage(presentation.nonce, presentation.credentialHash, presentation.verifierId);
+    const signer = ethers.verifyMessage(message, presentation.signature);
+    if (signer.toLowerCase() !== presentation.citizenAddress.toLowerCase()) {
+      return { error: 'Presentation was not signed by the credential holder' };
+    }
+  } catch {
+    return { error: 'Presentation signature is invalid' };
+  }
+
+  return { presentation };
+}
+
+// Turn the database result and the on-chain check into the API result
+async function buildResult(citizenAddress: string, response: VerifyCredentialResponse, holderConfirmed?: boolean) {
+  const credential = response.credential;
+  if (!credential) {
+    return {
+      valid: false,
+      status: 'not_found',
+      explanation: [response.error || 'No credential found.'],
+    };
+  }
+
+  const explanation = [STATUS_EXPLANATIONS[credential.status] || `Credential status: ${credential.status}.`];
+  if (holderConfirmed) {
+    explanation.push('The holder signed the presentation with the credential\'s wallet.');
+  }
+
+  let anchoredHash: string | null = null;
+  let chainError: string | undefined;
+  try {
+    anchoredHash = await getAnchoredCredentialHash({
+      id: credential.id,
+      citizenAddress,
+      credentialHash: credential.credentialHash,
+      contractVersion: credential.contractVersion ?? undefined,
+      contractAddress: credential.contractAddress ?? undefined,
+      merkleRoot: credential.merkleRoot ?? undefined,
+      merkleProof: credential.merkleProof ?? undefined,
+    });
+  } catch (error) {
+    console.error('Error reading the blockchain:', error);
+    chainError = 'The blockchain could not be reached, so the anchor was not checked.';
+  }
+  const hashMatch = anchoredHash !== null && anchoredHash.toLowerCase() === credential.credentialHash.toLowerCase();
+  // The chain was read and holds another hash: the registry record is not the anchored credential
+  const anchorMismatch = !chainError && anchoredHash !== null && !hashMatch;
+
+  if (chainError) {
+    explanation.push(chainError);
+  } else if (hashMatch) {
+    explanation.push('The credential hash is anchored on-chain and matches the registry.');
+  } else if (anchoredHash) {
+    explanation.push('A different hash is anchored on-chain for this holder; the record may have been replaced.');
+  } else {
+    explanation.push('The credential is not anchored on-chain (yet), so only the registry vouches for it.');
+  }
+
+  const withheldFields = credential.withheldFields || [];
+  if (withheldFields.length > 0) {
+    explanation.push(
+      `Personal data withheld without the holder's consent: ${withheldFields.join(', ')}. ` +
+      'Request consent from the partner account and pass its consentToken.'
+    );
+  }
+  if (response.consentError) {
+    explanation.push(response.consentError);
+  }
+
+  return {
+    valid: response.isValid && !anchorMismatch,
+    status: anchorMismatch ? 'anchor_mismatch' : credential.status,
+    explanation,
+    holderConfirmed: holderConfirmed || undefined,
+    credential: {
+      id: credential.id,
+      citizenAddress,
+      credentialType: credential.credentialType,
+      schemaVersion: credential.schemaVersion,
+      credentialHash: credential.credentialHash,
+      issuerAddress: credential.issuerAddress,
+      issuedAt: credential.issuedAt,
+      expiryDate: credential.expiryDate,
+      fullName: credential.fullName,
+      nationalId: credential.nationalId,
+      dateOfBirth: credential.dateOfBirth,
+      attributes: credential.attributes,
+      withheldFields,
+    },
+    onChain: {
+      checked: !chainError,
+      anchored: anchoredHash !== null,
+      hashMatch,
+      anchoredHash,
+      contractVersion: credential.contractVersion ?? 1,
+    },
+  };
+}
+
+// Map an RPC failure to an HTTP response; rate limit rejections keep their Retry-After
+function rpcErrorResponse(error: { code?: string; message?: string; details?: string }): Response {
+  if (error.code === 'rate_limited') {
+    const retryAfter = error.details || '60';
+    return json({ error: `Too many requests. Retry after ${retryAfter} seconds.`, retryAfter: Number(retryAfter) }, 429, {
+      'Retry-After': retryAfter,
+    });
+  }
+  console.error('Verifier API RPC error:', error);
+  return json({ error: 'Verification failed' }, 500);
+}
+
+async function handleVerify(req: Request, apiKey: string): Promise<Response> {
+  let body: Record<string, unknown>;
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: 'Request body must be JSON' }, 400);
+  }
+
+  const consentToken = typeof body.consentToken === 'string' ? body.consentToken : undefined;
+  let citizenAddress: string;
+  let credentialId: string | undefined;
+  let credentialHash: string | undefined;
+  let holderConfirmed = false;
+
+  if (body.presentation !== undefined) {
+    const check = checkHolderPresentation(body.presentation);
+    if (!check.presentation) {
+      return json({ valid: false, status: 'invalid_presentation', explanation: [check.error] }, 400);
+    }
+
+    // Each challenge issued to this key's account is accepted once, so a copied presentation is refused
+    const { data: consumed, error: consumeError } = await supabase.rpc('api_consume_presentation_challenge', {
+      _api_key: apiKey,
+      _nonce: check.presentation.nonce,
+      _verifier_id: check.presentation.verifierId,
+    });
+    if (consumeError) {
+      return rpcErrorResponse(consumeError);
+    }
+    const consumeResult = consumed as { success: boolean; unauthorized?: boolean; error?: string };
+    if (consumeResult.unauthorized) {
+      return json({ error: consumeResult.error }, 401);
+    }
+    if (!consumeResult.success) {
+      return json({ valid: false, status: 'invalid_presentation', explanation: [consumeResult.error] }, 400);
+    }
+
+    citizenAddress = check.presentation.citizenAddress;
+    credentialHash = check.presentation.credentialHash;
+    holderConfirmed = true;
+  } else {
+    if (typeof body.address !== 'string' || !ethers.isAddress(body.address)) {
+      return json({ error: 'A valid address or a presentation is required' }, 400);
+    }
+    citizenAddress = body.address;
+    credentialId = typeof body.credentialId === 'string' ? body.credentialId : undefined;
+    credentialHash = typeof body.credentialHash === 'string' ? body.credentialHash : undefined;
+  }
+
+  const { data, error } = await supabase.rpc('api_verify_credential', {
+    _api_key: apiKey,
+    _citizen_address: citizenAddress,
+    _credential_id: credentialId,
+    _credential_hash: credentialHash,
+    _consent_token: consentToken,
+  });
+  if (error) {
+    return rpcErrorResponse(error);
+  }
+
+  const response = data as VerifyCredentialResponse;
+  if (response.unauthorized) {
+    return json({ error: response.error }, 401);
+  }
+
+  return json(await buildResult(citizenAddress, response, holderConfirmed));
+}
+
+async function handleChallenge(apiKey: string): Promise<Response> {
+  const { data, error } = await supabase.rpc('api_create_presentation_challenge', { _api_key: apiKey });
+  if (error) {
+    return rpcErrorResponse(error);
+  }
+
+  const response = data as { success: boolean; unauthorized?: boolean; error?: string; challenge?: unknown };
+  if (response.unauthorized) {
+    return json({ error: response.error }, 401);
+  }
+  return json({
+    challenge: response.challenge,
+    explanation: ['Show this challenge to the holder and send their signed presentation to /verify within five minutes.'],
+  });
+}
+
+async function handleStatus(credentialId: string, apiKey: string): Promise<Response> {
+  const { data, error } = await supabase.rpc('api_credential_status', {
+    _api_key: apiKey,
+    _credential_id: credentialId,
+  });
+  if (error) {
+    return rpcErrorResponse(error);
+  }
+
+  const response = data as VerifyCredentialResponse & { citizenAddress?: string };
+  if (response.unauthorized) {
+    return json({ error: response.error }, 401);
+  }
+  if (!response.credential) {
+    return json({ valid: false, status: 'not_found', explanation: [response.error || 'No credential found with this ID.'] }, 404);
+  }
+
+  return json(await buildResult(response.citizenAddress || '', response));
+}
+
+async function handleIssuers(): Promise<Response> {
+  const { data, error } = await supabase.rpc('get_offline_trust_snapshot');
+  if (error) {
+    return rpcErrorResponse(error);
+  }
+  const snapshot = data as { issuers: string[]; generatedAt: string };
+  return json({
+    issuers: snapshot.issuers,
+    generatedAt: snapshot.generatedAt,
+    explanation: ['Credentials are valid only when signed by one of these issuer addresses.'],
+  });
+}
+
+Deno.serve(async (req) => {
+  const path = new URL(req.url).pathname.replace(/^.*\/verifier-api/, '') || '/';
+
+  const apiKey = getApiKey(req);
+  if (!apiKey) {
+    return json({ error: 'An API key is required (x-api-key header)' }, 401);
+  }
+
+  try {
+    if (path === '/challenge') {
+      return req.method === 'POST' ? await handleChallenge(apiKey) : json({ error: 'Use POST' }, 405);
+    }
+
+    if (path === '/verify') {
+      return req.method === 'POST' ? await handleVerify(req, apiKey) : json({ error: 'Use POST' }, 405);
+    }
+
+    const statusMatch = /^\/status\/([0-9a-f-]{36})$/i.exec(path);
+    if (statusMatch) {
+      return req.method === 'GET' ? await handleStatus(statusMatch[1], apiKey) : json({ error: 'Use GET' }, 405);
+    }
+
+    if (path === '/issuers') {
+      if (req.method !== 'GET') {
+        return json({ error: 'Use GET' }, 405);
+      }
+      // The list is public, but the key is still checked so the API has one access rule
+      const { data: keyValid } = await supabase.rpc('act_as_api_verifier', { _api_key: apiKey });
+      return keyValid ? await handleIssuers() : json({ error: 'Invalid or revoked API key' }, 401);
+    }
+
+    return json({ error: 'Not found' }, 404);
+  } catch (error) {
+    console.error('Verifier API error:', error);
+    return json({ error: 'Internal error' }, 500);
+  }
+});
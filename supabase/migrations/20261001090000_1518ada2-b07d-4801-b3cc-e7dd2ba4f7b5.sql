@@ -0,0 +1,68 @@
+-- Track how each credential was signed so EIP-712 signatures can be verified
+-- Existing credentials were signed with personal_sign (EIP-191) over the credential hash
+ALTER TABLE public.credentials
+ADD COLUMN IF NOT EXISTS signature_scheme TEXT NOT NULL DEFAULT 'eip191',
+ADD COLUMN IF NOT EXISTS chain_id INTEGER DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS contract_address TEXT DEFAULT NULL;
+
+ALTER TABLE public.credentials
+ADD CONSTRAINT credentials_signature_scheme_check CHECK (signature_scheme IN ('eip191', 'eip712'));
+
+-- EIP-712 signatures are bound to a chain and verifying contract
+ALTER TABLE public.credentials
+ADD CONSTRAINT credentials_eip712_domain_check CHECK (
+  signature_scheme <> 'eip712' OR (chain_id IS NOT NULL AND contract_address IS NOT NULL)
+);
+
+-- Return the issuer signature and its domain so verifiers can check it client-side
+CREATE OR REPLACE FUNCTION public.verify_credential(_citizen_address TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cred RECORD;
+  cred_json JSONB;
+BEGIN
+  SELECT * INTO cred
+  FROM public.credentials
+  WHERE citizen_address = _citizen_address;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'isValid', false,
+      'error', 'No credential found for this address'
+    );
+  END IF;
+
+  cred_json := jsonb_build_object(
+    'fullName', cred.full_name,
+    'nationalId', cred.national_id,
+    'dateOfBirth', cred.date_of_birth,
+    'expiryDate', cred.expiry_date,
+    'issuerAddress', cred.issuer_address,
+    'issuedAt', cred.issued_at,
+    'credentialHash', cred.credential_hash,
+    'signature', cred.signature,
+    'signatureScheme', cred.signature_scheme,
+    'chainId', cred.chain_id,
+    'contractAddress', cred.contract_address
+  );
+
+  -- Check expiry
+  IF cred.expiry_date IS NOT NULL AND cred.expiry_date::date < CURRENT_DATE THEN
+    RETURN jsonb_build_object(
+      'isValid', false,
+      'error', 'Credential has expired',
+      'credential', cred_json
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'isValid', true,
+    'credential', cred_json
+  );
+END;
+$$;
@@ -0,0 +1,58 @@
+-- Store the exact canonical payload that the credential hash was computed from
+-- Legacy credentials hashed an unpersisted timestamp, so their payload stays NULL
+ALTER TABLE public.credentials
+ADD COLUMN IF NOT EXISTS canonical_payload TEXT DEFAULT NULL;
+
+-- Include the canonical payload so verifiers can recompute the credential hash
+CREATE OR REPLACE FUNCTION public.verify_credential(_citizen_address TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cred RECORD;
+  cred_json JSONB;
+BEGIN
+  SELECT * INTO cred
+  FROM public.credentials
+  WHERE citizen_address = _citizen_address;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'isValid', false,
+      'error', 'No credential found for this address'
+    );
+  END IF;
+
+  cred_json := jsonb_build_object(
+    'fullName', cred.full_name,
+    'nationalId', cred.national_id,
+    'dateOfBirth', cred.date_of_birth,
+    'expiryDate', cred.expiry_date,
+    'issuerAddress', cred.issuer_address,
+    'issuedAt', cred.issued_at,
+    'credentialHash', cred.credential_hash,
+    'signature', cred.signature,
+    'signatureScheme', cred.signature_scheme,
+    'chainId', cred.chain_id,
+    'contractAddress', cred.contract_address,
+    'canonicalPayload', cred.canonical_payload
+  );
+
+  -- Check expiry
+  IF cred.expiry_date IS NOT NULL AND cred.expiry_date::date < CURRENT_DATE THEN
+    RETURN jsonb_build_object(
+      'isValid', false,
+      'error', 'Credential has expired',
+      'credential', cred_json
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'isValid', true,
+    'credential', cred_json
+  );
+END;
+$$;
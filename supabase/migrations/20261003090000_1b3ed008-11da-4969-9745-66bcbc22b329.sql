@@ -0,0 +1,4 @@
+-- Issuer-signed SD-JWT (with all disclosures) kept for the holder to build selective disclosure presentations
+-- Only visible to the citizen and admins through the existing credentials RLS policies
+ALTER TABLE public.credentials
+ADD COLUMN IF NOT EXISTS sd_jwt TEXT DEFAULT NULL;
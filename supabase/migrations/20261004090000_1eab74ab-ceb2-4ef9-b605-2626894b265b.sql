@@ -0,0 +1,4 @@
+-- Secret seed of the hash-chain age commitment signed into the SD-JWT
+-- The holder needs it to derive age-over-threshold proofs; verify_credential never returns it
+ALTER TABLE public.credentials
+ADD COLUMN IF NOT EXISTS age_proof_seed TEXT DEFAULT NULL;
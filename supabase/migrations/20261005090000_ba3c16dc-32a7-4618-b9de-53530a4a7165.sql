@@ -0,0 +1,28 @@
+-- Trust data for offline verification
+-- Returns the wallet addresses of authorized issuers (admins) and the hashes of revoked
+-- credentials. Contains no personal data, so it is callable without signing in.
+CREATE OR REPLACE FUNCTION public.get_offline_trust_snapshot()
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'issuers', COALESCE((
+      SELECT jsonb_agg(DISTINCT LOWER(p.wallet_address))
+      FROM public.profiles p
+      JOIN public.user_roles ur ON ur.user_id = p.user_id
+      WHERE ur.role = 'admin'::app_role
+        AND p.wallet_address IS NOT NULL
+    ), '[]'::jsonb),
+    'revokedHashes', COALESCE((
+      SELECT jsonb_agg(LOWER(c.credential_hash))
+      FROM public.credentials c
+      WHERE c.revoked_at IS NOT NULL
+    ), '[]'::jsonb),
+    'generatedAt', now()
+  )
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_offline_trust_snapshot() TO anon, authenticated;
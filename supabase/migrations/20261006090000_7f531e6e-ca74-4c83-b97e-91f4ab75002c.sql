@@ -0,0 +1,3 @@
+-- Compact issuer-signed QR (COSE_Sign1, zlib, Base45) created at issuance for the holder
+ALTER TABLE public.credentials
+ADD COLUMN IF NOT EXISTS compact_qr TEXT DEFAULT NULL;
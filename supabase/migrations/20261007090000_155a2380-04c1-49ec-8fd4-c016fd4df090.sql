@@ -0,0 +1,3 @@
+-- Keep the issuance transaction so holders can link to it (e.g. on a printed credential)
+ALTER TABLE public.credentials
+ADD COLUMN IF NOT EXISTS issuance_tx_hash TEXT DEFAULT NULL;
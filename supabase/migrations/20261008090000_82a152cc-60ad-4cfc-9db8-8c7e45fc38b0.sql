@@ -0,0 +1,146 @@
+-- Credential schema registry
+-- Every credential keeps the core holder fields (name, national ID, date of birth, expiry);
+-- a schema adds the typed fields of a credential type. Schemas are versioned and a published
+-- version is never edited: changes are published as a new version.
+CREATE TABLE public.credential_schemas (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  credential_type TEXT NOT NULL CHECK (credential_type ~ '^[a-z][a-z0-9_]{1,49}$'),
+  version INTEGER NOT NULL DEFAULT 1 CHECK (version > 0),
+  name TEXT NOT NULL,
+  description TEXT DEFAULT NULL,
+  fields JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(fields) = 'array'),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (credential_type, version)
+);
+
+ALTER TABLE public.credential_schemas ENABLE ROW LEVEL SECURITY;
+
+-- Verifiers need schemas to display credentials, so they are public
+CREATE POLICY "Anyone can view credential schemas"
+ON public.credential_schemas
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can create credential schemas"
+ON public.credential_schemas
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'::app_role));
+
+-- Only activation can change; fields of a published version stay fixed (see trigger below)
+CREATE POLICY "Admins can update credential schemas"
+ON public.credential_schemas
+FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+CREATE OR REPLACE FUNCTION public.prevent_schema_definition_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.credential_type <> OLD.credential_type
+     OR NEW.version <> OLD.version
+     OR NEW.fields <> OLD.fields THEN
+    RAISE EXCEPTION 'Published schema versions cannot be modified; publish a new version instead';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER credential_schemas_immutable
+BEFORE UPDATE ON public.credential_schemas
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_schema_definition_change();
+
+-- Built-in credential types
+INSERT INTO public.credential_schemas (credential_type, version, name, description, fields) VALUES
+('identity', 1, 'Identity Credential', 'Core identity credential with no additional fields', '[]'::jsonb),
+('driver_licence', 1, 'Driver Licence', 'Licence to drive motor vehicles', '[
+  {"key": "licenceNumber", "label": "Licence Number", "type": "string", "required": true, "pattern": "^[A-Z0-9-]{5,20}$"},
+  {"key": "vehicleClass", "label": "Vehicle Class", "type": "enum", "required": true, "options": ["A", "B", "C", "D", "E"]},
+  {"key": "restrictions", "label": "Restrictions", "type": "string", "maxLength": 100}
+]'::jsonb),
+('student_id', 1, 'Student ID', 'Enrolment at an educational institution', '[
+  {"key": "institution", "label": "Institution", "type": "string", "required": true, "maxLength": 100},
+  {"key": "studentNumber", "label": "Student Number", "type": "string", "required": true, "pattern": "^[A-Za-z0-9-]{3,30}$"},
+  {"key": "enrolmentYear", "label": "Enrolment Year", "type": "number", "required": true, "min": 1900, "max": 2100},
+  {"key": "fullTime", "label": "Full-time", "type": "boolean"}
+]'::jsonb),
+('residency_permit', 1, 'Residency Permit', 'Permission to reside in the country', '[
+  {"key": "permitNumber", "label": "Permit Number", "type": "string", "required": true, "pattern": "^[A-Z0-9-]{5,20}$"},
+  {"key": "permitType", "label": "Permit Type", "type": "enum", "required": true, "options": ["temporary", "permanent"]},
+  {"key": "nationality", "label": "Nationality", "type": "string", "required": true, "maxLength": 60},
+  {"key": "validFrom", "label": "Valid From", "type": "date", "required": true}
+]'::jsonb);
+
+-- Existing credentials are identity credentials (schema version 1)
+ALTER TABLE public.credentials
+ADD COLUMN IF NOT EXISTS credential_type TEXT NOT NULL DEFAULT 'identity',
+ADD COLUMN IF NOT EXISTS schema_version INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN IF NOT EXISTS attributes JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE public.credentials
+ADD CONSTRAINT credentials_schema_fkey
+FOREIGN KEY (credential_type, schema_version)
+REFERENCES public.credential_schemas (credential_type, version);
+
+-- Return the credential type, schema version and schema fields
+CREATE OR REPLACE FUNCTION public.verify_credential(_citizen_address TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cred RECORD;
+  cred_json JSONB;
+BEGIN
+  SELECT * INTO cred
+  FROM public.credentials
+  WHERE citizen_address = _citizen_address;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'isValid', false,
+      'error', 'No credential found for this address'
+    );
+  END IF;
+
+  cred_json := jsonb_build_object(
+    'fullName', cred.full_name,
+    'nationalId', cred.national_id,
+    'dateOfBirth', cred.date_of_birth,
+    'expiryDate', cred.expiry_date,
+    'issuerAddress', cred.issuer_address,
+    'issuedAt', cred.issued_at,
+    'credentialHash', cred.credential_hash,
+    'signature', cred.signature,
+    'signatureScheme', cred.signature_scheme,
+    'chainId', cred.chain_id,
+    'contractAddress', cred.contract_address,
+    'canonicalPayload', cred.canonical_payload,
+    'credentialType', cred.credential_type,
+    'schemaVersion', cred.schema_version,
+    'attributes', cred.attributes
+  );
+
+  -- Check expiry
+  IF cred.expiry_date IS NOT NULL AND cred.expiry_date::date < CURRENT_DATE THEN
+    RETURN jsonb_build_object(
+      'isValid', false,
+      'error', 'Credential has expired',
+      'credential', cred_json
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'isValid', true,
+    'credential', cred_json
+  );
+END;
+$$;
@@ -0,0 +1,171 @@
+-- Multiple credentials per holder
+-- Credentials are keyed by their ID instead of the holder address. A holder may hold several
+-- credentials, but only one active (non-revoked) credential of each type.
+ALTER TABLE public.credentials
+DROP CONSTRAINT IF EXISTS credentials_citizen_address_key;
+
+CREATE UNIQUE INDEX credentials_active_type_per_holder
+ON public.credentials (citizen_address, credential_type)
+WHERE revoked_at IS NULL;
+
+-- 1 = anchored on the v1 contract (hash keyed by holder address)
+-- 2 = anchored on the v2 registry (hash keyed by credential ID)
+ALTER TABLE public.credentials
+ADD COLUMN IF NOT EXISTS contract_version INTEGER NOT NULL DEFAULT 1 CHECK (contract_version IN (1, 2));
+
+-- Optionally restrict the existence check to active credentials of one type
+DROP FUNCTION IF EXISTS public.credential_exists_for_address(TEXT);
+
+CREATE OR REPLACE FUNCTION public.credential_exists_for_address(
+  _address TEXT,
+  _credential_type TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.credentials
+    WHERE citizen_address = _address
+      AND (_credential_type IS NULL OR (credential_type = _credential_type AND revoked_at IS NULL))
+  )
+$$;
+
+-- A holder's own credentials are not duplicates of the face being issued to them
+DROP FUNCTION IF EXISTS public.check_credential_face_similarity(float8[], float8);
+
+CREATE OR REPLACE FUNCTION public.check_credential_face_similarity(
+  _descriptor float8[],
+  _threshold float8 DEFAULT 0.6,
+  _exclude_address TEXT DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  existing_descriptor float8[];
+  distance float8;
+BEGIN
+  -- Add artificial delay to slow down enumeration attacks
+  PERFORM pg_sleep(0.1);
+
+  -- Check credentials table for similar faces
+  FOR existing_descriptor IN
+    SELECT face_descriptor
+    FROM public.credentials
+    WHERE face_descriptor IS NOT NULL
+      AND (_exclude_address IS NULL OR LOWER(citizen_address) <> LOWER(_exclude_address))
+  LOOP
+    -- Calculate Euclidean distance between descriptors
+    SELECT SQRT(SUM(POWER(a.val - b.val, 2)))
+    INTO distance
+    FROM (SELECT unnest(_descriptor) as val, generate_subscripts(_descriptor, 1) as idx) a
+    JOIN (SELECT unnest(existing_descriptor) as val, generate_subscripts(existing_descriptor, 1) as idx) b
+    ON a.idx = b.idx;
+
+    IF distance < _threshold THEN
+      RETURN true;
+    END IF;
+  END LOOP;
+
+  RETURN false;
+END;
+$$;
+
+-- Verify one credential of a holder, selected by ID or hash.
+-- Without either, the most recently issued active credential is returned.
+DROP FUNCTION IF EXISTS public.verify_credential(TEXT);
+
+CREATE OR REPLACE FUNCTION public.verify_credential(
+  _citizen_address TEXT,
+  _credential_id UUID DEFAULT NULL,
+  _credential_hash TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cred RECORD;
+  cred_json JSONB;
+BEGIN
+  SELECT * INTO cred
+  FROM public.credentials
+  WHERE citizen_address = _citizen_address
+    AND (_credential_id IS NULL OR id = _credential_id)
+    AND (_credential_hash IS NULL OR LOWER(credential_hash) = LOWER(_credential_hash))
+  ORDER BY (revoked_at IS NULL) DESC, issued_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'isValid', false,
+      'error', 'No credential found for this address'
+    );
+  END IF;
+
+  cred_json := jsonb_build_object(
+    'id', cred.id,
+    'fullName', cred.full_name,
+    'nationalId', cred.national_id,
+    'dateOfBirth', cred.date_of_birth,
+    'expiryDate', cred.expiry_date,
+    'issuerAddress', cred.issuer_address,
+    'issuedAt', cred.issued_at,
+    'credentialHash', cred.credential_hash,
+    'signature', cred.signature,
+    'signatureScheme', cred.signature_scheme,
+    'chainId', cred.chain_id,
+    'contractAddress', cred.contract_address,
+    'contractVersion', cred.contract_version,
+    'canonicalPayload', cred.canonical_payload,
+    'credentialType', cred.credential_type,
+    'schemaVersion', cred.schema_version,
+    'attributes', cred.attributes
+  );
+
+  -- Check expiry
+  IF cred.expiry_date IS NOT NULL AND cred.expiry_date::date < CURRENT_DATE THEN
+    RETURN jsonb_build_object(
+      'isValid', false,
+      'error', 'Credential has expired',
+      'credential', cred_json
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'isValid', true,
+    'credential', cred_json
+  );
+END;
+$$;
+
+-- Summary of the credentials held by an address, so verifiers can choose which one to check
+CREATE OR REPLACE FUNCTION public.list_holder_credentials(_citizen_address TEXT)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', c.id,
+    'credentialType', c.credential_type,
+    'schemaVersion', c.schema_version,
+    'typeName', s.name,
+    'issuedAt', c.issued_at,
+    'expiryDate', c.expiry_date,
+    'revoked', c.revoked_at IS NOT NULL
+  ) ORDER BY c.issued_at DESC), '[]'::jsonb)
+  FROM public.credentials c
+  LEFT JOIN public.credential_schemas s
+    ON s.credential_type = c.credential_type AND s.version = c.schema_version
+  WHERE c.citizen_address = _citizen_address
+$$;
@@ -0,0 +1,225 @@
+-- Credential renewal
+-- A renewed credential is replaced by a successor that points back at it. The predecessor is kept
+-- as history and marked superseded; only the latest credential of a chain is active.
+ALTER TABLE public.credentials
+ADD COLUMN IF NOT EXISTS renews_credential_id UUID REFERENCES public.credentials(id),
+ADD COLUMN IF NOT EXISTS superseded_at TIMESTAMP WITH TIME ZONE;
+
+-- A credential can be renewed once; later renewals continue from its successor
+CREATE UNIQUE INDEX IF NOT EXISTS credentials_renews_credential_id_key
+ON public.credentials (renews_credential_id)
+WHERE renews_credential_id IS NOT NULL;
+
+DROP INDEX IF EXISTS public.credentials_active_type_per_holder;
+
+CREATE UNIQUE INDEX credentials_active_type_per_holder
+ON public.credentials (citizen_address, credential_type)
+WHERE revoked_at IS NULL AND superseded_at IS NULL;
+
+-- Supersede the predecessor in the same statement that inserts its successor,
+-- so there is never a moment with two active credentials or none
+CREATE OR REPLACE FUNCTION public.supersede_renewed_credential()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  previous RECORD;
+BEGIN
+  IF NEW.renews_credential_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO previous
+  FROM public.credentials
+  WHERE id = NEW.renews_credential_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Credential to renew does not exist';
+  END IF;
+  IF previous.citizen_address <> NEW.citizen_address OR previous.credential_type <> NEW.credential_type THEN
+    RAISE EXCEPTION 'A renewal must keep the holder and credential type';
+  END IF;
+  IF previous.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'A revoked credential cannot be renewed';
+  END IF;
+  IF previous.superseded_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Credential has already been renewed';
+  END IF;
+
+  UPDATE public.credentials
+  SET superseded_at = now()
+  WHERE id = previous.id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER supersede_renewed_credential
+BEFORE INSERT ON public.credentials
+FOR EACH ROW
+EXECUTE FUNCTION public.supersede_renewed_credential();
+
+-- Superseded credentials no longer count as the active credential of their type
+CREATE OR REPLACE FUNCTION public.credential_exists_for_address(
+  _address TEXT,
+  _credential_type TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.credentials
+    WHERE citizen_address = _address
+      AND (_credential_type IS NULL OR (
+        credential_type = _credential_type AND revoked_at IS NULL AND superseded_at IS NULL
+      ))
+  )
+$$;
+
+-- Verification reports renewal links; a superseded credential is no longer valid
+CREATE OR REPLACE FUNCTION public.verify_credential(
+  _citizen_address TEXT,
+  _credential_id UUID DEFAULT NULL,
+  _credential_hash TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cred RECORD;
+  cred_json JSONB;
+  successor_id UUID;
+BEGIN
+  SELECT * INTO cred
+  FROM public.credentials
+  WHERE citizen_address = _citizen_address
+    AND (_credential_id IS NULL OR id = _credential_id)
+    AND (_credential_hash IS NULL OR LOWER(credential_hash) = LOWER(_credential_hash))
+  ORDER BY (revoked_at IS NULL AND superseded_at IS NULL) DESC, issued_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'isValid', false,
+      'error', 'No credential found for this address'
+    );
+  END IF;
+
+  SELECT id INTO successor_id
+  FROM public.credentials
+  WHERE renews_credential_id = cred.id;
+
+  cred_json := jsonb_build_object(
+    'id', cred.id,
+    'fullName', cred.full_name,
+    'nationalId', cred.national_id,
+    'dateOfBirth', cred.date_of_birth,
+    'expiryDate', cred.expiry_date,
+    'issuerAddress', cred.issuer_address,
+    'issuedAt', cred.issued_at,
+    'credentialHash', cred.credential_hash,
+    'signature', cred.signature,
+    'signatureScheme', cred.signature_scheme,
+    'chainId', cred.chain_id,
+    'contractAddress', cred.contract_address,
+    'contractVersion', cred.contract_version,
+    'canonicalPayload', cred.canonical_payload,
+    'credentialType', cred.credential_type,
+    'schemaVersion', cred.schema_version,
+    'attributes', cred.attributes,
+    'renewsCredentialId', cred.renews_credential_id,
+    'renewedByCredentialId', successor_id,
+    'supersededAt', cred.superseded_at
+  );
+
+  IF cred.superseded_at IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'isValid', false,
+      'error', 'Credential has been renewed',
+      'credential', cred_json
+    );
+  END IF;
+
+  -- Check expiry
+  IF cred.expiry_date IS NOT NULL AND cred.expiry_date::date < CURRENT_DATE THEN
+    RETURN jsonb_build_object(
+      'isValid', false,
+      'error', 'Credential has expired',
+      'credential', cred_json
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'isValid', true,
+    'credential', cred_json
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.list_holder_credentials(_citizen_address TEXT)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', c.id,
+    'credentialType', c.credential_type,
+    'schemaVersion', c.schema_version,
+    'typeName', s.name,
+    'issuedAt', c.issued_at,
+    'expiryDate', c.expiry_date,
+    'revoked', c.revoked_at IS NOT NULL,
+    'superseded', c.superseded_at IS NOT NULL
+  ) ORDER BY c.issued_at DESC), '[]'::jsonb)
+  FROM public.credentials c
+  LEFT JOIN public.credential_schemas s
+    ON s.credential_type = c.credential_type AND s.version = c.schema_version
+  WHERE c.citizen_address = _citizen_address
+$$;
+
+-- The full renewal chain a credential belongs to, oldest first
+CREATE OR REPLACE FUNCTION public.get_credential_renewal_chain(_credential_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH RECURSIVE ancestors AS (
+    SELECT id, renews_credential_id FROM public.credentials WHERE id = _credential_id
+    UNION ALL
+    SELECT c.id, c.renews_credential_id
+    FROM public.credentials c
+    JOIN ancestors a ON c.id = a.renews_credential_id
+  ),
+  chain AS (
+    SELECT id FROM ancestors WHERE renews_credential_id IS NULL
+    UNION ALL
+    SELECT c.id
+    FROM public.credentials c
+    JOIN chain ch ON c.renews_credential_id = ch.id
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', c.id,
+    'credentialHash', c.credential_hash,
+    'issuedAt', c.issued_at,
+    'expiryDate', c.expiry_date,
+    'renewsCredentialId', c.renews_credential_id,
+    'supersededAt', c.superseded_at,
+    'revoked', c.revoked_at IS NOT NULL
+  ) ORDER BY c.issued_at ASC), '[]'::jsonb)
+  FROM public.credentials c
+  JOIN chain ON chain.id = c.id
+$$;
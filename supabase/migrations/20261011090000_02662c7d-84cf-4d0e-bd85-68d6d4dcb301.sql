@@ -0,0 +1,305 @@
+-- Credential lifecycle
+-- States: active, suspended, revoked, expired, superseded. Status changes go through
+-- transition_credential_status, which validates the transition and records who made it and why.
+-- Suspension is reversible and tracked in the database only; revocation is also anchored on-chain.
+ALTER TABLE public.credentials
+ADD COLUMN IF NOT EXISTS suspended_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS suspended_by UUID REFERENCES auth.users(id);
+
+-- Effective status: terminal states win over suspension, suspension over expiry
+CREATE OR REPLACE FUNCTION public.credential_lifecycle_status(
+  _revoked_at TIMESTAMP WITH TIME ZONE,
+  _superseded_at TIMESTAMP WITH TIME ZONE,
+  _suspended_at TIMESTAMP WITH TIME ZONE,
+  _expiry_date DATE
+)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _revoked_at IS NOT NULL THEN 'revoked'
+    WHEN _superseded_at IS NOT NULL THEN 'superseded'
+    WHEN _suspended_at IS NOT NULL THEN 'suspended'
+    WHEN _expiry_date IS NOT NULL AND _expiry_date < CURRENT_DATE THEN 'expired'
+    ELSE 'active'
+  END
+$$;
+
+-- One row per status transition
+CREATE TABLE public.credential_status_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  credential_id UUID NOT NULL REFERENCES public.credentials(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('suspend', 'reinstate', 'revoke', 'supersede')),
+  from_status TEXT NOT NULL,
+  to_status TEXT NOT NULL,
+  reason_code TEXT NOT NULL,
+  note TEXT CHECK (note IS NULL OR char_length(note) <= 500),
+  actor_user_id UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX credential_status_events_credential_idx
+ON public.credential_status_events (credential_id, created_at);
+
+ALTER TABLE public.credential_status_events ENABLE ROW LEVEL SECURITY;
+
+-- Events are written by transition_credential_status and the renewal trigger only
+CREATE POLICY "Admins can view credential status events"
+ON public.credential_status_events
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Citizens can view status events of their credentials"
+ON public.credential_status_events
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.credentials c
+    WHERE c.id = credential_id AND c.citizen_user_id = auth.uid()
+  )
+);
+
+-- Validate and apply a status transition (admin only)
+CREATE OR REPLACE FUNCTION public.transition_credential_status(
+  _credential_id UUID,
+  _action TEXT,
+  _reason_code TEXT,
+  _note TEXT DEFAULT NULL,
+  _tx_hash TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cred RECORD;
+  current_status TEXT;
+  next_status TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin'::app_role) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only administrators can change credential status');
+  END IF;
+
+  IF _reason_code = 'other' AND COALESCE(btrim(_note), '') = '' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'A note is required when the reason is "other"');
+  END IF;
+
+  SELECT * INTO cred
+  FROM public.credentials
+  WHERE id = _credential_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Credential not found');
+  END IF;
+
+  current_status := public.credential_lifecycle_status(
+    cred.revoked_at, cred.superseded_at, cred.suspended_at, cred.expiry_date::date
+  );
+
+  IF _action = 'suspend' AND current_status = 'active' THEN
+    IF _reason_code NOT IN ('under_investigation', 'suspected_fraud', 'holder_request', 'lost_or_stolen', 'data_error', 'other') THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Invalid suspension reason');
+    END IF;
+    UPDATE public.credentials
+    SET suspended_at = now(), suspended_by = auth.uid()
+    WHERE id = _credential_id;
+  ELSIF _action = 'reinstate' AND current_status = 'suspended' THEN
+    IF _reason_code NOT IN ('investigation_cleared', 'holder_request', 'data_corrected', 'other') THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Invalid reinstatement reason');
+    END IF;
+    UPDATE public.credentials
+    SET suspended_at = NULL, suspended_by = NULL
+    WHERE id = _credential_id;
+  ELSIF _action = 'revoke' AND current_status IN ('active', 'suspended', 'expired') THEN
+    IF _reason_code NOT IN ('fraud_confirmed', 'lost_or_stolen', 'data_error', 'holder_request', 'deceased', 'entitlement_ended', 'other') THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Invalid revocation reason');
+    END IF;
+    UPDATE public.credentials
+    SET revoked_at = now(), revoked_by = auth.uid(), revocation_tx_hash = _tx_hash
+    WHERE id = _credential_id;
+  ELSE
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', format('Cannot %s a credential that is %s', _action, current_status)
+    );
+  END IF;
+
+  SELECT public.credential_lifecycle_status(revoked_at, superseded_at, suspended_at, expiry_date::date)
+  INTO next_status
+  FROM public.credentials
+  WHERE id = _credential_id;
+
+  INSERT INTO public.credential_status_events (
+    credential_id, action, from_status, to_status, reason_code, note, actor_user_id
+  ) VALUES (
+    _credential_id, _action, current_status, next_status, _reason_code, NULLIF(btrim(_note), ''), auth.uid()
+  );
+
+  RETURN jsonb_build_object('success', true, 'fromStatus', current_status, 'toStatus', next_status);
+END;
+$$;
+
+-- Renewal is the supersede transition; suspended credentials must be reinstated first
+CREATE OR REPLACE FUNCTION public.supersede_renewed_credential()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  previous RECORD;
+  previous_status TEXT;
+BEGIN
+  IF NEW.renews_credential_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO previous
+  FROM public.credentials
+  WHERE id = NEW.renews_credential_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Credential to renew does not exist';
+  END IF;
+  IF previous.citizen_address <> NEW.citizen_address OR previous.credential_type <> NEW.credential_type THEN
+    RAISE EXCEPTION 'A renewal must keep the holder and credential type';
+  END IF;
+
+  previous_status := public.credential_lifecycle_status(
+    previous.revoked_at, previous.superseded_at, previous.suspended_at, previous.expiry_date::date
+  );
+  IF previous_status NOT IN ('active', 'expired') THEN
+    RAISE EXCEPTION 'Cannot renew a credential that is %', previous_status;
+  END IF;
+
+  UPDATE public.credentials
+  SET superseded_at = now()
+  WHERE id = previous.id;
+
+  INSERT INTO public.credential_status_events (
+    credential_id, action, from_status, to_status, reason_code, actor_user_id
+  ) VALUES (
+    previous.id, 'supersede', previous_status, 'superseded', 'renewed', auth.uid()
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- Verification reports the lifecycle status; only active credentials are valid
+CREATE OR REPLACE FUNCTION public.verify_credential(
+  _citizen_address TEXT,
+  _credential_id UUID DEFAULT NULL,
+  _credential_hash TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cred RECORD;
+  cred_json JSONB;
+  successor_id UUID;
+  status TEXT;
+BEGIN
+  SELECT * INTO cred
+  FROM public.credentials
+  WHERE citizen_address = _citizen_address
+    AND (_credential_id IS NULL OR id = _credential_id)
+    AND (_credential_hash IS NULL OR LOWER(credential_hash) = LOWER(_credential_hash))
+  ORDER BY (revoked_at IS NULL AND superseded_at IS NULL) DESC, issued_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'isValid', false,
+      'error', 'No credential found for this address'
+    );
+  END IF;
+
+  SELECT id INTO successor_id
+  FROM public.credentials
+  WHERE renews_credential_id = cred.id;
+
+  status := public.credential_lifecycle_status(
+    cred.revoked_at, cred.superseded_at, cred.suspended_at, cred.expiry_date::date
+  );
+
+  cred_json := jsonb_build_object(
+    'id', cred.id,
+    'fullName', cred.full_name,
+    'nationalId', cred.national_id,
+    'dateOfBirth', cred.date_of_birth,
+    'expiryDate', cred.expiry_date,
+    'issuerAddress', cred.issuer_address,
+    'issuedAt', cred.issued_at,
+    'credentialHash', cred.credential_hash,
+    'signature', cred.signature,
+    'signatureScheme', cred.signature_scheme,
+    'chainId', cred.chain_id,
+    'contractAddress', cred.contract_address,
+    'contractVersion', cred.contract_version,
+    'canonicalPayload', cred.canonical_payload,
+    'credentialType', cred.credential_type,
+    'schemaVersion', cred.schema_version,
+    'attributes', cred.attributes,
+    'renewsCredentialId', cred.renews_credential_id,
+    'renewedByCredentialId', successor_id,
+    'supersededAt', cred.superseded_at,
+    'suspendedAt', cred.suspended_at,
+    'revokedAt', cred.revoked_at,
+    'status', status
+  );
+
+  IF status = 'active' THEN
+    RETURN jsonb_build_object(
+      'isValid', true,
+      'credential', cred_json
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'isValid', false,
+    'error', CASE status
+      WHEN 'revoked' THEN 'Credential has been revoked'
+      WHEN 'superseded' THEN 'Credential has been renewed'
+      WHEN 'suspended' THEN 'Credential is suspended'
+      ELSE 'Credential has expired'
+    END,
+    'credential', cred_json
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.list_holder_credentials(_citizen_address TEXT)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', c.id,
+    'credentialType', c.credential_type,
+    'schemaVersion', c.schema_version,
+    'typeName', s.name,
+    'issuedAt', c.issued_at,
+    'expiryDate', c.expiry_date,
+    'revoked', c.revoked_at IS NOT NULL,
+    'superseded', c.superseded_at IS NOT NULL,
+    'status', public.credential_lifecycle_status(c.revoked_at, c.superseded_at, c.suspended_at, c.expiry_date::date)
+  ) ORDER BY c.issued_at DESC), '[]'::jsonb)
+  FROM public.credentials c
+  LEFT JOIN public.credential_schemas s
+    ON s.credential_type = c.credential_type AND s.version = c.schema_version
+  WHERE c.citizen_address = _citizen_address
+$$;
@@ -0,0 +1,163 @@
+-- Bitstring Status Lists (W3C Bitstring Status List v1.0)
+-- Every credential gets a random position in a fixed-size status list at issuance. Issuers publish
+-- signed, compressed lists (one per status purpose) that verifiers download and cache, so checking a
+-- credential's status no longer tells the issuer which credential is being verified.
+CREATE OR REPLACE FUNCTION public.next_status_list_index()
+RETURNS INTEGER
+LANGUAGE plpgsql
+VOLATILE
+SET search_path = public
+AS $$
+DECLARE
+  -- Keep in sync with STATUS_LIST_SIZE in src/lib/status-list.ts
+  list_size CONSTANT INTEGER := 131072;
+  candidate INTEGER;
+BEGIN
+  -- Random positions give each holder herd privacy within the list
+  FOR attempt IN 1..1000 LOOP
+    candidate := floor(random() * list_size)::INTEGER;
+    IF NOT EXISTS (SELECT 1 FROM public.credentials WHERE status_list_index = candidate) THEN
+      RETURN candidate;
+    END IF;
+  END LOOP;
+
+  RAISE EXCEPTION 'Status list is full';
+END;
+$$;
+
+ALTER TABLE public.credentials
+ADD COLUMN IF NOT EXISTS status_list_index INTEGER;
+
+DO $$
+DECLARE
+  cred RECORD;
+BEGIN
+  FOR cred IN SELECT id FROM public.credentials WHERE status_list_index IS NULL ORDER BY issued_at LOOP
+    UPDATE public.credentials SET status_list_index = public.next_status_list_index() WHERE id = cred.id;
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE public.credentials
+ALTER COLUMN status_list_index SET NOT NULL,
+ALTER COLUMN status_list_index SET DEFAULT public.next_status_list_index(),
+ADD CONSTRAINT credentials_status_list_index_key UNIQUE (status_list_index);
+
+-- Latest published list per purpose; the signed BitstringStatusListCredential is stored as issued
+CREATE TABLE public.credential_status_lists (
+  status_purpose TEXT NOT NULL PRIMARY KEY CHECK (status_purpose IN ('revocation', 'suspension')),
+  credential JSONB NOT NULL,
+  issuer_address TEXT NOT NULL,
+  published_by UUID REFERENCES auth.users(id),
+  published_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.credential_status_lists ENABLE ROW LEVEL SECURITY;
+
+-- Status lists are public: they only reveal which positions are set, not who holds them
+CREATE POLICY "Anyone can read status lists"
+ON public.credential_status_lists
+FOR SELECT
+TO anon, authenticated
+USING (true);
+
+CREATE POLICY "Admins can publish status lists"
+ON public.credential_status_lists
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'::app_role) AND published_by = auth.uid());
+
+CREATE POLICY "Admins can update status lists"
+ON public.credential_status_lists
+FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (public.has_role(auth.uid(), 'admin'::app_role) AND published_by = auth.uid());
+
+-- Verification also returns the credential's status list position
+CREATE OR REPLACE FUNCTION public.verify_credential(
+  _citizen_address TEXT,
+  _credential_id UUID DEFAULT NULL,
+  _credential_hash TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cred RECORD;
+  cred_json JSONB;
+  successor_id UUID;
+  status TEXT;
+BEGIN
+  SELECT * INTO cred
+  FROM public.credentials
+  WHERE citizen_address = _citizen_address
+    AND (_credential_id IS NULL OR id = _credential_id)
+    AND (_credential_hash IS NULL OR LOWER(credential_hash) = LOWER(_credential_hash))
+  ORDER BY (revoked_at IS NULL AND superseded_at IS NULL) DESC, issued_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'isValid', false,
+      'error', 'No credential found for this address'
+    );
+  END IF;
+
+  SELECT id INTO successor_id
+  FROM public.credentials
+  WHERE renews_credential_id = cred.id;
+
+  status := public.credential_lifecycle_status(
+    cred.revoked_at, cred.superseded_at, cred.suspended_at, cred.expiry_date::date
+  );
+
+  cred_json := jsonb_build_object(
+    'id', cred.id,
+    'fullName', cred.full_name,
+    'nationalId', cred.national_id,
+    'dateOfBirth', cred.date_of_birth,
+    'expiryDate', cred.expiry_date,
+    'issuerAddress', cred.issuer_address,
+    'issuedAt', cred.issued_at,
+    'credentialHash', cred.credential_hash,
+    'signature', cred.signature,
+    'signatureScheme', cred.signature_scheme,
+    'chainId', cred.chain_id,
+    'contractAddress', cred.contract_address,
+    'contractVersion', cred.contract_version,
+    'canonicalPayload', cred.canonical_payload,
+    'credentialType', cred.credential_type,
+    'schemaVersion', cred.schema_version,
+    'attributes', cred.attributes,
+    'renewsCredentialId', cred.renews_credential_id,
+    'renewedByCredentialId', successor_id,
+    'supersededAt', cred.superseded_at,
+    'suspendedAt', cred.suspended_at,
+    'revokedAt', cred.revoked_at,
+    'statusListIndex', cred.status_list_index,
+    'status', status
+  );
+
+  IF status = 'active' THEN
+    RETURN jsonb_build_object(
+      'isValid', true,
+      'credential', cred_json
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'isValid', false,
+    'error', CASE status
+      WHEN 'revoked' THEN 'Credential has been revoked'
+      WHEN 'superseded' THEN 'Credential has been renewed'
+      WHEN 'suspended' THEN 'Credential is suspended'
+      ELSE 'Credential has expired'
+    END,
+    'credential', cred_json
+  );
+END;
+$$;
@@ -0,0 +1,186 @@
+-- Batched on-chain anchoring
+-- 3 = anchored in a Merkle batch on the batch registry: only the batch root is stored on-chain and
+-- each credential keeps its inclusion proof. Credentials stay pending until the issuer anchors the
+-- next batch.
+ALTER TABLE public.credentials
+DROP CONSTRAINT IF EXISTS credentials_contract_version_check;
+
+ALTER TABLE public.credentials
+ADD CONSTRAINT credentials_contract_version_check CHECK (contract_version IN (1, 2, 3));
+
+CREATE TABLE public.credential_anchor_batches (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  contract_address TEXT NOT NULL,
+  merkle_root TEXT NOT NULL UNIQUE,
+  leaf_count INTEGER NOT NULL CHECK (leaf_count > 0),
+  -- NULL when the root was already on-chain and only the proofs were recorded
+  tx_hash TEXT,
+  anchored_by UUID REFERENCES auth.users(id),
+  anchored_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.credential_anchor_batches ENABLE ROW LEVEL SECURITY;
+
+-- Batches are recorded by record_credential_anchor_batch only
+CREATE POLICY "Admins can view anchor batches"
+ON public.credential_anchor_batches
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+ALTER TABLE public.credentials
+ADD COLUMN IF NOT EXISTS anchor_batch_id UUID REFERENCES public.credential_anchor_batches(id),
+ADD COLUMN IF NOT EXISTS merkle_root TEXT,
+ADD COLUMN IF NOT EXISTS merkle_proof JSONB;
+
+CREATE INDEX credentials_pending_batch_idx
+ON public.credentials (contract_address, issued_at)
+WHERE contract_version = 3 AND anchor_batch_id IS NULL;
+
+-- Record an anchored batch and store each credential's inclusion proof (admin only)
+-- _proofs maps credential ID to its proof (array of sibling hashes); _tx_hash is NULL when the root
+-- was already on-chain
+CREATE OR REPLACE FUNCTION public.record_credential_anchor_batch(
+  _contract_address TEXT,
+  _merkle_root TEXT,
+  _proofs JSONB,
+  _tx_hash TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  batch_id UUID;
+  leaf_count INTEGER;
+  pending_count INTEGER;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin'::app_role) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only administrators can anchor credentials');
+  END IF;
+
+  IF jsonb_typeof(_proofs) IS DISTINCT FROM 'object' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Proofs must map credential IDs to proofs');
+  END IF;
+
+  SELECT count(*) INTO leaf_count FROM jsonb_object_keys(_proofs);
+  IF leaf_count = 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'The batch is empty');
+  END IF;
+
+  SELECT count(*) INTO pending_count
+  FROM public.credentials c
+  WHERE c.id::text IN (SELECT jsonb_object_keys(_proofs))
+    AND c.contract_version = 3
+    AND LOWER(c.contract_address) = LOWER(_contract_address)
+    AND c.anchor_batch_id IS NULL;
+
+  IF pending_count <> leaf_count THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Every credential in the batch must be pending on this registry');
+  END IF;
+
+  INSERT INTO public.credential_anchor_batches (contract_address, merkle_root, leaf_count, tx_hash, anchored_by)
+  VALUES (_contract_address, LOWER(_merkle_root), leaf_count, _tx_hash, auth.uid())
+  RETURNING id INTO batch_id;
+
+  UPDATE public.credentials c
+  SET anchor_batch_id = batch_id,
+      merkle_root = LOWER(_merkle_root),
+      merkle_proof = _proofs -> c.id::text,
+      issuance_tx_hash = _tx_hash
+  WHERE c.id::text IN (SELECT jsonb_object_keys(_proofs));
+
+  RETURN jsonb_build_object('success', true, 'batchId', batch_id, 'leafCount', leaf_count);
+END;
+$$;
+
+-- Verification also returns the batch root and inclusion proof of batch-anchored credentials
+CREATE OR REPLACE FUNCTION public.verify_credential(
+  _citizen_address TEXT,
+  _credential_id UUID DEFAULT NULL,
+  _credential_hash TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cred RECORD;
+  cred_json JSONB;
+  successor_id UUID;
+  status TEXT;
+BEGIN
+  SELECT * INTO cred
+  FROM public.credentials
+  WHERE citizen_address = _citizen_address
+    AND (_credential_id IS NULL OR id = _credential_id)
+    AND (_credential_hash IS NULL OR LOWER(credential_hash) = LOWER(_credential_hash))
+  ORDER BY (revoked_at IS NULL AND superseded_at IS NULL) DESC, issued_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'isValid', false,
+      'error', 'No credential found for this address'
+    );
+  END IF;
+
+  SELECT id INTO successor_id
+  FROM public.credentials
+  WHERE renews_credential_id = cred.id;
+
+  status := public.credential_lifecycle_status(
+    cred.revoked_at, cred.superseded_at, cred.suspended_at, cred.expiry_date::date
+  );
+
+  cred_json := jsonb_build_object(
+    'id', cred.id,
+    'fullName', cred.full_name,
+    'nationalId', cred.national_id,
+    'dateOfBirth', cred.date_of_birth,
+    'expiryDate', cred.expiry_date,
+    'issuerAddress', cred.issuer_address,
+    'issuedAt', cred.issued_at,
+    'credentialHash', cred.credential_hash,
+    'signature', cred.signature,
+    'signatureScheme', cred.signature_scheme,
+    'chainId', cred.chain_id,
+    'contractAddress', cred.contract_address,
+    'contractVersion', cred.contract_version,
+    'canonicalPayload', cred.canonical_payload,
+    'credentialType', cred.credential_type,
+    'schemaVersion', cred.schema_version,
+    'attributes', cred.attributes,
+    'renewsCredentialId', cred.renews_credential_id,
+    'renewedByCredentialId', successor_id,
+    'supersededAt', cred.superseded_at,
+    'suspendedAt', cred.suspended_at,
+    'revokedAt', cred.revoked_at,
+    'statusListIndex', cred.status_list_index,
+    'merkleRoot', cred.merkle_root,
+    'merkleProof', cred.merkle_proof,
+    'status', status
+  );
+
+  IF status = 'active' THEN
+    RETURN jsonb_build_object(
+      'isValid', true,
+      'credential', cred_json
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'isValid', false,
+    'error', CASE status
+      WHEN 'revoked' THEN 'Credential has been revoked'
+      WHEN 'superseded' THEN 'Credential has been renewed'
+      WHEN 'suspended' THEN 'Credential is suspended'
+      ELSE 'Credential has expired'
+    END,
+    'credential', cred_json
+  );
+END;
+$$;
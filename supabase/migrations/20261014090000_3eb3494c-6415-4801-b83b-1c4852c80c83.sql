@@ -0,0 +1,67 @@
+-- Bulk revocation
+-- One row per bulk revocation run with its shared reason, and one outcome per address (and per
+-- credential when an address held several), so a run can be audited after the fact.
+CREATE TABLE public.bulk_revocations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  reason_code TEXT NOT NULL,
+  note TEXT CHECK (note IS NULL OR char_length(note) <= 500),
+  address_count INTEGER NOT NULL CHECK (address_count > 0),
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE public.bulk_revocation_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  bulk_revocation_id UUID NOT NULL REFERENCES public.bulk_revocations(id) ON DELETE CASCADE,
+  -- As entered; not necessarily a valid address when status is skipped
+  citizen_address TEXT NOT NULL,
+  credential_id UUID REFERENCES public.credentials(id),
+  status TEXT NOT NULL CHECK (status IN ('revoked', 'failed', 'skipped')),
+  error TEXT,
+  tx_hash TEXT,
+  processed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX bulk_revocation_items_run_idx ON public.bulk_revocation_items (bulk_revocation_id);
+
+ALTER TABLE public.bulk_revocations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.bulk_revocation_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view bulk revocations"
+ON public.bulk_revocations
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can start bulk revocations"
+ON public.bulk_revocations
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'::app_role) AND created_by = auth.uid());
+
+CREATE POLICY "Admins can complete their bulk revocations"
+ON public.bulk_revocations
+FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'::app_role) AND created_by = auth.uid())
+WITH CHECK (public.has_role(auth.uid(), 'admin'::app_role) AND created_by = auth.uid());
+
+CREATE POLICY "Admins can view bulk revocation outcomes"
+ON public.bulk_revocation_items
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+-- Outcomes are append-only and can only be added to the admin's own runs
+CREATE POLICY "Admins can record bulk revocation outcomes"
+ON public.bulk_revocation_items
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  public.has_role(auth.uid(), 'admin'::app_role)
+  AND EXISTS (
+    SELECT 1 FROM public.bulk_revocations r
+    WHERE r.id = bulk_revocation_id AND r.created_by = auth.uid()
+  )
+);
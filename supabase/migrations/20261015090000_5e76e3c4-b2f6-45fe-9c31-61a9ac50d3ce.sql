@@ -0,0 +1,161 @@
+-- Credential requests initiated by citizens
+-- A citizen requests a credential type with the data they claim. An admin approves it by issuing the
+-- credential with that data, rejects it, or asks for more information; the review message is shown to
+-- the citizen, who can correct and resubmit a request that needs information.
+CREATE TABLE public.credential_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  citizen_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  citizen_address TEXT NOT NULL,
+  credential_type TEXT NOT NULL,
+  schema_version INTEGER NOT NULL,
+  full_name TEXT NOT NULL CHECK (char_length(full_name) <= 100),
+  national_id TEXT NOT NULL CHECK (char_length(national_id) <= 50),
+  date_of_birth TEXT,
+  attributes JSONB NOT NULL DEFAULT '{}'::jsonb CHECK (jsonb_typeof(attributes) = 'object'),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'needs_info')),
+  review_message TEXT CHECK (review_message IS NULL OR char_length(review_message) <= 1000),
+  reviewed_by UUID REFERENCES auth.users(id),
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  credential_id UUID REFERENCES public.credentials(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  FOREIGN KEY (credential_type, schema_version) REFERENCES public.credential_schemas(credential_type, version)
+);
+
+-- One open request per citizen and credential type
+CREATE UNIQUE INDEX credential_requests_open_idx
+ON public.credential_requests (citizen_user_id, credential_type)
+WHERE status IN ('pending', 'needs_info');
+
+CREATE INDEX credential_requests_status_idx ON public.credential_requests (status, created_at);
+
+CREATE TRIGGER update_credential_requests_updated_at
+  BEFORE UPDATE ON public.credential_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.credential_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Citizens can view their own credential requests"
+ON public.credential_requests
+FOR SELECT
+TO authenticated
+USING (citizen_user_id = auth.uid());
+
+CREATE POLICY "Admins can view all credential requests"
+ON public.credential_requests
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+-- Requests are submitted for the citizen's own linked wallet and start unreviewed;
+-- every later change goes through the functions below
+CREATE POLICY "Citizens can submit credential requests"
+ON public.credential_requests
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  citizen_user_id = auth.uid()
+  AND status = 'pending'
+  AND review_message IS NULL
+  AND reviewed_by IS NULL
+  AND reviewed_at IS NULL
+  AND credential_id IS NULL
+  AND EXISTS (
+    SELECT 1 FROM public.profiles p
+    WHERE p.user_id = auth.uid() AND LOWER(p.wallet_address) = LOWER(citizen_address)
+  )
+);
+
+-- Review a pending request (admin only). Approval links the credential issued for it, which must
+-- belong to the requesting citizen and be of the requested type.
+CREATE OR REPLACE FUNCTION public.review_credential_request(
+  _request_id UUID,
+  _decision TEXT,
+  _message TEXT DEFAULT NULL,
+  _credential_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  req RECORD;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin'::app_role) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only administrators can review credential requests');
+  END IF;
+
+  SELECT * INTO req FROM public.credential_requests WHERE id = _request_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Request not found');
+  END IF;
+
+  IF req.status <> 'pending' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only pending requests can be reviewed');
+  END IF;
+
+  IF _decision NOT IN ('approved', 'rejected', 'needs_info') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Unknown decision');
+  END IF;
+
+  IF _decision IN ('rejected', 'needs_info') AND COALESCE(btrim(_message), '') = '' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'A message for the citizen is required');
+  END IF;
+
+  IF _decision = 'approved' AND NOT EXISTS (
+    SELECT 1 FROM public.credentials c
+    WHERE c.id = _credential_id
+      AND c.citizen_user_id = req.citizen_user_id
+      AND c.credential_type = req.credential_type
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Approval requires the credential issued for this request');
+  END IF;
+
+  UPDATE public.credential_requests
+  SET status = _decision,
+      review_message = NULLIF(btrim(_message), ''),
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      credential_id = CASE WHEN _decision = 'approved' THEN _credential_id ELSE NULL END
+  WHERE id = _request_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- Correct and resubmit a request that needs information (requesting citizen only)
+-- The request moves to the schema version the citizen filled in, normally the latest one
+CREATE OR REPLACE FUNCTION public.resubmit_credential_request(
+  _request_id UUID,
+  _schema_version INTEGER,
+  _full_name TEXT,
+  _national_id TEXT,
+  _date_of_birth TEXT,
+  _attributes JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.credential_requests
+  SET schema_version = _schema_version,
+      full_name = _full_name,
+      national_id = _national_id,
+      date_of_birth = NULLIF(_date_of_birth, ''),
+      attributes = COALESCE(_attributes, '{}'::jsonb),
+      status = 'pending'
+  WHERE id = _request_id
+    AND citizen_user_id = auth.uid()
+    AND status = 'needs_info';
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only requests that need information can be resubmitted');
+  END IF;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
@@ -0,0 +1,234 @@
+-- Supporting documents for identity proofing
+-- Scans of ID documents and proof of address are kept in the private identity-documents bucket under
+-- the citizen's user id. Citizens attach them to their requests, admins to any request or credential.
+-- Each file's SHA-256 hash is recorded here and copied into the audit metadata of the credential it
+-- backs, so the files can later be checked against what the issuer relied on.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('identity-documents', 'identity-documents', false, 10485760, ARRAY['image/jpeg', 'image/png', 'application/pdf']);
+
+ALTER TABLE public.credentials
+ADD COLUMN audit_metadata JSONB NOT NULL DEFAULT '{}'::jsonb CHECK (jsonb_typeof(audit_metadata) = 'object');
+
+CREATE TABLE public.credential_documents (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  citizen_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  request_id UUID REFERENCES public.credential_requests(id) ON DELETE CASCADE,
+  credential_id UUID REFERENCES public.credentials(id),
+  document_type TEXT NOT NULL CHECK (document_type IN ('id_document', 'proof_of_address')),
+  file_name TEXT NOT NULL CHECK (char_length(file_name) <= 255),
+  mime_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL CHECK (size_bytes > 0),
+  -- Object name in the identity-documents bucket: <citizen_user_id>/<document id>
+  storage_path TEXT NOT NULL UNIQUE,
+  sha256 TEXT NOT NULL CHECK (sha256 ~ '^[0-9a-f]{64}$'),
+  uploaded_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (request_id IS NOT NULL OR credential_id IS NOT NULL),
+  CHECK (storage_path LIKE citizen_user_id::text || '/%')
+);
+
+CREATE INDEX credential_documents_request_idx ON public.credential_documents (request_id);
+CREATE INDEX credential_documents_credential_idx ON public.credential_documents (credential_id);
+
+ALTER TABLE public.credential_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Citizens can view their own documents"
+ON public.credential_documents
+FOR SELECT
+TO authenticated
+USING (citizen_user_id = auth.uid());
+
+CREATE POLICY "Admins can view all documents"
+ON public.credential_documents
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+-- Citizens attach documents to their own requests while they are open for review
+CREATE POLICY "Citizens can attach documents to their open requests"
+ON public.credential_documents
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  citizen_user_id = auth.uid()
+  AND uploaded_by = auth.uid()
+  AND credential_id IS NULL
+  AND EXISTS (
+    SELECT 1 FROM public.credential_requests r
+    WHERE r.id = request_id
+      AND r.citizen_user_id = auth.uid()
+      AND r.status IN ('pending', 'needs_info')
+  )
+);
+
+CREATE POLICY "Admins can attach documents"
+ON public.credential_documents
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'::app_role) AND uploaded_by = auth.uid());
+
+-- Documents a credential was issued on stay on record; citizens can only remove unused ones
+CREATE POLICY "Citizens can remove documents not linked to a credential"
+ON public.credential_documents
+FOR DELETE
+TO authenticated
+USING (citizen_user_id = auth.uid() AND credential_id IS NULL);
+
+CREATE POLICY "Admins can remove documents"
+ON public.credential_documents
+FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+-- Files live in the folder named after the citizen's user id
+CREATE POLICY "Citizens can read their own identity documents"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (bucket_id = 'identity-documents' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Admins can read identity documents"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (bucket_id = 'identity-documents' AND public.has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Citizens can upload their own identity documents"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'identity-documents' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Admins can upload identity documents"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'identity-documents' AND public.has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Citizens can delete their identity documents not linked to a credential"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'identity-documents'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+  AND NOT EXISTS (
+    SELECT 1 FROM public.credential_documents d
+    WHERE d.storage_path = name AND d.credential_id IS NOT NULL
+  )
+);
+
+CREATE POLICY "Admins can delete identity documents"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (bucket_id = 'identity-documents' AND public.has_role(auth.uid(), 'admin'::app_role));
+
+-- Keep the document hashes in a credential's audit metadata in step with the documents linked to it
+CREATE OR REPLACE FUNCTION public.sync_credential_document_hashes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  affected UUID;
+BEGIN
+  FOR affected IN
+    SELECT DISTINCT id FROM unnest(ARRAY[
+      CASE WHEN TG_OP <> 'INSERT' THEN OLD.credential_id END,
+      CASE WHEN TG_OP <> 'DELETE' THEN NEW.credential_id END
+    ]) AS id
+    WHERE id IS NOT NULL
+  LOOP
+    UPDATE public.credentials
+    SET audit_metadata = jsonb_set(
+      audit_metadata,
+      '{documents}',
+      COALESCE((
+        SELECT jsonb_agg(jsonb_build_object(
+          'id', d.id,
+          'documentType', d.document_type,
+          'fileName', d.file_name,
+          'sha256', d.sha256,
+          'uploadedAt', d.created_at
+        ) ORDER BY d.created_at)
+        FROM public.credential_documents d
+        WHERE d.credential_id = affected
+      ), '[]'::jsonb)
+    )
+    WHERE id = affected;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_credential_document_hashes
+  AFTER INSERT OR UPDATE OF credential_id OR DELETE ON public.credential_documents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_credential_document_hashes();
+
+-- Approving a request links its documents to the issued credential
+CREATE OR REPLACE FUNCTION public.review_credential_request(
+  _request_id UUID,
+  _decision TEXT,
+  _message TEXT DEFAULT NULL,
+  _credential_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  req RECORD;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin'::app_role) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only administrators can review credential requests');
+  END IF;
+
+  SELECT * INTO req FROM public.credential_requests WHERE id = _request_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Request not found');
+  END IF;
+
+  IF req.status <> 'pending' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only pending requests can be reviewed');
+  END IF;
+
+  IF _decision NOT IN ('approved', 'rejected', 'needs_info') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Unknown decision');
+  END IF;
+
+  IF _decision IN ('rejected', 'needs_info') AND COALESCE(btrim(_message), '') = '' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'A message for the citizen is required');
+  END IF;
+
+  IF _decision = 'approved' AND NOT EXISTS (
+    SELECT 1 FROM public.credentials c
+    WHERE c.id = _credential_id
+      AND c.citizen_user_id = req.citizen_user_id
+      AND c.credential_type = req.credential_type
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Approval requires the credential issued for this request');
+  END IF;
+
+  -- The documents submitted with the request back the issued credential
+  IF _decision = 'approved' THEN
+    UPDATE public.credential_documents
+    SET credential_id = _credential_id
+    WHERE request_id = _request_id;
+  END IF;
+
+  UPDATE public.credential_requests
+  SET status = _decision,
+      review_message = NULLIF(btrim(_message), ''),
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      credential_id = CASE WHEN _decision = 'approved' THEN _credential_id ELSE NULL END
+  WHERE id = _request_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
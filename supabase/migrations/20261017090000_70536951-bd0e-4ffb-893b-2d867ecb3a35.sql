@@ -0,0 +1,274 @@
+-- Tamper-evident audit log of issuer and admin actions
+-- Append-only: rows are only written through append_audit_entry and can never be updated or deleted.
+-- Each entry stores the hash of the previous one and a hash over its own content, so editing or
+-- removing an entry breaks the chain from that point on; verify_audit_log recomputes it.
+CREATE TABLE public.audit_log (
+  seq BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- NULL for actions taken by the system, such as the default role given at sign-up
+  actor_id UUID,
+  -- Username at the time of the action, kept so the entry reads the same if the profile changes
+  actor_label TEXT,
+  action TEXT NOT NULL CHECK (action IN (
+    'credential.issued',
+    'credential.revoked',
+    'credential.lookup',
+    'role.granted',
+    'role.removed'
+  )),
+  citizen_address TEXT,
+  -- No foreign keys: entries outlive the rows they describe
+  credential_id UUID,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb CHECK (jsonb_typeof(details) = 'object'),
+  prev_hash TEXT NOT NULL,
+  entry_hash TEXT NOT NULL UNIQUE
+);
+
+CREATE INDEX audit_log_created_at_idx ON public.audit_log (created_at);
+CREATE INDEX audit_log_actor_idx ON public.audit_log (actor_id);
+CREATE INDEX audit_log_citizen_idx ON public.audit_log (LOWER(citizen_address));
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for admins; there are deliberately no insert, update or delete policies
+CREATE POLICY "Admins can view the audit log"
+ON public.audit_log
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'The audit log is append-only';
+END;
+$$;
+
+CREATE TRIGGER prevent_audit_log_changes
+  BEFORE UPDATE OR DELETE ON public.audit_log
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+-- Hash of one entry: SHA-256 over its fields and the previous entry's hash
+CREATE OR REPLACE FUNCTION public.audit_log_entry_hash(
+  _seq BIGINT,
+  _prev_hash TEXT,
+  _created_at TIMESTAMP WITH TIME ZONE,
+  _actor_id UUID,
+  _actor_label TEXT,
+  _action TEXT,
+  _citizen_address TEXT,
+  _credential_id UUID,
+  _details JSONB
+)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT encode(sha256(convert_to(concat_ws('|',
+    _seq::text,
+    _prev_hash,
+    extract(epoch FROM _created_at)::text,
+    COALESCE(_actor_id::text, ''),
+    COALESCE(_actor_label, ''),
+    _action,
+    COALESCE(_citizen_address, ''),
+    COALESCE(_credential_id::text, ''),
+    _details::text
+  ), 'UTF8')), 'hex')
+$$;
+
+-- Append an entry to the chain. Internal: callers are record_audit_event and the triggers below,
+-- which decide who the actor is.
+CREATE OR REPLACE FUNCTION public.append_audit_entry(
+  _actor_id UUID,
+  _action TEXT,
+  _citizen_address TEXT,
+  _credential_id UUID,
+  _details JSONB
+)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  last_hash TEXT;
+  new_seq BIGINT;
+  new_created_at TIMESTAMP WITH TIME ZONE := now();
+  label TEXT;
+BEGIN
+  -- One writer at a time so every entry links to the one before it
+  PERFORM pg_advisory_xact_lock(hashtext('public.audit_log'));
+
+  SELECT entry_hash INTO last_hash FROM public.audit_log ORDER BY seq DESC LIMIT 1;
+  last_hash := COALESCE(last_hash, repeat('0', 64));
+
+  SELECT username INTO label FROM public.profiles WHERE user_id = _actor_id;
+
+  new_seq := nextval(pg_get_serial_sequence('public.audit_log', 'seq'));
+
+  INSERT INTO public.audit_log (
+    seq, created_at, actor_id, actor_label, action, citizen_address, credential_id, details, prev_hash, entry_hash
+  )
+  OVERRIDING SYSTEM VALUE
+  VALUES (
+    new_seq, new_created_at, _actor_id, label, _action, _citizen_address, _credential_id,
+    COALESCE(_details, '{}'::jsonb), last_hash,
+    public.audit_log_entry_hash(
+      new_seq, last_hash, new_created_at, _actor_id, label, _action, _citizen_address, _credential_id,
+      COALESCE(_details, '{}'::jsonb)
+    )
+  );
+
+  RETURN new_seq;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.append_audit_entry(UUID, TEXT, TEXT, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Record an action taken in the app by the signed-in user. Issuance and revocation are admin actions;
+-- any signed-in user's credential lookups are recorded.
+CREATE OR REPLACE FUNCTION public.record_audit_event(
+  _action TEXT,
+  _citizen_address TEXT DEFAULT NULL,
+  _credential_id UUID DEFAULT NULL,
+  _details JSONB DEFAULT '{}'::jsonb
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  IF _action IN ('credential.issued', 'credential.revoked') THEN
+    IF NOT public.has_role(auth.uid(), 'admin'::app_role) THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Only administrators can record this action');
+    END IF;
+  ELSIF _action <> 'credential.lookup' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This action is recorded by the database');
+  END IF;
+
+  IF _details IS NOT NULL AND jsonb_typeof(_details) <> 'object' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Details must be an object');
+  END IF;
+
+  PERFORM public.append_audit_entry(auth.uid(), _action, _citizen_address, _credential_id, _details);
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- Role changes are recorded whichever way they are made
+CREATE OR REPLACE FUNCTION public.audit_role_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  changed RECORD;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    changed := OLD;
+  ELSE
+    changed := NEW;
+  END IF;
+
+  PERFORM public.append_audit_entry(
+    auth.uid(),
+    CASE WHEN TG_OP = 'DELETE' THEN 'role.removed' ELSE 'role.granted' END,
+    (SELECT wallet_address FROM public.profiles WHERE user_id = changed.user_id),
+    NULL,
+    jsonb_build_object('userId', changed.user_id, 'role', changed.role)
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER audit_role_change
+  AFTER INSERT OR DELETE ON public.user_roles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_role_change();
+
+-- Changing a role in place is recorded as removing the old one and granting the new one
+CREATE OR REPLACE FUNCTION public.audit_role_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.role IS DISTINCT FROM NEW.role OR OLD.user_id IS DISTINCT FROM NEW.user_id THEN
+    PERFORM public.append_audit_entry(
+      auth.uid(), 'role.removed',
+      (SELECT wallet_address FROM public.profiles WHERE user_id = OLD.user_id), NULL,
+      jsonb_build_object('userId', OLD.user_id, 'role', OLD.role)
+    );
+    PERFORM public.append_audit_entry(
+      auth.uid(), 'role.granted',
+      (SELECT wallet_address FROM public.profiles WHERE user_id = NEW.user_id), NULL,
+      jsonb_build_object('userId', NEW.user_id, 'role', NEW.role)
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER audit_role_update
+  AFTER UPDATE ON public.user_roles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_role_update();
+
+-- Walk the chain and report the first entry whose link or hash does not match (admin only).
+-- Removing the most recent entries leaves a shorter but consistent chain; compare the returned
+-- head hash with one noted earlier to detect that.
+CREATE OR REPLACE FUNCTION public.verify_audit_log()
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  entry RECORD;
+  expected_prev TEXT := repeat('0', 64);
+  checked BIGINT := 0;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin'::app_role) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only administrators can verify the audit log');
+  END IF;
+
+  FOR entry IN SELECT * FROM public.audit_log ORDER BY seq LOOP
+    IF entry.prev_hash <> expected_prev THEN
+      RETURN jsonb_build_object(
+        'success', true, 'valid', false, 'checked', checked, 'brokenAt', entry.seq,
+        'reason', 'Entry does not link to the previous entry'
+      );
+    END IF;
+
+    IF entry.entry_hash <> public.audit_log_entry_hash(
+      entry.seq, entry.prev_hash, entry.created_at, entry.actor_id, entry.actor_label, entry.action,
+      entry.citizen_address, entry.credential_id, entry.details
+    ) THEN
+      RETURN jsonb_build_object(
+        'success', true, 'valid', false, 'checked', checked, 'brokenAt', entry.seq,
+        'reason', 'Entry content does not match its hash'
+      );
+    END IF;
+
+    expected_prev := entry.entry_hash;
+    checked := checked + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object('success', true, 'valid', true, 'checked', checked, 'headHash', expected_prev);
+END;
+$$;
@@ -0,0 +1,215 @@
+-- Verification history visible to citizens
+-- Every time someone checks a citizen's credential the database records who checked it, when, with
+-- what result and which fields were disclosed to them. Lookups through verify_credential are recorded
+-- by the function itself; checks of holder-shared presentations and age proofs, which are verified
+-- in the browser, are recorded through record_verification_event.
+CREATE TABLE public.verification_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  credential_id UUID NOT NULL REFERENCES public.credentials(id) ON DELETE CASCADE,
+  citizen_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- NULL when the check was made without signing in
+  verifier_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- Verifier's username and wallet at the time of the check
+  verifier_label TEXT,
+  verifier_address TEXT,
+  method TEXT NOT NULL CHECK (method IN ('lookup', 'presentation', 'age_proof')),
+  result TEXT NOT NULL CHECK (result IN ('valid', 'invalid', 'revoked', 'superseded', 'suspended', 'expired')),
+  disclosed_fields TEXT[] NOT NULL DEFAULT '{}' CHECK (cardinality(disclosed_fields) <= 50),
+  verified_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX verification_events_citizen_idx ON public.verification_events (citizen_user_id, verified_at DESC);
+
+ALTER TABLE public.verification_events ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the functions below
+CREATE POLICY "Citizens can view checks of their credentials"
+ON public.verification_events
+FOR SELECT
+TO authenticated
+USING (citizen_user_id = auth.uid());
+
+CREATE POLICY "Admins can view all verification events"
+ON public.verification_events
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+-- Record one check of a credential by the current caller. Citizens checking their own credentials
+-- are not recorded.
+CREATE OR REPLACE FUNCTION public.log_verification_event(
+  _credential_id UUID,
+  _citizen_user_id UUID,
+  _method TEXT,
+  _result TEXT,
+  _disclosed_fields TEXT[]
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  verifier RECORD;
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() = _citizen_user_id THEN
+    RETURN;
+  END IF;
+
+  SELECT username, wallet_address INTO verifier FROM public.profiles WHERE user_id = auth.uid();
+
+  INSERT INTO public.verification_events (
+    credential_id, citizen_user_id, verifier_user_id, verifier_label, verifier_address,
+    method, result, disclosed_fields
+  )
+  VALUES (
+    _credential_id, _citizen_user_id, auth.uid(), verifier.username, verifier.wallet_address,
+    _method, _result, COALESCE(_disclosed_fields, '{}')
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.log_verification_event(UUID, UUID, TEXT, TEXT, TEXT[]) FROM PUBLIC, anon, authenticated;
+
+-- Record the check of a presentation or age proof the holder shared. The credential is identified
+-- by its holder and hash, which the verifier only has from the holder.
+CREATE OR REPLACE FUNCTION public.record_verification_event(
+  _citizen_address TEXT,
+  _credential_hash TEXT,
+  _method TEXT,
+  _result TEXT,
+  _disclosed_fields TEXT[] DEFAULT '{}'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cred RECORD;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  IF _method NOT IN ('presentation', 'age_proof') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Lookups are recorded by verify_credential');
+  END IF;
+
+  IF _result NOT IN ('valid', 'invalid', 'revoked', 'superseded', 'suspended', 'expired') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Unknown result');
+  END IF;
+
+  SELECT id, citizen_user_id INTO cred
+  FROM public.credentials
+  WHERE LOWER(citizen_address) = LOWER(_citizen_address)
+    AND LOWER(credential_hash) = LOWER(_credential_hash);
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Credential not found');
+  END IF;
+
+  PERFORM public.log_verification_event(cred.id, cred.citizen_user_id, _method, _result, _disclosed_fields);
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- Verification records the lookup for the holder; the function is no longer STABLE as it writes
+CREATE OR REPLACE FUNCTION public.verify_credential(
+  _citizen_address TEXT,
+  _credential_id UUID DEFAULT NULL,
+  _credential_hash TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cred RECORD;
+  cred_json JSONB;
+  successor_id UUID;
+  status TEXT;
+BEGIN
+  SELECT * INTO cred
+  FROM public.credentials
+  WHERE citizen_address = _citizen_address
+    AND (_credential_id IS NULL OR id = _credential_id)
+    AND (_credential_hash IS NULL OR LOWER(credential_hash) = LOWER(_credential_hash))
+  ORDER BY (revoked_at IS NULL AND superseded_at IS NULL) DESC, issued_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'isValid', false,
+      'error', 'No credential found for this address'
+    );
+  END IF;
+
+  SELECT id INTO successor_id
+  FROM public.credentials
+  WHERE renews_credential_id = cred.id;
+
+  status := public.credential_lifecycle_status(
+    cred.revoked_at, cred.superseded_at, cred.suspended_at, cred.expiry_date::date
+  );
+
+  cred_json := jsonb_build_object(
+    'id', cred.id,
+    'fullName', cred.full_name,
+    'nationalId', cred.national_id,
+    'dateOfBirth', cred.date_of_birth,
+    'expiryDate', cred.expiry_date,
+    'issuerAddress', cred.issuer_address,
+    'issuedAt', cred.issued_at,
+    'credentialHash', cred.credential_hash,
+    'signature', cred.signature,
+    'signatureScheme', cred.signature_scheme,
+    'chainId', cred.chain_id,
+    'contractAddress', cred.contract_address,
+    'contractVersion', cred.contract_version,
+    'canonicalPayload', cred.canonical_payload,
+    'credentialType', cred.credential_type,
+    'schemaVersion', cred.schema_version,
+    'attributes', cred.attributes,
+    'renewsCredentialId', cred.renews_credential_id,
+    'renewedByCredentialId', successor_id,
+    'supersededAt', cred.superseded_at,
+    'suspendedAt', cred.suspended_at,
+    'revokedAt', cred.revoked_at,
+    'statusListIndex', cred.status_list_index,
+    'merkleRoot', cred.merkle_root,
+    'merkleProof', cred.merkle_proof,
+    'status', status
+  );
+
+  -- A lookup discloses every claim of the credential
+  PERFORM public.log_verification_event(
+    cred.id,
+    cred.citizen_user_id,
+    'lookup',
+    CASE status WHEN 'active' THEN 'valid' ELSE status END,
+    ARRAY['fullName', 'nationalId', 'dateOfBirth', 'expiryDate']
+      || ARRAY(SELECT jsonb_object_keys(cred.attributes) ORDER BY 1)
+  );
+
+  IF status = 'active' THEN
+    RETURN jsonb_build_object(
+      'isValid', true,
+      'credential', cred_json
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'isValid', false,
+    'error', CASE status
+      WHEN 'revoked' THEN 'Credential has been revoked'
+      WHEN 'superseded' THEN 'Credential has been renewed'
+      WHEN 'suspended' THEN 'Credential is suspended'
+      ELSE 'Credential has expired'
+    END,
+    'credential', cred_json
+  );
+END;
+$$;
@@ -0,0 +1,317 @@
+-- Consent-gated verification of personal data
+-- verify_credential no longer hands out names, national IDs and birth dates to anyone who knows a
+-- wallet address. A verifier asks the citizen for the fields it needs; the citizen approves or denies
+-- in the app. An approved request carries a token that unlocks those fields for that verifier until
+-- it expires or the citizen withdraws it. Without a token, signed-in verifiers get the credential's
+-- status and anchoring data only, and unauthenticated callers only whether it is valid.
+CREATE TABLE public.verification_consents (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  verifier_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Verifier's username at the time of the request, shown to the citizen
+  verifier_label TEXT,
+  citizen_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  citizen_address TEXT NOT NULL,
+  requested_fields TEXT[] NOT NULL CHECK (
+    cardinality(requested_fields) > 0
+    AND requested_fields <@ ARRAY['fullName', 'nationalId', 'dateOfBirth', 'attributes']
+  ),
+  purpose TEXT NOT NULL CHECK (char_length(purpose) BETWEEN 1 AND 500),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'denied', 'withdrawn')),
+  token TEXT UNIQUE,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  decided_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX verification_consents_citizen_idx ON public.verification_consents (citizen_user_id, created_at DESC);
+CREATE INDEX verification_consents_verifier_idx ON public.verification_consents (verifier_user_id, created_at DESC);
+
+-- One open request per verifier and citizen
+CREATE UNIQUE INDEX verification_consents_pending_idx
+ON public.verification_consents (verifier_user_id, citizen_user_id)
+WHERE status = 'pending';
+
+ALTER TABLE public.verification_consents ENABLE ROW LEVEL SECURITY;
+
+-- Tokens are bound to the verifier, so the citizen seeing them unlocks nothing.
+-- Every change goes through the functions below.
+CREATE POLICY "Verifiers can view their consent requests"
+ON public.verification_consents
+FOR SELECT
+TO authenticated
+USING (verifier_user_id = auth.uid());
+
+CREATE POLICY "Citizens can view consent requests addressed to them"
+ON public.verification_consents
+FOR SELECT
+TO authenticated
+USING (citizen_user_id = auth.uid());
+
+-- Ask the citizen holding an address for access to personal data fields
+CREATE OR REPLACE FUNCTION public.request_verification_consent(
+  _citizen_address TEXT,
+  _fields TEXT[],
+  _purpose TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  citizen_id UUID;
+  new_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Sign in to request access');
+  END IF;
+
+  IF _fields IS NULL OR cardinality(_fields) = 0
+    OR NOT (_fields <@ ARRAY['fullName', 'nationalId', 'dateOfBirth', 'attributes']) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Choose the fields you need');
+  END IF;
+
+  IF COALESCE(btrim(_purpose), '') = '' OR char_length(btrim(_purpose)) > 500 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Explain why you need the data (up to 500 characters)');
+  END IF;
+
+  SELECT user_id INTO citizen_id
+  FROM public.profiles
+  WHERE LOWER(wallet_address) = LOWER(_citizen_address);
+
+  IF citizen_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'No citizen account is linked to this address');
+  END IF;
+
+  IF citizen_id = auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'You cannot request access to your own data');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.verification_consents
+    WHERE verifier_user_id = auth.uid() AND citizen_user_id = citizen_id AND status = 'pending'
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'You already have a pending request for this citizen');
+  END IF;
+
+  INSERT INTO public.verification_consents (
+    verifier_user_id, verifier_label, citizen_user_id, citizen_address, requested_fields, purpose
+  )
+  VALUES (
+    auth.uid(),
+    (SELECT username FROM public.profiles WHERE user_id = auth.uid()),
+    citizen_id,
+    _citizen_address,
+    ARRAY(SELECT DISTINCT unnest(_fields) ORDER BY 1),
+    btrim(_purpose)
+  )
+  RETURNING id INTO new_id;
+
+  RETURN jsonb_build_object('success', true, 'id', new_id);
+END;
+$$;
+
+-- Approve (for a limited time) or deny a pending request (the citizen it is addressed to only)
+CREATE OR REPLACE FUNCTION public.decide_verification_consent(
+  _consent_id UUID,
+  _approve BOOLEAN,
+  _valid_minutes INTEGER DEFAULT 60
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  consent RECORD;
+BEGIN
+  SELECT * INTO consent FROM public.verification_consents WHERE id = _consent_id FOR UPDATE;
+
+  IF NOT FOUND OR consent.citizen_user_id IS DISTINCT FROM auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Request not found');
+  END IF;
+
+  IF consent.status <> 'pending' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This request has already been answered');
+  END IF;
+
+  IF _approve AND (_valid_minutes IS NULL OR _valid_minutes < 5 OR _valid_minutes > 10080) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Access can be granted for 5 minutes up to 7 days');
+  END IF;
+
+  UPDATE public.verification_consents
+  SET status = CASE WHEN _approve THEN 'approved' ELSE 'denied' END,
+      token = CASE WHEN _approve
+        THEN replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', '')
+        ELSE NULL END,
+      expires_at = CASE WHEN _approve THEN now() + make_interval(mins => _valid_minutes) ELSE NULL END,
+      decided_at = now()
+  WHERE id = _consent_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- Withdraw an approval before it expires (the citizen only)
+CREATE OR REPLACE FUNCTION public.withdraw_verification_consent(_consent_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.verification_consents
+  SET status = 'withdrawn',
+      expires_at = LEAST(expires_at, now())
+  WHERE id = _consent_id
+    AND citizen_user_id = auth.uid()
+    AND status = 'approved';
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'No active approval to withdraw');
+  END IF;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- The consent token is a new parameter, so the previous signature is replaced rather than overloaded
+DROP FUNCTION IF EXISTS public.verify_credential(TEXT, UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.verify_credential(
+  _citizen_address TEXT,
+  _credential_id UUID DEFAULT NULL,
+  _credential_hash TEXT DEFAULT NULL,
+  _consent_token TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cred RECORD;
+  cred_json JSONB;
+  successor_id UUID;
+  status TEXT;
+  personal_fields TEXT[] := ARRAY['fullName', 'nationalId', 'dateOfBirth', 'attributes'];
+  disclosed TEXT[] := '{}';
+  consent_error TEXT;
+  status_error TEXT;
+BEGIN
+  SELECT * INTO cred
+  FROM public.credentials
+  WHERE citizen_address = _citizen_address
+    AND (_credential_id IS NULL OR id = _credential_id)
+    AND (_credential_hash IS NULL OR LOWER(credential_hash) = LOWER(_credential_hash))
+  ORDER BY (revoked_at IS NULL AND superseded_at IS NULL) DESC, issued_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'isValid', false,
+      'error', 'No credential found for this address'
+    );
+  END IF;
+
+  status := public.credential_lifecycle_status(
+    cred.revoked_at, cred.superseded_at, cred.suspended_at, cred.expiry_date::date
+  );
+
+  status_error := CASE status
+    WHEN 'active' THEN NULL
+    WHEN 'revoked' THEN 'Credential has been revoked'
+    WHEN 'superseded' THEN 'Credential has been renewed'
+    WHEN 'suspended' THEN 'Credential is suspended'
+    ELSE 'Credential has expired'
+  END;
+
+  -- Unauthenticated callers learn whether the credential is valid and nothing else
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object('isValid', status = 'active', 'status', status, 'error', status_error);
+  END IF;
+
+  -- Issuers and the holder see everything; other verifiers what the citizen consented to
+  IF public.has_role(auth.uid(), 'admin'::app_role) OR auth.uid() = cred.citizen_user_id THEN
+    disclosed := personal_fields;
+  ELSIF _consent_token IS NOT NULL THEN
+    SELECT requested_fields INTO disclosed
+    FROM public.verification_consents
+    WHERE token = _consent_token
+      AND status = 'approved'
+      AND expires_at > now()
+      AND verifier_user_id = auth.uid()
+      AND citizen_user_id = cred.citizen_user_id;
+
+    IF disclosed IS NULL THEN
+      disclosed := '{}';
+      consent_error := 'Consent has expired, was withdrawn or does not cover this credential';
+    END IF;
+  END IF;
+
+  SELECT id INTO successor_id
+  FROM public.credentials
+  WHERE renews_credential_id = cred.id;
+
+  cred_json := jsonb_build_object(
+    'id', cred.id,
+    'expiryDate', cred.expiry_date,
+    'issuerAddress', cred.issuer_address,
+    'issuedAt', cred.issued_at,
+    'credentialHash', cred.credential_hash,
+    'signature', cred.signature,
+    'signatureScheme', cred.signature_scheme,
+    'chainId', cred.chain_id,
+    'contractAddress', cred.contract_address,
+    'contractVersion', cred.contract_version,
+    'credentialType', cred.credential_type,
+    'schemaVersion', cred.schema_version,
+    'renewsCredentialId', cred.renews_credential_id,
+    'renewedByCredentialId', successor_id,
+    'supersededAt', cred.superseded_at,
+    'suspendedAt', cred.suspended_at,
+    'revokedAt', cred.revoked_at,
+    'statusListIndex', cred.status_list_index,
+    'merkleRoot', cred.merkle_root,
+    'merkleProof', cred.merkle_proof,
+    'status', status,
+    'withheldFields', to_jsonb(ARRAY(SELECT f FROM unnest(personal_fields) AS f WHERE f <> ALL (disclosed)))
+  );
+
+  IF 'fullName' = ANY (disclosed) THEN
+    cred_json := cred_json || jsonb_build_object('fullName', cred.full_name);
+  END IF;
+  IF 'nationalId' = ANY (disclosed) THEN
+    cred_json := cred_json || jsonb_build_object('nationalId', cred.national_id);
+  END IF;
+  IF 'dateOfBirth' = ANY (disclosed) THEN
+    cred_json := cred_json || jsonb_build_object('dateOfBirth', cred.date_of_birth);
+  END IF;
+  IF 'attributes' = ANY (disclosed) THEN
+    cred_json := cred_json || jsonb_build_object('attributes', cred.attributes);
+  END IF;
+  -- The canonical payload contains every claim, so it is only returned when nothing is withheld
+  IF disclosed @> personal_fields THEN
+    cred_json := cred_json || jsonb_build_object('canonicalPayload', cred.canonical_payload);
+  END IF;
+
+  PERFORM public.log_verification_event(
+    cred.id,
+    cred.citizen_user_id,
+    'lookup',
+    CASE status WHEN 'active' THEN 'valid' ELSE status END,
+    ARRAY(SELECT f FROM unnest(disclosed) AS f WHERE f <> 'attributes')
+      || CASE WHEN 'attributes' = ANY (disclosed)
+        THEN ARRAY(SELECT jsonb_object_keys(cred.attributes) ORDER BY 1)
+        ELSE '{}'::TEXT[] END
+  );
+
+  RETURN jsonb_build_object(
+    'isValid', status = 'active',
+    'error', status_error,
+    'consentError', consent_error,
+    'credential', cred_json
+  );
+END;
+$$;
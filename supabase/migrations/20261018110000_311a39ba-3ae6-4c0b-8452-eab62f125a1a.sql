@@ -0,0 +1,472 @@
+-- Per-caller rate limiting for public RPCs
+-- Replaces the fixed pg_sleep delays, which slowed legitimate users as much as attackers. Calls are
+-- counted in a sliding window per function, separately for the signed-in user and the client IP.
+-- Reaching the limit locks the caller out, doubling with each repeat within a day. Limits live in
+-- rate_limit_policies so admins can tune them without a migration.
+CREATE TABLE public.rate_limit_policies (
+  function_name TEXT PRIMARY KEY,
+  max_calls INTEGER NOT NULL CHECK (max_calls > 0),
+  window_seconds INTEGER NOT NULL CHECK (window_seconds > 0),
+  -- 0 disables lockouts: callers only wait for the window to slide
+  lockout_seconds INTEGER NOT NULL DEFAULT 0 CHECK (lockout_seconds >= 0),
+  max_lockout_seconds INTEGER NOT NULL DEFAULT 3600,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_by UUID,
+  CHECK (max_lockout_seconds >= lockout_seconds)
+);
+
+-- Calls still inside their window; older rows are removed as callers come back
+CREATE TABLE public.rate_limit_calls (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  function_name TEXT NOT NULL,
+  -- user:<uuid> or ip:<address>
+  caller_key TEXT NOT NULL,
+  called_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX rate_limit_calls_caller_idx ON public.rate_limit_calls (function_name, caller_key, called_at);
+CREATE INDEX rate_limit_calls_called_at_idx ON public.rate_limit_calls (called_at);
+
+CREATE TABLE public.rate_limit_lockouts (
+  function_name TEXT NOT NULL,
+  caller_key TEXT NOT NULL,
+  -- Times the caller reached the limit, reset after a day without reaching it
+  strikes INTEGER NOT NULL DEFAULT 1,
+  locked_until TIMESTAMP WITH TIME ZONE NOT NULL,
+  last_strike_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (function_name, caller_key)
+);
+
+ALTER TABLE public.rate_limit_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rate_limit_calls ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rate_limit_lockouts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view rate limits"
+ON public.rate_limit_policies
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can change rate limits"
+ON public.rate_limit_policies
+FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (public.has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can view lockouts"
+ON public.rate_limit_lockouts
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+-- Lifting a lockout early; the strike count goes with it
+CREATE POLICY "Admins can lift lockouts"
+ON public.rate_limit_lockouts
+FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+-- rate_limit_calls has no policies: only enforce_rate_limit reads and writes it
+
+CREATE TRIGGER update_rate_limit_policies_updated_at
+  BEFORE UPDATE ON public.rate_limit_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.rate_limit_policies (function_name, max_calls, window_seconds, lockout_seconds, max_lockout_seconds) VALUES
+  ('verify_credential', 60, 60, 60, 3600),
+  ('username_exists', 20, 60, 60, 3600),
+  ('get_user_id_by_wallet', 30, 60, 60, 3600),
+  ('face_hash_exists', 10, 300, 300, 86400),
+  ('credential_face_hash_exists', 10, 300, 300, 86400),
+  ('check_face_similarity_with_wallet', 10, 300, 300, 86400);
+
+-- Client IP as reported by the API gateway, NULL outside of an HTTP request
+CREATE OR REPLACE FUNCTION public.request_client_ip()
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  headers JSON := NULLIF(current_setting('request.headers', true), '')::json;
+BEGIN
+  IF headers IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN NULLIF(TRIM(COALESCE(
+    headers ->> 'cf-connecting-ip',
+    split_part(headers ->> 'x-forwarded-for', ',', 1)
+  )), '');
+END;
+$$;
+
+-- Abort the call with HTTP 429 and a Retry-After header. The error body carries the seconds to
+-- wait in details, which the client reads (see src/lib/rate-limit.ts).
+CREATE OR REPLACE FUNCTION public.raise_rate_limited(_retry_after INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE SQLSTATE 'PGRST' USING
+    MESSAGE = json_build_object(
+      'code', 'rate_limited',
+      'message', 'Too many requests',
+      'details', GREATEST(_retry_after, 1)::text,
+      'hint', 'Retry after ' || GREATEST(_retry_after, 1) || ' seconds'
+    )::text,
+    DETAIL = json_build_object(
+      'status', 429,
+      'headers', json_build_object('Retry-After', GREATEST(_retry_after, 1)::text)
+    )::text;
+END;
+$$;
+
+-- Count a call to _function by the current caller, or abort it if the caller is over the limit.
+-- Rejected calls roll back and leave no trace, so lockouts are set by the call that reaches the
+-- limit. Admins are exempt: bulk issuance looks up every row, and their actions are audited.
+CREATE OR REPLACE FUNCTION public.enforce_rate_limit(_function TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  policy public.rate_limit_policies%ROWTYPE;
+  caller_keys TEXT[] := '{}';
+  caller_ip TEXT;
+  current_key TEXT;
+  window_length INTERVAL;
+  lockout_end TIMESTAMP WITH TIME ZONE;
+  recent_calls INTEGER;
+  oldest_call TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT * INTO policy FROM public.rate_limit_policies WHERE function_name = _function;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND public.has_role(auth.uid(), 'admin'::app_role) THEN
+    RETURN;
+  END IF;
+
+  IF auth.uid() IS NOT NULL THEN
+    caller_keys := caller_keys || ('user:' || auth.uid()::text);
+  END IF;
+  caller_ip := public.request_client_ip();
+  IF caller_ip IS NOT NULL THEN
+    caller_keys := caller_keys || ('ip:' || caller_ip);
+  END IF;
+  IF cardinality(caller_keys) = 0 THEN
+    RETURN;
+  END IF;
+
+  window_length := make_interval(secs => policy.window_seconds);
+
+  -- Every key must be under its limit before any call is counted
+  FOREACH current_key IN ARRAY caller_keys LOOP
+    PERFORM pg_advisory_xact_lock(hashtext('rate_limit:' || _function || ':' || current_key));
+
+    SELECT locked_until INTO lockout_end
+    FROM public.rate_limit_lockouts
+    WHERE function_name = _function AND caller_key = current_key;
+
+    IF lockout_end > now() THEN
+      PERFORM public.raise_rate_limited(CEIL(EXTRACT(EPOCH FROM lockout_end - now()))::integer);
+    END IF;
+
+    DELETE FROM public.rate_limit_calls
+    WHERE function_name = _function AND caller_key = current_key AND called_at <= now() - window_length;
+
+    SELECT count(*), min(called_at) INTO recent_calls, oldest_call
+    FROM public.rate_limit_calls
+    WHERE function_name = _function AND caller_key = current_key;
+
+    IF recent_calls >= policy.max_calls THEN
+      PERFORM public.raise_rate_limited(CEIL(EXTRACT(EPOCH FROM oldest_call + window_length - now()))::integer);
+    END IF;
+  END LOOP;
+
+  FOREACH current_key IN ARRAY caller_keys LOOP
+    INSERT INTO public.rate_limit_calls (function_name, caller_key) VALUES (_function, current_key);
+
+    SELECT count(*) INTO recent_calls
+    FROM public.rate_limit_calls
+    WHERE function_name = _function AND caller_key = current_key;
+
+    IF recent_calls >= policy.max_calls AND policy.lockout_seconds > 0 THEN
+      INSERT INTO public.rate_limit_lockouts AS l (function_name, caller_key, strikes, locked_until, last_strike_at)
+      VALUES (_function, current_key, 1, now() + make_interval(secs => policy.lockout_seconds), now())
+      ON CONFLICT (function_name, caller_key) DO UPDATE SET
+        strikes = CASE WHEN l.last_strike_at > now() - INTERVAL '1 day' THEN l.strikes + 1 ELSE 1 END,
+        locked_until = now() + make_interval(secs => LEAST(
+          policy.max_lockout_seconds,
+          policy.lockout_seconds * power(2, CASE WHEN l.last_strike_at > now() - INTERVAL '1 day' THEN l.strikes ELSE 0 END)
+        )),
+        last_strike_at = now();
+    END IF;
+  END LOOP;
+
+  -- Occasionally clear out callers who never came back
+  IF random() < 0.01 THEN
+    DELETE FROM public.rate_limit_calls WHERE called_at < now() - INTERVAL '1 day';
+    DELETE FROM public.rate_limit_lockouts
+    WHERE locked_until < now() AND last_strike_at < now() - INTERVAL '1 day';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.enforce_rate_limit(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.raise_rate_limited(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- The public lookups below count against their limits instead of sleeping. They write to the
+-- rate limit tables, so they are no longer STABLE.
+CREATE OR REPLACE FUNCTION public.face_hash_exists(_hash TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.enforce_rate_limit('face_hash_exists');
+
+  RETURN EXISTS (
+    SELECT 1
+    FROM public.profiles
+    WHERE face_descriptor_hash = _hash
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.credential_face_hash_exists(_hash TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.enforce_rate_limit('credential_face_hash_exists');
+
+  RETURN EXISTS (
+    SELECT 1
+    FROM public.credentials
+    WHERE face_descriptor_hash = _hash
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.check_face_similarity_with_wallet(_descriptor DOUBLE PRECISION[], _threshold DOUBLE PRECISION DEFAULT 0.6)
+RETURNS TABLE(similar_exists BOOLEAN, wallet_address TEXT)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  existing_record RECORD;
+  distance FLOAT8;
+BEGIN
+  PERFORM public.enforce_rate_limit('check_face_similarity_with_wallet');
+
+  -- Check profiles table for similar faces
+  FOR existing_record IN SELECT p.face_descriptor, p.wallet_address FROM public.profiles p WHERE p.face_descriptor IS NOT NULL
+  LOOP
+    -- Calculate Euclidean distance between descriptors
+    SELECT SQRT(SUM(POWER(a.val - b.val, 2)))
+    INTO distance
+    FROM (SELECT unnest(_descriptor) as val, generate_subscripts(_descriptor, 1) as idx) a
+    JOIN (SELECT unnest(existing_record.face_descriptor) as val, generate_subscripts(existing_record.face_descriptor, 1) as idx) b
+    ON a.idx = b.idx;
+
+    IF distance < _threshold THEN
+      RETURN QUERY SELECT true, existing_record.wallet_address;
+      RETURN;
+    END IF;
+  END LOOP;
+
+  RETURN QUERY SELECT false, NULL::text;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.username_exists(_username TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.enforce_rate_limit('username_exists');
+
+  RETURN EXISTS (
+    SELECT 1
+    FROM public.profiles
+    WHERE username = LOWER(TRIM(_username))
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_user_id_by_wallet(_wallet_address TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  found_user_id UUID;
+BEGIN
+  PERFORM public.enforce_rate_limit('get_user_id_by_wallet');
+
+  SELECT user_id INTO found_user_id
+  FROM public.profiles
+  WHERE LOWER(wallet_address) = LOWER(_wallet_address);
+
+  RETURN found_user_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.verify_credential(
+  _citizen_address TEXT,
+  _credential_id UUID DEFAULT NULL,
+  _credential_hash TEXT DEFAULT NULL,
+  _consent_token TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cred RECORD;
+  cred_json JSONB;
+  successor_id UUID;
+  status TEXT;
+  personal_fields TEXT[] := ARRAY['fullName', 'nationalId', 'dateOfBirth', 'attributes'];
+  disclosed TEXT[] := '{}';
+  consent_error TEXT;
+  status_error TEXT;
+BEGIN
+  PERFORM public.enforce_rate_limit('verify_credential');
+
+  SELECT * INTO cred
+  FROM public.credentials
+  WHERE citizen_address = _citizen_address
+    AND (_credential_id IS NULL OR id = _credential_id)
+    AND (_credential_hash IS NULL OR LOWER(credential_hash) = LOWER(_credential_hash))
+  ORDER BY (revoked_at IS NULL AND superseded_at IS NULL) DESC, issued_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'isValid', false,
+      'error', 'No credential found for this address'
+    );
+  END IF;
+
+  status := public.credential_lifecycle_status(
+    cred.revoked_at, cred.superseded_at, cred.suspended_at, cred.expiry_date::date
+  );
+
+  status_error := CASE status
+    WHEN 'active' THEN NULL
+    WHEN 'revoked' THEN 'Credential has been revoked'
+    WHEN 'superseded' THEN 'Credential has been renewed'
+    WHEN 'suspended' THEN 'Credential is suspended'
+    ELSE 'Credential has expired'
+  END;
+
+  -- Unauthenticated callers learn whether the credential is valid and nothing else
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object('isValid', status = 'active', 'status', status, 'error', status_error);
+  END IF;
+
+  -- Issuers and the holder see everything; other verifiers what the citizen consented to
+  IF public.has_role(auth.uid(), 'admin'::app_role) OR auth.uid() = cred.citizen_user_id THEN
+    disclosed := personal_fields;
+  ELSIF _consent_token IS NOT NULL THEN
+    SELECT requested_fields INTO disclosed
+    FROM public.verification_consents
+    WHERE token = _consent_token
+      AND status = 'approved'
+      AND expires_at > now()
+      AND verifier_user_id = auth.uid()
+      AND citizen_user_id = cred.citizen_user_id;
+
+    IF disclosed IS NULL THEN
+      disclosed := '{}';
+      consent_error := 'Consent has expired, was withdrawn or does not cover this credential';
+    END IF;
+  END IF;
+
+  SELECT id INTO successor_id
+  FROM public.credentials
+  WHERE renews_credential_id = cred.id;
+
+  cred_json := jsonb_build_object(
+    'id', cred.id,
+    'expiryDate', cred.expiry_date,
+    'issuerAddress', cred.issuer_address,
+    'issuedAt', cred.issued_at,
+    'credentialHash', cred.credential_hash,
+    'signature', cred.signature,
+    'signatureScheme', cred.signature_scheme,
+    'chainId', cred.chain_id,
+    'contractAddress', cred.contract_address,
+    'contractVersion', cred.contract_version,
+    'credentialType', cred.credential_type,
+    'schemaVersion', cred.schema_version,
+    'renewsCredentialId', cred.renews_credential_id,
+    'renewedByCredentialId', successor_id,
+    'supersededAt', cred.superseded_at,
+    'suspendedAt', cred.suspended_at,
+    'revokedAt', cred.revoked_at,
+    'statusListIndex', cred.status_list_index,
+    'merkleRoot', cred.merkle_root,
+    'merkleProof', cred.merkle_proof,
+    'status', status,
+    'withheldFields', to_jsonb(ARRAY(SELECT f FROM unnest(personal_fields) AS f WHERE f <> ALL (disclosed)))
+  );
+
+  IF 'fullName' = ANY (disclosed) THEN
+    cred_json := cred_json || jsonb_build_object('fullName', cred.full_name);
+  END IF;
+  IF 'nationalId' = ANY (disclosed) THEN
+    cred_json := cred_json || jsonb_build_object('nationalId', cred.national_id);
+  END IF;
+  IF 'dateOfBirth' = ANY (disclosed) THEN
+    cred_json := cred_json || jsonb_build_object('dateOfBirth', cred.date_of_birth);
+  END IF;
+  IF 'attributes' = ANY (disclosed) THEN
+    cred_json := cred_json || jsonb_build_object('attributes', cred.attributes);
+  END IF;
+  -- The canonical payload contains every claim, so it is only returned when nothing is withheld
+  IF disclosed @> personal_fields THEN
+    cred_json := cred_json || jsonb_build_object('canonicalPayload', cred.canonical_payload);
+  END IF;
+
+  PERFORM public.log_verification_event(
+    cred.id,
+    cred.citizen_user_id,
+    'lookup',
+    CASE status WHEN 'active' THEN 'valid' ELSE status END,
+    ARRAY(SELECT f FROM unnest(disclosed) AS f WHERE f <> 'attributes')
+      || CASE WHEN 'attributes' = ANY (disclosed)
+        THEN ARRAY(SELECT jsonb_object_keys(cred.attributes) ORDER BY 1)
+        ELSE '{}'::TEXT[] END
+  );
+
+  RETURN jsonb_build_object(
+    'isValid', status = 'active',
+    'error', status_error,
+    'consentError', consent_error,
+    'credential', cred_json
+  );
+END;
+$$;
@@ -0,0 +1,197 @@
+-- API keys for partner systems that verify credentials from their own backends (see
+-- supabase/functions/verifier-api). Each key acts as a partner account, so consents, verification
+-- history and rate limits apply to API calls exactly as to that account's lookups in the app.
+-- Only the SHA-256 of a key is stored; the key itself is shown once when an admin creates it.
+CREATE TABLE public.verifier_api_keys (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 100),
+  verifier_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Username of the partner account when the key was issued
+  verifier_label TEXT NOT NULL,
+  -- First characters of the key, to tell keys apart without storing them
+  key_prefix TEXT NOT NULL,
+  key_hash TEXT NOT NULL UNIQUE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  revoked_by UUID REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX verifier_api_keys_verifier_idx ON public.verifier_api_keys (verifier_user_id);
+
+ALTER TABLE public.verifier_api_keys ENABLE ROW LEVEL SECURITY;
+
+-- Keys are created and revoked through the functions below
+CREATE POLICY "Admins can view API keys"
+ON public.verifier_api_keys
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+-- Issue a key for a partner account. Admin accounts are refused: they see every citizen's data.
+CREATE OR REPLACE FUNCTION public.create_verifier_api_key(_name TEXT, _verifier_username TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  verifier_id UUID;
+  api_key TEXT;
+  key_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin'::app_role) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only administrators can issue API keys');
+  END IF;
+
+  IF char_length(btrim(COALESCE(_name, ''))) NOT BETWEEN 1 AND 100 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Name must be between 1 and 100 characters');
+  END IF;
+
+  SELECT user_id INTO verifier_id FROM public.profiles WHERE username = LOWER(TRIM(_verifier_username));
+  IF verifier_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'No user with this username');
+  END IF;
+  IF public.has_role(verifier_id, 'admin'::app_role) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'API keys cannot act as an administrator; use a partner account');
+  END IF;
+
+  api_key := 'vk_' || replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', '');
+
+  INSERT INTO public.verifier_api_keys (name, verifier_user_id, verifier_label, key_prefix, key_hash, created_by)
+  VALUES (
+    btrim(_name),
+    verifier_id,
+    LOWER(TRIM(_verifier_username)),
+    left(api_key, 11),
+    encode(sha256(convert_to(api_key, 'UTF8')), 'hex'),
+    auth.uid()
+  )
+  RETURNING id INTO key_id;
+
+  RETURN jsonb_build_object('success', true, 'id', key_id, 'apiKey', api_key);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.revoke_verifier_api_key(_key_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin'::app_role) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only administrators can revoke API keys');
+  END IF;
+
+  UPDATE public.verifier_api_keys
+  SET revoked_at = now(), revoked_by = auth.uid()
+  WHERE id = _key_id AND revoked_at IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'API key not found or already revoked');
+  END IF;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- Check an API key and act as its partner account for the rest of the transaction: auth.uid()
+-- returns that account, as if it had called with its own session. The forwarded request headers
+-- describe the edge function rather than the partner, so they are cleared and rate limits apply
+-- to the account alone.
+CREATE OR REPLACE FUNCTION public.act_as_api_verifier(_api_key TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  verifier_id UUID;
+BEGIN
+  UPDATE public.verifier_api_keys
+  SET last_used_at = now()
+  WHERE key_hash = encode(sha256(convert_to(COALESCE(_api_key, ''), 'UTF8')), 'hex')
+    AND revoked_at IS NULL
+  RETURNING verifier_user_id INTO verifier_id;
+
+  IF verifier_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  PERFORM set_config('request.jwt.claim.sub', verifier_id::text, true);
+  PERFORM set_config('request.jwt.claims', jsonb_build_object('sub', verifier_id, 'role', 'authenticated')::text, true);
+  PERFORM set_config('request.headers', '{}', true);
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.act_as_api_verifier(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.act_as_api_verifier(TEXT) TO service_role;
+
+-- verify_credential for an API caller, recorded in the audit log like lookups from the app
+CREATE OR REPLACE FUNCTION public.api_verify_credential(
+  _api_key TEXT,
+  _citizen_address TEXT,
+  _credential_id UUID DEFAULT NULL,
+  _credential_hash TEXT DEFAULT NULL,
+  _consent_token TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  result JSONB;
+BEGIN
+  IF NOT public.act_as_api_verifier(_api_key) THEN
+    RETURN jsonb_build_object('isValid', false, 'unauthorized', true, 'error', 'Invalid or revoked API key');
+  END IF;
+
+  result := public.verify_credential(_citizen_address, _credential_id, _credential_hash, _consent_token);
+
+  PERFORM public.record_audit_event(
+    'credential.lookup',
+    _citizen_address,
+    (result -> 'credential' ->> 'id')::uuid,
+    jsonb_build_object('source', 'api', 'isValid', COALESCE((result ->> 'isValid')::boolean, false))
+  );
+
+  RETURN result;
+END;
+$$;
+
+-- The same check for a credential known only by its ID; the holder address is added to the result
+CREATE OR REPLACE FUNCTION public.api_credential_status(_api_key TEXT, _credential_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  holder_address TEXT;
+BEGIN
+  SELECT citizen_address INTO holder_address FROM public.credentials WHERE id = _credential_id;
+
+  IF holder_address IS NULL THEN
+    IF NOT public.act_as_api_verifier(_api_key) THEN
+      RETURN jsonb_build_object('isValid', false, 'unauthorized', true, 'error', 'Invalid or revoked API key');
+    END IF;
+    RETURN jsonb_build_object('isValid', false, 'error', 'No credential found with this ID');
+  END IF;
+
+  RETURN public.api_verify_credential(_api_key, holder_address, _credential_id, NULL, NULL)
+    || jsonb_build_object('citizenAddress', holder_address);
+END;
+$$;
+
+-- Only the edge function, with the service role key, calls the API functions
+REVOKE EXECUTE ON FUNCTION public.api_verify_credential(TEXT, TEXT, UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.api_credential_status(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.api_verify_credential(TEXT, TEXT, UUID, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.api_credential_status(TEXT, UUID) TO service_role;
@@ -0,0 +1,70 @@
+-- Registry check for SD-JWT presentations
+-- A valid signature only proves the JWT was signed by the key in its iss claim. The presentation
+-- is accepted when its issuer-signed JWT is the one stored with the credential at issuance and
+-- that credential's issuer is still an authorized issuer. The signed JWT holds the digests of
+-- every claim, so the disclosed claims are then the ones issued for this record. Nothing personal
+-- is returned: the caller already holds the presentation.
+CREATE OR REPLACE FUNCTION public.check_sd_jwt_presentation(
+  _citizen_address TEXT,
+  _credential_hash TEXT,
+  _issuer_jwt TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cred RECORD;
+  issuer_authorized BOOLEAN;
+BEGIN
+  PERFORM public.enforce_rate_limit('check_sd_jwt_presentation');
+
+  SELECT * INTO cred
+  FROM public.credentials
+  WHERE LOWER(citizen_address) = LOWER(_citizen_address)
+    AND LOWER(credential_hash) = LOWER(_credential_hash);
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('found', false, 'error', 'No credential was issued with this hash');
+  END IF;
+
+  IF cred.sd_jwt IS NULL OR split_part(cred.sd_jwt, '~', 1) <> _issuer_jwt THEN
+    RETURN jsonb_build_object(
+      'found', true,
+      'matchesIssued', false,
+      'error', 'Presentation was not issued with this credential'
+    );
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.profiles p
+    JOIN public.user_roles ur ON ur.user_id = p.user_id
+    WHERE ur.role = 'admin'::app_role
+      AND LOWER(p.wallet_address) = LOWER(cred.issuer_address)
+  ) INTO issuer_authorized;
+
+  RETURN jsonb_build_object(
+    'found', true,
+    'matchesIssued', true,
+    'issuerAddress', cred.issuer_address,
+    'issuerAuthorized', issuer_authorized,
+    'status', public.credential_lifecycle_status(
+      cred.revoked_at, cred.superseded_at, cred.suspended_at, cred.expiry_date::date
+    ),
+    -- Needed to read the on-chain anchor of v2 and batch credentials
+    'id', cred.id,
+    'contractVersion', cred.contract_version,
+    'contractAddress', cred.contract_address,
+    'merkleRoot', cred.merkle_root,
+    'merkleProof', cred.merkle_proof
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.check_sd_jwt_presentation(TEXT, TEXT, TEXT) TO anon, authenticated;
+
+INSERT INTO public.rate_limit_policies (function_name, max_calls, window_seconds, lockout_seconds, max_lockout_seconds)
+VALUES ('check_sd_jwt_presentation', 60, 60, 60, 3600);
@@ -0,0 +1,112 @@
+-- Server-issued challenges for holder-bound presentations sent to the verifier API
+-- A presentation only proves the holder signed a nonce, so the nonce must come from the server
+-- and be accepted once. Challenges are bound to the partner account of the key that asked for
+-- them; a presentation made for another verifier, or answering a used or expired nonce, is refused.
+CREATE TABLE public.verifier_api_challenges (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  nonce TEXT NOT NULL UNIQUE,
+  verifier_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Verifier the holder signs for: urn:uuid:<partner account>
+  verifier_id TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  consumed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX verifier_api_challenges_verifier_idx ON public.verifier_api_challenges (verifier_user_id, expires_at);
+
+-- No policies: only the functions below read and write challenges
+ALTER TABLE public.verifier_api_challenges ENABLE ROW LEVEL SECURITY;
+
+-- Issue a challenge for the key's partner account. Expired challenges of the account are removed
+-- as it asks for new ones.
+CREATE OR REPLACE FUNCTION public.api_create_presentation_challenge(_api_key TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  challenge RECORD;
+BEGIN
+  IF NOT public.act_as_api_verifier(_api_key) THEN
+    RETURN jsonb_build_object('success', false, 'unauthorized', true, 'error', 'Invalid or revoked API key');
+  END IF;
+
+  PERFORM public.enforce_rate_limit('api_create_presentation_challenge');
+
+  DELETE FROM public.verifier_api_challenges
+  WHERE verifier_user_id = auth.uid()
+    AND expires_at < now();
+
+  -- 16 random bytes, the nonce size the holder app accepts
+  INSERT INTO public.verifier_api_challenges (nonce, verifier_user_id, verifier_id, expires_at)
+  VALUES (
+    '0x' || replace(gen_random_uuid()::text, '-', ''),
+    auth.uid(),
+    'urn:uuid:' || auth.uid(),
+    now() + interval '5 minutes'
+  )
+  RETURNING nonce, verifier_id, expires_at INTO challenge;
+
+  -- Same shape as the challenges the in-app verifier shows (src/lib/holder-binding.ts)
+  RETURN jsonb_build_object(
+    'success', true,
+    'challenge', jsonb_build_object(
+      'type', 'PresentationChallenge',
+      'nonce', challenge.nonce,
+      'verifierId', challenge.verifier_id,
+      'expiresAt', floor(extract(epoch FROM challenge.expires_at) * 1000)::bigint
+    )
+  );
+END;
+$$;
+
+-- Accept a presentation's nonce once. It must have been issued to the key's partner account, for
+-- the verifier the holder signed for, and not have expired.
+CREATE OR REPLACE FUNCTION public.api_consume_presentation_challenge(
+  _api_key TEXT,
+  _nonce TEXT,
+  _verifier_id TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  challenge_id UUID;
+BEGIN
+  IF NOT public.act_as_api_verifier(_api_key) THEN
+    RETURN jsonb_build_object('success', false, 'unauthorized', true, 'error', 'Invalid or revoked API key');
+  END IF;
+
+  UPDATE public.verifier_api_challenges
+  SET consumed_at = now()
+  WHERE nonce = LOWER(_nonce)
+    AND verifier_user_id = auth.uid()
+    AND verifier_id = _verifier_id
+    AND consumed_at IS NULL
+    AND expires_at > now()
+  RETURNING id INTO challenge_id;
+
+  IF challenge_id IS NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Presentation does not answer an open challenge of this API key. Request a new one from /challenge.'
+    );
+  END IF;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.api_create_presentation_challenge(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.api_consume_presentation_challenge(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.api_create_presentation_challenge(TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.api_consume_presentation_challenge(TEXT, TEXT, TEXT) TO service_role;
+
+INSERT INTO public.rate_limit_policies (function_name, max_calls, window_seconds, lockout_seconds, max_lockout_seconds)
+VALUES ('api_create_presentation_challenge', 60, 60, 60, 3600);
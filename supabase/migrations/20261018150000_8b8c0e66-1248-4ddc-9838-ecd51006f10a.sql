@@ -0,0 +1,39 @@
+-- Suspended and renewed credentials in the offline trust snapshot
+-- Only revoked hashes were listed, so offline checks (and the verifier API's /issuers) accepted
+-- credentials that are suspended or superseded by a renewal. Each hash is listed under its
+-- lifecycle state; revocation takes precedence when a revoked credential was also suspended.
+CREATE OR REPLACE FUNCTION public.get_offline_trust_snapshot()
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'issuers', COALESCE((
+      SELECT jsonb_agg(DISTINCT LOWER(p.wallet_address))
+      FROM public.profiles p
+      JOIN public.user_roles ur ON ur.user_id = p.user_id
+      WHERE ur.role = 'admin'::app_role
+        AND p.wallet_address IS NOT NULL
+    ), '[]'::jsonb),
+    'revokedHashes', COALESCE((
+      SELECT jsonb_agg(LOWER(c.credential_hash))
+      FROM public.credentials c
+      WHERE c.revoked_at IS NOT NULL
+    ), '[]'::jsonb),
+    'suspendedHashes', COALESCE((
+      SELECT jsonb_agg(LOWER(c.credential_hash))
+      FROM public.credentials c
+      WHERE c.suspended_at IS NOT NULL
+        AND c.revoked_at IS NULL
+    ), '[]'::jsonb),
+    'supersededHashes', COALESCE((
+      SELECT jsonb_agg(LOWER(c.credential_hash))
+      FROM public.credentials c
+      WHERE c.superseded_at IS NOT NULL
+        AND c.revoked_at IS NULL
+    ), '[]'::jsonb),
+    'generatedAt', now()
+  )
+$$;
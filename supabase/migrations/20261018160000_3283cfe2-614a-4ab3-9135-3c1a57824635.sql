@@ -0,0 +1,96 @@
+-- Record presentation and age proof checks where they are verified
+-- record_verification_event let any signed-in user write events for any holder address and hash,
+-- with any result. The check of a presentation against the registry now records the event
+-- itself, and only once the presented JWT is the one issued with the credential.
+DROP FUNCTION IF EXISTS public.record_verification_event(TEXT, TEXT, TEXT, TEXT, TEXT[]);
+DROP FUNCTION IF EXISTS public.check_sd_jwt_presentation(TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.check_sd_jwt_presentation(
+  _citizen_address TEXT,
+  _credential_hash TEXT,
+  _issuer_jwt TEXT,
+  _method TEXT DEFAULT 'presentation',
+  -- Claims the holder disclosed, or ageOver<years> for an age proof
+  _disclosed_fields TEXT[] DEFAULT '{}'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cred RECORD;
+  issuer_authorized BOOLEAN;
+  status TEXT;
+BEGIN
+  PERFORM public.enforce_rate_limit('check_sd_jwt_presentation');
+
+  IF _method NOT IN ('presentation', 'age_proof') THEN
+    RETURN jsonb_build_object('found', false, 'error', 'Unknown verification method');
+  END IF;
+
+  SELECT * INTO cred
+  FROM public.credentials
+  WHERE LOWER(citizen_address) = LOWER(_citizen_address)
+    AND LOWER(credential_hash) = LOWER(_credential_hash);
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('found', false, 'error', 'No credential was issued with this hash');
+  END IF;
+
+  IF cred.sd_jwt IS NULL OR split_part(cred.sd_jwt, '~', 1) <> _issuer_jwt THEN
+    RETURN jsonb_build_object(
+      'found', true,
+      'matchesIssued', false,
+      'error', 'Presentation was not issued with this credential'
+    );
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.profiles p
+    JOIN public.user_roles ur ON ur.user_id = p.user_id
+    WHERE ur.role = 'admin'::app_role
+      AND LOWER(p.wallet_address) = LOWER(cred.issuer_address)
+  ) INTO issuer_authorized;
+
+  status := public.credential_lifecycle_status(
+    cred.revoked_at, cred.superseded_at, cred.suspended_at, cred.expiry_date::date
+  );
+
+  -- Only fields a presentation or age proof can disclose are recorded
+  PERFORM public.log_verification_event(
+    cred.id,
+    cred.citizen_user_id,
+    _method,
+    CASE
+      WHEN NOT issuer_authorized THEN 'invalid'
+      WHEN status = 'active' THEN 'valid'
+      ELSE status
+    END,
+    ARRAY(
+      SELECT DISTINCT f
+      FROM unnest(COALESCE(_disclosed_fields, '{}')) AS f
+      WHERE (_method = 'presentation' AND f IN ('fullName', 'nationalId', 'dateOfBirth', 'expiryDate'))
+        OR (_method = 'age_proof' AND f ~ '^ageOver[0-9]{1,3}$')
+    )
+  );
+
+  RETURN jsonb_build_object(
+    'found', true,
+    'matchesIssued', true,
+    'issuerAddress', cred.issuer_address,
+    'issuerAuthorized', issuer_authorized,
+    'status', status,
+    -- Needed to read the on-chain anchor of v2 and batch credentials
+    'id', cred.id,
+    'contractVersion', cred.contract_version,
+    'contractAddress', cred.contract_address,
+    'merkleRoot', cred.merkle_root,
+    'merkleProof', cred.merkle_proof
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.check_sd_jwt_presentation(TEXT, TEXT, TEXT, TEXT, TEXT[]) TO anon, authenticated;
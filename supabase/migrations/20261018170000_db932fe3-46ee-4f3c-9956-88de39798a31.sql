@@ -0,0 +1,27 @@
+-- Take the client IP from the proxies, not from the client
+-- The first x-forwarded-for entry is whatever the client sent, so a caller could rotate it to get a
+-- fresh rate limit on every call. cf-connecting-ip is set by the edge network, and the last
+-- x-forwarded-for entry is the address that connected to the gateway; both are out of the
+-- client's reach.
+CREATE OR REPLACE FUNCTION public.request_client_ip()
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  headers JSON := NULLIF(current_setting('request.headers', true), '')::json;
+  forwarded_for TEXT[];
+BEGIN
+  IF headers IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  forwarded_for := string_to_array(headers ->> 'x-forwarded-for', ',');
+
+  RETURN NULLIF(TRIM(COALESCE(
+    headers ->> 'cf-connecting-ip',
+    forwarded_for[array_upper(forwarded_for, 1)]
+  )), '');
+END;
+$$;
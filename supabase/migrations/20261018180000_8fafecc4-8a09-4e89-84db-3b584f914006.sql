@@ -0,0 +1,127 @@
+-- Rate limit the remaining public lookups
+-- credential_exists_for_address and list_holder_credentials tell anyone whether an address holds
+-- credentials, and request_verification_consent whether it belongs to a citizen account. They
+-- count against their own limits like the lookups in the rate limiting migration.
+INSERT INTO public.rate_limit_policies (function_name, max_calls, window_seconds, lockout_seconds, max_lockout_seconds) VALUES
+  ('credential_exists_for_address', 30, 60, 60, 3600),
+  ('list_holder_credentials', 60, 60, 60, 3600),
+  ('request_verification_consent', 10, 300, 300, 86400);
+
+CREATE OR REPLACE FUNCTION public.credential_exists_for_address(
+  _address TEXT,
+  _credential_type TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.enforce_rate_limit('credential_exists_for_address');
+
+  RETURN EXISTS (
+    SELECT 1
+    FROM public.credentials
+    WHERE citizen_address = _address
+      AND (_credential_type IS NULL OR (
+        credential_type = _credential_type AND revoked_at IS NULL AND superseded_at IS NULL
+      ))
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.list_holder_credentials(_citizen_address TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.enforce_rate_limit('list_holder_credentials');
+
+  RETURN (
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'id', c.id,
+      'credentialType', c.credential_type,
+      'schemaVersion', c.schema_version,
+      'typeName', s.name,
+      'issuedAt', c.issued_at,
+      'expiryDate', c.expiry_date,
+      'revoked', c.revoked_at IS NOT NULL,
+      'superseded', c.superseded_at IS NOT NULL,
+      'status', public.credential_lifecycle_status(c.revoked_at, c.superseded_at, c.suspended_at, c.expiry_date::date)
+    ) ORDER BY c.issued_at DESC), '[]'::jsonb)
+    FROM public.credentials c
+    LEFT JOIN public.credential_schemas s
+      ON s.credential_type = c.credential_type AND s.version = c.schema_version
+    WHERE c.citizen_address = _citizen_address
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.request_verification_consent(
+  _citizen_address TEXT,
+  _fields TEXT[],
+  _purpose TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  citizen_id UUID;
+  new_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Sign in to request access');
+  END IF;
+
+  PERFORM public.enforce_rate_limit('request_verification_consent');
+
+  IF _fields IS NULL OR cardinality(_fields) = 0
+    OR NOT (_fields <@ ARRAY['fullName', 'nationalId', 'dateOfBirth', 'attributes']) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Choose the fields you need');
+  END IF;
+
+  IF COALESCE(btrim(_purpose), '') = '' OR char_length(btrim(_purpose)) > 500 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Explain why you need the data (up to 500 characters)');
+  END IF;
+
+  SELECT user_id INTO citizen_id
+  FROM public.profiles
+  WHERE LOWER(wallet_address) = LOWER(_citizen_address);
+
+  IF citizen_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'No citizen account is linked to this address');
+  END IF;
+
+  IF citizen_id = auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'You cannot request access to your own data');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.verification_consents
+    WHERE verifier_user_id = auth.uid() AND citizen_user_id = citizen_id AND status = 'pending'
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'You already have a pending request for this citizen');
+  END IF;
+
+  INSERT INTO public.verification_consents (
+    verifier_user_id, verifier_label, citizen_user_id, citizen_address, requested_fields, purpose
+  )
+  VALUES (
+    auth.uid(),
+    (SELECT username FROM public.profiles WHERE user_id = auth.uid()),
+    citizen_id,
+    _citizen_address,
+    ARRAY(SELECT DISTINCT unnest(_fields) ORDER BY 1),
+    btrim(_purpose)
+  )
+  RETURNING id INTO new_id;
+
+  RETURN jsonb_build_object('success', true, 'id', new_id);
+END;
+$$;
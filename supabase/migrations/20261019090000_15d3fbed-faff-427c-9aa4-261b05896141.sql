@@ -0,0 +1,30 @@
+-- Refuse API keys whose partner account has since been made an administrator
+-- create_verifier_api_key only checks the account when the key is created. A key of an account
+-- promoted later would otherwise see everything an administrator sees and skip rate limits.
+CREATE OR REPLACE FUNCTION public.act_as_api_verifier(_api_key TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  verifier_id UUID;
+BEGIN
+  UPDATE public.verifier_api_keys
+  SET last_used_at = now()
+  WHERE key_hash = encode(sha256(convert_to(COALESCE(_api_key, ''), 'UTF8')), 'hex')
+    AND revoked_at IS NULL
+    AND NOT public.has_role(verifier_user_id, 'admin'::app_role)
+  RETURNING verifier_user_id INTO verifier_id;
+
+  IF verifier_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  PERFORM set_config('request.jwt.claim.sub', verifier_id::text, true);
+  PERFORM set_config('request.jwt.claims', jsonb_build_object('sub', verifier_id, 'role', 'authenticated')::text, true);
+  PERFORM set_config('request.headers', '{}', true);
+  RETURN true;
+END;
+$$;
@@ -0,0 +1,45 @@
+-- Rate limit the credential face similarity check
+-- Like the profile face checks, it counts against a limit per user and IP instead of sleeping, so
+-- it can no longer be used to probe which faces hold credentials.
+INSERT INTO public.rate_limit_policies (function_name, max_calls, window_seconds, lockout_seconds, max_lockout_seconds)
+VALUES ('check_credential_face_similarity', 10, 300, 300, 86400);
+
+CREATE OR REPLACE FUNCTION public.check_credential_face_similarity(
+  _descriptor float8[],
+  _threshold float8 DEFAULT 0.6,
+  _exclude_address TEXT DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  existing_descriptor float8[];
+  distance float8;
+BEGIN
+  PERFORM public.enforce_rate_limit('check_credential_face_similarity');
+
+  -- Check credentials table for similar faces
+  FOR existing_descriptor IN
+    SELECT face_descriptor
+    FROM public.credentials
+    WHERE face_descriptor IS NOT NULL
+      AND (_exclude_address IS NULL OR LOWER(citizen_address) <> LOWER(_exclude_address))
+  LOOP
+    -- Calculate Euclidean distance between descriptors
+    SELECT SQRT(SUM(POWER(a.val - b.val, 2)))
+    INTO distance
+    FROM (SELECT unnest(_descriptor) as val, generate_subscripts(_descriptor, 1) as idx) a
+    JOIN (SELECT unnest(existing_descriptor) as val, generate_subscripts(existing_descriptor, 1) as idx) b
+    ON a.idx = b.idx;
+
+    IF distance < _threshold THEN
+      RETURN true;
+    END IF;
+  END LOOP;
+
+  RETURN false;
+END;
+$$;
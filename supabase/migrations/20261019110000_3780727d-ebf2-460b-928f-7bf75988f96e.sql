@@ -0,0 +1,150 @@
+-- Record checks made without signing in
+-- verify_credential returned to unauthenticated callers before recording the check, so they were
+-- missing from the citizen's verification history. They are recorded without a verifier and with
+-- nothing disclosed.
+CREATE OR REPLACE FUNCTION public.verify_credential(
+  _citizen_address TEXT,
+  _credential_id UUID DEFAULT NULL,
+  _credential_hash TEXT DEFAULT NULL,
+  _consent_token TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cred RECORD;
+  cred_json JSONB;
+  successor_id UUID;
+  status TEXT;
+  personal_fields TEXT[] := ARRAY['fullName', 'nationalId', 'dateOfBirth', 'attributes'];
+  disclosed TEXT[] := '{}';
+  consent_error TEXT;
+  status_error TEXT;
+BEGIN
+  PERFORM public.enforce_rate_limit('verify_credential');
+
+  SELECT * INTO cred
+  FROM public.credentials
+  WHERE citizen_address = _citizen_address
+    AND (_credential_id IS NULL OR id = _credential_id)
+    AND (_credential_hash IS NULL OR LOWER(credential_hash) = LOWER(_credential_hash))
+  ORDER BY (revoked_at IS NULL AND superseded_at IS NULL) DESC, issued_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'isValid', false,
+      'error', 'No credential found for this address'
+    );
+  END IF;
+
+  status := public.credential_lifecycle_status(
+    cred.revoked_at, cred.superseded_at, cred.suspended_at, cred.expiry_date::date
+  );
+
+  status_error := CASE status
+    WHEN 'active' THEN NULL
+    WHEN 'revoked' THEN 'Credential has been revoked'
+    WHEN 'superseded' THEN 'Credential has been renewed'
+    WHEN 'suspended' THEN 'Credential is suspended'
+    ELSE 'Credential has expired'
+  END;
+
+  -- Unauthenticated callers learn whether the credential is valid and nothing else
+  IF auth.uid() IS NULL THEN
+    PERFORM public.log_verification_event(
+      cred.id,
+      cred.citizen_user_id,
+      'lookup',
+      CASE status WHEN 'active' THEN 'valid' ELSE status END,
+      '{}'
+    );
+    RETURN jsonb_build_object('isValid', status = 'active', 'status', status, 'error', status_error);
+  END IF;
+
+  -- Issuers and the holder see everything; other verifiers what the citizen consented to
+  IF public.has_role(auth.uid(), 'admin'::app_role) OR auth.uid() = cred.citizen_user_id THEN
+    disclosed := personal_fields;
+  ELSIF _consent_token IS NOT NULL THEN
+    SELECT requested_fields INTO disclosed
+    FROM public.verification_consents
+    WHERE token = _consent_token
+      AND status = 'approved'
+      AND expires_at > now()
+      AND verifier_user_id = auth.uid()
+      AND citizen_user_id = cred.citizen_user_id;
+
+    IF disclosed IS NULL THEN
+      disclosed := '{}';
+      consent_error := 'Consent has expired, was withdrawn or does not cover this credential';
+    END IF;
+  END IF;
+
+  SELECT id INTO successor_id
+  FROM public.credentials
+  WHERE renews_credential_id = cred.id;
+
+  cred_json := jsonb_build_object(
+    'id', cred.id,
+    'expiryDate', cred.expiry_date,
+    'issuerAddress', cred.issuer_address,
+    'issuedAt', cred.issued_at,
+    'credentialHash', cred.credential_hash,
+    'signature', cred.signature,
+    'signatureScheme', cred.signature_scheme,
+    'chainId', cred.chain_id,
+    'contractAddress', cred.contract_address,
+    'contractVersion', cred.contract_version,
+    'credentialType', cred.credential_type,
+    'schemaVersion', cred.schema_version,
+    'renewsCredentialId', cred.renews_credential_id,
+    'renewedByCredentialId', successor_id,
+    'supersededAt', cred.superseded_at,
+    'suspendedAt', cred.suspended_at,
+    'revokedAt', cred.revoked_at,
+    'statusListIndex', cred.status_list_index,
+    'merkleRoot', cred.merkle_root,
+    'merkleProof', cred.merkle_proof,
+    'status', status,
+    'withheldFields', to_jsonb(ARRAY(SELECT f FROM unnest(personal_fields) AS f WHERE f <> ALL (disclosed)))
+  );
+
+  IF 'fullName' = ANY (disclosed) THEN
+    cred_json := cred_json || jsonb_build_object('fullName', cred.full_name);
+  END IF;
+  IF 'nationalId' = ANY (disclosed) THEN
+    cred_json := cred_json || jsonb_build_object('nationalId', cred.national_id);
+  END IF;
+  IF 'dateOfBirth' = ANY (disclosed) THEN
+    cred_json := cred_json || jsonb_build_object('dateOfBirth', cred.date_of_birth);
+  END IF;
+  IF 'attributes' = ANY (disclosed) THEN
+    cred_json := cred_json || jsonb_build_object('attributes', cred.attributes);
+  END IF;
+  -- The canonical payload contains every claim, so it is only returned when nothing is withheld
+  IF disclosed @> personal_fields THEN
+    cred_json := cred_json || jsonb_build_object('canonicalPayload', cred.canonical_payload);
+  END IF;
+
+  PERFORM public.log_verification_event(
+    cred.id,
+    cred.citizen_user_id,
+    'lookup',
+    CASE status WHEN 'active' THEN 'valid' ELSE status END,
+    ARRAY(SELECT f FROM unnest(disclosed) AS f WHERE f <> 'attributes')
+      || CASE WHEN 'attributes' = ANY (disclosed)
+        THEN ARRAY(SELECT jsonb_object_keys(cred.attributes) ORDER BY 1)
+        ELSE '{}'::TEXT[] END
+  );
+
+  RETURN jsonb_build_object(
+    'isValid', status = 'active',
+    'error', status_error,
+    'consentError', consent_error,
+    'credential', cred_json
+  );
+END;
+$$;
@@ -0,0 +1,348 @@
+-- Record credential actions in the database instead of from the app
+-- Issuance, revocation and lookups were recorded by the browser after the fact, so an admin client
+-- could leave them out or write entries that never happened, and any signed-in user could append
+-- lookups of their choosing. Like role changes, they are now recorded where they happen: a trigger
+-- on credentials records issuance and renewal, transition_credential_status every status change
+-- with its reason, and verify_credential the lookups of signed-in callers. record_audit_event is
+-- removed; the app no longer writes to the audit log.
+ALTER TABLE public.audit_log
+DROP CONSTRAINT audit_log_action_check;
+
+ALTER TABLE public.audit_log
+ADD CONSTRAINT audit_log_action_check CHECK (action IN (
+  'credential.issued',
+  'credential.revoked',
+  'credential.suspended',
+  'credential.reinstated',
+  'credential.superseded',
+  'credential.lookup',
+  'role.granted',
+  'role.removed'
+));
+
+DROP FUNCTION IF EXISTS public.record_audit_event(TEXT, TEXT, UUID, JSONB);
+
+-- Issuance, and the renewal that supersedes a predecessor, whichever way the row is written
+CREATE OR REPLACE FUNCTION public.audit_credential_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.append_audit_entry(
+      auth.uid(),
+      'credential.issued',
+      NEW.citizen_address,
+      NEW.id,
+      jsonb_strip_nulls(jsonb_build_object(
+        'credentialType', NEW.credential_type,
+        'schemaVersion', NEW.schema_version,
+        'credentialHash', NEW.credential_hash,
+        'txHash', NEW.issuance_tx_hash,
+        'renewsCredentialId', NEW.renews_credential_id
+      ))
+    );
+  ELSIF OLD.superseded_at IS NULL AND NEW.superseded_at IS NOT NULL THEN
+    PERFORM public.append_audit_entry(
+      auth.uid(),
+      'credential.superseded',
+      NEW.citizen_address,
+      NEW.id,
+      jsonb_build_object('reasonCode', 'renewed')
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER audit_credential_change
+  AFTER INSERT OR UPDATE ON public.credentials
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_credential_change();
+
+-- Suspension, reinstatement and revocation are recorded with their reason
+CREATE OR REPLACE FUNCTION public.transition_credential_status(
+  _credential_id UUID,
+  _action TEXT,
+  _reason_code TEXT,
+  _note TEXT DEFAULT NULL,
+  _tx_hash TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cred RECORD;
+  current_status TEXT;
+  next_status TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin'::app_role) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only administrators can change credential status');
+  END IF;
+
+  IF _reason_code = 'other' AND COALESCE(btrim(_note), '') = '' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'A note is required when the reason is "other"');
+  END IF;
+
+  SELECT * INTO cred
+  FROM public.credentials
+  WHERE id = _credential_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Credential not found');
+  END IF;
+
+  current_status := public.credential_lifecycle_status(
+    cred.revoked_at, cred.superseded_at, cred.suspended_at, cred.expiry_date::date
+  );
+
+  IF _action = 'suspend' AND current_status = 'active' THEN
+    IF _reason_code NOT IN ('under_investigation', 'suspected_fraud', 'holder_request', 'lost_or_stolen', 'data_error', 'other') THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Invalid suspension reason');
+    END IF;
+    UPDATE public.credentials
+    SET suspended_at = now(), suspended_by = auth.uid()
+    WHERE id = _credential_id;
+  ELSIF _action = 'reinstate' AND current_status = 'suspended' THEN
+    IF _reason_code NOT IN ('investigation_cleared', 'holder_request', 'data_corrected', 'other') THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Invalid reinstatement reason');
+    END IF;
+    UPDATE public.credentials
+    SET suspended_at = NULL, suspended_by = NULL
+    WHERE id = _credential_id;
+  ELSIF _action = 'revoke' AND current_status IN ('active', 'suspended', 'expired') THEN
+    IF _reason_code NOT IN ('fraud_confirmed', 'lost_or_stolen', 'data_error', 'holder_request', 'deceased', 'entitlement_ended', 'other') THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Invalid revocation reason');
+    END IF;
+    UPDATE public.credentials
+    SET revoked_at = now(), revoked_by = auth.uid(), revocation_tx_hash = _tx_hash
+    WHERE id = _credential_id;
+  ELSE
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', format('Cannot %s a credential that is %s', _action, current_status)
+    );
+  END IF;
+
+  SELECT public.credential_lifecycle_status(revoked_at, superseded_at, suspended_at, expiry_date::date)
+  INTO next_status
+  FROM public.credentials
+  WHERE id = _credential_id;
+
+  INSERT INTO public.credential_status_events (
+    credential_id, action, from_status, to_status, reason_code, note, actor_user_id
+  ) VALUES (
+    _credential_id, _action, current_status, next_status, _reason_code, NULLIF(btrim(_note), ''), auth.uid()
+  );
+
+  PERFORM public.append_audit_entry(
+    auth.uid(),
+    CASE _action
+      WHEN 'suspend' THEN 'credential.suspended'
+      WHEN 'reinstate' THEN 'credential.reinstated'
+      ELSE 'credential.revoked'
+    END,
+    cred.citizen_address,
+    _credential_id,
+    jsonb_strip_nulls(jsonb_build_object(
+      'reasonCode', _reason_code,
+      'note', NULLIF(btrim(_note), ''),
+      'txHash', _tx_hash,
+      'fromStatus', current_status,
+      'toStatus', next_status
+    ))
+  );
+
+  RETURN jsonb_build_object('success', true, 'fromStatus', current_status, 'toStatus', next_status);
+END;
+$$;
+
+-- Lookups by signed-in callers are recorded, including those of partner API keys
+CREATE OR REPLACE FUNCTION public.verify_credential(
+  _citizen_address TEXT,
+  _credential_id UUID DEFAULT NULL,
+  _credential_hash TEXT DEFAULT NULL,
+  _consent_token TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cred RECORD;
+  cred_json JSONB;
+  successor_id UUID;
+  status TEXT;
+  personal_fields TEXT[] := ARRAY['fullName', 'nationalId', 'dateOfBirth', 'attributes'];
+  disclosed TEXT[] := '{}';
+  consent_error TEXT;
+  status_error TEXT;
+BEGIN
+  PERFORM public.enforce_rate_limit('verify_credential');
+
+  SELECT * INTO cred
+  FROM public.credentials
+  WHERE citizen_address = _citizen_address
+    AND (_credential_id IS NULL OR id = _credential_id)
+    AND (_credential_hash IS NULL OR LOWER(credential_hash) = LOWER(_credential_hash))
+  ORDER BY (revoked_at IS NULL AND superseded_at IS NULL) DESC, issued_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    IF auth.uid() IS NOT NULL THEN
+      PERFORM public.append_audit_entry(
+        auth.uid(), 'credential.lookup', _citizen_address, NULL, jsonb_build_object('isValid', false)
+      );
+    END IF;
+    RETURN jsonb_build_object(
+      'isValid', false,
+      'error', 'No credential found for this address'
+    );
+  END IF;
+
+  status := public.credential_lifecycle_status(
+    cred.revoked_at, cred.superseded_at, cred.suspended_at, cred.expiry_date::date
+  );
+
+  status_error := CASE status
+    WHEN 'active' THEN NULL
+    WHEN 'revoked' THEN 'Credential has been revoked'
+    WHEN 'superseded' THEN 'Credential has been renewed'
+    WHEN 'suspended' THEN 'Credential is suspended'
+    ELSE 'Credential has expired'
+  END;
+
+  -- Unauthenticated callers learn whether the credential is valid and nothing else
+  IF auth.uid() IS NULL THEN
+    PERFORM public.log_verification_event(
+      cred.id,
+      cred.citizen_user_id,
+      'lookup',
+      CASE status WHEN 'active' THEN 'valid' ELSE status END,
+      '{}'
+    );
+    RETURN jsonb_build_object('isValid', status = 'active', 'status', status, 'error', status_error);
+  END IF;
+
+  -- Issuers and the holder see everything; other verifiers what the citizen consented to
+  IF public.has_role(auth.uid(), 'admin'::app_role) OR auth.uid() = cred.citizen_user_id THEN
+    disclosed := personal_fields;
+  ELSIF _consent_token IS NOT NULL THEN
+    SELECT requested_fields INTO disclosed
+    FROM public.verification_consents
+    WHERE token = _consent_token
+      AND status = 'approved'
+      AND expires_at > now()
+      AND verifier_user_id = auth.uid()
+      AND citizen_user_id = cred.citizen_user_id;
+
+    IF disclosed IS NULL THEN
+      disclosed := '{}';
+      consent_error := 'Consent has expired, was withdrawn or does not cover this credential';
+    END IF;
+  END IF;
+
+  SELECT id INTO successor_id
+  FROM public.credentials
+  WHERE renews_credential_id = cred.id;
+
+  cred_json := jsonb_build_object(
+    'id', cred.id,
+    'expiryDate', cred.expiry_date,
+    'issuerAddress', cred.issuer_address,
+    'issuedAt', cred.issued_at,
+    'credentialHash', cred.credential_hash,
+    'signature', cred.signature,
+    'signatureScheme', cred.signature_scheme,
+    'chainId', cred.chain_id,
+    'contractAddress', cred.contract_address,
+    'contractVersion', cred.contract_version,
+    'credentialType', cred.credential_type,
+    'schemaVersion', cred.schema_version,
+    'renewsCredentialId', cred.renews_credential_id,
+    'renewedByCredentialId', successor_id,
+    'supersededAt', cred.superseded_at,
+    'suspendedAt', cred.suspended_at,
+    'revokedAt', cred.revoked_at,
+    'statusListIndex', cred.status_list_index,
+    'merkleRoot', cred.merkle_root,
+    'merkleProof', cred.merkle_proof,
+    'status', status,
+    'withheldFields', to_jsonb(ARRAY(SELECT f FROM unnest(personal_fields) AS f WHERE f <> ALL (disclosed)))
+  );
+
+  IF 'fullName' = ANY (disclosed) THEN
+    cred_json := cred_json || jsonb_build_object('fullName', cred.full_name);
+  END IF;
+  IF 'nationalId' = ANY (disclosed) THEN
+    cred_json := cred_json || jsonb_build_object('nationalId', cred.national_id);
+  END IF;
+  IF 'dateOfBirth' = ANY (disclosed) THEN
+    cred_json := cred_json || jsonb_build_object('dateOfBirth', cred.date_of_birth);
+  END IF;
+  IF 'attributes' = ANY (disclosed) THEN
+    cred_json := cred_json || jsonb_build_object('attributes', cred.attributes);
+  END IF;
+  -- The canonical payload contains every claim, so it is only returned when nothing is withheld
+  IF disclosed @> personal_fields THEN
+    cred_json := cred_json || jsonb_build_object('canonicalPayload', cred.canonical_payload);
+  END IF;
+
+  PERFORM public.log_verification_event(
+    cred.id,
+    cred.citizen_user_id,
+    'lookup',
+    CASE status WHEN 'active' THEN 'valid' ELSE status END,
+    ARRAY(SELECT f FROM unnest(disclosed) AS f WHERE f <> 'attributes')
+      || CASE WHEN 'attributes' = ANY (disclosed)
+        THEN ARRAY(SELECT jsonb_object_keys(cred.attributes) ORDER BY 1)
+        ELSE '{}'::TEXT[] END
+  );
+
+  PERFORM public.append_audit_entry(
+    auth.uid(),
+    'credential.lookup',
+    cred.citizen_address,
+    cred.id,
+    jsonb_build_object('isValid', status = 'active', 'status', status, 'disclosedFields', to_jsonb(disclosed))
+  );
+
+  RETURN jsonb_build_object(
+    'isValid', status = 'active',
+    'error', status_error,
+    'consentError', consent_error,
+    'credential', cred_json
+  );
+END;
+$$;
+
+-- verify_credential records the lookup
+CREATE OR REPLACE FUNCTION public.api_verify_credential(
+  _api_key TEXT,
+  _citizen_address TEXT,
+  _credential_id UUID DEFAULT NULL,
+  _credential_hash TEXT DEFAULT NULL,
+  _consent_token TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.act_as_api_verifier(_api_key) THEN
+    RETURN jsonb_build_object('isValid', false, 'unauthorized', true, 'error', 'Invalid or revoked API key');
+  END IF;
+
+  RETURN public.verify_credential(_citizen_address, _credential_id, _credential_hash, _consent_token);
+END;
+$$;
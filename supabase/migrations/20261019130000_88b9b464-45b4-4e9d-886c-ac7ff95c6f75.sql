@@ -0,0 +1,93 @@
+-- Reserve status list positions before issuance
+-- Since canonical payload version 3 the issuer signs the credential's status list position, so the
+-- position is chosen before the hash is computed and anchored instead of by the column default at
+-- insert. A reservation keeps two issuances from signing the same position; it is released when
+-- the credential is stored, or after an hour if the issuance was abandoned.
+CREATE TABLE public.status_list_reservations (
+  status_list_index INTEGER NOT NULL PRIMARY KEY,
+  reserved_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  reserved_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- No policies: only the functions below read and write reservations
+ALTER TABLE public.status_list_reservations ENABLE ROW LEVEL SECURITY;
+
+-- Reserved positions are taken as well. Security definer so the column default sees reservations.
+CREATE OR REPLACE FUNCTION public.next_status_list_index()
+RETURNS INTEGER
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Keep in sync with STATUS_LIST_SIZE in src/lib/status-list.ts
+  list_size CONSTANT INTEGER := 131072;
+  candidate INTEGER;
+BEGIN
+  -- Random positions give each holder herd privacy within the list
+  FOR attempt IN 1..1000 LOOP
+    candidate := floor(random() * list_size)::INTEGER;
+    IF NOT EXISTS (SELECT 1 FROM public.credentials WHERE status_list_index = candidate)
+      AND NOT EXISTS (SELECT 1 FROM public.status_list_reservations WHERE status_list_index = candidate) THEN
+      RETURN candidate;
+    END IF;
+  END LOOP;
+
+  RAISE EXCEPTION 'Status list is full';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reserve_status_list_index()
+RETURNS JSONB
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  reserved INTEGER;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin'::app_role) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only administrators can issue credentials');
+  END IF;
+
+  DELETE FROM public.status_list_reservations
+  WHERE reserved_at < now() - interval '1 hour';
+
+  -- A concurrent reservation of the same position makes the insert a no-op; pick again
+  FOR attempt IN 1..10 LOOP
+    INSERT INTO public.status_list_reservations (status_list_index, reserved_by)
+    VALUES (public.next_status_list_index(), auth.uid())
+    ON CONFLICT (status_list_index) DO NOTHING
+    RETURNING status_list_index INTO reserved;
+
+    IF reserved IS NOT NULL THEN
+      RETURN jsonb_build_object('success', true, 'statusListIndex', reserved);
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('success', false, 'error', 'No free status list position could be reserved');
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reserve_status_list_index() TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.release_status_list_reservation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.status_list_reservations
+  WHERE status_list_index = NEW.status_list_index;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER release_status_list_reservation
+AFTER INSERT ON public.credentials
+FOR EACH ROW
+EXECUTE FUNCTION public.release_status_list_reservation();